@@ -0,0 +1,33 @@
+/**
+ * Jest - testes unitários (sem banco) e de integração (PostgreSQL real)
+ * npm test roda os dois; npm run test:unit / test:integration separam
+ */
+
+/** @type {import('jest').Config} */
+const base = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // Só transpila: a checagem de tipos, com os testes, é a do npm run type-check
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }]
+  }
+};
+
+module.exports = {
+  // Transações interativas esperam a vez na fila de conexões do Prisma
+  testTimeout: 60000,
+  projects: [
+    {
+      ...base,
+      displayName: 'unit',
+      testMatch: ['<rootDir>/src/__tests__/unit/**/*.test.ts']
+    },
+    {
+      ...base,
+      displayName: 'integration',
+      testMatch: ['<rootDir>/src/__tests__/integration/**/*.test.ts'],
+      globalSetup: '<rootDir>/src/__tests__/integration/setup/globalSetup.ts',
+      globalTeardown: '<rootDir>/src/__tests__/integration/setup/globalTeardown.ts'
+    }
+  ]
+};
@@ -0,0 +1,46 @@
+/**
+ * Checkout de venda no PostgreSQL - preço somado em centavos e acréscimo
+ * gravado na venda (preço - desconto + acréscimo = total)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { VendaService } from '../../services/vendaService';
+import { UnitOfWork } from '../../repositories/UnitOfWork';
+import { criarTenant, criarProdutoComEstoque, authGerente } from './setup/fixtures';
+
+const prisma = new PrismaClient();
+const vendaService = new VendaService(new UnitOfWork(prisma));
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('checkout de venda', () => {
+  it('soma o preço em centavos e grava o acréscimo', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+    const { produto: bala } = await criarProdutoComEstoque(prisma, tenantId, { quantidadeAtual: 10 });
+    const { produto: chiclete } = await criarProdutoComEstoque(prisma, tenantId, { quantidadeAtual: 10 });
+
+    // 0,10 + 0,20 em ponto flutuante dá 0,30000000000000004
+    const result = await vendaService.checkout(
+      {
+        formaPagamento: 'DINHEIRO',
+        acrescimo: 1.5,
+        itens: [
+          { produtoId: bala.id, quantidade: 1, precoUnitario: 0.1 },
+          { produtoId: chiclete.id, quantidade: 1, precoUnitario: 0.2 }
+        ]
+      },
+      authGerente(tenantId)
+    );
+
+    expect(result).toMatchObject({ success: true });
+    const venda = await prisma.venda.findUniqueOrThrow({ where: { id: result.data.id } });
+    expect({
+      preco: Number(venda.preco),
+      desconto: Number(venda.desconto),
+      acrescimo: Number(venda.acrescimo),
+      total: Number(venda.total)
+    }).toEqual({ preco: 0.3, desconto: 0, acrescimo: 1.5, total: 1.8 });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Exportação do relatório de vendas - seções e colunas do CSV gerado a partir
+ * das vendas do banco (mesmo conteúdo usado no XLSX e no PDF)
+ */
+
+import { PassThrough } from 'stream';
+import { PrismaClient } from '@prisma/client';
+import { gerarDocumento, nomeArquivoExportacao, RELATORIOS_EXPORTAVEIS } from '../../services/exportacaoService';
+import { renderizarDocumento } from '../../services/exportacaoRenderer';
+import { criarTenant, criarProdutoComEstoque, criarVenda } from './setup/fixtures';
+
+const prisma = new PrismaClient();
+
+const PARAMETROS = { dataInicio: '2025-03-01', dataFim: '2025-03-31' };
+
+async function gerarCsv(tenantId: string): Promise<string> {
+  const destino = new PassThrough();
+  const partes: Buffer[] = [];
+  destino.on('data', (parte: Buffer) => partes.push(parte));
+  await renderizarDocumento('csv', await gerarDocumento('vendas', tenantId, PARAMETROS), destino);
+  return Buffer.concat(partes).toString('utf8').slice(1);
+}
+
+/**
+ * Linhas de uma seção do CSV: do título até a linha em branco seguinte
+ */
+function secaoCsv(csv: string, titulo: string): string[] {
+  const linhas = csv.split('\r\n');
+  const inicio = linhas.indexOf(titulo);
+  if (inicio < 0) throw new Error(`Seção ${titulo} não encontrada`);
+  const fim = linhas.indexOf('', inicio);
+  return linhas.slice(inicio + 1, fim < 0 ? undefined : fim);
+}
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('exportação do relatório de vendas', () => {
+  it('escreve cada seção com as colunas do relatório e valores líquidos', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+    const { produto } = await criarProdutoComEstoque(prisma, tenantId, { unidadeMedida: 'KG' });
+    // 10/03 às 10h em São Paulo: 1,5 kg por 30,00, com 0,25 kg (5,00) devolvido
+    await criarVenda(prisma, tenantId, {
+      dataVenda: new Date('2025-03-10T13:00:00Z'),
+      total: 30,
+      valorDevolvido: 5,
+      formaPagamento: 'PIX',
+      itens: [{ produtoId: produto.id, quantidade: 1.5, subtotal: 30, quantidadeDevolvida: 0.25 }]
+    });
+
+    const csv = await gerarCsv(tenantId);
+
+    expect(csv.split('\r\n').slice(0, 2)).toEqual([
+      'Relatório de vendas',
+      'Período de 01/03/2025 a 31/03/2025 (America/Sao_Paulo), comparado a 29/01/2025 a 28/02/2025'
+    ]);
+    expect(secaoCsv(csv, 'Resumo')).toEqual([
+      'Período;Início;Fim;Vendas;Faturamento;Ticket médio',
+      'Atual;01/03/2025;31/03/2025;1;25,00;25,00',
+      'Anterior;29/01/2025;28/02/2025;0;0,00;0,00'
+    ]);
+    expect(secaoCsv(csv, 'Crescimento')).toEqual([
+      'Indicador;Sobre o período anterior',
+      'Vendas;',
+      'Faturamento;',
+      'Ticket médio;'
+    ]);
+    expect(secaoCsv(csv, 'Vendas por hora')).toEqual(['Hora;Vendas;Faturamento', '10h;1;25,00']);
+    expect(secaoCsv(csv, 'Formas de pagamento')).toEqual([
+      'Forma;Vendas;Pagamentos;Valor pago;Valor líquido;Troco',
+      'PIX;1;1;30,00;25,00;0,00'
+    ]);
+    expect(secaoCsv(csv, 'Vendas por categoria')).toEqual(['Categoria;Quantidade;Valor', 'Sem categoria;1,25;25,00']);
+    expect(secaoCsv(csv, 'Produtos mais vendidos')).toEqual(['Produto;Quantidade;Valor', 'Produto de teste;1,25;25,00']);
+    expect(secaoCsv(csv, 'Vendas por dia')).toEqual(['Dia;Vendas;Faturamento', '10/03/2025;1;25,00']);
+  });
+
+  it('monta o nome do arquivo com o período e a extensão do formato', () => {
+    expect(nomeArquivoExportacao('vendas', PARAMETROS, 'xlsx')).toBe('relatorio-vendas-2025-03-01_2025-03-31.xlsx');
+  });
+
+  it('valida o período com as regras do endpoint JSON', () => {
+    expect(RELATORIOS_EXPORTAVEIS.vendas.validar({})).toEqual(['Data início e data fim são obrigatórias']);
+    expect(RELATORIOS_EXPORTAVEIS.vendas.validar(PARAMETROS)).toEqual([]);
+  });
+});
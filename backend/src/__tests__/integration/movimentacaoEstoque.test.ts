@@ -0,0 +1,213 @@
+/**
+ * Movimentação de estoque concorrente - bloqueio da linha de estoque no PostgreSQL
+ * Dispara ENTRADA/SAIDA em paralelo no mesmo produto e confere saldo e histórico;
+ * ajuste de saldo pelo cadastro de estoque exige aprovação como o AJUSTE
+ */
+
+import { Response } from 'express';
+import { PrismaClient, MovimentacaoEstoque } from '@prisma/client';
+import { movimentarEstoque, criarOuAtualizarEstoque } from '../../controllers/estoqueController';
+import { EstoqueRepository } from '../../repositories/EstoqueRepository';
+import { TransactionClient } from '../../repositories/IUnitOfWork';
+import { AuthContext } from '../../config/jwtConfig';
+import { criarTenant, criarProdutoComEstoque, authGerente } from './setup/fixtures';
+
+const prisma = new PrismaClient();
+
+type Movimento = { tipo: 'ENTRADA' | 'SAIDA'; quantidade: number };
+type ControllerEstoque = typeof movimentarEstoque;
+type EstoqueRequest = Parameters<ControllerEstoque>[0];
+
+interface RespostaController {
+  status: number;
+  corpo: unknown;
+}
+
+/**
+ * Chama o controller como o Express: resolve com status e corpo da resposta
+ * ou rejeita com o erro repassado ao next
+ */
+function chamarController(controller: ControllerEstoque, auth: AuthContext, body: Record<string, unknown>) {
+  return new Promise<RespostaController>((resolve, reject) => {
+    let status = 200;
+    // Os controllers só usam auth/body/header (sem If-Match) da requisição e status/json/set da resposta
+    const req: Pick<EstoqueRequest, 'auth' | 'body' | 'header'> = { auth, body, header: () => undefined };
+    const res: Pick<Response, 'status' | 'json' | 'set'> = {
+      status: (codigo: number) => {
+        status = codigo;
+        return res as Response;
+      },
+      json: (corpo: unknown) => {
+        resolve({ status, corpo });
+        return res as Response;
+      },
+      set: () => res as Response
+    };
+    controller(req as EstoqueRequest, res as Response, reject);
+  });
+}
+
+const chamarMovimentarEstoque = (auth: AuthContext, body: Record<string, unknown>) =>
+  chamarController(movimentarEstoque, auth, body);
+
+/**
+ * Baixa de venda (vendaService) na própria transação
+ */
+function registrarSaidaDeVenda(produtoId: string, tenantId: string, quantidade: number) {
+  return prisma.$transaction(tx =>
+    new EstoqueRepository(tx as TransactionClient).registrarSaida({
+      produtoId,
+      quantidade,
+      motivo: 'Venda de teste',
+      tenantId,
+      userId: 'usuario-teste'
+    })
+  );
+}
+
+/**
+ * Encadeia as movimentações a partir do saldo inicial pelo quantidadeAnterior
+ * Falha se algum saldo for o ponto de partida de mais de uma movimentação
+ * (atualização perdida) ou se sobrar movimentação fora da cadeia
+ */
+function encadear(movimentacoes: MovimentacaoEstoque[], saldoInicial: number): MovimentacaoEstoque[] {
+  const porSaldoAnterior = new Map<number, MovimentacaoEstoque[]>();
+  for (const movimentacao of movimentacoes) {
+    const anterior = Number(movimentacao.quantidadeAnterior);
+    porSaldoAnterior.set(anterior, [...(porSaldoAnterior.get(anterior) ?? []), movimentacao]);
+  }
+
+  const cadeia: MovimentacaoEstoque[] = [];
+  let saldo = saldoInicial;
+  while (porSaldoAnterior.has(saldo)) {
+    const seguintes = porSaldoAnterior.get(saldo)!;
+    if (seguintes.length > 1) {
+      throw new Error(`${seguintes.length} movimentações partiram do saldo ${saldo}`);
+    }
+    porSaldoAnterior.delete(saldo);
+    cadeia.push(seguintes[0]!);
+    saldo = Number(seguintes[0]!.quantidadeAtual);
+  }
+
+  if (porSaldoAnterior.size > 0) {
+    throw new Error(`Movimentações fora da cadeia: saldos ${[...porSaldoAnterior.keys()].join(', ')}`);
+  }
+  return cadeia;
+}
+
+const variacao = (movimentacao: { tipo: string; quantidade: unknown }) =>
+  (movimentacao.tipo === 'SAIDA' ? -1 : 1) * Number(movimentacao.quantidade);
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('movimentação de estoque concorrente', () => {
+  it('não perde atualizações com ENTRADA, SAIDA e baixas de venda em paralelo no mesmo produto', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+    const saldoInicial = 20000; // Cobre todas as saídas, mesmo que rodem antes das entradas
+    const { produto } = await criarProdutoComEstoque(prisma, tenantId, { quantidadeAtual: saldoInicial });
+    const auth = authGerente(tenantId);
+
+    // Potências de 2 distintas: cada saldo intermediário é único e a cadeia não é ambígua
+    const movimentos: Movimento[] = Array.from({ length: 12 }, (_, i) => ({
+      tipo: i % 2 === 0 ? 'ENTRADA' : 'SAIDA',
+      quantidade: 2 ** i
+    }));
+    const baixasDeVenda = [2 ** 12, 2 ** 13];
+
+    await Promise.all([
+      ...movimentos.map(({ tipo, quantidade }) =>
+        chamarMovimentarEstoque(auth, { produtoId: produto.id, tipo, quantidade, motivo: `${tipo} ${quantidade}` })
+      ),
+      ...baixasDeVenda.map(quantidade => registrarSaidaDeVenda(produto.id, tenantId, quantidade))
+    ]);
+
+    const soma = [...movimentos, ...baixasDeVenda.map(quantidade => ({ tipo: 'SAIDA', quantidade }))]
+      .reduce((total, movimento) => total + variacao(movimento), 0);
+    const estoque = await prisma.estoque.findFirst({ where: { produtoId: produto.id, tenantId } });
+    expect(Number(estoque!.quantidadeAtual)).toBe(saldoInicial + soma);
+
+    const movimentacoes = await prisma.movimentacaoEstoque.findMany({ where: { produtoId: produto.id, tenantId } });
+    expect(movimentacoes).toHaveLength(movimentos.length + baixasDeVenda.length);
+
+    const cadeia = encadear(movimentacoes, saldoInicial);
+    expect(cadeia).toHaveLength(movimentacoes.length);
+    for (const movimentacao of cadeia) {
+      expect(Number(movimentacao.quantidadeAtual) - Number(movimentacao.quantidadeAnterior)).toBe(variacao(movimentacao));
+    }
+    expect(Number(cadeia[cadeia.length - 1]!.quantidadeAtual)).toBe(saldoInicial + soma);
+  });
+
+  it('não vende além do saldo com saídas concorrentes', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+    const { produto } = await criarProdutoComEstoque(prisma, tenantId, { quantidadeAtual: 5 });
+    const auth = authGerente(tenantId);
+
+    const resultados = await Promise.allSettled([
+      ...Array.from({ length: 5 }, () =>
+        chamarMovimentarEstoque(auth, { produtoId: produto.id, tipo: 'SAIDA', quantidade: 1, motivo: 'Saída manual' })
+      ),
+      ...Array.from({ length: 5 }, () => registrarSaidaDeVenda(produto.id, tenantId, 1))
+    ]);
+
+    // Controller rejeita com 400; baixa de venda devolve null sem saldo
+    const baixas = resultados.filter(resultado => resultado.status === 'fulfilled' && resultado.value !== null);
+    const recusadas = resultados.filter(resultado => resultado.status === 'rejected');
+    expect(baixas).toHaveLength(5);
+    for (const recusada of recusadas) {
+      expect((recusada as PromiseRejectedResult).reason).toMatchObject({ statusCode: 400 });
+    }
+
+    const estoque = await prisma.estoque.findFirst({ where: { produtoId: produto.id, tenantId } });
+    expect(Number(estoque!.quantidadeAtual)).toBe(0);
+
+    const movimentacoes = await prisma.movimentacaoEstoque.findMany({ where: { produtoId: produto.id, tenantId } });
+    expect(encadear(movimentacoes, 5).map(m => Number(m.quantidadeAtual))).toEqual([4, 3, 2, 1, 0]);
+  });
+});
+
+describe('ajuste de saldo no cadastro de estoque', () => {
+  const operadorCaixa = (tenantId: string): AuthContext => ({
+    ...authGerente(tenantId, ['estoque:write', 'estoque:adjust']),
+    roleName: 'CAIXA'
+  });
+
+  it('exige aprovação do operador de caixa e mantém o saldo', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+    const { produto } = await criarProdutoComEstoque(prisma, tenantId, { quantidadeAtual: 10 });
+
+    const resposta = await chamarController(criarOuAtualizarEstoque, operadorCaixa(tenantId), {
+      produtoId: produto.id,
+      quantidadeAtual: 3
+    });
+
+    expect(resposta).toMatchObject({
+      status: 403,
+      corpo: { code: 'APPROVAL_REQUIRED', data: { operacao: 'AJUSTE_ESTOQUE' } }
+    });
+    const estoque = await prisma.estoque.findFirst({ where: { produtoId: produto.id, tenantId } });
+    expect(Number(estoque!.quantidadeAtual)).toBe(10);
+    expect(await prisma.movimentacaoEstoque.count({ where: { produtoId: produto.id, tenantId } })).toBe(0);
+  });
+
+  it('registra o ajuste do gerente na auditoria sem aprovador', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+    const { produto, estoque } = await criarProdutoComEstoque(prisma, tenantId, { quantidadeAtual: 10 });
+
+    const resposta = await chamarController(criarOuAtualizarEstoque, authGerente(tenantId, ['estoque:adjust']), {
+      produtoId: produto.id,
+      quantidadeAtual: 3,
+      motivo: 'Inventário'
+    });
+
+    expect(resposta.status).toBe(200);
+    const auditoria = await prisma.auditoriaEntry.findMany({ where: { entidadeId: estoque.id, tenantId } });
+    expect(auditoria).toHaveLength(1);
+    expect(auditoria[0]!.alteracoes).toMatchObject({
+      quantidadeAtual: { antes: '10', depois: '3' },
+      motivo: { antes: null, depois: 'Inventário' }
+    });
+    expect(auditoria[0]!.alteracoes).not.toHaveProperty('aprovadoPor');
+  });
+});
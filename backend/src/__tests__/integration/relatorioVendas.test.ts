@@ -0,0 +1,115 @@
+/**
+ * Relatório de vendas agregado no PostgreSQL - faturamento líquido de
+ * itens estornados e devoluções no resumo, nas séries, por produto/categoria
+ * e por forma de pagamento
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { VendaRepository, PeriodoLocal } from '../../repositories/VendaRepository';
+import { criarTenant, criarProdutoComEstoque, criarVenda } from './setup/fixtures';
+
+const prisma = new PrismaClient();
+const vendaRepository = new VendaRepository(prisma);
+
+const MARCO: Omit<PeriodoLocal, 'fusoHorario'> = { dataInicio: '2025-03-01', dataFim: '2025-03-31' };
+// 10/03 às 10h em São Paulo
+const DATA_VENDA = new Date('2025-03-10T13:00:00Z');
+
+/**
+ * Três vendas no mesmo dia e hora:
+ * - 100,00 (70,00 dinheiro + 30,00 PIX) com um item de 60,00 estornado → 40,00 líquidos
+ * - 50,00 (5 un) com 2 un devolvidas (20,00) → 30,00 líquidos
+ * - 999,00 cancelada → fora
+ */
+async function criarCenario() {
+  const { id: tenantId } = await criarTenant(prisma);
+  const { produto: pao } = await criarProdutoComEstoque(prisma, tenantId);
+  const { produto: bolo } = await criarProdutoComEstoque(prisma, tenantId);
+
+  await criarVenda(prisma, tenantId, {
+    dataVenda: DATA_VENDA,
+    total: 100,
+    valorEstornado: 60,
+    pagamentos: [
+      { forma: 'DINHEIRO', valor: 70 },
+      { forma: 'PIX', valor: 30 }
+    ],
+    itens: [
+      { produtoId: pao.id, quantidade: 2, subtotal: 40 },
+      { produtoId: bolo.id, quantidade: 3, subtotal: 60, status: 'ESTORNADA' }
+    ]
+  });
+  await criarVenda(prisma, tenantId, {
+    dataVenda: DATA_VENDA,
+    total: 50,
+    valorDevolvido: 20,
+    itens: [{ produtoId: pao.id, quantidade: 5, subtotal: 50, quantidadeDevolvida: 2 }]
+  });
+  await criarVenda(prisma, tenantId, {
+    dataVenda: DATA_VENDA,
+    total: 999,
+    status: 'CANCELADA',
+    itens: [{ produtoId: bolo.id, quantidade: 1, subtotal: 999 }]
+  });
+
+  return { tenantId, pao, bolo };
+}
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('VendaRepository - faturamento líquido', () => {
+  const periodo: PeriodoLocal = { ...MARCO, fusoHorario: 'America/Sao_Paulo' };
+
+  it('desconta estornos e devoluções do faturamento e do ticket médio', async () => {
+    const { tenantId } = await criarCenario();
+
+    expect(await vendaRepository.getSalesSummary(periodo, tenantId)).toEqual({
+      totalVendas: 2,
+      totalFaturamento: 70,
+      ticketMedio: 35
+    });
+  });
+
+  it('desconta estornos e devoluções das séries por dia e por hora', async () => {
+    const { tenantId } = await criarCenario();
+
+    const relatorio = await vendaRepository.getSalesReport(periodo, tenantId);
+    const porDia = [];
+    for await (const dia of vendaRepository.streamSalesByDay(periodo, tenantId, 7)) {
+      porDia.push(dia);
+    }
+
+    expect(relatorio.vendasPorHora).toEqual([{ hora: 10, vendas: 2, faturamento: 70 }]);
+    expect(relatorio.vendasPorDia).toEqual([{ dia: '2025-03-10', vendas: 2, faturamento: 70 }]);
+    expect(porDia).toEqual([{ dia: '2025-03-10', vendas: 2, faturamento: 70 }]);
+  });
+
+  it('exclui itens estornados e quantidades devolvidas por produto e categoria', async () => {
+    const { tenantId, pao } = await criarCenario();
+
+    const relatorio = await vendaRepository.getSalesReport(periodo, tenantId);
+
+    // Pão: 2 un (40,00) + 3 de 5 un não devolvidas (30,00); bolo só tem item estornado
+    expect(relatorio.topProdutos).toEqual([
+      { produtoId: pao.id, produto: pao.nome, quantidade: 5, valor: 70 }
+    ]);
+    expect(relatorio.vendasPorCategoria).toEqual([{ categoria: 'Sem categoria', quantidade: 5, valor: 70 }]);
+  });
+
+  it('reparte estornos e devoluções entre as formas de pagamento, com o valor pago ao lado', async () => {
+    const { tenantId } = await criarCenario();
+
+    const relatorio = await vendaRepository.getSalesReport(periodo, tenantId);
+
+    // 40,00 líquidos da venda dividida: 28,00 em dinheiro e 12,00 em PIX;
+    // a venda sem linhas de pagamento entra pelo cabeçalho (30,00 em dinheiro)
+    expect(relatorio.vendasPorFormaPagamento).toEqual([
+      { forma: 'DINHEIRO', vendas: 2, pagamentos: 2, valor: 58, valorBruto: 120, troco: 0 },
+      { forma: 'PIX', vendas: 1, pagamentos: 1, valor: 12, valorBruto: 30, troco: 0 }
+    ]);
+    const somaLiquida = relatorio.vendasPorFormaPagamento.reduce((soma, linha) => soma + linha.valor, 0);
+    expect(somaLiquida).toBe(70);
+  });
+});
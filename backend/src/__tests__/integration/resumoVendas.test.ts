@@ -0,0 +1,107 @@
+/**
+ * Resumos de vendas pré-agregados - recálculo no PostgreSQL com faturamento
+ * e quantidades líquidos de itens estornados e devoluções
+ */
+
+import { PrismaClient, OutboxEvento } from '@prisma/client';
+import { EVENTOS_RESUMO_VENDAS, recalcularResumoDaVenda } from '../../services/resumoVendasService';
+import { criarTenant, criarProdutoComEstoque, criarVenda } from './setup/fixtures';
+
+const prisma = new PrismaClient();
+
+// 10/03 às 10h em São Paulo
+const DATA_VENDA = new Date('2025-03-10T13:00:00Z');
+const DIA = new Date('2025-03-10T00:00:00Z');
+
+/**
+ * - 100,00 (70,00 dinheiro + 30,00 PIX) com um item de 60,00 estornado → 40,00 líquidos
+ * - 50,00 (5 un) com 2 un devolvidas (20,00) → 30,00 líquidos
+ * - 999,00 cancelada → só em canceladas
+ */
+async function criarCenario() {
+  const { id: tenantId } = await criarTenant(prisma);
+  const { produto: pao } = await criarProdutoComEstoque(prisma, tenantId);
+  const { produto: bolo } = await criarProdutoComEstoque(prisma, tenantId);
+
+  await criarVenda(prisma, tenantId, {
+    dataVenda: DATA_VENDA,
+    total: 100,
+    valorEstornado: 60,
+    pagamentos: [
+      { forma: 'DINHEIRO', valor: 70 },
+      { forma: 'PIX', valor: 30 }
+    ],
+    itens: [
+      { produtoId: pao.id, quantidade: 2, subtotal: 40 },
+      { produtoId: bolo.id, quantidade: 3, subtotal: 60, status: 'ESTORNADA' }
+    ]
+  });
+  const comDevolucao = await criarVenda(prisma, tenantId, {
+    dataVenda: DATA_VENDA,
+    total: 50,
+    valorDevolvido: 20,
+    itens: [{ produtoId: pao.id, quantidade: 5, subtotal: 50, quantidadeDevolvida: 2 }]
+  });
+  await criarVenda(prisma, tenantId, {
+    dataVenda: DATA_VENDA,
+    total: 999,
+    status: 'CANCELADA',
+    itens: [{ produtoId: bolo.id, quantidade: 1, subtotal: 999 }]
+  });
+
+  return { tenantId, pao, comDevolucao };
+}
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('resumos de vendas', () => {
+  it('grava faturamento e itens líquidos de estornos e devoluções', async () => {
+    const { tenantId, pao, comDevolucao } = await criarCenario();
+
+    await recalcularResumoDaVenda(comDevolucao.id, tenantId);
+
+    const diario = await prisma.resumoVendaDiario.findUnique({ where: { tenantId_dia: { tenantId, dia: DIA } } });
+    expect({
+      vendas: diario?.vendas,
+      faturamento: Number(diario?.faturamento),
+      itens: Number(diario?.itens),
+      canceladas: diario?.canceladas,
+      valorCancelado: Number(diario?.valorCancelado)
+    }).toEqual({ vendas: 2, faturamento: 70, itens: 5, canceladas: 1, valorCancelado: 999 });
+
+    const horario = await prisma.resumoVendaHorario.findMany({ where: { tenantId } });
+    expect(horario.map(h => ({ hora: h.hora, vendas: h.vendas, faturamento: Number(h.faturamento) })))
+      .toEqual([{ hora: 10, vendas: 2, faturamento: 70 }]);
+
+    // Pão: 2 un (40,00) + 3 de 5 un não devolvidas (30,00); bolo só tem item estornado
+    const produtos = await prisma.resumoVendaProduto.findMany({ where: { tenantId } });
+    expect(produtos.map(p => ({ produtoId: p.produtoId, quantidade: Number(p.quantidade), valor: Number(p.valor) })))
+      .toEqual([{ produtoId: pao.id, quantidade: 5, valor: 70 }]);
+
+    // 40,00 líquidos da venda dividida: 28,00 em dinheiro e 12,00 em PIX
+    const pagamentos = await prisma.resumoVendaPagamento.findMany({ where: { tenantId }, orderBy: { forma: 'asc' } });
+    expect(pagamentos.map(p => ({ forma: p.forma, vendas: p.vendas, valor: Number(p.valor), valorBruto: Number(p.valorBruto) })))
+      .toEqual([
+        { forma: 'DINHEIRO', vendas: 2, valor: 58, valorBruto: 120 },
+        { forma: 'PIX', vendas: 1, valor: 12, valorBruto: 30 }
+      ]);
+  });
+
+  it('recalcula o dia da venda quando a devolução é registrada', async () => {
+    const { tenantId, comDevolucao } = await criarCenario();
+    const evento = {
+      tipo: 'DevolucaoRegistrada',
+      agregadoId: 'id-da-devolucao',
+      payload: { vendaId: comDevolucao.id },
+      tenantId
+    } as unknown as OutboxEvento;
+
+    const vendaId = EVENTOS_RESUMO_VENDAS.DevolucaoRegistrada!(evento);
+    await recalcularResumoDaVenda(vendaId, tenantId);
+
+    expect(vendaId).toBe(comDevolucao.id);
+    expect(await prisma.resumoVendaDiario.count({ where: { tenantId, dia: DIA } })).toBe(1);
+  });
+});
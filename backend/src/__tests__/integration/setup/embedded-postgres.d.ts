@@ -0,0 +1,4 @@
+// embedded-postgres só declara "exports", ignorado pela resolução de módulos (node10) do tsconfig
+declare module 'embedded-postgres' {
+  export { default } from 'embedded-postgres/dist/index';
+}
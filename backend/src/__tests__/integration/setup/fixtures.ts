@@ -0,0 +1,115 @@
+/**
+ * Dados de teste - cada teste cria o próprio tenant, isolando os dados
+ * entre testes e execuções sem precisar limpar o banco
+ */
+
+import { randomUUID } from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthContext } from '../../../config/jwtConfig';
+
+export async function criarTenant(prisma: PrismaClient) {
+  return await prisma.tenant.create({
+    data: { nome: `Tenant de teste ${randomUUID()}` }
+  });
+}
+
+export async function criarProdutoComEstoque(
+  prisma: PrismaClient,
+  tenantId: string,
+  options: { quantidadeAtual?: number; precoVenda?: number; unidadeMedida?: string } = {}
+) {
+  const produto = await prisma.produto.create({
+    data: {
+      nome: 'Produto de teste',
+      precoVenda: new Prisma.Decimal(options.precoVenda ?? 10),
+      unidadeMedida: options.unidadeMedida ?? 'UN',
+      tenantId
+    }
+  });
+
+  const estoque = await prisma.estoque.create({
+    data: {
+      produtoId: produto.id,
+      quantidadeAtual: new Prisma.Decimal(options.quantidadeAtual ?? 0),
+      precoCusto: new Prisma.Decimal(5),
+      tenantId
+    }
+  });
+
+  return { produto, estoque };
+}
+
+interface ItemVendaTeste {
+  produtoId: string;
+  quantidade: number;
+  subtotal: number;
+  quantidadeDevolvida?: number;
+  status?: string;
+}
+
+/**
+ * Venda gravada direto no banco, com itens e valores já estornados/devolvidos
+ * (sem passar pelo vendaService: estoque e numeração fiscal ficam de fora)
+ */
+export async function criarVenda(
+  prisma: PrismaClient,
+  tenantId: string,
+  venda: {
+    dataVenda: Date;
+    total: number;
+    itens: ItemVendaTeste[];
+    status?: string;
+    formaPagamento?: string;
+    valorEstornado?: number;
+    valorDevolvido?: number;
+    pagamentos?: Array<{ forma: string; valor: number }>;
+  }
+) {
+  return await prisma.venda.create({
+    data: {
+      dataVenda: venda.dataVenda,
+      preco: new Prisma.Decimal(venda.total),
+      total: new Prisma.Decimal(venda.total),
+      status: venda.status ?? 'FINALIZADA',
+      formaPagamento: venda.formaPagamento ?? 'DINHEIRO',
+      valorEstornado: new Prisma.Decimal(venda.valorEstornado ?? 0),
+      valorDevolvido: new Prisma.Decimal(venda.valorDevolvido ?? 0),
+      tenantId,
+      itens: {
+        create: venda.itens.map(item => ({
+          produtoId: item.produtoId,
+          quantidade: new Prisma.Decimal(item.quantidade),
+          precoUnitario: new Prisma.Decimal(item.subtotal / item.quantidade),
+          subtotal: new Prisma.Decimal(item.subtotal),
+          quantidadeDevolvida: new Prisma.Decimal(item.quantidadeDevolvida ?? 0),
+          status: item.status ?? 'FINALIZADA'
+        }))
+      },
+      // Sem pagamentos a venda fica como anterior ao pagamento dividido (só o cabeçalho)
+      ...(venda.pagamentos && {
+        pagamentos: {
+          create: venda.pagamentos.map(pagamento => ({
+            forma: pagamento.forma,
+            valor: new Prisma.Decimal(pagamento.valor)
+          }))
+        }
+      })
+    }
+  });
+}
+
+/**
+ * Contexto de autenticação de um gerente do tenant (req.auth dos controllers)
+ */
+export function authGerente(tenantId: string, permissions: string[] = []): AuthContext {
+  return {
+    userId: `usuario-teste-${randomUUID()}`,
+    login: 'gerente.teste',
+    tenantId,
+    roleId: 'role-teste',
+    roleName: 'GERENTE',
+    permissions,
+    isSuperAdmin: false,
+    sessionId: randomUUID()
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Encerra o PostgreSQL embutido (o diretório de dados é removido no stop)
+ */
+
+import EmbeddedPostgres from 'embedded-postgres';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __POSTGRES_TESTE__: EmbeddedPostgres | undefined;
+}
+
+export default async function globalTeardown(): Promise<void> {
+  await globalThis.__POSTGRES_TESTE__?.stop();
+}
@@ -0,0 +1,90 @@
+/**
+ * UnitOfWork - savepoints reais no PostgreSQL
+ * Confere no banco, depois do commit, o que foi desfeito e o que foi mantido
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { UnitOfWork } from '../../repositories/UnitOfWork';
+import { criarTenant } from './setup/fixtures';
+
+const prisma = new PrismaClient();
+const uow = new UnitOfWork(prisma);
+
+const nomesClientes = async (tenantId: string) =>
+  (await prisma.cliente.findMany({ where: { tenantId }, orderBy: { nome: 'asc' } })).map(c => c.nome);
+
+const criarCliente = (client: UnitOfWork['client'], tenantId: string, nome: string) =>
+  client.cliente.create({ data: { nome, sobrenome: 'Teste', tenantId } });
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('UnitOfWork.executeWithSavepoint', () => {
+  it('desfaz o que foi gravado no savepoint que falhou e mantém as gravações de fora dele', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+
+    await uow.executeInTransaction(async (tx) => {
+      await criarCliente(tx.client, tenantId, 'A - antes do savepoint');
+
+      await expect(
+        tx.executeWithSavepoint('linha_invalida', async () => {
+          await criarCliente(tx.client, tenantId, 'B - dentro do savepoint');
+          throw new Error('linha inválida');
+        })
+      ).rejects.toThrow('linha inválida');
+
+      // A transação continua utilizável depois do ROLLBACK TO SAVEPOINT
+      await criarCliente(tx.client, tenantId, 'C - depois do savepoint');
+    });
+
+    expect(await nomesClientes(tenantId)).toEqual(['A - antes do savepoint', 'C - depois do savepoint']);
+  });
+
+  it('mantém as gravações do savepoint quando a operação conclui', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+
+    await uow.executeInTransaction(async (tx) => {
+      await tx.executeWithSavepoint('linha_valida', () => criarCliente(tx.client, tenantId, 'A - dentro do savepoint'));
+    });
+
+    expect(await nomesClientes(tenantId)).toEqual(['A - dentro do savepoint']);
+  });
+
+  it('descarta os eventos agendados dentro do savepoint desfeito', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+
+    await uow.executeInTransaction(async (tx) => {
+      await tx.publishDomainEvent('ClienteImportado', 'cliente-mantido', {}, tenantId);
+
+      await expect(
+        tx.executeWithSavepoint('evento_desfeito', async () => {
+          await tx.publishDomainEvent('ClienteImportado', 'cliente-desfeito', {}, tenantId);
+          throw new Error('linha inválida');
+        })
+      ).rejects.toThrow();
+    });
+
+    const eventos = await prisma.outboxEvento.findMany({ where: { tenantId } });
+    expect(eventos.map(e => e.agregadoId)).toEqual(['cliente-mantido']);
+  });
+
+  it('o rollback da transação desfaz também o que o savepoint manteve', async () => {
+    const { id: tenantId } = await criarTenant(prisma);
+
+    await expect(
+      uow.executeInTransaction(async (tx) => {
+        await tx.executeWithSavepoint('linha_valida', () => criarCliente(tx.client, tenantId, 'A - dentro do savepoint'));
+        throw new Error('falha depois do savepoint');
+      })
+    ).rejects.toThrow('falha depois do savepoint');
+
+    expect(await nomesClientes(tenantId)).toEqual([]);
+  });
+
+  it('exige transação interativa', async () => {
+    await expect(uow.executeWithSavepoint('fora_de_transacao', async () => null)).rejects.toThrow(
+      'Savepoints require an active transaction'
+    );
+  });
+});
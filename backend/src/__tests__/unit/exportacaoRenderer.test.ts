@@ -0,0 +1,149 @@
+/**
+ * Exportação de relatórios - colunas e valores no CSV e no XLSX
+ * O arquivo é gerado em memória e lido de volta (XLSX pelo próprio ExcelJS)
+ */
+
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import {
+  renderizarDocumento,
+  isFormatoExportacao,
+  DocumentoExportacao,
+  FormatoExportacao,
+  SecaoExportacao
+} from '../../services/exportacaoRenderer';
+
+const PRODUTOS: SecaoExportacao = {
+  titulo: 'Produtos mais vendidos',
+  colunas: [
+    { chave: 'produto', titulo: 'Produto' },
+    { chave: 'quantidade', titulo: 'Quantidade', tipo: 'quantidade' },
+    { chave: 'vendas', titulo: 'Vendas', tipo: 'inteiro' },
+    { chave: 'valor', titulo: 'Valor', tipo: 'moeda' },
+    { chave: 'margem', titulo: 'Margem', tipo: 'percentual' }
+  ],
+  linhas: [
+    { produto: 'Pão francês', quantidade: 0.35, vendas: 12, valor: 1234.5, margem: 32.456 },
+    { produto: 'Café; 500g', quantidade: 3, vendas: 2, valor: 43, margem: null },
+    { produto: 'Bolo "caseiro"', quantidade: 1.2345, vendas: 1, valor: '19.9', margem: -5 },
+    { produto: '=HYPERLINK("http://exemplo")', quantidade: 1, vendas: 1, valor: 0, margem: 0 }
+  ]
+};
+
+async function* diasEmLotes() {
+  yield { dia: '10/03/2025', faturamento: 70 };
+  yield { dia: '11/03/2025', faturamento: 0 };
+}
+
+const documento = (secoes: SecaoExportacao[]): DocumentoExportacao => ({
+  titulo: 'Relatório de vendas',
+  subtitulo: 'Período de 01/03/2025 a 31/03/2025',
+  marca: { nome: 'Padaria Teste', razaoSocial: 'Padaria Teste Ltda', cnpj: '12.345.678/0001-95' },
+  geradoEm: new Date('2025-04-01T12:00:00Z'),
+  fusoHorario: 'America/Sao_Paulo',
+  secoes
+});
+
+const POR_DIA: SecaoExportacao = {
+  titulo: 'Vendas por dia',
+  colunas: [
+    { chave: 'dia', titulo: 'Dia' },
+    { chave: 'faturamento', titulo: 'Faturamento', tipo: 'moeda' }
+  ],
+  linhas: diasEmLotes()
+};
+
+async function renderizar(formato: FormatoExportacao, doc: DocumentoExportacao): Promise<Buffer> {
+  const destino = new PassThrough();
+  const partes: Buffer[] = [];
+  destino.on('data', (parte: Buffer) => partes.push(parte));
+  await renderizarDocumento(formato, doc, destino);
+  return Buffer.concat(partes);
+}
+
+describe('isFormatoExportacao', () => {
+  it('aceita só csv, xlsx e pdf', () => {
+    expect(['csv', 'xlsx', 'pdf'].every(isFormatoExportacao)).toBe(true);
+    expect(isFormatoExportacao('json')).toBe(false);
+    expect(isFormatoExportacao('toString')).toBe(false);
+  });
+});
+
+describe('CSV', () => {
+  it('escreve BOM, título, subtítulo e cada seção com cabeçalho e linhas', async () => {
+    const csv = (await renderizar('csv', documento([PRODUTOS, { ...POR_DIA, linhas: diasEmLotes() }]))).toString('utf8');
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      'Relatório de vendas',
+      'Período de 01/03/2025 a 31/03/2025',
+      '',
+      'Produtos mais vendidos',
+      'Produto;Quantidade;Vendas;Valor;Margem',
+      'Pão francês;0,35;12;1234,50;32,46',
+      '"Café; 500g";3;2;43,00;',
+      '"Bolo ""caseiro""";1,235;1;19,90;-5,00',
+      '"\'=HYPERLINK(""http://exemplo"")";1;1;0,00;0,00',
+      '',
+      'Vendas por dia',
+      'Dia;Faturamento',
+      '10/03/2025;70,00',
+      '11/03/2025;0,00',
+      ''
+    ]);
+  });
+});
+
+describe('XLSX', () => {
+  async function lerPlanilha(doc: DocumentoExportacao) {
+    const workbook = new ExcelJS.Workbook();
+    const arquivo = new PassThrough();
+    await Promise.all([workbook.xlsx.read(arquivo), renderizarDocumento('xlsx', doc, arquivo)]);
+    return workbook;
+  }
+
+  it('cria uma aba por seção com cabeçalho de identificação', async () => {
+    const workbook = await lerPlanilha(documento([PRODUTOS, { ...POR_DIA, linhas: diasEmLotes() }]));
+
+    expect(workbook.worksheets.map(aba => aba.name)).toEqual(['Produtos mais vendidos', 'Vendas por dia']);
+
+    const aba = workbook.worksheets[0]!;
+    expect(aba.getCell('A1').value).toBe('Relatório de vendas - Produtos mais vendidos');
+    expect(aba.getCell('A2').value).toBe('Padaria Teste Ltda - CNPJ 12.345.678/0001-95');
+    expect(aba.getCell('A3').value).toBe('Período de 01/03/2025 a 31/03/2025');
+    expect(aba.getCell('A4').value).toBe('Gerado em 01/04/2025, 09:00');
+    expect(aba.getRow(6).values).toEqual([undefined, 'Produto', 'Quantidade', 'Vendas', 'Valor', 'Margem']);
+  });
+
+  it('grava colunas numéricas como número com o formato do tipo', async () => {
+    const aba = (await lerPlanilha(documento([PRODUTOS]))).worksheets[0]!;
+
+    expect(aba.getRow(7).values).toEqual([undefined, 'Pão francês', 0.35, 12, 1234.5, 32.456]);
+    // Valor numérico em texto vira número; vazio fica em branco
+    expect(aba.getRow(8).values).toEqual([undefined, 'Café; 500g', 3, 2, 43]);
+    expect(aba.getCell('D9').value).toBe(19.9);
+
+    expect(aba.getCell('B7').numFmt).toBeUndefined();
+    expect(aba.getCell('C7').numFmt).toBe('#,##0');
+    expect(aba.getCell('D7').numFmt).toBe('"R$" #,##0.00');
+    expect(aba.getCell('E7').numFmt).toBe('0.00"%"');
+  });
+
+  it('mantém texto iniciado por = como texto', async () => {
+    const aba = (await lerPlanilha(documento([PRODUTOS]))).worksheets[0]!;
+
+    expect(aba.getCell('A10').value).toBe('=HYPERLINK("http://exemplo")');
+  });
+
+  it('ajusta nomes de aba inválidos ou repetidos', async () => {
+    const workbook = await lerPlanilha(documento([
+      { ...POR_DIA, titulo: 'Vendas: por dia/hora [resumo] de todo o período', linhas: [] },
+      { ...POR_DIA, titulo: 'Vendas: por dia/hora [resumo] de todo o período', linhas: [] }
+    ]));
+
+    expect(workbook.worksheets.map(aba => aba.name)).toEqual([
+      'Vendas  por dia hora  resumo  d',
+      'Vendas  por dia hora  resumo  2'
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * NFC-e - dígito verificador da chave de acesso e XML validado contra o
+ * schema oficial da NF-e 4.00 (PL_010b_V1.30, em ./schemas), sem rede nem SEFAZ
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { validateXML } from 'xmllint-wasm';
+import { assinarElemento, CertificadoA1 } from '../../services/assinaturaDigital';
+import {
+  calcularDigitoVerificador,
+  montarChaveAcesso,
+  montarInfNFe,
+  montarInfNFeSupl,
+  montarNfe,
+  ratear,
+  DadosNfce,
+  NS_NFE
+} from '../../services/nfceXmlBuilder';
+
+const DIRETORIO_SCHEMAS = path.join(__dirname, 'schemas', 'PL_010b_V1.30');
+const SCHEMA_NFE = 'nfe_v4.00.xsd';
+
+const lerSchema = (fileName: string) => ({
+  fileName,
+  contents: fs.readFileSync(path.join(DIRETORIO_SCHEMAS, fileName), 'utf8')
+});
+
+/**
+ * Valida o documento contra nfe_v4.00.xsd (com os schemas importados por ele)
+ * @returns Mensagens de erro do xmllint (vazio quando o XML é válido)
+ */
+async function errosDeSchema(xml: string): Promise<string[]> {
+  const resultado = await validateXML({
+    xml: { fileName: 'nfce.xml', contents: xml },
+    schema: lerSchema(SCHEMA_NFE),
+    preload: fs.readdirSync(DIRETORIO_SCHEMAS).filter(nome => nome !== SCHEMA_NFE).map(lerSchema)
+  });
+  return resultado.errors.map(erro => erro.rawMessage);
+}
+
+// Certificado só para assinar: o schema confere a estrutura da Signature, não a cadeia
+const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const certificado: CertificadoA1 = {
+  chavePrivadaPem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  certificadoBase64: Buffer.from('certificado de teste').toString('base64'),
+  titular: 'PADARIA TESTE LTDA:12345678000195',
+  cnpj: '12345678000195',
+  validoDe: new Date('2025-01-01T00:00:00Z'),
+  validoAte: new Date('2026-01-01T00:00:00Z')
+};
+
+const QR_CODE_SP = {
+  urlQrCode: 'https://www.homologacao.nfce.fazenda.sp.gov.br/NFCeConsultaPublica/Paginas/ConsultaQRCode.aspx',
+  urlConsulta: 'https://www.homologacao.nfce.fazenda.sp.gov.br/consulta',
+  cscId: '000001',
+  csc: 'CSC-DE-TESTE'
+};
+
+const dadosBase = (): DadosNfce => ({
+  emitente: {
+    cnpj: '12.345.678/0001-95',
+    inscricaoEstadual: '111.222.333.444',
+    razaoSocial: 'Padaria Teste Ltda',
+    nomeFantasia: 'Pão & Cia',
+    logradouro: 'Rua das Flores',
+    numero: '100',
+    bairro: 'Centro',
+    codigoMunicipio: '3550308',
+    municipio: 'São Paulo',
+    uf: 'SP',
+    cep: '01001-000',
+    crt: 1
+  },
+  ambiente: 2,
+  serie: '1',
+  numero: 501000042,
+  codigoNumerico: '12345678',
+  tipoEmissao: 1,
+  dataEmissao: new Date('2025-01-15T15:30:00Z'),
+  itens: [
+    {
+      codigo: 'P001',
+      descricao: 'Pão francês',
+      ncm: '19059090',
+      cfop: '5102',
+      unidade: 'KG',
+      quantidade: 0.755,
+      valorUnitario: 18.9,
+      valorDesconto: 0,
+      valorOutros: 0
+    },
+    {
+      codigo: 'P002',
+      descricao: 'Café 500g',
+      ncm: '09012100',
+      cfop: '5102',
+      gtin: '7891234567895',
+      unidade: 'UN',
+      quantidade: 2,
+      valorUnitario: 21.5,
+      valorDesconto: 3,
+      valorOutros: 0.5
+    }
+  ],
+  pagamentos: [{ forma: 'DINHEIRO', valor: 60 }],
+  troco: 5.77
+});
+
+/**
+ * Monta o documento como o nfceService: infNFe, assinatura e infNFeSupl
+ */
+function montarDocumento(dados: DadosNfce): string {
+  const { infNFe, chaveAcesso, valorTotal } = montarInfNFe(dados);
+  const { signature, digestValue } = assinarElemento(infNFe, `NFe${chaveAcesso}`, NS_NFE, certificado);
+  const infNFeSupl = montarInfNFeSupl(chaveAcesso, dados, valorTotal, digestValue, QR_CODE_SP);
+  return montarNfe(infNFe, infNFeSupl, signature);
+}
+
+const valorDaTag = (xml: string, nome: string) => new RegExp(`<${nome}>([^<]*)</${nome}>`).exec(xml)?.[1];
+
+describe('calcularDigitoVerificador', () => {
+  it('confere com o exemplo do Manual de Orientação do Contribuinte', () => {
+    expect(calcularDigitoVerificador('5206043300991100250655012000000780026730161')).toBe('5');
+  });
+
+  it('usa 0 quando o resto da divisão por 11 é 0', () => {
+    expect(calcularDigitoVerificador('3525011234567800019565001000000042100000004')).toBe('0');
+  });
+
+  it('usa 0 quando o resto da divisão por 11 é 1', () => {
+    expect(calcularDigitoVerificador('3525011234567800019565001000000042100000013')).toBe('0');
+  });
+});
+
+describe('montarChaveAcesso', () => {
+  it('monta os 44 dígitos na ordem do leiaute com o DV no final', () => {
+    const chave = montarChaveAcesso(dadosBase());
+
+    expect(chave).toMatch(/^\d{44}$/);
+    expect(chave.slice(0, 2)).toBe('35'); // cUF
+    expect(chave.slice(2, 6)).toBe('2501'); // AAMM
+    expect(chave.slice(6, 20)).toBe('12345678000195'); // CNPJ
+    expect(chave.slice(20, 22)).toBe('65'); // modelo
+    expect(chave.slice(22, 25)).toBe('001'); // série
+    expect(chave.slice(25, 34)).toBe('501000042'); // nNF
+    expect(chave.slice(34, 35)).toBe('1'); // tpEmis
+    expect(chave.slice(35, 43)).toBe('12345678'); // cNF
+    expect(chave.slice(43)).toBe(calcularDigitoVerificador(chave.slice(0, 43)));
+  });
+
+  it('usa o mês da emissão no fuso da UF', () => {
+    // 01/02 02:00 UTC ainda é 31/01 em São Paulo
+    const chave = montarChaveAcesso({ ...dadosBase(), dataEmissao: new Date('2025-02-01T02:00:00Z') });
+
+    expect(chave.slice(2, 6)).toBe('2501');
+  });
+
+  it('rejeita UF desconhecida', () => {
+    const dados = dadosBase();
+    dados.emitente.uf = 'XX';
+
+    expect(() => montarChaveAcesso(dados)).toThrow('UF inválida para NFC-e: XX');
+  });
+});
+
+describe('montarInfNFe', () => {
+  it('referencia a chave no Id e no cDV', () => {
+    const { infNFe, chaveAcesso } = montarInfNFe(dadosBase());
+
+    expect(infNFe.startsWith(`<infNFe Id="NFe${chaveAcesso}" versao="4.00">`)).toBe(true);
+    expect(valorDaTag(infNFe, 'cDV')).toBe(chaveAcesso.slice(-1));
+  });
+
+  it('totaliza produtos, descontos e outros em centavos', () => {
+    const { infNFe, valorTotal } = montarInfNFe(dadosBase());
+    const icmsTot = /<ICMSTot>(.*)<\/ICMSTot>/.exec(infNFe)?.[1] ?? '';
+
+    // 0,755 kg x 18,90 = 14,27 (arredondado) + 2 x 21,50 = 43,00
+    expect(valorDaTag(icmsTot, 'vProd')).toBe('57.27');
+    expect(valorDaTag(icmsTot, 'vDesc')).toBe('3.00');
+    expect(valorDaTag(icmsTot, 'vOutro')).toBe('0.50');
+    expect(valorDaTag(icmsTot, 'vNF')).toBe('54.77');
+    expect(valorTotal).toBe(54.77);
+  });
+
+  it('informa quantidade fracionada com 4 casas e a unidade do produto', () => {
+    const { infNFe } = montarInfNFe(dadosBase());
+
+    expect(valorDaTag(infNFe, 'uCom')).toBe('KG');
+    expect(valorDaTag(infNFe, 'qCom')).toBe('0.7550');
+  });
+
+  it('escapa caracteres especiais do texto', () => {
+    const { infNFe } = montarInfNFe(dadosBase());
+
+    expect(valorDaTag(infNFe, 'xFant')).toBe('Pão &amp; Cia');
+  });
+});
+
+describe('XML da NFC-e contra o schema da NF-e 4.00', () => {
+  it('é válido na emissão normal em homologação', async () => {
+    expect(await errosDeSchema(montarDocumento(dadosBase()))).toEqual([]);
+  });
+
+  it('é válido em produção com CPF do consumidor e pagamento em cartão', async () => {
+    const xml = montarDocumento({
+      ...dadosBase(),
+      ambiente: 1,
+      destinatarioCpf: '123.456.789-09',
+      pagamentos: [{ forma: 'CARTAO_CREDITO', valor: 30 }, { forma: 'PIX', valor: 24.77 }],
+      troco: 0
+    });
+
+    expect(await errosDeSchema(xml)).toEqual([]);
+  });
+
+  it('é válido em contingência offline (tpEmis 9)', async () => {
+    const xml = montarDocumento({ ...dadosBase(), tipoEmissao: 9 });
+
+    expect(valorDaTag(xml, 'tpEmis')).toBe('9');
+    expect(await errosDeSchema(xml)).toEqual([]);
+  });
+
+  it('aponta o erro quando o documento foge do schema', async () => {
+    const xml = montarDocumento(dadosBase()).replace('<tpAmb>2</tpAmb>', '<tpAmb>3</tpAmb>');
+
+    expect(await errosDeSchema(xml)).not.toEqual([]);
+  });
+});
+
+describe('ratear', () => {
+  it('reparte proporcionalmente e deixa a sobra dos centavos com o último item', () => {
+    expect(ratear(10, [1, 1, 1])).toEqual([3.33, 3.33, 3.34]);
+  });
+
+  it('não reparte valor zero nem bases zeradas', () => {
+    expect(ratear(0, [5, 5])).toEqual([0, 0]);
+    expect(ratear(5, [0, 0])).toEqual([0, 0]);
+  });
+});
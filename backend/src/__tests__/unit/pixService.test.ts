@@ -0,0 +1,130 @@
+/**
+ * BR Code PIX - CRC16 e payload EMV conferidos com o exemplo do Manual de
+ * Padrões para Iniciação do Pix (BCB), sem rede nem banco
+ */
+
+import { crc16, montarBrCode, gerarTxid } from '../../services/pixService';
+
+// Exemplo de BR Code estático do manual do BCB (chave aleatória, sem valor)
+const EXEMPLO_BCB_ESTATICO =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+  '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+
+const semCrc = (payload: string) => payload.slice(0, -4);
+
+/**
+ * Lê os campos EMV (ID 2 + tamanho 2 + valor) de um nível do payload
+ * Falha se algum tamanho declarado não couber no payload
+ */
+function lerCampos(payload: string): Map<string, string> {
+  const campos = new Map<string, string>();
+  let posicao = 0;
+  while (posicao < payload.length) {
+    const id = payload.slice(posicao, posicao + 2);
+    const tamanho = Number(payload.slice(posicao + 2, posicao + 4));
+    const valor = payload.slice(posicao + 4, posicao + 4 + tamanho);
+    if (Number.isNaN(tamanho) || valor.length !== tamanho) {
+      throw new Error(`Campo ${id} com tamanho inválido na posição ${posicao}`);
+    }
+    campos.set(id, valor);
+    posicao += 4 + tamanho;
+  }
+  return campos;
+}
+
+describe('crc16', () => {
+  it('calcula o valor de verificação do CRC-16/CCITT-FALSE', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+
+  it('confere com o CRC do exemplo do manual do BCB', () => {
+    expect(crc16(semCrc(EXEMPLO_BCB_ESTATICO))).toBe('1D3D');
+  });
+
+  it('completa com zeros à esquerda até 4 dígitos hexadecimais', () => {
+    expect(crc16('')).toBe('FFFF');
+    expect(crc16('A')).toMatch(/^[0-9A-F]{4}$/);
+  });
+});
+
+describe('montarBrCode', () => {
+  const estatico = {
+    chave: '123e4567-e12b-12d1-a456-426655440000',
+    nomeRecebedor: 'Fulano de Tal',
+    cidadeRecebedor: 'BRASILIA',
+    txid: '***'
+  };
+
+  it('reproduz o exemplo estático do manual do BCB (nome em maiúsculas)', () => {
+    const payload = montarBrCode(estatico);
+
+    expect(semCrc(payload)).toBe(semCrc(EXEMPLO_BCB_ESTATICO).replace('Fulano de Tal', 'FULANO DE TAL'));
+    expect(payload.slice(-4)).toBe(crc16(semCrc(payload)));
+  });
+
+  it('inclui o valor com duas casas no ID 54', () => {
+    const campos = lerCampos(montarBrCode({ ...estatico, valor: 123.4 }));
+
+    expect(campos.get('54')).toBe('123.40');
+  });
+
+  it('omite o ID 54 sem valor ou com valor zero', () => {
+    expect(lerCampos(montarBrCode({ ...estatico, valor: 0 })).has('54')).toBe(false);
+  });
+
+  it('monta o dinâmico com location do PSP, uso único e txid ***', () => {
+    const payload = montarBrCode({
+      url: 'pix.example.com/qr/v2/9d36b84fc70b478fb95c12729b90ca25',
+      nomeRecebedor: 'Padaria Pão Quente',
+      cidadeRecebedor: 'São Paulo',
+      txid: 'V001202501000042',
+      valor: 15.9
+    });
+    const campos = lerCampos(payload);
+    const conta = lerCampos(campos.get('26')!);
+
+    expect(campos.get('01')).toBe('12');
+    expect(conta.get('00')).toBe('br.gov.bcb.pix');
+    expect(conta.get('25')).toBe('pix.example.com/qr/v2/9d36b84fc70b478fb95c12729b90ca25');
+    expect(conta.has('01')).toBe(false);
+    expect(lerCampos(campos.get('62')!).get('05')).toBe('***');
+    expect(payload.slice(-4)).toBe(crc16(semCrc(payload)));
+  });
+
+  it('usa o txid da venda no estático', () => {
+    const campos = lerCampos(montarBrCode({ ...estatico, txid: 'V001202501000042' }));
+
+    expect(lerCampos(campos.get('62')!).get('05')).toBe('V001202501000042');
+    expect(campos.has('01')).toBe(false);
+  });
+
+  it('remove acentos e limita nome (25) e cidade (15) do recebedor', () => {
+    const campos = lerCampos(montarBrCode({
+      ...estatico,
+      nomeRecebedor: 'Panificadora e Confeitaria São João Ltda',
+      cidadeRecebedor: 'São José dos Campos'
+    }));
+
+    expect(campos.get('59')).toBe('PANIFICADORA E CONFEITARI');
+    expect(campos.get('60')).toBe('SAO JOSE DOS CA');
+    expect(campos.get('58')).toBe('BR');
+    expect(campos.get('53')).toBe('986');
+  });
+
+  it('termina com o ID 63 de tamanho 04 contendo o CRC', () => {
+    const campos = lerCampos(montarBrCode(estatico));
+
+    expect([...campos.keys()].pop()).toBe('63');
+    expect(campos.get('63')).toMatch(/^[0-9A-F]{4}$/);
+  });
+});
+
+describe('gerarTxid', () => {
+  it('deriva o txid alfanumérico da série e do número fiscal', () => {
+    expect(gerarTxid('1', '202501000042')).toBe('V001202501000042');
+  });
+
+  it('limita a 25 caracteres', () => {
+    expect(gerarTxid('1', '9'.repeat(40))).toHaveLength(25);
+  });
+});
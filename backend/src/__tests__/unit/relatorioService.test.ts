@@ -0,0 +1,91 @@
+/**
+ * Curva ABC - classes nos limites de 80% e 95%, margem com lucro zerado ou
+ * negativo e validação dos dias de estoque parado, sem banco
+ */
+
+import { classificarAbc, calcularMargem, validarDiasSemVenda, CURVA_ABC_CONFIG } from '../../services/relatorioService';
+
+const classes = (valores: number[]) => {
+  const resultado = classificarAbc(valores.map(valor => ({ valor })), item => item.valor);
+  return [...resultado.entries()].map(([item, { participacao, classe }]) => ({ valor: item.valor, participacao, classe }));
+};
+
+describe('classificarAbc', () => {
+  it('usa a participação acumulada antes do item contra os limites de 80% e 95%', () => {
+    // Acumulado antes de cada item: 0, 60, 79, 89, 95 (o de 10 cruza os 80% e fica em A)
+    expect(classes([5, 60, 10, 19, 6])).toEqual([
+      { valor: 60, participacao: 60, classe: 'A' },
+      { valor: 19, participacao: 19, classe: 'A' },
+      { valor: 10, participacao: 10, classe: 'A' },
+      { valor: 6, participacao: 6, classe: 'B' },
+      { valor: 5, participacao: 5, classe: 'C' }
+    ]);
+  });
+
+  it('fecha A com acumulado de exatamente 80% e B com exatamente 95%', () => {
+    expect(classes([80, 15, 5]).map(item => item.classe)).toEqual(['A', 'B', 'C']);
+    expect(CURVA_ABC_CONFIG).toMatchObject({ limiteA: 80, limiteB: 95 });
+  });
+
+  it('mantém o maior item em A mesmo acima do limite', () => {
+    expect(classes([90, 10]).map(item => item.classe)).toEqual(['A', 'B']);
+  });
+
+  it('deixa valores zerados e negativos em C, fora do total', () => {
+    expect(classes([-50, 80, 0, 20])).toEqual([
+      { valor: 80, participacao: 80, classe: 'A' },
+      { valor: 20, participacao: 20, classe: 'B' },
+      { valor: 0, participacao: 0, classe: 'C' },
+      { valor: -50, participacao: 0, classe: 'C' }
+    ]);
+  });
+
+  it('classifica tudo em C sem valor positivo', () => {
+    expect(classes([0, -10]).map(item => item.classe)).toEqual(['C', 'C']);
+  });
+
+  it('arredonda a participação em duas casas', () => {
+    expect(classes([1, 1, 1]).map(item => item.participacao)).toEqual([33.33, 33.33, 33.33]);
+  });
+});
+
+describe('calcularMargem', () => {
+  it('calcula a margem sobre o faturamento em duas casas', () => {
+    expect(calcularMargem(25, 100)).toBe(25);
+    expect(calcularMargem(1, 3)).toBe(33.33);
+  });
+
+  it('retorna zero com lucro zerado e margem negativa com prejuízo', () => {
+    expect(calcularMargem(0, 100)).toBe(0);
+    expect(calcularMargem(-25, 100)).toBe(-25);
+    expect(calcularMargem(-150, 100)).toBe(-150);
+  });
+
+  it('retorna null sem faturamento', () => {
+    expect(calcularMargem(0, 0)).toBeNull();
+    expect(calcularMargem(-10, 0)).toBeNull();
+    expect(calcularMargem(10, -5)).toBeNull();
+  });
+});
+
+describe('validarDiasSemVenda', () => {
+  const erro = [`diasSemVenda deve ser um inteiro entre 1 e ${CURVA_ABC_CONFIG.diasSemVendaMaximo}`];
+
+  it('aceita ausente e inteiros de 1 até o máximo', () => {
+    expect(validarDiasSemVenda(undefined)).toEqual([]);
+    expect(validarDiasSemVenda('1')).toEqual([]);
+    expect(validarDiasSemVenda('90')).toEqual([]);
+    expect(validarDiasSemVenda(String(CURVA_ABC_CONFIG.diasSemVendaMaximo))).toEqual([]);
+  });
+
+  it('rejeita zero, negativos, acima do máximo, fracionários e não numéricos', () => {
+    for (const dias of ['0', '-5', String(CURVA_ABC_CONFIG.diasSemVendaMaximo + 1), '1.5', 'abc', '']) {
+      expect(validarDiasSemVenda(dias)).toEqual(erro);
+    }
+  });
+
+  it('rejeita valores que não vêm da query string', () => {
+    expect(validarDiasSemVenda(30)).toEqual(erro);
+    expect(validarDiasSemVenda(['30'])).toEqual(erro);
+  });
+});
@@ -13,7 +13,16 @@ import clientesRoutes from './routes/clientes';
 import produtosRoutes from './routes/produtos';
 import vendasRoutes from './routes/vendas';
 import estoqueRoutes from './routes/estoque';
+import caixaRoutes from './routes/caixa';
+import pixRoutes from './routes/pix';
+import fiscalRoutes from './routes/fiscal';
+import aprovacoesRoutes from './routes/aprovacoes';
+import devolucoesRoutes from './routes/devolucoes';
+import exportacoesRoutes from './routes/exportacoes';
+import adminRoutes from './routes/admin';
 import { cacheService } from './services/cacheService';
+import { outboxDispatcher } from './services/outboxDispatcher';
+import { pararProcessamentoExportacoes } from './services/exportacaoService';
 
 // Inicialização
 const app = express();
@@ -43,7 +52,8 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || ['http://localhost:3000', 'http://localhost:5173'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID', 'Idempotency-Key', 'If-Match', 'If-None-Match', 'Prefer'],
+  exposedHeaders: ['Idempotent-Replayed', 'ETag', 'Content-Disposition', 'Location', 'Retry-After', 'Preference-Applied']
 }));
 
 // Parse JSON
@@ -220,6 +230,17 @@ app.use('/api/clientes', clientesRoutes);
 app.use('/api/produtos', produtosRoutes);
 app.use('/api/vendas', vendasRoutes);
 app.use('/api/estoque', estoqueRoutes);
+app.use('/api/caixa', caixaRoutes);
+app.use('/api/pix', pixRoutes);
+app.use('/api/fiscal', fiscalRoutes);
+app.use('/api/aprovacoes', aprovacoesRoutes);
+app.use('/api/devolucoes', devolucoesRoutes);
+
+// Relatórios exportados em segundo plano
+app.use('/api/exportacoes', exportacoesRoutes);
+
+// Administração do sistema
+app.use('/api/admin', adminRoutes);
 
 // Rota raiz com informações da API
 app.get('/', (req: Request, res: Response) => {
@@ -235,6 +256,12 @@ app.get('/', (req: Request, res: Response) => {
       produtos: '/api/produtos',
       vendas: '/api/vendas',
       estoque: '/api/estoque',
+      caixa: '/api/caixa',
+      pix: '/api/pix',
+      fiscal: '/api/fiscal',
+      aprovacoes: '/api/aprovacoes',
+      devolucoes: '/api/devolucoes',
+      admin: '/api/admin',
       docs: '/api/docs',
       health: '/health'
     },
@@ -305,6 +332,10 @@ app.use((error: any, req: Request, res: Response, next: any) => {
 process.on('SIGTERM', async () => {
   console.log('[SHUTDOWN] SIGTERM recebido, encerrando graciosamente...');
   
+  // Parar entrega de eventos do outbox e exportações em segundo plano
+  outboxDispatcher.stop();
+  pararProcessamentoExportacoes();
+  
   // Fechar conexões do Prisma
   await prisma.$disconnect();
   
@@ -317,6 +348,8 @@ process.on('SIGTERM', async () => {
 process.on('SIGINT', async () => {
   console.log('[SHUTDOWN] SIGINT recebido, encerrando graciosamente...');
   
+  outboxDispatcher.stop();
+  pararProcessamentoExportacoes();
   await prisma.$disconnect();
   cacheService.flush();
   
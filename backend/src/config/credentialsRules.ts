@@ -19,8 +19,9 @@ export interface PasswordRule {
   forceChangeOnFirstLogin: boolean;
   maxFailedAttempts: number;
   lockoutMinutes: number;
+  historyCount: number; // Últimas N senhas que não podem ser reutilizadas
   description: string;
-  active: boolean;
+  active: boolean; // Controla apenas a validação de formato
 }
 
 export interface CredentialRules {
@@ -32,6 +33,7 @@ export interface CredentialRules {
 
 /**
  * Configuração Padrão das Regras de Credenciais
+ * Usada quando não há regras salvas para o tenant nem padrão global (ver regraCredencialService)
  * Formato: XX00000X (2 letras + 5 números + 1 letra) - Login
  * Formato: X0000X (1 letra + 4 números + 1 letra) - Senha
  */
@@ -51,6 +53,7 @@ export const DEFAULT_CREDENTIAL_RULES: CredentialRules = {
     forceChangeOnFirstLogin: true,
     maxFailedAttempts: 5,
     lockoutMinutes: 30,
+    historyCount: 5,
     description: "Senha deve ter 6 caracteres: 1 letra maiúscula, 4 números, 1 letra maiúscula",
     active: false // TEMPORARIAMENTE DESABILITADO - permite credenciais simples
   },
@@ -73,38 +76,51 @@ function isDigit(char: string): boolean {
 }
 
 /**
- * Valida login seguindo o padrão XX00000X
- * @param login - String do login a ser validada
- * @param rules - Regras de validação (opcional, usa padrão se não informado)
- * @returns Objeto com resultado da validação
+ * Valida valor contra o padrão posicional do tenant
+ * Padrão: X = letra maiúscula, 0 = número (ex: XX00000X)
+ * Padrão vazio: apenas limites de comprimento
  */
-export function validateLogin(login: string, rules: LoginRule = DEFAULT_CREDENTIAL_RULES.login) {
-  if (!rules.active) {
-    return { valid: true, message: "Validação desabilitada" };
+function validateAgainstPattern(
+  value: string,
+  pattern: string,
+  minLength: number,
+  maxLength: number,
+  label: string
+) {
+  if (!pattern) {
+    if (value.length < minLength || value.length > maxLength) {
+      return {
+        valid: false,
+        message: minLength === maxLength
+          ? `${label} deve ter exatamente ${minLength} caracteres`
+          : `${label} deve ter entre ${minLength} e ${maxLength} caracteres`
+      };
+    }
+
+    return { valid: true, message: `${label} válido(a)` };
   }
 
   // Verificar comprimento
-  if (login.length !== rules.minLength) {
+  if (value.length !== pattern.length) {
     return {
       valid: false,
-      message: `Login deve ter exatamente ${rules.minLength} caracteres`
+      message: `${label} deve ter exatamente ${pattern.length} caracteres`
     };
   }
 
-  // Verificar padrão XX00000X (2 letras + 5 números + 1 letra)
-  const chars = login.split('');
-  
-  // Posições 0 e 1: letras maiúsculas
-  if (!isUppercaseLetter(chars[0]) || !isUppercaseLetter(chars[1])) {
-    return {
-      valid: false,
-      message: "Os dois primeiros caracteres devem ser letras maiúsculas"
-    };
-  }
+  // Verificar cada posição do padrão
+  for (let i = 0; i < pattern.length; i++) {
+    const expected = pattern.charAt(i);
+    const char = value.charAt(i);
 
-  // Posições 2-6: números
-  for (let i = 2; i <= 6; i++) {
-    if (!isDigit(chars[i])) {
+    if (expected === 'X' && !isUppercaseLetter(char)) {
+      return {
+        valid: false,
+        message: `O caractere na posição ${i + 1} deve ser uma letra maiúscula`
+      };
+    }
+
+    if (expected === '0' && !isDigit(char)) {
       return {
         valid: false,
         message: `O caractere na posição ${i + 1} deve ser um número`
@@ -112,19 +128,26 @@ export function validateLogin(login: string, rules: LoginRule = DEFAULT_CREDENTI
     }
   }
 
-  // Posição 7: letra maiúscula
-  if (!isUppercaseLetter(chars[7])) {
-    return {
-      valid: false,
-      message: "O último caractere deve ser uma letra maiúscula"
-    };
+  return { valid: true, message: `${label} válido(a)` };
+}
+
+/**
+ * Valida login seguindo o padrão configurado (padrão: XX00000X)
+ * @param login - String do login a ser validada
+ * @param rules - Regras de validação (opcional, usa padrão se não informado)
+ * @returns Objeto com resultado da validação
+ */
+export function validateLogin(login: string, rules: LoginRule = DEFAULT_CREDENTIAL_RULES.login) {
+  if (!rules.active) {
+    return { valid: true, message: "Validação desabilitada" };
   }
 
-  return { valid: true, message: "Login válido" };
+  const result = validateAgainstPattern(login, rules.requiredPattern, rules.minLength, rules.maxLength, 'Login');
+  return result.valid ? { valid: true, message: "Login válido" } : result;
 }
 
 /**
- * Valida senha seguindo o padrão X0000X
+ * Valida senha seguindo o padrão configurado (padrão: X0000X)
  * @param password - String da senha a ser validada
  * @param rules - Regras de validação (opcional, usa padrão se não informado)
  * @returns Objeto com resultado da validação
@@ -134,48 +157,38 @@ export function validatePassword(password: string, rules: PasswordRule = DEFAULT
     return { valid: true, message: "Validação desabilitada" };
   }
 
-  // Verificar comprimento
-  if (password.length !== rules.minLength) {
-    return {
-      valid: false,
-      message: `Senha deve ter exatamente ${rules.minLength} caracteres`
-    };
-  }
-
-  // Verificar padrão X0000X (1 letra + 4 números + 1 letra)
-  const chars = password.split('');
-  
-  // Posição 0: letra maiúscula
-  if (!isUppercaseLetter(chars[0])) {
-    return {
-      valid: false,
-      message: "O primeiro caractere deve ser uma letra maiúscula"
-    };
-  }
+  const result = validateAgainstPattern(password, rules.requiredPattern, rules.minLength, rules.maxLength, 'Senha');
+  return result.valid ? { valid: true, message: "Senha válida" } : result;
+}
 
-  // Posições 1-4: números
-  for (let i = 1; i <= 4; i++) {
-    if (!isDigit(chars[i])) {
-      return {
-        valid: false,
-        message: `O caractere na posição ${i + 1} deve ser um número`
-      };
-    }
-  }
+/**
+ * Padrão usado na geração: o configurado ou, sem padrão, letras e números alternados
+ * @param pattern - Padrão posicional configurado
+ * @param length - Comprimento usado quando não há padrão
+ */
+export function getEffectivePattern(pattern: string, length: number): string {
+  return pattern || Array.from({ length }, (_, i) => (i % 2 === 0 ? 'X' : '0')).join('');
+}
 
-  // Posição 5: letra maiúscula
-  if (!isUppercaseLetter(chars[5])) {
-    return {
-      valid: false,
-      message: "O último caractere deve ser uma letra maiúscula"
-    };
-  }
+/**
+ * Gera valor aleatório que atende ao padrão (X = letra, 0 = número)
+ * @param pattern - Padrão posicional
+ * @param length - Comprimento usado quando não há padrão
+ */
+export function generateFromPattern(pattern: string, length: number): string {
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  const digits = '0123456789';
+  const randomChar = (chars: string) => chars.charAt(Math.floor(Math.random() * chars.length));
 
-  return { valid: true, message: "Senha válida" };
+  return getEffectivePattern(pattern, length)
+    .split('')
+    .map(expected => (expected === '0' ? randomChar(digits) : randomChar(letters)))
+    .join('');
 }
 
 /**
  * Verifica se a senha está expirada
+ * Independe de rules.active (formato): expirationDays <= 0 desativa a expiração
  * @param lastPasswordChange - Data da última mudança de senha
  * @param rules - Regras de expiração
  * @returns Boolean indicando se a senha expirou
@@ -184,7 +197,7 @@ export function isPasswordExpired(
   lastPasswordChange: Date, 
   rules: PasswordRule = DEFAULT_CREDENTIAL_RULES.password
 ): boolean {
-  if (!rules.active) {
+  if (rules.expirationDays <= 0) {
     return false;
   }
 
@@ -197,6 +210,7 @@ export function isPasswordExpired(
 
 /**
  * Verifica se o usuário deve ser bloqueado por tentativas falhadas
+ * Independe de rules.active (formato): maxFailedAttempts <= 0 desativa o bloqueio
  * @param failedAttempts - Número de tentativas falhadas
  * @param lastFailedAttempt - Data da última tentativa falhada
  * @param rules - Regras de bloqueio
@@ -207,8 +221,8 @@ export function shouldLockAccount(
   lastFailedAttempt: Date | null,
   rules: PasswordRule = DEFAULT_CREDENTIAL_RULES.password
 ) {
-  if (!rules.active) {
-    return { locked: false, message: "Validação desabilitada" };
+  if (rules.maxFailedAttempts <= 0) {
+    return { locked: false, message: "Bloqueio desabilitado" };
   }
 
   if (failedAttempts < rules.maxFailedAttempts) {
@@ -236,41 +250,102 @@ export function shouldLockAccount(
 }
 
 /**
- * Atualiza as regras de credenciais
- * Esta função permite alterar as regras em tempo de execução
- * @param newRules - Novas regras a serem aplicadas
+ * Aplica alterações parciais sobre as regras atuais (sem mutar o objeto recebido)
+ * Apenas campos conhecidos e com o tipo esperado são aceitos; com padrão
+ * definido, min/maxLength acompanham o comprimento do padrão
+ * @param current - Regras vigentes
+ * @param changes - Alterações parciais de login e/ou senha
  * @param updatedBy - Usuário que está fazendo a atualização
- * @returns Novas regras atualizadas
+ * @returns Novas regras
  */
 export function updateCredentialRules(
-  newRules: Partial<CredentialRules>, 
+  current: CredentialRules,
+  changes: { login?: Partial<LoginRule>; password?: Partial<PasswordRule> },
   updatedBy: string
 ): CredentialRules {
+  const login = mergeRule(current.login, changes.login);
+  const password = mergeRule(current.password, changes.password);
+
+  for (const rule of [login, password]) {
+    if (rule.requiredPattern) {
+      rule.minLength = rule.requiredPattern.length;
+      rule.maxLength = rule.requiredPattern.length;
+    }
+  }
+
   return {
-    ...DEFAULT_CREDENTIAL_RULES,
-    ...newRules,
+    login,
+    password,
     lastUpdated: new Date(),
     updatedBy
   };
 }
 
+/**
+ * Copia a regra aplicando apenas campos conhecidos com tipo compatível
+ */
+function mergeRule<T extends LoginRule | PasswordRule>(base: T, changes?: Partial<T> | Record<string, unknown>): T {
+  const merged = { ...base };
+  if (!changes) return merged;
+
+  for (const key of Object.keys(base) as (keyof T)[]) {
+    const value = (changes as Record<keyof T, unknown>)[key];
+    if (value !== undefined && typeof value === typeof base[key]) {
+      merged[key] = value as T[keyof T];
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Valida consistência das regras antes de salvar
+ * @returns Lista de erros (vazia quando válidas)
+ */
+export function validateCredentialRules(rules: CredentialRules): string[] {
+  const errors: string[] = [];
+
+  for (const [label, rule] of [['login', rules.login], ['password', rules.password]] as const) {
+    if (rule.requiredPattern.split('').some(char => char !== 'X' && char !== '0')) {
+      errors.push(`${label}.requiredPattern aceita apenas X (letra maiúscula) e 0 (número)`);
+    }
+    if (!Number.isInteger(rule.minLength) || rule.minLength < 4) {
+      errors.push(`${label}.minLength deve ser um inteiro maior ou igual a 4`);
+    }
+    if (!Number.isInteger(rule.maxLength) || rule.maxLength < rule.minLength || rule.maxLength > 64) {
+      errors.push(`${label}.maxLength deve estar entre minLength e 64`);
+    }
+  }
+
+  const password = rules.password;
+  if (!Number.isInteger(password.expirationDays) || password.expirationDays < 0) {
+    errors.push('password.expirationDays deve ser um inteiro maior ou igual a 0 (0 = sem expiração)');
+  }
+  if (!Number.isInteger(password.maxFailedAttempts) || password.maxFailedAttempts < 0) {
+    errors.push('password.maxFailedAttempts deve ser um inteiro maior ou igual a 0 (0 = sem bloqueio)');
+  }
+  if (!Number.isInteger(password.lockoutMinutes) || password.lockoutMinutes < 1) {
+    errors.push('password.lockoutMinutes deve ser um inteiro maior ou igual a 1');
+  }
+  if (!Number.isInteger(password.historyCount) || password.historyCount < 0 || password.historyCount > 24) {
+    errors.push('password.historyCount deve estar entre 0 e 24');
+  }
+
+  return errors;
+}
+
 /**
  * Gera exemplos válidos de credenciais para testes/demonstração
  * @param rules - Regras atuais (opcional)
  * @returns Objeto com exemplos de login e senha válidos
  */
 export function generateValidExamples(rules: CredentialRules = DEFAULT_CREDENTIAL_RULES) {
+  const examples = (rule: LoginRule | PasswordRule) =>
+    Array.from({ length: 3 }, () => generateFromPattern(rule.requiredPattern, rule.minLength));
+
   return {
-    loginExamples: [
-      "AB12345C",
-      "XY98765Z", 
-      "QW11111A"
-    ],
-    passwordExamples: [
-      "A1234B",
-      "Z9876X",
-      "M0000N"
-    ],
+    loginExamples: examples(rules.login),
+    passwordExamples: examples(rules.password),
     rules: {
       loginPattern: rules.login.requiredPattern,
       passwordPattern: rules.password.requiredPattern,
@@ -278,4 +353,4 @@ export function generateValidExamples(rules: CredentialRules = DEFAULT_CREDENTIA
       passwordDescription: rules.password.description
     }
   };
-}
\ No newline at end of file
+}
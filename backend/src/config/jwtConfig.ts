@@ -46,6 +46,7 @@ export interface RefreshTokenPayload {
   userId: string;
   sessionId: string;
   tenantId: string;
+  tokenId: string; // Único por rotação - tokens da mesma sessão nunca se repetem
 }
 
 /**
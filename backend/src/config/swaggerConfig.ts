@@ -117,6 +117,48 @@ O sistema implementa cache com fallback progressivo:
             example: 'padaria-demo'
           },
           description: 'ID do tenant para isolamento de dados (obrigatório para usuários não Super Admin)'
+        },
+        IdempotencyKey: {
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: false,
+          schema: {
+            type: 'string',
+            maxLength: 255,
+            example: '3f2b9c1e-7a4d-4e8b-9f0a-1c2d3e4f5a6b'
+          },
+          description: 'Chave única por comando (ex: UUID gerado no PDV). Retentativas com a mesma chave e o mesmo corpo recebem a resposta original (header Idempotent-Replayed); com outro corpo, 409. Apenas respostas de sucesso são guardadas'
+        },
+        IfMatch: {
+          name: 'If-Match',
+          in: 'header',
+          required: false,
+          schema: {
+            type: 'string',
+            example: '"3"'
+          },
+          description: 'ETag recebida no GET por id. A alteração só é gravada se o registro ainda estiver nessa versão; senão 412 com a representação atual'
+        },
+        FormatoExportacao: {
+          name: 'format',
+          in: 'query',
+          required: false,
+          schema: {
+            type: 'string',
+            enum: ['json', 'csv', 'xlsx', 'pdf'],
+            default: 'json'
+          },
+          description: 'Formato da resposta. Alternativa ao header Accept (text/csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/pdf); tem precedência sobre ele. CSV com separador ";" e vírgula decimal'
+        },
+        PreferAsync: {
+          name: 'Prefer',
+          in: 'header',
+          required: false,
+          schema: {
+            type: 'string',
+            example: 'respond-async'
+          },
+          description: 'Com respond-async, a exportação (CSV, XLSX, PDF) é gerada em segundo plano: 202 com o link em Location. Períodos longos são sempre gerados em segundo plano'
         }
       },
       responses: {
@@ -254,6 +296,26 @@ O sistema implementa cache com fallback progressivo:
         name: 'Vendas',
         description: 'Sistema de vendas e PDV'
       },
+      {
+        name: 'Devoluções',
+        description: 'Devolução parcial de itens, reembolso e vale-troca'
+      },
+      {
+        name: 'Caixa',
+        description: 'Sessões de caixa, sangria/suprimento e relatório Z'
+      },
+      {
+        name: 'PIX',
+        description: 'Chave PIX do tenant e confirmação de pagamentos'
+      },
+      {
+        name: 'Fiscal',
+        description: 'Emitente, certificado A1 e NFC-e'
+      },
+      {
+        name: 'Aprovações',
+        description: 'Aprovação de supervisor por PIN ou token para operações críticas'
+      },
       {
         name: 'Clientes',
         description: 'Gestão de clientes e CRM'
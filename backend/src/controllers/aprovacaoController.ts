@@ -0,0 +1,253 @@
+/**
+ * Aprovação Controller - Supervisor autoriza operações críticas
+ * Regras do tenant, PIN de supervisor e tokens de aprovação de uso único
+ *
+ * @swagger
+ * components:
+ *   schemas:
+ *     RegrasAprovacao:
+ *       type: object
+ *       properties:
+ *         limiteDescontoPercentual:
+ *           type: number
+ *           example: 10
+ *           description: "Desconto acima deste percentual do valor bruto exige aprovação"
+ *         validadeTokenMinutos:
+ *           type: integer
+ *           example: 10
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthContext } from '../config/jwtConfig';
+import {
+  OPERACOES_APROVACAO,
+  OperacaoAprovacao,
+  obterRegrasAprovacao,
+  salvarRegrasAprovacao,
+  listarOperacoesAprovacao,
+  definirPin,
+  emitirTokenAprovacao
+} from '../services/aprovacaoService';
+
+interface AuthRequest extends Request {
+  auth?: AuthContext;
+}
+
+/**
+ * @swagger
+ * /api/aprovacoes/regras:
+ *   get:
+ *     tags:
+ *       - Aprovações
+ *     summary: Regras de aprovação do tenant
+ *     description: Limite de desconto, validade dos tokens e operações sujeitas a aprovação (críticas conforme Permissao.critica)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Regras e operações
+ */
+export const obterRegras = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [regras, operacoes] = await Promise.all([
+      obterRegrasAprovacao(req.auth!.tenantId),
+      listarOperacoesAprovacao()
+    ]);
+
+    res.json({
+      success: true,
+      data: { ...regras, operacoes }
+    });
+
+  } catch (error) {
+    console.error('[APROVACAO_CONTROLLER] Erro ao obter regras de aprovação:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/aprovacoes/regras:
+ *   put:
+ *     tags:
+ *       - Aprovações
+ *     summary: Salvar regras de aprovação do tenant
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RegrasAprovacao'
+ *     responses:
+ *       200:
+ *         description: Regras salvas
+ *       400:
+ *         description: Regras inválidas
+ */
+export const salvarRegras = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { limiteDescontoPercentual, validadeTokenMinutos } = req.body ?? {};
+    const { tenantId, userId } = req.auth!;
+
+    const result = await salvarRegrasAprovacao(
+      tenantId,
+      {
+        ...(limiteDescontoPercentual !== undefined && { limiteDescontoPercentual }),
+        ...(validadeTokenMinutos !== undefined && { validadeTokenMinutos })
+      },
+      userId
+    );
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Regras de aprovação salvas com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[APROVACAO_CONTROLLER] Erro ao salvar regras de aprovação:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/aprovacoes/pin:
+ *   put:
+ *     tags:
+ *       - Aprovações
+ *     summary: Definir PIN de supervisor
+ *     description: PIN do próprio usuário, confirmado pela senha atual. Redefinir desbloqueia o PIN
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - senhaAtual
+ *               - pin
+ *             properties:
+ *               senhaAtual:
+ *                 type: string
+ *               pin:
+ *                 type: string
+ *                 pattern: "^\\d{4,8}$"
+ *     responses:
+ *       200:
+ *         description: PIN definido
+ *       400:
+ *         description: PIN inválido ou senha incorreta
+ */
+export const salvarPin = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { senhaAtual, pin } = req.body ?? {};
+    const { tenantId, userId } = req.auth!;
+
+    if (typeof senhaAtual !== 'string' || typeof pin !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Senha atual e PIN são obrigatórios'
+      });
+    }
+
+    const result = await definirPin(userId, tenantId, senhaAtual, pin);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'PIN de supervisor definido com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[APROVACAO_CONTROLLER] Erro ao definir PIN:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/aprovacoes/tokens:
+ *   post:
+ *     tags:
+ *       - Aprovações
+ *     summary: Emitir token de aprovação
+ *     description: O supervisor aprova uma operação para ser concluída em outro terminal. O token vale para um único uso, dentro da validade, e é exibido apenas nesta resposta
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - operacao
+ *             properties:
+ *               operacao:
+ *                 type: string
+ *                 enum: [CANCELAR_VENDA, DESCONTO, AJUSTE_ESTOQUE]
+ *               referencia:
+ *                 type: string
+ *                 description: "Venda (CANCELAR_VENDA, DESCONTO em venda aberta) ou produto (AJUSTE_ESTOQUE) - restringe o token"
+ *     responses:
+ *       201:
+ *         description: Token emitido
+ *       400:
+ *         description: Operação inválida
+ *       403:
+ *         description: Usuário não pode aprovar a operação
+ */
+export const emitirToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { operacao, referencia } = req.body ?? {};
+
+    if (!Object.keys(OPERACOES_APROVACAO).includes(operacao)) {
+      return res.status(400).json({
+        success: false,
+        error: `Operação deve ser: ${Object.keys(OPERACOES_APROVACAO).join(', ')}`
+      });
+    }
+
+    const result = await emitirTokenAprovacao(
+      req.auth!,
+      operacao as OperacaoAprovacao,
+      typeof referencia === 'string' && referencia ? referencia : undefined
+    );
+
+    if (!result.success) {
+      return res.status(403).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.data,
+      message: 'Token de aprovação emitido'
+    });
+
+  } catch (error) {
+    console.error('[APROVACAO_CONTROLLER] Erro ao emitir token de aprovação:', error);
+    next(error);
+  }
+};
@@ -73,11 +73,36 @@
  *         error:
  *           type: string
  *           example: "Credenciais inválidas"
+ *         code:
+ *           type: string
+ *           enum: [PASSWORD_EXPIRED, MUST_CHANGE_PASSWORD, PASSWORD_REJECTED]
+ *           description: "Senha correta mas troca obrigatória (403), ou nova senha recusada (400)"
  *         locked:
  *           type: boolean
  *           example: false
  *           description: "Conta bloqueada por muitas tentativas"
  *     
+ *     ChangePasswordRequest:
+ *       type: object
+ *       required:
+ *         - login
+ *         - currentPassword
+ *         - newPassword
+ *       properties:
+ *         login:
+ *           type: string
+ *           example: "AB12345C"
+ *         tenantId:
+ *           type: string
+ *           example: "padaria-demo"
+ *         currentPassword:
+ *           type: string
+ *           example: "A1234B"
+ *         newPassword:
+ *           type: string
+ *           example: "C5678D"
+ *           description: "Não pode repetir as últimas N senhas (historyCount)"
+ *     
  *     RefreshRequest:
  *       type: object
  *       required:
@@ -132,12 +157,16 @@
 
 import { Request, Response } from 'express';
 import { 
-  authenticateUser, 
+  authenticateUser,
+  changeUserPassword, 
   authenticateSuperAdmin, 
   refreshUserToken, 
+  logoutUser,
   createUser, 
   getUsersByTenant 
 } from '../services/authService';
+import { listarSessoesAtivas, revogarOutrasSessoes } from '../services/sessaoService';
+import { obterRegrasCredenciais, salvarRegrasCredenciais } from '../services/regraCredencialService';
 import { generateValidExamples } from '../config/credentialsRules';
 
 /**
@@ -193,6 +222,19 @@ import { generateValidExamples } from '../config/credentialsRules';
  *                 locked:
  *                   type: boolean
  *                   example: true
+ *       403:
+ *         description: Senha correta, mas a troca é obrigatória (PASSWORD_EXPIRED ou MUST_CHANGE_PASSWORD)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                   example: "Senha expirada. Altere a senha para continuar"
+ *                 code:
+ *                   type: string
+ *                   example: "PASSWORD_EXPIRED"
  *       500:
  *         description: Erro interno do servidor
  */
@@ -206,12 +248,19 @@ export async function login(req: Request, res: Response) {
       });
     }
 
-    const result = await authenticateUser({ login, password, tenantId });
+    const result = await authenticateUser({
+      login,
+      password,
+      tenantId,
+      ip: req.ip,
+      userAgent: req.headers['user-agent']
+    });
 
     if (!result.success) {
-      const statusCode = result.locked ? 423 : 401;
+      const statusCode = result.locked ? 423 : result.code ? 403 : 401;
       return res.status(statusCode).json({
         error: result.error,
+        code: result.code,
         locked: result.locked
       });
     }
@@ -226,6 +275,74 @@ export async function login(req: Request, res: Response) {
   }
 }
 
+/**
+ * @swagger
+ * /api/auth/change-password:
+ *   post:
+ *     summary: Trocar senha
+ *     description: |
+ *       Troca a senha informando a senha atual. Usado quando o login retorna
+ *       PASSWORD_EXPIRED ou MUST_CHANGE_PASSWORD (nenhum token é emitido nesses casos).
+ *       Revoga as sessões existentes e retorna um login novo com a nova senha.
+ *     tags: [Autenticação]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChangePasswordRequest'
+ *     responses:
+ *       200:
+ *         description: Senha alterada e login realizado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginResponse'
+ *       400:
+ *         description: Nova senha inválida ou reutilizada (PASSWORD_REJECTED)
+ *       401:
+ *         description: Senha atual incorreta
+ *       423:
+ *         description: Conta bloqueada por muitas tentativas
+ */
+export async function changePassword(req: Request, res: Response) {
+  try {
+    const { login, tenantId, currentPassword, newPassword } = req.body;
+
+    if (!login || !currentPassword || !newPassword) {
+      return res.status(400).json({
+        error: 'Login, senha atual e nova senha são obrigatórios'
+      });
+    }
+
+    const result = await changeUserPassword({
+      login,
+      tenantId,
+      currentPassword,
+      newPassword,
+      ip: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+
+    if (!result.success) {
+      const statusCode = result.locked ? 423 : result.code === 'PASSWORD_REJECTED' ? 400 : 401;
+      return res.status(statusCode).json({
+        error: result.error,
+        code: result.code,
+        locked: result.locked
+      });
+    }
+
+    return res.status(200).json(result);
+
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro na troca de senha:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor'
+    });
+  }
+}
+
 /**
  * @swagger
  * /api/auth/super-admin/login:
@@ -271,7 +388,12 @@ export async function superAdminLogin(req: Request, res: Response) {
       });
     }
 
-    const result = await authenticateSuperAdmin({ login, password });
+    const result = await authenticateSuperAdmin({
+      login,
+      password,
+      ip: req.ip,
+      userAgent: req.headers['user-agent']
+    });
 
     if (!result.success) {
       return res.status(401).json({
@@ -293,8 +415,8 @@ export async function superAdminLogin(req: Request, res: Response) {
  * @swagger
  * /api/auth/refresh:
  *   post:
- *     summary: Renovar access token
- *     description: Gera novo access token usando refresh token válido
+ *     summary: Renovar tokens
+ *     description: Gera novo access token e novo refresh token (rotação). O refresh token usado deixa de valer; reutilizá-lo revoga a sessão inteira
  *     tags: [Autenticação]
  *     requestBody:
  *       required: true
@@ -316,6 +438,9 @@ export async function superAdminLogin(req: Request, res: Response) {
  *                 accessToken:
  *                   type: string
  *                   description: "Novo access token"
+ *                 refreshToken:
+ *                   type: string
+ *                   description: "Novo refresh token - substitui o anterior"
  *                 expiresAt:
  *                   type: string
  *                   format: date-time
@@ -323,7 +448,7 @@ export async function superAdminLogin(req: Request, res: Response) {
  *       400:
  *         description: Refresh token não fornecido
  *       401:
- *         description: Refresh token inválido ou expirado
+ *         description: Refresh token inválido, expirado, já utilizado ou sessão revogada
  *       500:
  *         description: Erro interno do servidor
  */
@@ -355,6 +480,121 @@ export async function refreshToken(req: Request, res: Response) {
   }
 }
 
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Logout
+ *     description: Revoga a sessão atual - access e refresh tokens dela deixam de ser aceitos
+ *     tags: [Autenticação]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessão encerrada
+ *       401:
+ *         description: Token de autenticação necessário
+ */
+export async function logout(req: Request, res: Response) {
+  try {
+    if (!req.auth) {
+      return res.status(401).json({
+        error: 'Autenticação necessária'
+      });
+    }
+
+    await logoutUser(req.auth.sessionId, req.auth.userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Sessão encerrada com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro no logout:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor'
+    });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: Listar sessões ativas
+ *     description: Sessões ativas do usuário logado, com dispositivo e último uso
+ *     tags: [Perfil]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de sessões (a sessão atual vem com atual=true)
+ *       401:
+ *         description: Token de autenticação necessário
+ */
+export async function listSessions(req: Request, res: Response) {
+  try {
+    if (!req.auth) {
+      return res.status(401).json({
+        error: 'Autenticação necessária'
+      });
+    }
+
+    const sessions = await listarSessoesAtivas(req.auth.userId, req.auth.sessionId);
+
+    return res.status(200).json({
+      success: true,
+      sessions
+    });
+
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro ao listar sessões:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor'
+    });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/sessions/revoke-others:
+ *   post:
+ *     summary: Encerrar outras sessões
+ *     description: Revoga todas as sessões do usuário logado, exceto a atual
+ *     tags: [Perfil]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessões revogadas
+ *       401:
+ *         description: Token de autenticação necessário
+ */
+export async function revokeOtherSessions(req: Request, res: Response) {
+  try {
+    if (!req.auth) {
+      return res.status(401).json({
+        error: 'Autenticação necessária'
+      });
+    }
+
+    const revoked = await revogarOutrasSessoes(req.auth.userId, req.auth.sessionId);
+
+    return res.status(200).json({
+      success: true,
+      revoked,
+      message: `${revoked} sessão(ões) encerrada(s)`
+    });
+
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro ao revogar sessões:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor'
+    });
+  }
+}
+
 /**
  * @swagger
  * /api/auth/users:
@@ -605,8 +845,17 @@ export async function getUserProfile(req: Request, res: Response) {
  * /api/auth/credential-rules:
  *   get:
  *     summary: Obter regras de credenciais
- *     description: Retorna as regras atuais para validação de login e senha, com exemplos
+ *     description: |
+ *       Retorna as regras vigentes para validação de login e senha, com exemplos.
+ *       Resolução: regras do tenant → padrão global → padrão do sistema.
+ *       Com token, usa o tenant do usuário; sem token, o tenantId da query.
  *     tags: [Configuração]
+ *     parameters:
+ *       - name: tenantId
+ *         in: query
+ *         schema:
+ *           type: string
+ *           example: "padaria-demo"
  *     responses:
  *       200:
  *         description: Regras de credenciais retornadas com sucesso
@@ -618,6 +867,9 @@ export async function getUserProfile(req: Request, res: Response) {
  *                 success:
  *                   type: boolean
  *                   example: true
+ *                 origem:
+ *                   type: string
+ *                   enum: [TENANT, GLOBAL, PADRAO]
  *                 rules:
  *                   type: object
  *                   properties:
@@ -633,6 +885,9 @@ export async function getUserProfile(req: Request, res: Response) {
  *                     passwordDescription:
  *                       type: string
  *                       example: "Senha deve ter 6 caracteres: 1 letra maiúscula, 4 números, 1 letra maiúscula"
+ *                 config:
+ *                   type: object
+ *                   description: "Regras completas (login e password) no formato aceito pelo PUT"
  *                 examples:
  *                   type: object
  *                   properties:
@@ -649,11 +904,24 @@ export async function getUserProfile(req: Request, res: Response) {
  */
 export async function getCredentialRules(req: Request, res: Response) {
   try {
-    const examples = generateValidExamples();
+    // Usuário autenticado sempre vê as regras do próprio tenant
+    const tenantId = req.auth && !req.auth.isSuperAdmin
+      ? req.auth.tenantId
+      : (req.query.tenantId as string | undefined);
+
+    const { origem, ...rules } = await obterRegrasCredenciais(tenantId);
+    const examples = generateValidExamples(rules);
 
     return res.status(200).json({
       success: true,
+      origem,
       rules: examples.rules,
+      config: {
+        login: rules.login,
+        password: rules.password,
+        lastUpdated: rules.lastUpdated,
+        updatedBy: rules.updatedBy
+      },
       examples: {
         loginExamples: examples.loginExamples,
         passwordExamples: examples.passwordExamples
@@ -666,4 +934,86 @@ export async function getCredentialRules(req: Request, res: Response) {
       error: 'Erro interno do servidor'
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * @swagger
+ * /api/auth/credential-rules:
+ *   put:
+ *     summary: Alterar regras de credenciais
+ *     description: |
+ *       Altera as regras do tenant do usuário (permissão usuarios:configure).
+ *       Super Admin altera o padrão global, ou um tenant específico via tenantId.
+ *       Se a política de senha ficar mais restritiva, os usuários afetados
+ *       passam a ter troca de senha obrigatória no próximo login.
+ *     tags: [Configuração]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               tenantId:
+ *                 type: string
+ *                 description: "Apenas Super Admin - omitido altera o padrão global"
+ *               login:
+ *                 type: object
+ *                 example: { active: true, requiredPattern: "XX00000X" }
+ *               password:
+ *                 type: object
+ *                 example: { active: true, expirationDays: 60, maxFailedAttempts: 3, historyCount: 5 }
+ *     responses:
+ *       200:
+ *         description: Regras salvas; usuariosSinalizados indica quantos deverão trocar a senha
+ *       400:
+ *         description: Regras inválidas
+ *       403:
+ *         description: Permissão insuficiente
+ *       404:
+ *         description: Tenant não encontrado
+ */
+export async function saveCredentialRules(req: Request, res: Response) {
+  try {
+    if (!req.auth) {
+      return res.status(401).json({
+        error: 'Autenticação necessária'
+      });
+    }
+
+    const { tenantId, login, password } = req.body;
+
+    if (!login && !password) {
+      return res.status(400).json({
+        error: 'Informe as alterações de login e/ou password'
+      });
+    }
+
+    // Usuário de tenant só altera as regras do próprio tenant
+    const escopo = req.auth.isSuperAdmin ? (tenantId || null) : req.auth.tenantId;
+
+    const result = await salvarRegrasCredenciais(escopo, { login, password }, req.auth.userId);
+
+    if (!result.success) {
+      const statusCode = result.validationErrors ? 400 : 404;
+      return res.status(statusCode).json({
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      ...result.data,
+      message: 'Regras de credenciais atualizadas'
+    });
+
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro ao salvar regras:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor'
+    });
+  }
+}
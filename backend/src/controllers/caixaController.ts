@@ -0,0 +1,587 @@
+/**
+ * Caixa Controller - Sessões de caixa do PDV
+ * Abertura com fundo de troco, sangria/suprimento, fechamento cego e relatório Z
+ *
+ * @swagger
+ * components:
+ *   schemas:
+ *     SessaoCaixa:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         operadorId:
+ *           type: string
+ *         terminal:
+ *           type: string
+ *           example: "1"
+ *         status:
+ *           type: string
+ *           enum: [ABERTA, FECHADA]
+ *         valorAbertura:
+ *           type: number
+ *           format: float
+ *           example: 100.00
+ *           description: "Fundo de troco"
+ *         dataAbertura:
+ *           type: string
+ *           format: date-time
+ *         dataFechamento:
+ *           type: string
+ *           format: date-time
+ *         diferencaTotal:
+ *           type: number
+ *           format: float
+ *           description: "Contado - esperado (negativo = falta)"
+ *
+ *     RelatorioZ:
+ *       type: object
+ *       properties:
+ *         sessaoId:
+ *           type: string
+ *         quantidadeVendas:
+ *           type: integer
+ *         totalVendas:
+ *           type: number
+ *         valorAbertura:
+ *           type: number
+ *         suprimentos:
+ *           type: number
+ *         sangrias:
+ *           type: number
+ *         formas:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               forma:
+ *                 type: string
+ *               esperado:
+ *                 type: number
+ *               contado:
+ *                 type: number
+ *               diferenca:
+ *                 type: number
+ *         totalEsperado:
+ *           type: number
+ *         totalContado:
+ *           type: number
+ *         diferencaTotal:
+ *           type: number
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { CaixaRepository, TipoMovimentoCaixa } from '../repositories/CaixaRepository';
+import { UnitOfWork } from '../repositories/UnitOfWork';
+import { CaixaService, RelatorioZ, formatarRelatorioZ } from '../services/caixaService';
+import { FORMAS_PAGAMENTO } from '../services/vendaService';
+import { hasPermission } from '../services/jwtService';
+import { AuthContext } from '../config/jwtConfig';
+
+const prisma = new PrismaClient();
+const caixaRepo = new CaixaRepository(prisma);
+const caixaService = new CaixaService(new UnitOfWork(prisma));
+
+interface AuthRequest extends Request {
+  auth?: {
+    userId: string;
+    tenantId: string;
+    login: string;
+    permissions: string[];
+  };
+}
+
+const createError = (message: string, statusCode: number) => {
+  const error = new Error(message) as any;
+  error.statusCode = statusCode;
+  return error;
+};
+
+const isValorValido = (valor: unknown, permitirZero: boolean): valor is number =>
+  typeof valor === 'number' && Number.isFinite(valor) && (permitirZero ? valor >= 0 : valor > 0);
+
+/**
+ * @swagger
+ * /api/caixa/sessoes/abrir:
+ *   post:
+ *     tags:
+ *       - Caixa
+ *     summary: Abrir caixa
+ *     description: Abre a sessão de caixa do operador com o fundo de troco. Cada operador pode ter apenas uma sessão aberta
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - valorAbertura
+ *             properties:
+ *               valorAbertura:
+ *                 type: number
+ *                 example: 100.00
+ *               terminal:
+ *                 type: string
+ *                 example: "1"
+ *     responses:
+ *       201:
+ *         description: Caixa aberto
+ *       400:
+ *         description: Dados inválidos ou operador já possui caixa aberto
+ */
+export const abrirCaixa = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { valorAbertura, terminal } = req.body;
+
+    if (!isValorValido(valorAbertura, true)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Dados inválidos',
+        details: ['Valor de abertura deve ser um número maior ou igual a zero']
+      });
+    }
+
+    const result = await caixaService.abrir(
+      { valorAbertura, ...(terminal !== undefined && { terminal: String(terminal) }) },
+      req.auth as AuthContext
+    );
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.data,
+      message: 'Caixa aberto com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[CAIXA_CONTROLLER] Erro ao abrir caixa:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/caixa/sessoes/atual:
+ *   get:
+ *     tags:
+ *       - Caixa
+ *     summary: Sessão de caixa aberta do operador
+ *     description: Retorna a sessão e seus movimentos sem valores esperados (fechamento cego)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessão aberta
+ *       404:
+ *         description: Operador sem caixa aberto
+ */
+export const obterSessaoAtual = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { userId, tenantId } = req.auth!;
+
+    const sessao = await caixaRepo.findSessaoAberta(tenantId, userId);
+    if (!sessao) {
+      throw createError('Nenhum caixa aberto para o operador', 404);
+    }
+
+    const movimentos = await caixaRepo.findMovimentos(sessao.id);
+    const { chaveAberta: _chave, ...dados } = sessao;
+
+    res.json({
+      success: true,
+      data: { ...dados, movimentos }
+    });
+
+  } catch (error) {
+    console.error('[CAIXA_CONTROLLER] Erro ao obter sessão de caixa:', error);
+    next(error);
+  }
+};
+
+const registrarMovimento = (tipo: TipoMovimentoCaixa) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { valor, motivo } = req.body;
+
+      const errors: string[] = [];
+      if (!isValorValido(valor, false)) {
+        errors.push('Valor deve ser maior que zero');
+      }
+      if (tipo === 'SANGRIA' && !motivo) {
+        errors.push('Motivo da sangria é obrigatório');
+      }
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Dados inválidos',
+          details: errors
+        });
+      }
+
+      const result = await caixaService.movimentar(
+        id,
+        { tipo, valor, ...(motivo && { motivo: String(motivo) }) },
+        req.auth as AuthContext
+      );
+
+      if (!result.success) {
+        if (!result.validationErrors) {
+          throw createError(result.error || 'Sessão de caixa não encontrada', 404);
+        }
+        return res.status(400).json({
+          success: false,
+          error: result.error,
+          details: result.validationErrors
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: tipo === 'SANGRIA' ? 'Sangria registrada com sucesso' : 'Suprimento registrado com sucesso'
+      });
+
+    } catch (error) {
+      console.error(`[CAIXA_CONTROLLER] Erro ao registrar ${tipo.toLowerCase()}:`, error);
+      next(error);
+    }
+  };
+
+/**
+ * @swagger
+ * /api/caixa/sessoes/{id}/sangria:
+ *   post:
+ *     tags:
+ *       - Caixa
+ *     summary: Registrar sangria
+ *     description: Retirada de dinheiro da gaveta. Não pode exceder o dinheiro esperado
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - valor
+ *               - motivo
+ *             properties:
+ *               valor:
+ *                 type: number
+ *                 example: 200.00
+ *               motivo:
+ *                 type: string
+ *                 example: "Depósito bancário"
+ *     responses:
+ *       201:
+ *         description: Sangria registrada
+ *       400:
+ *         description: Dados inválidos ou valor acima do dinheiro em caixa
+ *       404:
+ *         description: Sessão não encontrada ou fechada
+ */
+export const registrarSangria = registrarMovimento('SANGRIA');
+
+/**
+ * @swagger
+ * /api/caixa/sessoes/{id}/suprimento:
+ *   post:
+ *     tags:
+ *       - Caixa
+ *     summary: Registrar suprimento
+ *     description: Entrada de dinheiro na gaveta (reforço de troco)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - valor
+ *             properties:
+ *               valor:
+ *                 type: number
+ *                 example: 50.00
+ *               motivo:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Suprimento registrado
+ *       404:
+ *         description: Sessão não encontrada ou fechada
+ */
+export const registrarSuprimento = registrarMovimento('SUPRIMENTO');
+
+/**
+ * @swagger
+ * /api/caixa/sessoes/{id}/fechar:
+ *   post:
+ *     tags:
+ *       - Caixa
+ *     summary: Fechar caixa (contagem cega)
+ *     description: O operador informa o valor contado por forma de pagamento sem ver o esperado. Retorna o relatório Z com as diferenças
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - contagem
+ *             properties:
+ *               contagem:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: number
+ *                 example: { "DINHEIRO": 350.00, "CARTAO_DEBITO": 120.00, "PIX": 80.00 }
+ *               observacoes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Caixa fechado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RelatorioZ'
+ *       400:
+ *         description: Contagem inválida
+ *       404:
+ *         description: Sessão não encontrada ou já fechada
+ */
+export const fecharCaixa = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { contagem, observacoes } = req.body;
+
+    const errors: string[] = [];
+    if (!contagem || typeof contagem !== 'object' || Array.isArray(contagem)) {
+      errors.push('Contagem por forma de pagamento é obrigatória');
+    } else {
+      for (const [forma, valor] of Object.entries(contagem)) {
+        if (!FORMAS_PAGAMENTO.includes(forma)) {
+          errors.push(`Forma de pagamento inválida na contagem: ${forma}`);
+        } else if (!isValorValido(valor, true)) {
+          errors.push(`Contagem de ${forma} deve ser um número maior ou igual a zero`);
+        }
+      }
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Dados inválidos',
+        details: errors
+      });
+    }
+
+    const result = await caixaService.fechar(
+      id,
+      { contagem, ...(observacoes && { observacoes: String(observacoes) }) },
+      req.auth as AuthContext
+    );
+
+    if (!result.success) {
+      if (!result.validationErrors) {
+        throw createError(result.error || 'Sessão de caixa não encontrada', 404);
+      }
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Caixa fechado com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[CAIXA_CONTROLLER] Erro ao fechar caixa:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/caixa/sessoes:
+ *   get:
+ *     tags:
+ *       - Caixa
+ *     summary: Listar sessões de caixa
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - name: operadorId
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [ABERTA, FECHADA]
+ *       - name: dataInicio
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: dataFim
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Lista de sessões
+ */
+export const listarSessoes = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page = 1, limit = 20, operadorId, status, dataInicio, dataFim } = req.query;
+
+    const tenantId = req.auth!.tenantId;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = Math.min(parseInt(limit as string, 10), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const result = await caixaRepo.findPaginated({
+      tenantId,
+      ...(operadorId && { operadorId: operadorId as string }),
+      ...(status && { status: status as string }),
+      ...(dataInicio && { dataInicio: new Date(dataInicio as string) }),
+      ...(dataFim && { dataFim: new Date(dataFim as string) }),
+      skip,
+      take: limitNum
+    });
+    const totalPages = Math.ceil(result.total / limitNum);
+
+    res.json({
+      success: true,
+      data: {
+        items: result.data.map(({ chaveAberta: _chave, ...sessao }) => sessao),
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems: result.total,
+          itemsPerPage: limitNum,
+          hasNext: pageNum < totalPages,
+          hasPrevious: pageNum > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[CAIXA_CONTROLLER] Erro ao listar sessões de caixa:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/caixa/sessoes/{id}/relatorio-z:
+ *   get:
+ *     tags:
+ *       - Caixa
+ *     summary: Relatório Z de uma sessão fechada
+ *     description: Reimpressão do relatório Z. Operadores só acessam as próprias sessões; caixa:read acessa todas
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: formato
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [json, texto]
+ *           default: json
+ *         description: "texto retorna text/plain para impressora térmica (40 colunas)"
+ *     responses:
+ *       200:
+ *         description: Relatório Z
+ *       404:
+ *         description: Sessão não encontrada ou ainda aberta
+ */
+export const relatorioZ = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { formato = 'json' } = req.query;
+    const auth = req.auth as AuthContext;
+
+    const sessao = await caixaRepo.findById(id, auth.tenantId);
+
+    // Sessão de outro operador é tratada como inexistente para quem não tem caixa:read
+    if (
+      !sessao ||
+      sessao.status !== 'FECHADA' ||
+      !sessao.resumoFechamento ||
+      (sessao.operadorId !== auth.userId && !hasPermission(auth, 'caixa:read'))
+    ) {
+      throw createError('Relatório Z não encontrado', 404);
+    }
+
+    const relatorio = sessao.resumoFechamento as unknown as RelatorioZ;
+
+    if (formato === 'texto') {
+      res.type('text/plain; charset=utf-8').send(formatarRelatorioZ(relatorio));
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: relatorio
+    });
+
+  } catch (error) {
+    console.error('[CAIXA_CONTROLLER] Erro ao gerar relatório Z:', error);
+    next(error);
+  }
+};
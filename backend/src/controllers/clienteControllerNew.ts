@@ -31,6 +31,10 @@
  *         ativo:
  *           type: boolean
  *           example: true
+ *         versao:
+ *           type: integer
+ *           example: 3
+ *           description: "Versão do registro (devolvida no header ETag)"
  *         dataCadastro:
  *           type: string
  *           format: date-time
@@ -67,6 +71,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { ClienteRepository } from '../repositories/ClienteRepository';
+import { ConflitoVersaoError } from '../repositories/BaseRepository';
+import { definirETag, versoesIfMatch, responderConflitoVersao } from '../middleware/etag';
 
 const prisma = new PrismaClient();
 const clienteRepo = new ClienteRepository(prisma);
@@ -214,7 +220,7 @@ export const listarClientes = async (req: AuthRequest, res: Response, next: Next
  *         description: ID do cliente
  *     responses:
  *       200:
- *         description: Cliente encontrado com sucesso
+ *         description: Cliente encontrado com sucesso (header ETag com a versão)
  *       404:
  *         description: Cliente não encontrado
  *       401:
@@ -237,6 +243,7 @@ export const obterCliente = async (req: AuthRequest, res: Response, next: NextFu
       });
     }
     
+    definirETag(res, cliente.versao);
     res.json({
       success: true,
       data: cliente
@@ -257,6 +264,8 @@ export const obterCliente = async (req: AuthRequest, res: Response, next: NextFu
  *     tags: [Clientes]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -269,7 +278,7 @@ export const obterCliente = async (req: AuthRequest, res: Response, next: NextFu
  *       400:
  *         description: Dados inválidos
  *       409:
- *         description: CPF já cadastrado
+ *         description: "CPF já cadastrado, Idempotency-Key reutilizada com outro corpo ou requisição original ainda em processamento"
  *       401:
  *         description: Não autorizado
  *       403:
@@ -340,6 +349,7 @@ export const criarCliente = async (req: AuthRequest, res: Response, next: NextFu
  *         schema:
  *           type: string
  *         description: ID do cliente
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -348,13 +358,15 @@ export const criarCliente = async (req: AuthRequest, res: Response, next: NextFu
  *             $ref: '#/components/schemas/ClienteCreateRequest'
  *     responses:
  *       200:
- *         description: Cliente atualizado com sucesso
+ *         description: Cliente atualizado com sucesso (header ETag com a nova versão)
  *       400:
  *         description: Dados inválidos
  *       404:
  *         description: Cliente não encontrado
  *       409:
  *         description: CPF já cadastrado
+ *       412:
+ *         description: Cliente alterado por outro usuário desde a versão do If-Match (corpo traz a versão atual)
  *       401:
  *         description: Não autorizado
  *       403:
@@ -406,8 +418,11 @@ export const atualizarCliente = async (req: AuthRequest, res: Response, next: Ne
       dataNascimento: dataNascimento ? new Date(dataNascimento) : null
     };
     
-    const cliente = await clienteRepo.update(id, updateData, tenantId, userId);
+    const cliente = await clienteRepo.update(id, updateData, tenantId, userId, versoesIfMatch(req));
     
+    if (cliente) {
+      definirETag(res, cliente.versao);
+    }
     res.json({
       success: true,
       data: cliente,
@@ -415,6 +430,9 @@ export const atualizarCliente = async (req: AuthRequest, res: Response, next: Ne
     });
     
   } catch (error) {
+    if (error instanceof ConflitoVersaoError) {
+      return responderConflitoVersao(res, error.atual, error.message);
+    }
     console.error('[CLIENTE_CONTROLLER] Erro ao atualizar cliente:', error);
     next(error);
   }
@@ -489,13 +507,23 @@ export const deletarCliente = async (req: AuthRequest, res: Response, next: Next
  * /api/clientes/estatisticas:
  *   get:
  *     summary: Obter estatísticas de clientes
- *     description: Retorna estatísticas detalhadas dos clientes do tenant
+ *     description: Retorna estatísticas detalhadas dos clientes do tenant. Exportável em CSV, XLSX ou PDF (format ou Accept)
  *     tags: [Clientes]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/FormatoExportacao'
+ *       - $ref: '#/components/parameters/PreferAsync'
  *     responses:
  *       200:
  *         description: Estatísticas retornadas com sucesso
+ *         content:
+ *           application/json: {}
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           application/pdf: {}
+ *       202:
+ *         description: Exportação agendada em segundo plano (Location aponta para /api/exportacoes/{id})
  *       401:
  *         description: Não autorizado
  *       403:
@@ -669,4 +697,44 @@ export const buscarPorIdade = async (req: AuthRequest, res: Response, next: Next
     console.error('[CLIENTE_CONTROLLER] Erro ao buscar por idade:', error);
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * @swagger
+ * /api/clientes/{id}/historico:
+ *   get:
+ *     summary: Histórico de alterações do cliente
+ *     description: Trilha de auditoria (LGPD) com as alterações campo a campo, da mais recente para a mais antiga
+ *     tags: [Clientes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do cliente
+ *     responses:
+ *       200:
+ *         description: Histórico de alterações
+ *       401:
+ *         description: Não autorizado
+ */
+export const obterHistoricoCliente = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.auth!.tenantId;
+    
+    const historico = await clienteRepo.getAuditHistory(id, tenantId);
+    
+    res.json({
+      success: true,
+      data: historico
+    });
+    
+  } catch (error) {
+    console.error('[CLIENTE_CONTROLLER] Erro ao obter histórico do cliente:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,440 @@
+/**
+ * Devolução Controller - Devolução parcial de itens e vales-troca
+ *
+ * @swagger
+ * components:
+ *   schemas:
+ *     Devolucao:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         vendaId:
+ *           type: string
+ *         tipoReembolso:
+ *           type: string
+ *           enum: [REEMBOLSO, VALE_TROCA]
+ *         formaReembolso:
+ *           type: string
+ *           enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX]
+ *         valor:
+ *           type: number
+ *           format: float
+ *           example: 39.90
+ *           description: "Valor dos itens com descontos e acréscimos da venda rateados"
+ *         motivo:
+ *           type: string
+ *         dataDevolucao:
+ *           type: string
+ *           format: date-time
+ *         itens:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               itemVendaId:
+ *                 type: string
+ *               produtoId:
+ *                 type: string
+ *               quantidade:
+ *                 type: number
+ *               valor:
+ *                 type: number
+ *                 format: float
+ *               destino:
+ *                 type: string
+ *                 enum: [ESTOQUE, PERDA]
+ *         valeTroca:
+ *           $ref: '#/components/schemas/ValeTroca'
+ *
+ *     ValeTroca:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         codigo:
+ *           type: string
+ *           example: "VT7KQ2M9XH"
+ *           description: "Informado em pagamentos (forma VALE_TROCA, campo valeTroca) de uma nova venda"
+ *         clienteId:
+ *           type: string
+ *         valorOriginal:
+ *           type: number
+ *           format: float
+ *         saldo:
+ *           type: number
+ *           format: float
+ *         status:
+ *           type: string
+ *           enum: [ATIVO, UTILIZADO]
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { DevolucaoRepository } from '../repositories/DevolucaoRepository';
+import { UnitOfWork } from '../repositories/UnitOfWork';
+import {
+  DevolucaoService,
+  TIPOS_REEMBOLSO,
+  FORMAS_REEMBOLSO,
+  DESTINOS_DEVOLUCAO
+} from '../services/devolucaoService';
+import { AuthContext } from '../config/jwtConfig';
+import { validarFormatoQuantidade } from '../services/unidadeMedidaService';
+
+const prisma = new PrismaClient();
+const devolucaoRepo = new DevolucaoRepository(prisma);
+const devolucaoService = new DevolucaoService(new UnitOfWork(prisma));
+
+interface AuthRequest extends Request {
+  auth?: {
+    userId: string;
+    tenantId: string;
+    login: string;
+    permissions: string[];
+  };
+}
+
+const createError = (message: string, statusCode: number) => {
+  const error = new Error(message) as any;
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Validação dos dados da devolução
+const validateDevolucaoData = (data: any) => {
+  const errors: string[] = [];
+
+  if (!data.vendaId) {
+    errors.push('Venda é obrigatória');
+  }
+
+  if (!data.motivo || typeof data.motivo !== 'string' || !data.motivo.trim()) {
+    errors.push('Motivo da devolução é obrigatório');
+  }
+
+  if (!TIPOS_REEMBOLSO.includes(data.tipoReembolso)) {
+    errors.push(`Tipo de reembolso deve ser: ${TIPOS_REEMBOLSO.join(', ')}`);
+  } else if (data.tipoReembolso === 'REEMBOLSO' && !FORMAS_REEMBOLSO.includes(data.formaReembolso)) {
+    errors.push(`Forma de reembolso deve ser: ${FORMAS_REEMBOLSO.join(', ')}`);
+  } else if (data.tipoReembolso === 'VALE_TROCA' && data.formaReembolso !== undefined) {
+    errors.push('Forma de reembolso não se aplica a vale-troca');
+  }
+
+  if (!Array.isArray(data.itens) || data.itens.length === 0) {
+    errors.push('Informe ao menos um item para devolução');
+  } else {
+    data.itens.forEach((item: any, index: number) => {
+      if (!item.itemVendaId) {
+        errors.push(`Item ${index + 1}: item da venda é obrigatório`);
+      }
+      const erroQuantidade = validarFormatoQuantidade(item.quantidade);
+      if (erroQuantidade) {
+        errors.push(`Item ${index + 1}: ${erroQuantidade}`);
+      }
+      if (item.destino !== undefined && !DESTINOS_DEVOLUCAO.includes(item.destino)) {
+        errors.push(`Item ${index + 1}: destino deve ser ${DESTINOS_DEVOLUCAO.join(' ou ')}`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * @swagger
+ * /api/devolucoes:
+ *   get:
+ *     tags:
+ *       - Devoluções
+ *     summary: Listar devoluções
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - name: vendaId
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: tipoReembolso
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [REEMBOLSO, VALE_TROCA]
+ *       - name: dataInicio
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: dataFim
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Lista de devoluções
+ */
+export const listarDevolucoes = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page = 1, limit = 20, vendaId, tipoReembolso, dataInicio, dataFim } = req.query;
+
+    const tenantId = req.auth!.tenantId;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = Math.min(parseInt(limit as string, 10), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const result = await devolucaoRepo.findPaginated({
+      tenantId,
+      ...(vendaId && { vendaId: vendaId as string }),
+      ...(tipoReembolso && { tipoReembolso: tipoReembolso as string }),
+      ...(dataInicio && { dataInicio: new Date(dataInicio as string) }),
+      ...(dataFim && { dataFim: new Date(dataFim as string) }),
+      skip,
+      take: limitNum
+    });
+    const totalPages = Math.ceil(result.total / limitNum);
+
+    res.json({
+      success: true,
+      data: {
+        items: result.data,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems: result.total,
+          itemsPerPage: limitNum,
+          hasNext: pageNum < totalPages,
+          hasPrevious: pageNum > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[DEVOLUCAO_CONTROLLER] Erro ao listar devoluções:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/devolucoes/{id}:
+ *   get:
+ *     tags:
+ *       - Devoluções
+ *     summary: Obter devolução
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Devolução com itens e vale-troca
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Devolucao'
+ *       404:
+ *         description: Devolução não encontrada
+ */
+export const obterDevolucao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const devolucao = await devolucaoRepo.findById(id, req.auth!.tenantId);
+    if (!devolucao) {
+      throw createError('Devolução não encontrada', 404);
+    }
+
+    res.json({
+      success: true,
+      data: devolucao
+    });
+
+  } catch (error) {
+    console.error('[DEVOLUCAO_CONTROLLER] Erro ao obter devolução:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/devolucoes:
+ *   post:
+ *     tags:
+ *       - Devoluções
+ *     summary: Registrar devolução de itens
+ *     description: |
+ *       Devolve parte ou toda a quantidade de itens de uma venda finalizada.
+ *       Itens com destino ESTOQUE voltam ao saldo; PERDA registra a avaria sem movimentar o estoque.
+ *       REEMBOLSO devolve o valor na forma informada (sai do caixa aberto do operador);
+ *       VALE_TROCA emite um vale com o valor, usado como pagamento em uma nova venda
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - vendaId
+ *               - motivo
+ *               - tipoReembolso
+ *               - itens
+ *             properties:
+ *               vendaId:
+ *                 type: string
+ *               motivo:
+ *                 type: string
+ *                 example: "Produto com defeito"
+ *               tipoReembolso:
+ *                 type: string
+ *                 enum: [REEMBOLSO, VALE_TROCA]
+ *               formaReembolso:
+ *                 type: string
+ *                 enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX]
+ *                 description: "Obrigatória para REEMBOLSO"
+ *               itens:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemVendaId
+ *                     - quantidade
+ *                   properties:
+ *                     itemVendaId:
+ *                       type: string
+ *                     quantidade:
+ *                       type: number
+ *                       example: 0.25
+ *                       description: "Na unidade de medida do produto (UN inteira). Somada às devoluções anteriores, não pode exceder a quantidade vendida"
+ *                     destino:
+ *                       type: string
+ *                       enum: [ESTOQUE, PERDA]
+ *                       default: ESTOQUE
+ *     responses:
+ *       201:
+ *         description: Devolução registrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Devolucao'
+ *       400:
+ *         description: Dados inválidos, quantidade excedida ou caixa fechado
+ *       404:
+ *         description: Venda não encontrada ou não finalizada
+ *       409:
+ *         description: "Idempotency-Key reutilizada com outro corpo ou requisição original ainda em processamento"
+ */
+export const registrarDevolucao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = req.body ?? {};
+
+    const validationErrors = validateDevolucaoData(data);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Dados inválidos',
+        details: validationErrors
+      });
+    }
+
+    const result = await devolucaoService.registrar({
+      vendaId: data.vendaId,
+      motivo: data.motivo.trim(),
+      tipoReembolso: data.tipoReembolso,
+      ...(data.formaReembolso && { formaReembolso: data.formaReembolso }),
+      itens: data.itens.map((item: any) => ({
+        itemVendaId: item.itemVendaId,
+        quantidade: item.quantidade,
+        ...(item.destino && { destino: item.destino })
+      }))
+    }, req.auth as AuthContext);
+
+    if (!result.success) {
+      if (result.validationErrors) {
+        return res.status(400).json({
+          success: false,
+          error: result.error,
+          details: result.validationErrors
+        });
+      }
+      throw createError(result.error || 'Venda não encontrada ou não permite devolução', 404);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.data,
+      message: data.tipoReembolso === 'VALE_TROCA'
+        ? 'Devolução registrada - vale-troca emitido'
+        : 'Devolução registrada com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[DEVOLUCAO_CONTROLLER] Erro ao registrar devolução:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/devolucoes/vales-troca/{codigo}:
+ *   get:
+ *     tags:
+ *       - Devoluções
+ *     summary: Consultar vale-troca
+ *     description: Saldo e situação do vale antes de usá-lo como pagamento
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: codigo
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Vale-troca
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValeTroca'
+ *       404:
+ *         description: Vale-troca não encontrado
+ */
+export const consultarValeTroca = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { codigo } = req.params;
+
+    const vale = await devolucaoRepo.findValeTroca(codigo, req.auth!.tenantId);
+    if (!vale) {
+      throw createError('Vale-troca não encontrado', 404);
+    }
+
+    res.json({
+      success: true,
+      data: vale
+    });
+
+  } catch (error) {
+    console.error('[DEVOLUCAO_CONTROLLER] Erro ao consultar vale-troca:', error);
+    next(error);
+  }
+};
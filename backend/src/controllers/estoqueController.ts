@@ -1,13 +1,42 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { TenantRequest } from '../middleware/tenant';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { createError } from '../middleware/errorHandler';
+import { AuthContext } from '../config/jwtConfig';
+import { hasPermission } from '../services/jwtService';
+import { exigirAprovacao, AprovacaoNecessariaError } from '../services/aprovacaoService';
+import { AuditoriaRepository, buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { EstoqueRepository } from '../repositories/EstoqueRepository';
+import { obterConfiguracaoEstoque, salvarConfiguracaoEstoque } from '../services/estoqueService';
+import { validarFormatoQuantidade, validarQuantidade } from '../services/unidadeMedidaService';
+import { ConflitoVersaoError } from '../repositories/BaseRepository';
+import { definirETag, versoesIfMatch, responderConflitoVersao } from '../middleware/etag';
 
 const prisma = new PrismaClient();
 
+// Tenant e usuário vêm do JWT (authenticateAndIsolateTenant), nunca de header
+interface AuthRequest extends Request {
+  auth?: AuthContext;
+}
+
+// Representação do estoque por produto (GET e conflito de versão)
+const ESTOQUE_PRODUTO_INCLUDE = {
+  produto: {
+    select: {
+      id: true,
+      nome: true,
+      codigoBarras: true,
+      precoVenda: true,
+      lote: true
+    }
+  }
+} as const;
+
 // Listar estoque com paginação
-export const listarEstoque = async (req: TenantRequest, res: Response, next: NextFunction) => {
+export const listarEstoque = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    const tenantId = req.auth!.tenantId;
+    
     const { 
       page = 1, 
       limit = 20, 
@@ -24,7 +53,7 @@ export const listarEstoque = async (req: TenantRequest, res: Response, next: Nex
     
     // Filtros de busca
     const where: any = {
-      tenantId: req.tenantId,
+      tenantId,
       ativo: isAtivo,
       produto: {
         ativo: true
@@ -102,33 +131,26 @@ export const listarEstoque = async (req: TenantRequest, res: Response, next: Nex
 };
 
 // Obter estoque por produto ID
-export const obterEstoqueProduto = async (req: TenantRequest, res: Response, next: NextFunction) => {
+export const obterEstoqueProduto = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    const tenantId = req.auth!.tenantId;
+    
     const { produtoId } = req.params;
     
     const estoque = await prisma.estoque.findFirst({
       where: {
         produtoId,
-        tenantId: req.tenantId,
+        tenantId,
         ativo: true
       },
-      include: {
-        produto: {
-          select: {
-            id: true,
-            nome: true,
-            codigoBarras: true,
-            precoVenda: true,
-            lote: true
-          }
-        }
-      }
+      include: ESTOQUE_PRODUTO_INCLUDE
     });
     
     if (!estoque) {
       throw createError('Estoque não encontrado para este produto', 404);
     }
     
+    definirETag(res, estoque.versao);
     res.json({
       success: true,
       data: estoque
@@ -140,8 +162,11 @@ export const obterEstoqueProduto = async (req: TenantRequest, res: Response, nex
 };
 
 // Criar/Atualizar estoque
-export const criarOuAtualizarEstoque = async (req: TenantRequest, res: Response, next: NextFunction) => {
+export const criarOuAtualizarEstoque = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    const tenantId = req.auth!.tenantId;
+    const userId = req.auth!.userId;
+    
     const { 
       produtoId,
       quantidadeAtual,
@@ -149,7 +174,9 @@ export const criarOuAtualizarEstoque = async (req: TenantRequest, res: Response,
       quantidadeMaxima,
       precoCusto,
       lote,
-      dataValidade
+      dataValidade,
+      motivo,
+      aprovacao // Ajuste de saldo por operador de caixa: login + PIN ou token do supervisor
     } = req.body;
     
     // Validações básicas
@@ -161,7 +188,7 @@ export const criarOuAtualizarEstoque = async (req: TenantRequest, res: Response,
     const produto = await prisma.produto.findFirst({
       where: {
         id: produtoId,
-        tenantId: req.tenantId,
+        tenantId,
         ativo: true
       }
     });
@@ -170,44 +197,120 @@ export const criarOuAtualizarEstoque = async (req: TenantRequest, res: Response,
       throw createError('Produto não encontrado', 404);
     }
     
+    // Quantidades na unidade de medida do produto (zero é aceito)
+    const quantidades = { quantidadeAtual, quantidadeMinima, quantidadeMaxima };
+    for (const [campo, valor] of Object.entries(quantidades)) {
+      const erro = valor === undefined || valor === 0 ? null : validarQuantidade(valor, produto.unidadeMedida, campo);
+      if (erro) {
+        throw createError(erro, 400);
+      }
+    }
+    
     // Verificar se estoque já existe
     const estoqueExistente = await prisma.estoque.findFirst({
       where: {
         produtoId,
-        tenantId: req.tenantId
+        tenantId
       }
     });
     
-    let estoque;
+    // Alterar o saldo de um estoque existente é um ajuste
+    const alteraSaldo = estoqueExistente !== null
+      && quantidadeAtual !== undefined
+      && !estoqueExistente.quantidadeAtual.equals(quantidadeAtual);
+    
+    if (alteraSaldo && !hasPermission(req.auth!, 'estoque:adjust')) {
+      throw createError('Permissão necessária para ajustar saldo: estoque:adjust', 403);
+    }
     
-    if (estoqueExistente) {
-      // Atualizar estoque existente
-      estoque = await prisma.estoque.update({
+    // If-Match com a versão lida no GET; sem header vale a versão lida acima
+    const versoes = versoesIfMatch(req);
+    if (estoqueExistente && versoes && !versoes.includes(estoqueExistente.versao)) {
+      throw new ConflitoVersaoError('Estoque', await prisma.estoque.findUniqueOrThrow({
         where: { id: estoqueExistente.id },
-        data: {
-          quantidadeAtual: quantidadeAtual ?? estoqueExistente.quantidadeAtual,
-          quantidadeMinima: quantidadeMinima ?? estoqueExistente.quantidadeMinima,
-          quantidadeMaxima: quantidadeMaxima ?? estoqueExistente.quantidadeMaxima,
-          precoCusto: precoCusto ? parseFloat(precoCusto) : estoqueExistente.precoCusto,
-          lote: lote ?? estoqueExistente.lote,
-          dataValidade: dataValidade ? new Date(dataValidade) : estoqueExistente.dataValidade,
-          ativo: true, // Reativar se estava inativo
-          usuarioUltimaAtualizacao: 'api-user'
-        },
-        include: {
-          produto: {
-            select: {
-              id: true,
-              nome: true,
-              codigoBarras: true,
-              precoVenda: true
+        include: ESTOQUE_PRODUTO_INCLUDE
+      }));
+    }
+    
+    const estoque = await prisma.$transaction(async (prisma) => {
+      if (estoqueExistente) {
+        // Ajuste de saldo exige aprovação como no movimentar; o token só é consumido se a edição for gravada
+        const aprovador = alteraSaldo
+          ? await exigirAprovacao(prisma as TransactionClient, req.auth!, 'AJUSTE_ESTOQUE', aprovacao, produtoId)
+          : null;
+        
+        // Condicional na versão: o ajuste calculado sobre o saldo lido não
+        // sobrescreve movimentação ou edição concorrente
+        const result = await prisma.estoque.updateMany({
+          where: { id: estoqueExistente.id, versao: estoqueExistente.versao },
+          data: {
+            quantidadeAtual: quantidadeAtual ?? estoqueExistente.quantidadeAtual,
+            quantidadeMinima: quantidadeMinima ?? estoqueExistente.quantidadeMinima,
+            quantidadeMaxima: quantidadeMaxima ?? estoqueExistente.quantidadeMaxima,
+            precoCusto: precoCusto ? parseFloat(precoCusto) : estoqueExistente.precoCusto,
+            lote: lote ?? estoqueExistente.lote,
+            dataValidade: dataValidade ? new Date(dataValidade) : estoqueExistente.dataValidade,
+            ativo: true, // Reativar se estava inativo
+            versao: { increment: 1 },
+            usuarioUltimaAtualizacao: userId
+          }
+        });
+        
+        if (result.count === 0) {
+          throw new ConflitoVersaoError('Estoque', await prisma.estoque.findUniqueOrThrow({
+            where: { id: estoqueExistente.id },
+            include: ESTOQUE_PRODUTO_INCLUDE
+          }));
+        }
+        
+        const atualizado = await prisma.estoque.findUniqueOrThrow({
+          where: { id: estoqueExistente.id },
+          include: {
+            produto: {
+              select: {
+                id: true,
+                nome: true,
+                codigoBarras: true,
+                precoVenda: true
+              }
             }
           }
+        });
+      
+        if (alteraSaldo) {
+          await prisma.movimentacaoEstoque.create({
+            data: {
+              produtoId,
+              tipo: 'AJUSTE',
+              quantidade: atualizado.quantidadeAtual,
+              quantidadeAnterior: estoqueExistente.quantidadeAtual,
+              quantidadeAtual: atualizado.quantidadeAtual,
+              motivo: motivo || 'Ajuste no cadastro de estoque',
+              usuarioId: userId,
+              tenantId
+            }
+          });
+          
+          // Ajuste de saldo fica na trilha de auditoria com o aprovador
+          await new AuditoriaRepository(prisma as TransactionClient).registrar({
+            entidade: 'Estoque',
+            entidadeId: estoqueExistente.id,
+            acao: 'UPDATE',
+            alteracoes: {
+              ...buildAuditDiff(estoqueExistente, { quantidadeAtual: atualizado.quantidadeAtual }),
+              motivo: { antes: null, depois: motivo || 'Ajuste no cadastro de estoque' },
+              ...(aprovador && { aprovadoPor: { antes: null, depois: aprovador } })
+            },
+            usuarioId: userId,
+            tenantId
+          });
         }
-      });
-    } else {
+      
+        return atualizado;
+      }
+    
       // Criar novo estoque
-      estoque = await prisma.estoque.create({
+      const criado = await prisma.estoque.create({
         data: {
           produtoId,
           quantidadeAtual: quantidadeAtual || 0,
@@ -216,9 +319,9 @@ export const criarOuAtualizarEstoque = async (req: TenantRequest, res: Response,
           precoCusto: precoCusto ? parseFloat(precoCusto) : 0,
           lote,
           dataValidade: dataValidade ? new Date(dataValidade) : null,
-          tenantId: req.tenantId,
-          usuarioCadastro: 'api-user',
-          usuarioUltimaAtualizacao: 'api-user'
+          tenantId,
+          usuarioCadastro: userId,
+          usuarioUltimaAtualizacao: userId
         },
         include: {
           produto: {
@@ -231,8 +334,27 @@ export const criarOuAtualizarEstoque = async (req: TenantRequest, res: Response,
           }
         }
       });
-    }
     
+      // Saldo inicial também fica registrado no histórico
+      if (criado.quantidadeAtual.greaterThan(0)) {
+        await prisma.movimentacaoEstoque.create({
+          data: {
+            produtoId,
+            tipo: 'ENTRADA',
+            quantidade: criado.quantidadeAtual,
+            quantidadeAnterior: 0,
+            quantidadeAtual: criado.quantidadeAtual,
+            motivo: motivo || 'Estoque inicial',
+            usuarioId: userId,
+            tenantId
+          }
+        });
+      }
+      
+      return criado;
+    });
+    
+    definirETag(res, estoque.versao);
     res.status(estoqueExistente ? 200 : 201).json({
       success: true,
       data: estoque,
@@ -240,18 +362,33 @@ export const criarOuAtualizarEstoque = async (req: TenantRequest, res: Response,
     });
     
   } catch (error) {
+    if (error instanceof ConflitoVersaoError) {
+      return responderConflitoVersao(res, error.atual, error.message);
+    }
+    if (error instanceof AprovacaoNecessariaError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        data: { operacao: error.operacao, detalhes: error.detalhes }
+      });
+    }
     next(error);
   }
 };
 
 // Movimentar estoque (entrada/saída/ajuste)
-export const movimentarEstoque = async (req: TenantRequest, res: Response, next: NextFunction) => {
+export const movimentarEstoque = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    const tenantId = req.auth!.tenantId;
+    const userId = req.auth!.userId;
+    
     const {
       produtoId,
       tipo, // ENTRADA, SAIDA, AJUSTE
       quantidade,
-      motivo
+      motivo,
+      aprovacao // AJUSTE por operador de caixa: login + PIN ou token do supervisor
     } = req.body;
     
     // Validações
@@ -263,50 +400,72 @@ export const movimentarEstoque = async (req: TenantRequest, res: Response, next:
       throw createError('Tipo deve ser: ENTRADA, SAIDA ou AJUSTE', 400);
     }
     
-    const qtd = parseInt(quantidade);
-    if (isNaN(qtd) || qtd <= 0) {
-      throw createError('Quantidade deve ser um número positivo', 400);
+    // AJUSTE define o saldo diretamente - permissão própria
+    if (tipo === 'AJUSTE' && !hasPermission(req.auth!, 'estoque:adjust')) {
+      throw createError('Permissão necessária para ajustar saldo: estoque:adjust', 403);
     }
     
-    // Buscar estoque atual
-    const estoque = await prisma.estoque.findFirst({
-      where: {
-        produtoId,
-        tenantId: req.tenantId,
-        ativo: true
-      }
-    });
-    
-    if (!estoque) {
-      throw createError('Estoque não encontrado para este produto', 404);
+    const qtd = typeof quantidade === 'string' ? Number(quantidade) : quantidade;
+    const erroQuantidade = validarFormatoQuantidade(qtd, 'Quantidade');
+    if (erroQuantidade) {
+      throw createError(erroQuantidade, 400);
     }
     
-    // Calcular nova quantidade
-    let novaQuantidade = estoque.quantidadeAtual;
-    
-    switch (tipo) {
-      case 'ENTRADA':
-        novaQuantidade += qtd;
-        break;
-      case 'SAIDA':
-        novaQuantidade -= qtd;
-        if (novaQuantidade < 0) {
-          throw createError('Estoque insuficiente para esta saída', 400);
-        }
-        break;
-      case 'AJUSTE':
-        novaQuantidade = qtd;
-        break;
+    // Precisão da unidade de medida: 0.350 KG é válido, 0.5 UN não
+    const produto = await prisma.produto.findFirst({
+      where: { id: produtoId, tenantId },
+      select: { unidadeMedida: true }
+    });
+    const erroUnidade = produto && validarQuantidade(qtd, produto.unidadeMedida, 'Quantidade');
+    if (erroUnidade) {
+      throw createError(erroUnidade, 400);
     }
     
+    const { permitirEstoqueNegativo } = await obterConfiguracaoEstoque(tenantId);
+    
     // Executar transação
     const result = await prisma.$transaction(async (prisma) => {
+      // Saldo lido com a linha bloqueada: movimentações concorrentes do produto
+      // esperam, então anterior/atual da movimentação sempre fecham com o saldo
+      const estoque = await new EstoqueRepository(prisma as TransactionClient).bloquearPorProduto(produtoId, tenantId);
+      
+      if (!estoque) {
+        throw createError('Estoque não encontrado para este produto', 404);
+      }
+      
+      // Calcular nova quantidade
+      let novaQuantidade: Prisma.Decimal = estoque.quantidadeAtual;
+      
+      switch (tipo) {
+        case 'ENTRADA':
+          novaQuantidade = novaQuantidade.plus(qtd);
+          break;
+        case 'SAIDA':
+          novaQuantidade = novaQuantidade.minus(qtd);
+          if (novaQuantidade.isNegative() && !permitirEstoqueNegativo) {
+            throw createError(
+              `Estoque insuficiente para esta saída (disponível ${estoque.quantidadeAtual}, solicitado ${qtd})`,
+              400
+            );
+          }
+          break;
+        case 'AJUSTE':
+          novaQuantidade = new Prisma.Decimal(qtd);
+          break;
+      }
+      
+      // Ajuste é permissão crítica: o token do supervisor só é consumido se a movimentação for gravada
+      const aprovador = tipo === 'AJUSTE'
+        ? await exigirAprovacao(prisma as TransactionClient, req.auth!, 'AJUSTE_ESTOQUE', aprovacao, produtoId)
+        : null;
+      
       // Atualizar estoque
       const estoqueAtualizado = await prisma.estoque.update({
         where: { id: estoque.id },
         data: {
           quantidadeAtual: novaQuantidade,
-          usuarioUltimaAtualizacao: 'api-user'
+          versao: { increment: 1 },
+          usuarioUltimaAtualizacao: userId
         }
       });
       
@@ -319,11 +478,27 @@ export const movimentarEstoque = async (req: TenantRequest, res: Response, next:
           quantidadeAnterior: estoque.quantidadeAtual,
           quantidadeAtual: novaQuantidade,
           motivo,
-          usuarioId: 'api-user',
-          tenantId: req.tenantId
+          usuarioId: userId,
+          tenantId
         }
       });
       
+      // Ajuste de saldo fica na trilha de auditoria com o aprovador
+      if (tipo === 'AJUSTE') {
+        await new AuditoriaRepository(prisma as TransactionClient).registrar({
+          entidade: 'Estoque',
+          entidadeId: estoque.id,
+          acao: 'UPDATE',
+          alteracoes: {
+            ...buildAuditDiff(estoque, { quantidadeAtual: novaQuantidade }),
+            motivo: { antes: null, depois: motivo },
+            ...(aprovador && { aprovadoPor: { antes: null, depois: aprovador } })
+          },
+          usuarioId: userId,
+          tenantId
+        });
+      }
+      
       return { estoque: estoqueAtualizado, movimentacao };
     });
     
@@ -334,13 +509,23 @@ export const movimentarEstoque = async (req: TenantRequest, res: Response, next:
     });
     
   } catch (error) {
+    if (error instanceof AprovacaoNecessariaError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        data: { operacao: error.operacao, detalhes: error.detalhes }
+      });
+    }
     next(error);
   }
 };
 
 // Listar movimentações de estoque
-export const listarMovimentacoes = async (req: TenantRequest, res: Response, next: NextFunction) => {
+export const listarMovimentacoes = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    const tenantId = req.auth!.tenantId;
+    
     const { 
       page = 1, 
       limit = 20,
@@ -356,7 +541,7 @@ export const listarMovimentacoes = async (req: TenantRequest, res: Response, nex
     
     // Filtros
     const where: any = {
-      tenantId: req.tenantId
+      tenantId
     };
     
     if (produtoId) {
@@ -413,4 +598,49 @@ export const listarMovimentacoes = async (req: TenantRequest, res: Response, nex
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+// Obter configuração de estoque do tenant (política de saldo negativo)
+export const obterConfiguracao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const configuracao = await obterConfiguracaoEstoque(req.auth!.tenantId);
+    
+    res.json({
+      success: true,
+      data: configuracao
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Salvar configuração de estoque do tenant
+export const salvarConfiguracao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { permitirEstoqueNegativo } = req.body ?? {};
+    const { tenantId, userId } = req.auth!;
+    
+    const result = await salvarConfiguracaoEstoque(
+      tenantId,
+      { ...(permitirEstoqueNegativo !== undefined && { permitirEstoqueNegativo }) },
+      userId
+    );
+    
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Configuração de estoque salva com sucesso'
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+};
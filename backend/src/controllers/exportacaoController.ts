@@ -0,0 +1,227 @@
+/**
+ * Controller de Exportações - Relatórios gerados em segundo plano
+ * Acompanhamento e download dos arquivos (CSV, XLSX, PDF) pedidos em
+ * /api/vendas/relatorios/vendas, /api/produtos/estatisticas,
+ * /api/produtos/relatorios/curva-abc e /api/clientes/estatisticas
+ *
+ * @swagger
+ * components:
+ *   schemas:
+ *     ExportacaoRelatorio:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         relatorio:
+ *           type: string
+ *           enum: [vendas, produtos-estatisticas, curva-abc, clientes-estatisticas]
+ *         formato:
+ *           type: string
+ *           enum: [csv, xlsx, pdf]
+ *         parametros:
+ *           type: object
+ *           example: { dataInicio: "2024-01-01", dataFim: "2025-06-30" }
+ *         status:
+ *           type: string
+ *           enum: [PENDENTE, PROCESSANDO, CONCLUIDA, ERRO]
+ *         erro:
+ *           type: string
+ *           nullable: true
+ *         nomeArquivo:
+ *           type: string
+ *           nullable: true
+ *           example: "relatorio-vendas-2024-01-01_2025-06-30.xlsx"
+ *         tamanho:
+ *           type: integer
+ *           nullable: true
+ *           description: Bytes
+ *         expiraEm:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Após esta data o arquivo é removido
+ *         links:
+ *           type: object
+ *           properties:
+ *             status:
+ *               type: string
+ *               example: "/api/exportacoes/clx123"
+ *             download:
+ *               type: string
+ *               nullable: true
+ *               example: "/api/exportacoes/clx123/download"
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthContext } from '../config/jwtConfig';
+import {
+  obterExportacao as obterExportacaoUsuario,
+  listarExportacoes as listarExportacoesUsuario,
+  obterArquivoExportacao,
+  EXPORTACAO_CONFIG
+} from '../services/exportacaoService';
+
+interface AuthRequest extends Request {
+  auth?: AuthContext;
+}
+
+// Intervalo sugerido ao cliente para consultar de novo uma exportação em andamento
+const RETRY_AFTER_SEGUNDOS = String(Math.ceil(EXPORTACAO_CONFIG.pollIntervalMs / 1000));
+
+/**
+ * @swagger
+ * /api/exportacoes:
+ *   get:
+ *     tags:
+ *       - Relatórios
+ *     summary: Listar exportações do usuário
+ *     description: Exportações em segundo plano solicitadas pelo usuário e ainda não expiradas
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Exportações, mais recentes primeiro
+ */
+export const listarExportacoes = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const exportacoes = await listarExportacoesUsuario(req.auth!.tenantId, req.auth!.userId);
+
+    res.json({
+      success: true,
+      data: exportacoes
+    });
+
+  } catch (error) {
+    console.error('[EXPORTACAO_CONTROLLER] Erro ao listar exportações:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/exportacoes/{id}:
+ *   get:
+ *     tags:
+ *       - Relatórios
+ *     summary: Status da exportação
+ *     description: Em andamento, responde com Retry-After; concluída, traz o link de download
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exportação
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ExportacaoRelatorio'
+ *       404:
+ *         description: Exportação não encontrada
+ */
+export const obterExportacao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const exportacao = await obterExportacaoUsuario(req.params.id!, req.auth!.tenantId, req.auth!.userId);
+
+    if (!exportacao) {
+      return res.status(404).json({
+        success: false,
+        error: 'Exportação não encontrada'
+      });
+    }
+
+    if (exportacao.status === 'PENDENTE' || exportacao.status === 'PROCESSANDO') {
+      res.set('Retry-After', RETRY_AFTER_SEGUNDOS);
+    }
+
+    res.json({
+      success: true,
+      data: exportacao
+    });
+
+  } catch (error) {
+    console.error('[EXPORTACAO_CONTROLLER] Erro ao obter exportação:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/exportacoes/{id}/download:
+ *   get:
+ *     tags:
+ *       - Relatórios
+ *     summary: Baixar arquivo da exportação
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Arquivo (Content-Disposition attachment)
+ *         content:
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           application/pdf: {}
+ *       404:
+ *         description: Exportação não encontrada
+ *       409:
+ *         description: Exportação ainda em andamento ou com erro (EXPORT_NOT_READY)
+ *       410:
+ *         description: Arquivo expirado - solicite a exportação novamente
+ */
+export const baixarExportacao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const arquivo = await obterArquivoExportacao(req.params.id!, req.auth!.tenantId, req.auth!.userId);
+
+    switch (arquivo.tipo) {
+      case 'NAO_ENCONTRADA':
+        return res.status(404).json({
+          success: false,
+          error: 'Exportação não encontrada'
+        });
+
+      case 'NAO_CONCLUIDA':
+        if (arquivo.status !== 'ERRO') {
+          res.set('Retry-After', RETRY_AFTER_SEGUNDOS);
+        }
+        return res.status(409).json({
+          success: false,
+          error: arquivo.status === 'ERRO'
+            ? 'A exportação falhou. Solicite novamente'
+            : 'Exportação ainda em processamento',
+          code: 'EXPORT_NOT_READY',
+          details: { status: arquivo.status }
+        });
+
+      case 'EXPIRADA':
+        return res.status(410).json({
+          success: false,
+          error: 'Arquivo expirado. Solicite a exportação novamente',
+          code: 'EXPORT_EXPIRED'
+        });
+    }
+
+    res.attachment(arquivo.nomeArquivo);
+    res.type(arquivo.contentType);
+    res.set('Cache-Control', 'no-store');
+    res.send(arquivo.conteudo);
+
+  } catch (error) {
+    console.error('[EXPORTACAO_CONTROLLER] Erro ao baixar exportação:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,442 @@
+/**
+ * Fiscal Controller - Emitente, certificado A1 e NFC-e (modelo 65)
+ *
+ * @swagger
+ * components:
+ *   schemas:
+ *     DocumentoFiscal:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         vendaId:
+ *           type: string
+ *         modelo:
+ *           type: string
+ *           example: "65"
+ *         serie:
+ *           type: string
+ *         numero:
+ *           type: integer
+ *         chaveAcesso:
+ *           type: string
+ *           example: "35250112345678000190650010000000421123456780"
+ *         tipoEmissao:
+ *           type: integer
+ *           description: "1 = normal, 9 = contingência offline"
+ *         status:
+ *           type: string
+ *           enum: [CONTINGENCIA, AUTORIZADA, REJEITADA]
+ *         protocolo:
+ *           type: string
+ *         codigoStatus:
+ *           type: string
+ *         motivo:
+ *           type: string
+ *         dataEmissao:
+ *           type: string
+ *           format: date-time
+ *         dataAutorizacao:
+ *           type: string
+ *           format: date-time
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  obterConfiguracaoFiscal,
+  salvarConfiguracaoFiscal,
+  salvarCertificadoA1,
+  emitirNfce,
+  obterDocumentoFiscal,
+  transmitirContingencias
+} from '../services/nfceService';
+
+interface AuthRequest extends Request {
+  auth?: {
+    userId: string;
+    tenantId: string;
+    login: string;
+    permissions: string[];
+  };
+}
+
+const createError = (message: string, statusCode: number) => {
+  const error = new Error(message) as any;
+  error.statusCode = statusCode;
+  return error;
+};
+
+// XML e conteúdo do PFX ficam fora das respostas JSON
+const resumirDocumento = <T extends { xml: string; xmlAutorizado: string | null }>(documento: T) => {
+  const { xml: _xml, xmlAutorizado: _xmlAutorizado, ...dados } = documento;
+  return dados;
+};
+
+/**
+ * @swagger
+ * /api/fiscal/configuracao:
+ *   get:
+ *     tags:
+ *       - Fiscal
+ *     summary: Obter configuração fiscal do tenant
+ *     description: Dados do emitente e da NFC-e. PFX, senha e CSC nunca são retornados
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Configuração fiscal
+ *       404:
+ *         description: Configuração não cadastrada
+ */
+export const obterConfiguracao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const configuracao = await obterConfiguracaoFiscal(req.auth!.tenantId);
+
+    if (!configuracao) {
+      throw createError('Configuração fiscal não cadastrada', 404);
+    }
+
+    res.json({
+      success: true,
+      data: configuracao
+    });
+
+  } catch (error) {
+    console.error('[FISCAL_CONTROLLER] Erro ao obter configuração fiscal:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/fiscal/configuracao:
+ *   put:
+ *     tags:
+ *       - Fiscal
+ *     summary: Salvar dados do emitente e da NFC-e
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [cnpj, inscricaoEstadual, razaoSocial, logradouro, numero, bairro, codigoMunicipio, municipio, uf, cep]
+ *             properties:
+ *               cnpj:
+ *                 type: string
+ *               inscricaoEstadual:
+ *                 type: string
+ *               razaoSocial:
+ *                 type: string
+ *               nomeFantasia:
+ *                 type: string
+ *               logradouro:
+ *                 type: string
+ *               numero:
+ *                 type: string
+ *               bairro:
+ *                 type: string
+ *               codigoMunicipio:
+ *                 type: string
+ *                 example: "3550308"
+ *               municipio:
+ *                 type: string
+ *               uf:
+ *                 type: string
+ *                 example: "SP"
+ *               cep:
+ *                 type: string
+ *               crt:
+ *                 type: integer
+ *                 enum: [1, 4]
+ *                 default: 1
+ *               ambiente:
+ *                 type: integer
+ *                 enum: [1, 2]
+ *                 default: 2
+ *               cscId:
+ *                 type: string
+ *                 example: "000001"
+ *               csc:
+ *                 type: string
+ *                 description: "Omitido mantém o CSC atual"
+ *               urlQrCode:
+ *                 type: string
+ *               urlConsulta:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Configuração salva
+ *       400:
+ *         description: Dados inválidos
+ */
+export const salvarConfiguracao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, userId } = req.auth!;
+
+    const result = await salvarConfiguracaoFiscal(tenantId, req.body ?? {}, userId);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Configuração fiscal salva com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[FISCAL_CONTROLLER] Erro ao salvar configuração fiscal:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/fiscal/certificado:
+ *   put:
+ *     tags:
+ *       - Fiscal
+ *     summary: Enviar certificado A1
+ *     description: Arquivo PFX em base64 e senha. Ambos são armazenados cifrados
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pfx
+ *               - senha
+ *             properties:
+ *               pfx:
+ *                 type: string
+ *                 format: byte
+ *               senha:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Certificado salvo
+ *       400:
+ *         description: Certificado inválido, expirado ou de outro CNPJ
+ */
+export const salvarCertificado = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { pfx, senha } = req.body ?? {};
+    const { tenantId, userId } = req.auth!;
+
+    if (!pfx || typeof pfx !== 'string' || typeof senha !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Arquivo PFX (base64) e senha são obrigatórios'
+      });
+    }
+
+    const result = await salvarCertificadoA1(tenantId, pfx, senha, userId);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Certificado A1 salvo com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[FISCAL_CONTROLLER] Erro ao salvar certificado:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/fiscal/nfce/{vendaId}:
+ *   post:
+ *     tags:
+ *       - Fiscal
+ *     summary: Emitir NFC-e da venda
+ *     description: Gera, assina e envia a NFC-e. Com a SEFAZ indisponível (ou contingencia=true) a nota é emitida em contingência offline para transmissão posterior
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: vendaId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               contingencia:
+ *                 type: boolean
+ *                 default: false
+ *               justificativa:
+ *                 type: string
+ *                 minLength: 15
+ *     responses:
+ *       201:
+ *         description: NFC-e autorizada ou emitida em contingência
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DocumentoFiscal'
+ *       400:
+ *         description: Venda ou configuração fiscal inválida
+ *       404:
+ *         description: Venda não encontrada
+ *       422:
+ *         description: NFC-e rejeitada pela SEFAZ
+ */
+export const emitirNfceVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { vendaId } = req.params;
+    const { contingencia = false, justificativa } = req.body ?? {};
+    const { tenantId, userId } = req.auth!;
+
+    if (justificativa !== undefined && (typeof justificativa !== 'string' || justificativa.trim().length < 15)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Justificativa da contingência deve ter pelo menos 15 caracteres'
+      });
+    }
+
+    const result = await emitirNfce(vendaId, tenantId, userId, {
+      contingencia: contingencia === true,
+      ...(justificativa && { justificativa: justificativa.trim() })
+    });
+
+    if (!result) {
+      throw createError('Venda não encontrada', 404);
+    }
+
+    if (!result.success) {
+      return res.status(result.data ? 422 : 400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors,
+        ...(result.data && { data: resumirDocumento(result.data) })
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: resumirDocumento(result.data!),
+      message: result.data!.status === 'AUTORIZADA'
+        ? 'NFC-e autorizada'
+        : 'NFC-e emitida em contingência offline - transmitir em até 24 horas'
+    });
+
+  } catch (error) {
+    console.error('[FISCAL_CONTROLLER] Erro ao emitir NFC-e:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/fiscal/nfce/{vendaId}:
+ *   get:
+ *     tags:
+ *       - Fiscal
+ *     summary: Obter NFC-e da venda
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: vendaId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: formato
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [json, xml]
+ *           default: json
+ *         description: "xml retorna o nfeProc autorizado ou, sem autorização, a NFe assinada"
+ *     responses:
+ *       200:
+ *         description: Documento fiscal
+ *       404:
+ *         description: Venda sem NFC-e
+ */
+export const obterNfceVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { vendaId } = req.params;
+    const { formato = 'json' } = req.query;
+
+    const documento = await obterDocumentoFiscal(vendaId, req.auth!.tenantId);
+    if (!documento) {
+      throw createError('Venda sem NFC-e emitida', 404);
+    }
+
+    if (formato === 'xml') {
+      res
+        .type('application/xml')
+        .attachment(`${documento.chaveAcesso}-nfce.xml`)
+        .send(`<?xml version="1.0" encoding="UTF-8"?>${documento.xmlAutorizado ?? documento.xml}`);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: resumirDocumento(documento)
+    });
+
+  } catch (error) {
+    console.error('[FISCAL_CONTROLLER] Erro ao obter NFC-e:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/fiscal/nfce/contingencia/transmitir:
+ *   post:
+ *     tags:
+ *       - Fiscal
+ *     summary: Transmitir NFC-e emitidas em contingência
+ *     description: Envia à SEFAZ as notas em contingência offline, da mais antiga para a mais recente
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Resumo da transmissão (enviadas, autorizadas, rejeitadas, pendentes)
+ */
+export const transmitirContingenciasNfce = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, userId } = req.auth!;
+
+    const resumo = await transmitirContingencias(tenantId, userId);
+
+    res.json({
+      success: true,
+      data: resumo,
+      message: resumo.pendentes > 0
+        ? 'SEFAZ indisponível - notas pendentes permanecem em contingência'
+        : 'Contingências transmitidas'
+    });
+
+  } catch (error) {
+    console.error('[FISCAL_CONTROLLER] Erro ao transmitir contingências:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,146 @@
+/**
+ * Controller de Outbox - Administração de eventos de domínio
+ * Inspeção da fila e reprocessamento de eventos em dead letter (Super Admin)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { OutboxRepository } from '../repositories/OutboxRepository';
+import { outboxDispatcher } from '../services/outboxDispatcher';
+
+const prisma = new PrismaClient();
+const outboxRepo = new OutboxRepository(prisma);
+
+const STATUS_VALIDOS = ['PENDENTE', 'PROCESSANDO', 'PROCESSADO', 'DEAD_LETTER'];
+
+/**
+ * @swagger
+ * /api/admin/outbox:
+ *   get:
+ *     tags:
+ *       - Sistema
+ *     summary: Listar eventos do outbox
+ *     description: Inspeção da fila de eventos de domínio, incluindo último erro de entrega
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [PENDENTE, PROCESSANDO, PROCESSADO, DEAD_LETTER]
+ *       - name: tipo
+ *         in: query
+ *         schema:
+ *           type: string
+ *           example: VendaCriada
+ *       - name: tenantId
+ *         in: query
+ *         schema:
+ *           type: string
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Lista paginada de eventos
+ *       400:
+ *         description: Status inválido
+ *       403:
+ *         description: Acesso restrito a Super Administradores
+ */
+export const listarEventosOutbox = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, tipo, tenantId, page = 1, limit = 20 } = req.query;
+
+    if (status && !STATUS_VALIDOS.includes(status as string)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status inválido. Use: ${STATUS_VALIDOS.join(', ')}`
+      });
+    }
+
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = Math.min(parseInt(limit as string, 10), 100);
+
+    const result = await outboxRepo.findPaginated({
+      ...(status && { status: status as string }),
+      ...(tipo && { tipo: tipo as string }),
+      ...(tenantId && { tenantId: tenantId as string }),
+      skip: (pageNum - 1) * limitNum,
+      take: limitNum
+    });
+
+    res.json({
+      success: true,
+      data: {
+        items: result.data,
+        pagination: {
+          currentPage: pageNum,
+          totalPages: Math.ceil(result.total / limitNum),
+          totalItems: result.total,
+          itemsPerPage: limitNum
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[OUTBOX_CONTROLLER] Erro ao listar eventos:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/outbox/{id}/replay:
+ *   post:
+ *     tags:
+ *       - Sistema
+ *     summary: Reprocessar evento em dead letter
+ *     description: Recoloca o evento na fila com as tentativas zeradas
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Evento reenfileirado
+ *       404:
+ *         description: Evento não encontrado ou não está em dead letter
+ *       403:
+ *         description: Acesso restrito a Super Administradores
+ */
+export const reprocessarEventoOutbox = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const reenfileirado = await outboxDispatcher.replay(id!);
+
+    if (!reenfileirado) {
+      return res.status(404).json({
+        success: false,
+        error: 'Evento não encontrado ou não está em dead letter'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Evento reenfileirado para entrega'
+    });
+
+  } catch (error) {
+    console.error('[OUTBOX_CONTROLLER] Erro ao reprocessar evento:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,254 @@
+/**
+ * Controller PIX - Chave do tenant e webhook de confirmação do PSP
+ * Geração do BR Code da venda em /api/vendas/{id}/pix
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { UnitOfWork } from '../repositories/UnitOfWork';
+import { VendaService } from '../services/vendaService';
+import {
+  obterConfiguracaoPix,
+  salvarConfiguracaoPix,
+  validarSegredoWebhook,
+  contextoWebhookPix
+} from '../services/pixService';
+
+const prisma = new PrismaClient();
+const vendaService = new VendaService(new UnitOfWork(prisma));
+
+interface AuthRequest extends Request {
+  auth?: {
+    userId: string;
+    tenantId: string;
+    login: string;
+    permissions: string[];
+  };
+}
+
+/**
+ * @swagger
+ * /api/pix/configuracao:
+ *   get:
+ *     tags:
+ *       - PIX
+ *     summary: Obter configuração PIX do tenant
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Chave PIX e dados do recebedor (o segredo do webhook nunca é retornado)
+ *       404:
+ *         description: PIX não configurado
+ */
+export const obterConfiguracao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const configuracao = await obterConfiguracaoPix(req.auth!.tenantId);
+
+    if (!configuracao) {
+      return res.status(404).json({
+        success: false,
+        error: 'PIX não configurado para o tenant'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: configuracao
+    });
+
+  } catch (error) {
+    console.error('[PIX_CONTROLLER] Erro ao obter configuração PIX:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/pix/configuracao:
+ *   put:
+ *     tags:
+ *       - PIX
+ *     summary: Salvar configuração PIX do tenant
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tipoChave
+ *               - chave
+ *               - nomeRecebedor
+ *               - cidadeRecebedor
+ *             properties:
+ *               tipoChave:
+ *                 type: string
+ *                 enum: [CPF, CNPJ, EMAIL, TELEFONE, ALEATORIA]
+ *               chave:
+ *                 type: string
+ *                 example: "12345678000190"
+ *               nomeRecebedor:
+ *                 type: string
+ *                 example: "Padaria Sao Joao"
+ *                 description: "Truncado em 25 caracteres no BR Code"
+ *               cidadeRecebedor:
+ *                 type: string
+ *                 example: "Sao Paulo"
+ *                 description: "Truncada em 15 caracteres no BR Code"
+ *               urlCobranca:
+ *                 type: string
+ *                 example: "pix.psp.com.br/qr/v2"
+ *                 description: "Location do PSP para BR Code dinâmico, sem https://"
+ *               segredoWebhook:
+ *                 type: string
+ *                 description: "Segredo enviado pelo PSP no header x-webhook-secret"
+ *               ativo:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Configuração salva
+ *       400:
+ *         description: Chave ou dados do recebedor inválidos
+ */
+export const salvarConfiguracao = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { tipoChave, chave, nomeRecebedor, cidadeRecebedor, urlCobranca, segredoWebhook, ativo } = req.body;
+    const { tenantId, userId } = req.auth!;
+
+    const result = await salvarConfiguracaoPix(
+      tenantId,
+      {
+        tipoChave,
+        chave: String(chave ?? ''),
+        nomeRecebedor: String(nomeRecebedor ?? ''),
+        cidadeRecebedor: String(cidadeRecebedor ?? ''),
+        urlCobranca: urlCobranca ? String(urlCobranca) : null,
+        ...(segredoWebhook && { segredoWebhook: String(segredoWebhook) }),
+        ...(typeof ativo === 'boolean' && { ativo })
+      },
+      userId
+    );
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await obterConfiguracaoPix(tenantId),
+      message: 'Configuração PIX salva com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[PIX_CONTROLLER] Erro ao salvar configuração PIX:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/pix/webhook/{tenantId}:
+ *   post:
+ *     tags:
+ *       - PIX
+ *     summary: Webhook de PIX recebido (PSP)
+ *     description: Recebe as notificações do PSP no formato da API PIX do Bacen e confirma as cobranças pelo txid. Reenvios de um PIX já confirmado são ignorados
+ *     parameters:
+ *       - name: tenantId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: x-webhook-secret
+ *         in: header
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               pix:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     endToEndId:
+ *                       type: string
+ *                     txid:
+ *                       type: string
+ *                     valor:
+ *                       type: string
+ *                       example: "12.50"
+ *                     horario:
+ *                       type: string
+ *                       format: date-time
+ *     responses:
+ *       200:
+ *         description: Notificação processada (resultado por PIX)
+ *       401:
+ *         description: Segredo do webhook inválido
+ */
+export const webhookPix = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    if (!tenantId || !(await validarSegredoWebhook(tenantId, req.header('x-webhook-secret')))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Webhook não autorizado'
+      });
+    }
+
+    const recebidos: any[] = Array.isArray(req.body?.pix) ? req.body.pix : [];
+    const resultados = [];
+
+    // Cada PIX é confirmado na própria transação: um txid desconhecido não bloqueia os demais
+    for (const pix of recebidos) {
+      if (!pix?.txid) {
+        resultados.push({ txid: null, success: false, error: 'txid ausente' });
+        continue;
+      }
+
+      const valor = pix.valor !== undefined ? parseFloat(pix.valor) : undefined;
+      const result = await vendaService.confirmarPix(
+        { txid: String(pix.txid) },
+        'WEBHOOK',
+        pix.endToEndId ? String(pix.endToEndId) : undefined,
+        valor !== undefined && !isNaN(valor) ? valor : undefined,
+        contextoWebhookPix(tenantId)
+      );
+
+      if (!result.success) {
+        console.warn(`[PIX_CONTROLLER] PIX ${pix.txid} não confirmado: ${result.error}`);
+      }
+
+      resultados.push({
+        txid: pix.txid,
+        success: result.success,
+        ...(result.error && { error: result.error }),
+        ...(result.validationErrors && { details: result.validationErrors })
+      });
+    }
+
+    // 200 mesmo com falhas por item: o PSP só deve reenviar em falha de entrega
+    res.json({
+      success: true,
+      data: resultados
+    });
+
+  } catch (error) {
+    console.error('[PIX_CONTROLLER] Erro ao processar webhook PIX:', error);
+    next(error);
+  }
+};
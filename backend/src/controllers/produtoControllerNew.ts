@@ -25,9 +25,14 @@
  *           example: 0.50
  *           description: "Preço de venda"
  *         quantidade:
- *           type: integer
+ *           type: number
  *           example: 100
- *           description: "Quantidade em estoque"
+ *           description: "Quantidade em estoque, na unidade de medida"
+ *         unidadeMedida:
+ *           type: string
+ *           enum: [UN, KG, G, L, M]
+ *           example: "UN"
+ *           description: "Unidade de medida - casas decimais aceitas nas quantidades: UN 0, KG 3, G 0, L 3, M 2"
  *         categoria:
  *           type: string
  *           example: "Panificação"
@@ -44,9 +49,21 @@
  *           type: string
  *           example: "Farinha, água, sal, fermento"
  *           description: "Lista de ingredientes"
+ *         ncm:
+ *           type: string
+ *           example: "19052090"
+ *           description: "NCM (8 dígitos) - obrigatório para NFC-e"
+ *         cfop:
+ *           type: string
+ *           example: "5102"
+ *           description: "CFOP de venda (padrão 5102 na NFC-e)"
  *         ativo:
  *           type: boolean
  *           example: true
+ *         versao:
+ *           type: integer
+ *           example: 3
+ *           description: "Versão do registro (devolvida no header ETag)"
  *         dataCadastro:
  *           type: string
  *           format: date-time
@@ -72,9 +89,13 @@
  *           minimum: 0.01
  *           example: 0.50
  *         quantidade:
- *           type: integer
+ *           type: number
  *           minimum: 0
  *           example: 100
+ *         unidadeMedida:
+ *           type: string
+ *           enum: [UN, KG, G, L, M]
+ *           default: UN
  *         categoria:
  *           type: string
  *           example: "Panificação"
@@ -89,11 +110,34 @@
  *         ingredientes:
  *           type: string
  *           example: "Farinha, água, sal, fermento"
+ *         ncm:
+ *           type: string
+ *           pattern: "^\\d{8}$"
+ *           example: "19052090"
+ *         cfop:
+ *           type: string
+ *           pattern: "^\\d{4}$"
+ *           example: "5102"
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { ProdutoRepository } from '../repositories/ProdutoRepository';
+import { ConflitoVersaoError } from '../repositories/BaseRepository';
+import { definirETag, versoesIfMatch, responderConflitoVersao } from '../middleware/etag';
+import {
+  UNIDADES_MEDIDA,
+  UNIDADE_MEDIDA_PADRAO,
+  isUnidadeMedida,
+  validarQuantidade
+} from '../services/unidadeMedidaService';
+import {
+  obterHojeTenant,
+  gerarCurvaAbc,
+  validarPeriodo,
+  validarDiasSemVenda,
+  CURVA_ABC_CONFIG
+} from '../services/relatorioService';
 
 const prisma = new PrismaClient();
 const produtoRepo = new ProdutoRepository(prisma);
@@ -109,7 +153,8 @@ interface AuthRequest extends Request {
 }
 
 // Validação de entrada
-const validateProdutoData = (data: any) => {
+// Quantidade na unidade informada ou, sem ela, na atual do produto (UN no cadastro)
+const validateProdutoData = (data: any, unidadeAtual: string = UNIDADE_MEDIDA_PADRAO) => {
   const errors: string[] = [];
   
   if (!data.nome || data.nome.trim().length < 2) {
@@ -124,8 +169,29 @@ const validateProdutoData = (data: any) => {
     errors.push('Código de barras deve ter entre 8 e 13 dígitos');
   }
   
+  if (data.ncm && !/^\d{8}$/.test(data.ncm)) {
+    errors.push('NCM deve ter 8 dígitos');
+  }
+  
+  if (data.cfop && !/^\d{4}$/.test(data.cfop)) {
+    errors.push('CFOP deve ter 4 dígitos');
+  }
+  
+  if (data.unidadeMedida !== undefined && !isUnidadeMedida(data.unidadeMedida)) {
+    errors.push(`Unidade de medida deve ser uma de: ${Object.keys(UNIDADES_MEDIDA).join(', ')}`);
+  }
+  
   if (data.quantidade !== undefined && data.quantidade < 0) {
     errors.push('Quantidade não pode ser negativa');
+  } else if (data.quantidade) {
+    const erroQuantidade = validarQuantidade(
+      Number(data.quantidade),
+      isUnidadeMedida(data.unidadeMedida) ? data.unidadeMedida : unidadeAtual,
+      'Quantidade'
+    );
+    if (erroQuantidade) {
+      errors.push(erroQuantidade);
+    }
   }
   
   if (data.validadeHoras !== undefined && data.validadeHoras <= 0) {
@@ -268,7 +334,7 @@ export const listarProdutos = async (req: AuthRequest, res: Response, next: Next
  *         description: ID do produto
  *     responses:
  *       200:
- *         description: Produto encontrado com sucesso
+ *         description: Produto encontrado com sucesso (header ETag com a versão)
  *       404:
  *         description: Produto não encontrado
  */
@@ -287,6 +353,7 @@ export const obterProduto = async (req: AuthRequest, res: Response, next: NextFu
       });
     }
     
+    definirETag(res, produto.versao);
     res.json({
       success: true,
       data: produto
@@ -328,10 +395,13 @@ export const criarProduto = async (req: AuthRequest, res: Response, next: NextFu
       codigoBarras, 
       precoVenda, 
       quantidade = 0,
+      unidadeMedida = UNIDADE_MEDIDA_PADRAO,
       categoria,
       validadeHoras,
       tempoPreparo,
-      ingredientes 
+      ingredientes,
+      ncm,
+      cfop
     } = req.body;
     
     const tenantId = req.auth!.tenantId;
@@ -363,12 +433,15 @@ export const criarProduto = async (req: AuthRequest, res: Response, next: NextFu
       nome: nome.trim(),
       codigoBarras: codigoBarras || null,
       precoVenda: parseFloat(precoVenda),
-      quantidade: parseInt(quantidade),
+      quantidade: new Prisma.Decimal(quantidade),
+      unidadeMedida,
       lote: null,
       categoria: categoria?.trim() || null,
       validadeHoras: validadeHoras ? parseInt(validadeHoras) : null,
       tempoPreparo: tempoPreparo ? parseInt(tempoPreparo) : null,
-      ingredientes: ingredientes?.trim() || null
+      ingredientes: ingredientes?.trim() || null,
+      ncm: ncm || null,
+      cfop: cfop || null
     };
     
     const produto = await produtoRepo.add(produtoData, tenantId, userId);
@@ -401,6 +474,7 @@ export const criarProduto = async (req: AuthRequest, res: Response, next: NextFu
  *         schema:
  *           type: string
  *         description: ID do produto
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -409,13 +483,15 @@ export const criarProduto = async (req: AuthRequest, res: Response, next: NextFu
  *             $ref: '#/components/schemas/ProdutoCreateRequest'
  *     responses:
  *       200:
- *         description: Produto atualizado com sucesso
+ *         description: Produto atualizado com sucesso (header ETag com a nova versão)
  *       400:
  *         description: Dados inválidos
  *       404:
  *         description: Produto não encontrado
  *       409:
  *         description: Código de barras já cadastrado
+ *       412:
+ *         description: Produto alterado por outro usuário desde a versão do If-Match (corpo traz a versão atual)
  */
 export const atualizarProduto = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -425,17 +501,30 @@ export const atualizarProduto = async (req: AuthRequest, res: Response, next: Ne
       codigoBarras, 
       precoVenda, 
       quantidade,
+      unidadeMedida,
       categoria,
       validadeHoras,
       tempoPreparo,
-      ingredientes 
+      ingredientes,
+      ncm,
+      cfop
     } = req.body;
     
     const tenantId = req.auth!.tenantId;
     const userId = req.auth!.userId;
     
+    // Verificar se produto existe
+    const produtoExiste = await produtoRepo.findById(id, tenantId);
+    if (!produtoExiste || !produtoExiste.ativo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Produto não encontrado',
+        code: 'PRODUTO_NOT_FOUND'
+      });
+    }
+    
     // Validação de entrada
-    const validationErrors = validateProdutoData(req.body);
+    const validationErrors = validateProdutoData(req.body, produtoExiste.unidadeMedida);
     if (validationErrors.length > 0) {
       return res.status(400).json({
         success: false,
@@ -444,14 +533,19 @@ export const atualizarProduto = async (req: AuthRequest, res: Response, next: Ne
       });
     }
     
-    // Verificar se produto existe
-    const produtoExiste = await produtoRepo.findById(id, tenantId);
-    if (!produtoExiste || !produtoExiste.ativo) {
-      return res.status(404).json({
-        success: false,
-        error: 'Produto não encontrado',
-        code: 'PRODUTO_NOT_FOUND'
-      });
+    // Troca de unidade: o saldo em estoque precisa caber na precisão da nova unidade
+    if (unidadeMedida !== undefined && unidadeMedida !== produtoExiste.unidadeMedida) {
+      const estoque = await prisma.estoque.findFirst({ where: { produtoId: produtoExiste.id, tenantId } });
+      const erroSaldo = estoque && !estoque.quantidadeAtual.isZero()
+        ? validarQuantidade(estoque.quantidadeAtual.abs().toNumber(), unidadeMedida, 'Saldo em estoque')
+        : null;
+      if (erroSaldo) {
+        return res.status(400).json({
+          success: false,
+          error: 'Unidade de medida incompatível com o estoque',
+          details: [`${erroSaldo} - ajuste o estoque antes de trocar a unidade`]
+        });
+      }
     }
     
     // Verificar código de barras único (se fornecido e diferente do atual)
@@ -470,15 +564,21 @@ export const atualizarProduto = async (req: AuthRequest, res: Response, next: Ne
       nome: nome.trim(),
       codigoBarras: codigoBarras || null,
       precoVenda: parseFloat(precoVenda),
-      quantidade: quantidade !== undefined ? parseInt(quantidade) : produtoExiste.quantidade,
+      quantidade: quantidade !== undefined ? new Prisma.Decimal(quantidade) : produtoExiste.quantidade,
+      unidadeMedida: unidadeMedida ?? produtoExiste.unidadeMedida,
       categoria: categoria?.trim() || null,
       validadeHoras: validadeHoras ? parseInt(validadeHoras) : null,
       tempoPreparo: tempoPreparo ? parseInt(tempoPreparo) : null,
-      ingredientes: ingredientes?.trim() || null
+      ingredientes: ingredientes?.trim() || null,
+      ncm: ncm || null,
+      cfop: cfop || null
     };
     
-    const produto = await produtoRepo.update(id, updateData, tenantId, userId);
+    const produto = await produtoRepo.update(id, updateData, tenantId, userId, versoesIfMatch(req));
     
+    if (produto) {
+      definirETag(res, produto.versao);
+    }
     res.json({
       success: true,
       data: produto,
@@ -486,6 +586,9 @@ export const atualizarProduto = async (req: AuthRequest, res: Response, next: Ne
     });
     
   } catch (error) {
+    if (error instanceof ConflitoVersaoError) {
+      return responderConflitoVersao(res, error.atual, error.message);
+    }
     console.error('[PRODUTO_CONTROLLER] Erro ao atualizar produto:', error);
     next(error);
   }
@@ -546,19 +649,29 @@ export const deletarProduto = async (req: AuthRequest, res: Response, next: Next
  * /api/produtos/estatisticas:
  *   get:
  *     summary: Obter estatísticas de produtos
- *     description: Retorna estatísticas detalhadas dos produtos do tenant
+ *     description: Retorna estatísticas detalhadas dos produtos do tenant, incluindo os 5 mais vendidos no mês (resumos de vendas pré-agregados). Exportável em CSV, XLSX ou PDF (format ou Accept)
  *     tags: [Produtos]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/FormatoExportacao'
+ *       - $ref: '#/components/parameters/PreferAsync'
  *     responses:
  *       200:
  *         description: Estatísticas retornadas com sucesso
+ *         content:
+ *           application/json: {}
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           application/pdf: {}
+ *       202:
+ *         description: Exportação agendada em segundo plano (Location aponta para /api/exportacoes/{id})
  */
 export const obterEstatisticas = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const tenantId = req.auth!.tenantId;
     
-    const estatisticas = await produtoRepo.getStatistics(tenantId);
+    const estatisticas = await produtoRepo.getStatistics(tenantId, await obterHojeTenant(tenantId));
     
     res.json({
       success: true,
@@ -571,6 +684,98 @@ export const obterEstatisticas = async (req: AuthRequest, res: Response, next: N
   }
 };
 
+/**
+ * @swagger
+ * /api/produtos/relatorios/curva-abc:
+ *   get:
+ *     summary: Curva ABC, margens e estoque parado
+ *     description: |
+ *       Classifica os produtos vendidos no período (dias locais do tenant, inclusivos) por faturamento
+ *       e por lucro: classe A até 80% do acumulado, B até 95%, C o restante (prejuízo fica em C).
+ *       Margem por produto e por categoria com o custo do estoque registrado no momento da venda;
+ *       itens vendidos antes desse registro usam o custo atual (custoEstimado = true).
+ *       Quantidades e faturamento descontam devoluções; itens estornados ficam fora.
+ *       Estoque parado: produtos ativos com saldo e sem venda há diasSemVenda dias.
+ *       Exportável em CSV, XLSX ou PDF (format ou Accept).
+ *     tags: [Produtos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/FormatoExportacao'
+ *       - $ref: '#/components/parameters/PreferAsync'
+ *       - name: dataInicio
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *           example: "2025-01-01"
+ *       - name: dataFim
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *           example: "2025-03-31"
+ *       - name: diasSemVenda
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 3650
+ *           default: 90
+ *     responses:
+ *       200:
+ *         description: Curva ABC (periodo, criterios, resumo, classes, produtos, categorias, estoqueParado)
+ *         content:
+ *           application/json: {}
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           application/pdf: {}
+ *       202:
+ *         description: Exportação agendada em segundo plano (Location aponta para /api/exportacoes/{id})
+ *       400:
+ *         description: Período, diasSemVenda ou formato inválido
+ */
+export const relatorioCurvaAbc = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { dataInicio, dataFim, diasSemVenda } = req.query;
+    const tenantId = req.auth!.tenantId;
+
+    if (!dataInicio || !dataFim) {
+      return res.status(400).json({
+        success: false,
+        error: 'Data início e data fim são obrigatórias'
+      });
+    }
+
+    const errors = [...validarPeriodo(dataInicio, dataFim), ...validarDiasSemVenda(diasSemVenda)];
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Parâmetros inválidos',
+        details: errors
+      });
+    }
+
+    const relatorio = await gerarCurvaAbc(
+      tenantId,
+      dataInicio as string,
+      dataFim as string,
+      diasSemVenda ? Number(diasSemVenda) : CURVA_ABC_CONFIG.diasSemVendaPadrao
+    );
+
+    res.json({
+      success: true,
+      data: relatorio
+    });
+
+  } catch (error) {
+    console.error('[PRODUTO_CONTROLLER] Erro ao gerar curva ABC:', error);
+    next(error);
+  }
+};
+
 /**
  * @swagger
  * /api/produtos/categorias:
@@ -783,4 +988,44 @@ export const atualizarPrecosPorCategoria = async (req: AuthRequest, res: Respons
     console.error('[PRODUTO_CONTROLLER] Erro ao atualizar preços por categoria:', error);
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * @swagger
+ * /api/produtos/{id}/historico:
+ *   get:
+ *     summary: Histórico de alterações do produto
+ *     description: Trilha de auditoria (LGPD) com as alterações campo a campo, da mais recente para a mais antiga
+ *     tags: [Produtos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do produto
+ *     responses:
+ *       200:
+ *         description: Histórico de alterações
+ *       401:
+ *         description: Não autorizado
+ */
+export const obterHistoricoProduto = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.auth!.tenantId;
+    
+    const historico = await produtoRepo.getAuditHistory(id, tenantId);
+    
+    res.json({
+      success: true,
+      data: historico
+    });
+    
+  } catch (error) {
+    console.error('[PRODUTO_CONTROLLER] Erro ao obter histórico do produto:', error);
+    next(error);
+  }
+};
@@ -38,12 +38,22 @@
  *           example: 10.50
  *         formaPagamento:
  *           type: string
- *           enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX, VALE]
+ *           enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX, VALE, VALE_TROCA, MULTIPLO]
  *           example: "PIX"
+ *           description: "Forma única da venda, ou MULTIPLO para pagamento dividido"
+ *         pagamentos:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/VendaPagamento'
  *         status:
  *           type: string
- *           enum: [PENDENTE, FINALIZADA, CANCELADA]
+ *           enum: [ABERTA, ABANDONADA, PENDENTE, FINALIZADA, CANCELADA, ESTORNADA]
  *           example: "FINALIZADA"
+ *           description: "ABERTA enquanto a comanda acumula itens; PENDENTE enquanto o PIX da venda não for confirmado"
+ *         identificacao:
+ *           type: string
+ *           example: "Mesa 4"
+ *           description: "Identificação da venda aberta (comanda)"
  *         dataVenda:
  *           type: string
  *           format: date-time
@@ -87,18 +97,95 @@
  *             categoria:
  *               type: string
  *     
+ *     VendaPagamento:
+ *       type: object
+ *       required:
+ *         - forma
+ *         - valor
+ *       properties:
+ *         forma:
+ *           type: string
+ *           enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX, VALE, VALE_TROCA]
+ *         valor:
+ *           type: number
+ *           format: float
+ *           example: 50.00
+ *           description: "Valor abatido do total da venda"
+ *         parcelas:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           default: 1
+ *           description: "Apenas CARTAO_CREDITO pode ser parcelado"
+ *         valorRecebido:
+ *           type: number
+ *           format: float
+ *           example: 100.00
+ *           description: "Apenas DINHEIRO - valor entregue pelo cliente"
+ *         troco:
+ *           type: number
+ *           format: float
+ *           example: 50.00
+ *           description: "Calculado: valorRecebido - valor"
+ *         valeTroca:
+ *           type: string
+ *           example: "VT7KQ2M9XH"
+ *           description: "Apenas VALE_TROCA - código do vale emitido na devolução; o valor é debitado do saldo"
+ *     
+ *     VendaAbertaItem:
+ *       type: object
+ *       required:
+ *         - produtoId
+ *         - quantidade
+ *         - precoUnitario
+ *       properties:
+ *         produtoId:
+ *           type: string
+ *         quantidade:
+ *           type: number
+ *           minimum: 0.001
+ *           description: Na unidade de medida do produto (UN inteira, KG/L até 3 casas, M até 2)
+ *         precoUnitario:
+ *           type: number
+ *           format: float
+ *           minimum: 0
+ *         desconto:
+ *           type: number
+ *           format: float
+ *           minimum: 0
+ *     
+ *     AprovacaoSupervisor:
+ *       type: object
+ *       description: "Login + PIN de supervisor ou token de aprovação de uso único"
+ *       properties:
+ *         login:
+ *           type: string
+ *         pin:
+ *           type: string
+ *           example: "1234"
+ *         token:
+ *           type: string
+ *           example: "K7QM2XPA"
+ *     
  *     VendaCreateRequest:
  *       type: object
  *       required:
- *         - formaPagamento
  *         - itens
  *       properties:
+ *         aprovacao:
+ *           $ref: '#/components/schemas/AprovacaoSupervisor'
  *         clienteId:
  *           type: string
  *           example: "cli_clnx8k3r40000..."
  *         formaPagamento:
  *           type: string
  *           enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX, VALE]
+ *           description: "Pagamento único pelo total - obrigatório quando pagamentos não é informado"
+ *         pagamentos:
+ *           type: array
+ *           description: "Pagamento dividido - a soma dos valores deve ser igual ao total da venda"
+ *           items:
+ *             $ref: '#/components/schemas/VendaPagamento'
  *         desconto:
  *           type: number
  *           format: float
@@ -123,7 +210,8 @@
  *                 type: string
  *               quantidade:
  *                 type: number
- *                 minimum: 0.01
+ *                 minimum: 0.001
+ *                 description: Na unidade de medida do produto (UN inteira, KG/L até 3 casas, M até 2)
  *               precoUnitario:
  *                 type: number
  *                 format: float
@@ -151,13 +239,20 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { once } from 'events';
 import { PrismaClient } from '@prisma/client';
 import { VendaRepository } from '../repositories/VendaRepository';
-import { ProdutoRepository } from '../repositories/ProdutoRepository';
+import { UnitOfWork } from '../repositories/UnitOfWork';
+import { VendaService, FORMAS_PAGAMENTO, MAX_PARCELAS } from '../services/vendaService';
+import { gerarCobrancaPix, gerarQrCodePng, TipoBrCode } from '../services/pixService';
+import { gerarRelatorioVendas, validarPeriodo, contarDias, obterHojeTenant, obterFusoHorario, RELATORIO_CONFIG } from '../services/relatorioService';
+import { AuthContext } from '../config/jwtConfig';
+import { validarFormatoQuantidade } from '../services/unidadeMedidaService';
+import { CommandResult } from '../patterns/CQRS';
 
 const prisma = new PrismaClient();
 const vendaRepo = new VendaRepository(prisma);
-const produtoRepo = new ProdutoRepository(prisma);
+const vendaService = new VendaService(new UnitOfWork(prisma));
 
 interface AuthRequest extends Request {
   auth?: {
@@ -174,33 +269,62 @@ const createError = (message: string, statusCode: number) => {
   return error;
 };
 
-// Validação de dados de venda
-const validateVendaData = (data: any) => {
-  const errors: string[] = [];
+// Operação crítica sem aprovação válida: o cliente repete a requisição com aprovacao
+const respondApprovalRequired = (res: Response, result: CommandResult) =>
+  res.status(403).json({
+    success: false,
+    error: result.error,
+    code: result.code,
+    data: result.data
+  });
+
+// Série fiscal: numérica de 1 a 3 dígitos (padrão NFC-e)
+const SERIE_REGEX = /^\d{1,3}$/;
+
+// Validação de pagamentos e acertos (checkout e fechamento de venda aberta)
+const validatePagamentosData = (data: any, errors: string[]) => {
+  const temPagamentos = Array.isArray(data.pagamentos) && data.pagamentos.length > 0;
   
-  if (!data.formaPagamento) {
+  if (!data.formaPagamento && !temPagamentos) {
     errors.push('Forma de pagamento é obrigatória');
   }
   
-  const formasValidas = ['DINHEIRO', 'CARTAO_DEBITO', 'CARTAO_CREDITO', 'PIX', 'VALE'];
-  if (data.formaPagamento && !formasValidas.includes(data.formaPagamento)) {
+  if (data.formaPagamento && !FORMAS_PAGAMENTO.includes(data.formaPagamento)) {
     errors.push('Forma de pagamento inválida');
+  } else if (data.formaPagamento === 'VALE_TROCA' && !temPagamentos) {
+    errors.push('Vale-troca deve ser informado em pagamentos, com o código do vale');
   }
   
-  if (!data.itens || !Array.isArray(data.itens) || data.itens.length === 0) {
-    errors.push('Pelo menos um item é obrigatório');
+  if (data.pagamentos !== undefined && !Array.isArray(data.pagamentos)) {
+    errors.push('Pagamentos deve ser uma lista');
   }
   
-  if (data.itens) {
-    data.itens.forEach((item: any, index: number) => {
-      if (!item.produtoId) {
-        errors.push(`Item ${index + 1}: produto é obrigatório`);
+  if (temPagamentos) {
+    data.pagamentos.forEach((pagamento: any, index: number) => {
+      if (!FORMAS_PAGAMENTO.includes(pagamento.forma)) {
+        errors.push(`Pagamento ${index + 1}: forma de pagamento inválida`);
       }
-      if (!item.quantidade || item.quantidade <= 0) {
-        errors.push(`Item ${index + 1}: quantidade deve ser maior que zero`);
+      if (typeof pagamento.valor !== 'number' || pagamento.valor <= 0) {
+        errors.push(`Pagamento ${index + 1}: valor deve ser maior que zero`);
       }
-      if (item.precoUnitario === undefined || item.precoUnitario < 0) {
-        errors.push(`Item ${index + 1}: preço unitário inválido`);
+      if (pagamento.parcelas !== undefined) {
+        if (!Number.isInteger(pagamento.parcelas) || pagamento.parcelas < 1 || pagamento.parcelas > MAX_PARCELAS) {
+          errors.push(`Pagamento ${index + 1}: parcelas deve ser entre 1 e ${MAX_PARCELAS}`);
+        } else if (pagamento.parcelas > 1 && pagamento.forma !== 'CARTAO_CREDITO') {
+          errors.push(`Pagamento ${index + 1}: parcelamento apenas no cartão de crédito`);
+        }
+      }
+      if (pagamento.forma === 'VALE_TROCA' && (typeof pagamento.valeTroca !== 'string' || !pagamento.valeTroca.trim())) {
+        errors.push(`Pagamento ${index + 1}: código do vale-troca é obrigatório`);
+      } else if (pagamento.valeTroca !== undefined && pagamento.forma !== 'VALE_TROCA') {
+        errors.push(`Pagamento ${index + 1}: vale-troca apenas na forma VALE_TROCA`);
+      }
+      if (pagamento.valorRecebido !== undefined) {
+        if (pagamento.forma !== 'DINHEIRO') {
+          errors.push(`Pagamento ${index + 1}: valor recebido apenas para pagamento em dinheiro`);
+        } else if (typeof pagamento.valorRecebido !== 'number' || pagamento.valorRecebido < pagamento.valor) {
+          errors.push(`Pagamento ${index + 1}: valor recebido menor que o valor pago`);
+        }
       }
     });
   }
@@ -213,6 +337,41 @@ const validateVendaData = (data: any) => {
     errors.push('Acréscimo não pode ser negativo');
   }
   
+  if (data.serie !== undefined && !SERIE_REGEX.test(String(data.serie))) {
+    errors.push('Série deve ter de 1 a 3 dígitos');
+  }
+};
+
+// Validação de itens (checkout e venda aberta)
+const validateItensData = (itens: any, errors: string[]) => {
+  if (!itens || !Array.isArray(itens) || itens.length === 0) {
+    errors.push('Pelo menos um item é obrigatório');
+  }
+  
+  if (Array.isArray(itens)) {
+    itens.forEach((item: any, index: number) => {
+      if (!item.produtoId) {
+        errors.push(`Item ${index + 1}: produto é obrigatório`);
+      }
+      // Precisão da unidade de medida é validada ao carregar o produto
+      const erroQuantidade = validarFormatoQuantidade(item.quantidade);
+      if (erroQuantidade) {
+        errors.push(`Item ${index + 1}: ${erroQuantidade}`);
+      }
+      if (item.precoUnitario === undefined || item.precoUnitario < 0) {
+        errors.push(`Item ${index + 1}: preço unitário inválido`);
+      }
+    });
+  }
+};
+
+// Validação de dados de venda
+const validateVendaData = (data: any) => {
+  const errors: string[] = [];
+  
+  validatePagamentosData(data, errors);
+  validateItensData(data.itens, errors);
+  
   return errors;
 };
 
@@ -260,7 +419,7 @@ const validateVendaData = (data: any) => {
  *         in: query
  *         schema:
  *           type: string
- *           enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX, VALE]
+ *           enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX, VALE, VALE_TROCA]
  *       - name: valorMin
  *         in: query
  *         schema:
@@ -426,8 +585,11 @@ export const obterVendaPorNumeroFiscal = async (req: AuthRequest, res: Response,
  *     tags:
  *       - Vendas
  *     summary: Criar nova venda
+ *     description: Checkout atômico - baixa o estoque de cada item e registra movimentações de SAIDA vinculadas à venda. Se qualquer item não tiver saldo, a venda inteira é rejeitada. Aceita pagamento dividido em várias formas; a soma dos pagamentos deve ser igual ao total e o troco é calculado nas linhas em dinheiro. Vendas com pagamento PIX ficam PENDENTE até a confirmação do pagamento. A venda é vinculada à sessão de caixa aberta do usuário; operadores de caixa (perfil CAIXA) sem caixa aberto são recusados.
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -438,13 +600,14 @@ export const obterVendaPorNumeroFiscal = async (req: AuthRequest, res: Response,
  *       201:
  *         description: Venda criada com sucesso
  *       400:
- *         description: Dados inválidos
+ *         description: Dados inválidos, estoque insuficiente ou caixa fechado
+ *       403:
+ *         description: "APPROVAL_REQUIRED - desconto acima do limite do tenant exige aprovação de supervisor"
+ *       409:
+ *         description: "Idempotency-Key reutilizada com outro corpo ou requisição original ainda em processamento"
  */
 export const criarVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const tenantId = req.auth!.tenantId;
-    const userId = req.auth!.userId;
-    
     const validationErrors = validateVendaData(req.body);
     if (validationErrors.length > 0) {
       return res.status(400).json({
@@ -454,57 +617,37 @@ export const criarVenda = async (req: AuthRequest, res: Response, next: NextFunc
       });
     }
     
-    const { clienteId, formaPagamento, desconto = 0, acrescimo = 0, observacoes, itens } = req.body;
+    const { clienteId, formaPagamento, pagamentos, desconto = 0, acrescimo = 0, serie, itens, aprovacao } = req.body;
     
-    // Validar produtos e calcular totais
-    let subtotal = 0;
-    const itensValidados = [];
+    // Checkout atômico: número fiscal + venda + itens + pagamentos + baixa de estoque + movimentações
+    const result = await vendaService.checkout(
+      {
+        clienteId,
+        formaPagamento,
+        pagamentos,
+        desconto,
+        acrescimo,
+        itens,
+        ...(serie !== undefined && { serie: String(serie) }),
+        ...(aprovacao && { aprovacao })
+      },
+      req.auth as AuthContext
+    );
     
-    for (const item of itens) {
-      const produto = await produtoRepo.findById(item.produtoId, tenantId);
-      if (!produto) {
-        return res.status(400).json({
-          success: false,
-          error: `Produto não encontrado: ${item.produtoId}`
-        });
+    if (!result.success) {
+      if (result.code === 'APPROVAL_REQUIRED') {
+        return respondApprovalRequired(res, result);
       }
-      
-      const itemSubtotal = (item.quantidade * item.precoUnitario) - (item.desconto || 0);
-      subtotal += itemSubtotal;
-      
-      itensValidados.push({
-        produtoId: item.produtoId,
-        quantidade: item.quantidade,
-        precoUnitario: item.precoUnitario,
-        desconto: item.desconto || 0,
-        subtotal: itemSubtotal
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
       });
     }
     
-    const total = subtotal - desconto + acrescimo;
-    const numeroFiscal = await vendaRepo.getNextNumeroFiscal(tenantId);
-    
-    const vendaData = {
-      numeroFiscal,
-      clienteId: clienteId || null,
-      formaPagamento,
-      subtotal,
-      desconto,
-      acrescimo,
-      total,
-      status: 'FINALIZADA' as const,
-      dataVenda: new Date(),
-      observacoes,
-      itens: {
-        create: itensValidados
-      }
-    };
-    
-    const venda = await vendaRepo.add(vendaData, tenantId, userId);
-    
     res.status(201).json({
       success: true,
-      data: venda,
+      data: result.data,
       message: 'Venda criada com sucesso'
     });
     
@@ -521,6 +664,7 @@ export const criarVenda = async (req: AuthRequest, res: Response, next: NextFunc
  *     tags:
  *       - Vendas
  *     summary: Cancelar venda
+ *     description: Cancela a venda inteira e devolve ao estoque os itens ainda não estornados, via movimentações compensatórias de ENTRADA
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -541,20 +685,22 @@ export const criarVenda = async (req: AuthRequest, res: Response, next: NextFunc
  *               motivo:
  *                 type: string
  *                 example: "Cancelamento solicitado pelo cliente"
+ *               aprovacao:
+ *                 $ref: '#/components/schemas/AprovacaoSupervisor'
  *     responses:
  *       200:
  *         description: Venda cancelada com sucesso
+ *       403:
+ *         description: "APPROVAL_REQUIRED - cancelamento por operador de caixa exige aprovação de supervisor"
  *       404:
- *         description: Venda não encontrada
+ *         description: Venda não encontrada ou fora dos status canceláveis
  *       400:
- *         description: Venda não pode ser cancelada
+ *         description: Venda recusada para cancelamento (ex. com devoluções), com o motivo em details
  */
 export const cancelarVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { motivo } = req.body;
-    const tenantId = req.auth!.tenantId;
-    const userId = req.auth!.userId;
+    const { motivo, aprovacao } = req.body;
     
     if (!motivo) {
       return res.status(400).json({
@@ -563,15 +709,27 @@ export const cancelarVenda = async (req: AuthRequest, res: Response, next: NextF
       });
     }
     
-    const venda = await vendaRepo.cancelSale(id, tenantId, userId, motivo);
+    // Cancelamento atômico: status + estorno de estoque + itens
+    const result = await vendaService.cancelar(id, motivo, req.auth as AuthContext, aprovacao);
     
-    if (!venda) {
-      throw createError('Venda não encontrada ou não pode ser cancelada', 404);
+    if (!result.success) {
+      if (result.code === 'APPROVAL_REQUIRED') {
+        return respondApprovalRequired(res, result);
+      }
+      // Venda existe mas foi recusada (ex.: já tem devolução)
+      if (result.validationErrors) {
+        return res.status(400).json({
+          success: false,
+          error: result.error,
+          details: result.validationErrors
+        });
+      }
+      throw createError(result.error || 'Venda não encontrada ou não pode ser cancelada', 404);
     }
     
     res.json({
       success: true,
-      data: venda,
+      data: result.data,
       message: 'Venda cancelada com sucesso'
     });
     
@@ -581,6 +739,91 @@ export const cancelarVenda = async (req: AuthRequest, res: Response, next: NextF
   }
 };
 
+/**
+ * @swagger
+ * /api/vendas/{id}/itens/estornar:
+ *   patch:
+ *     tags:
+ *       - Vendas
+ *     summary: Estornar itens de uma venda
+ *     description: Devolução parcial - estorna itens individuais e devolve ao estoque. Quando todos os itens são estornados a venda passa para ESTORNADA
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemIds
+ *               - motivo
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               motivo:
+ *                 type: string
+ *                 example: "Produto com defeito"
+ *     responses:
+ *       200:
+ *         description: Itens estornados com sucesso
+ *       400:
+ *         description: Itens inválidos ou já estornados
+ *       404:
+ *         description: Venda não encontrada ou não pode ser estornada
+ */
+export const estornarItensVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { itemIds, motivo } = req.body;
+    
+    if (!motivo) {
+      return res.status(400).json({
+        success: false,
+        error: 'Motivo do estorno é obrigatório'
+      });
+    }
+    
+    if (!Array.isArray(itemIds) || itemIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Informe ao menos um item para estorno'
+      });
+    }
+    
+    const result = await vendaService.estornarItens(id, itemIds, motivo, req.auth as AuthContext);
+    
+    if (!result.success) {
+      if (result.validationErrors) {
+        return res.status(400).json({
+          success: false,
+          error: result.error,
+          details: result.validationErrors
+        });
+      }
+      throw createError(result.error || 'Venda não encontrada ou não pode ser estornada', 404);
+    }
+    
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Itens estornados com sucesso'
+    });
+    
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao estornar itens da venda:', error);
+    next(error);
+  }
+};
+
 /**
  * @swagger
  * /api/vendas/cliente/{clienteId}:
@@ -635,6 +878,9 @@ export const listarVendasCliente = async (req: AuthRequest, res: Response, next:
  *     tags:
  *       - Vendas
  *     summary: Obter estatísticas de vendas
+ *     description: |
+ *       Hoje e mês no fuso do tenant, lidos dos resumos diários pré-agregados
+ *       (atualizados a cada venda finalizada ou cancelada). Vendas abertas são consultadas ao vivo.
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -658,16 +904,48 @@ export const listarVendasCliente = async (req: AuthRequest, res: Response, next:
  *                       type: integer
  *                     faturamentoMes:
  *                       type: number
+ *                     itensMes:
+ *                       type: integer
  *                     totalCanceladas:
  *                       type: integer
+ *                       description: Canceladas no mês
  *                     ticketMedioMes:
  *                       type: number
+ *                     vendasAbertas:
+ *                       type: integer
+ *                       description: Comandas abertas (fora do faturamento)
+ *                     valorEmAberto:
+ *                       type: number
+ *                     ultimos7Dias:
+ *                       type: array
+ *                       description: Inclui hoje; dias sem venda vêm zerados
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           dia:
+ *                             type: string
+ *                             format: date
+ *                           vendas:
+ *                             type: integer
+ *                           faturamento:
+ *                             type: number
+ *                     formasPagamentoMes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           forma:
+ *                             type: string
+ *                           vendas:
+ *                             type: integer
+ *                           valor:
+ *                             type: number
  */
 export const obterEstatisticas = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const tenantId = req.auth!.tenantId;
     
-    const estatisticas = await vendaRepo.getStatistics(tenantId);
+    const estatisticas = await vendaRepo.getStatistics(tenantId, await obterHojeTenant(tenantId));
     
     res.json({
       success: true,
@@ -687,24 +965,46 @@ export const obterEstatisticas = async (req: AuthRequest, res: Response, next: N
  *     tags:
  *       - Vendas
  *     summary: Relatório de vendas por período
+ *     description: |
+ *       Agregado no banco, com dia e hora no fuso horário do tenant (dias locais inclusivos).
+ *       Faturamento por forma de pagamento calculado pelas linhas de pagamento (venda dividida conta em cada forma usada).
+ *       Inclui comparativo com o período anterior de mesma duração (crescimento em %, null sem movimento anterior).
+ *       Períodos longos recebem a série vendasPorDia em streaming, no mesmo formato JSON.
+ *       Exportável em CSV, XLSX ou PDF (format ou Accept); períodos acima de EXPORT_SYNC_MAX_DAYS dias
+ *       (padrão 366) são gerados em segundo plano.
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/FormatoExportacao'
+ *       - $ref: '#/components/parameters/PreferAsync'
  *       - name: dataInicio
  *         in: query
  *         required: true
  *         schema:
  *           type: string
  *           format: date
+ *           example: "2025-01-01"
  *       - name: dataFim
  *         in: query
  *         required: true
  *         schema:
  *           type: string
  *           format: date
+ *           example: "2025-01-31"
  *     responses:
  *       200:
- *         description: Relatório de vendas
+ *         description: Relatório de vendas com comparativo (periodo, vendasPorHora, vendasPorFormaPagamento, vendasPorCategoria, topProdutos, comparativo, vendasPorDia)
+ *         content:
+ *           application/json: {}
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           application/pdf: {}
+ *       202:
+ *         description: Exportação agendada em segundo plano (Location aponta para /api/exportacoes/{id})
+ *       400:
+ *         description: Período ou formato inválido
+ *       406:
+ *         description: Nenhum formato do Accept é suportado
  */
 export const relatorioVendas = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -718,10 +1018,106 @@ export const relatorioVendas = async (req: AuthRequest, res: Response, next: Nex
       });
     }
     
-    const relatorio = await vendaRepo.getSalesReport(
-      new Date(dataInicio as string),
-      new Date(dataFim as string),
-      tenantId
+    const periodoErrors = validarPeriodo(dataInicio, dataFim);
+    if (periodoErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Período inválido',
+        details: periodoErrors
+      });
+    }
+    
+    const streaming = contarDias({ dataInicio: dataInicio as string, dataFim: dataFim as string }) > RELATORIO_CONFIG.diasSemStreaming;
+    const relatorio = await gerarRelatorioVendas(
+      tenantId,
+      dataInicio as string,
+      dataFim as string,
+      { incluirPorDia: !streaming }
+    );
+    
+    if (!streaming) {
+      return res.json({
+        success: true,
+        data: relatorio
+      });
+    }
+    
+    // Período longo: série diária agregada em lotes e escrita à medida que chega,
+    // dentro do mesmo JSON (vendasPorDia é o último campo de data)
+    const cabecalho = JSON.stringify({ success: true, data: { ...relatorio, vendasPorDia: [] } });
+    res.type('application/json');
+    res.write(cabecalho.slice(0, -']}}'.length));
+    
+    let primeiro = true;
+    for await (const dia of vendaRepo.streamSalesByDay(relatorio.periodo, tenantId, RELATORIO_CONFIG.diasPorLote)) {
+      if (!res.write((primeiro ? '' : ',') + JSON.stringify(dia))) {
+        await once(res, 'drain');
+      }
+      primeiro = false;
+    }
+    res.end(']}}');
+    
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao gerar relatório:', error);
+    // Streaming já iniciado: não há como trocar o status, encerra a conexão
+    if (res.headersSent) {
+      return res.destroy(error as Error);
+    }
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/relatorios/lacunas-fiscais:
+ *   get:
+ *     tags:
+ *       - Vendas
+ *     summary: Relatório de lacunas na numeração fiscal
+ *     description: Lista os números fiscais não emitidos dentro da sequência do período, para auditoria fiscal
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: periodo
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "202501"
+ *       - name: serie
+ *         in: query
+ *         schema:
+ *           type: string
+ *           default: "1"
+ *     responses:
+ *       200:
+ *         description: Lacunas encontradas no período
+ *       400:
+ *         description: Período ou série inválidos
+ */
+export const relatorioLacunasFiscais = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { periodo, serie = '1' } = req.query;
+    const tenantId = req.auth!.tenantId;
+    
+    if (!periodo || !/^\d{4}(0[1-9]|1[0-2])$/.test(periodo as string)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Período deve estar no formato YYYYMM'
+      });
+    }
+    
+    if (!SERIE_REGEX.test(serie as string)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Série deve ter de 1 a 3 dígitos'
+      });
+    }
+    
+    const relatorio = await vendaRepo.findNumeroFiscalGaps(
+      tenantId,
+      periodo as string,
+      serie as string
     );
     
     res.json({
@@ -730,7 +1126,7 @@ export const relatorioVendas = async (req: AuthRequest, res: Response, next: Nex
     });
     
   } catch (error) {
-    console.error('[VENDA_CONTROLLER] Erro ao gerar relatório:', error);
+    console.error('[VENDA_CONTROLLER] Erro ao gerar relatório de lacunas fiscais:', error);
     next(error);
   }
 };
@@ -742,8 +1138,15 @@ export const relatorioVendas = async (req: AuthRequest, res: Response, next: Nex
  *     tags:
  *       - Vendas
  *     summary: Obter próximo número fiscal
+ *     description: Apenas consulta - o número é reservado somente no checkout
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - name: serie
+ *         in: query
+ *         schema:
+ *           type: string
+ *           default: "1"
  *     responses:
  *       200:
  *         description: Próximo número fiscal
@@ -763,9 +1166,11 @@ export const relatorioVendas = async (req: AuthRequest, res: Response, next: Nex
  */
 export const obterProximoNumeroFiscal = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    const { serie = '1' } = req.query;
     const tenantId = req.auth!.tenantId;
     
-    const numeroFiscal = await vendaRepo.getNextNumeroFiscal(tenantId);
+    const fusoHorario = await obterFusoHorario(tenantId);
+    const numeroFiscal = await vendaRepo.getNextNumeroFiscal(tenantId, fusoHorario, serie as string);
     
     res.json({
       success: true,
@@ -776,4 +1181,644 @@ export const obterProximoNumeroFiscal = async (req: AuthRequest, res: Response,
     console.error('[VENDA_CONTROLLER] Erro ao obter próximo número fiscal:', error);
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * @swagger
+ * /api/vendas/{id}/historico:
+ *   get:
+ *     summary: Histórico de alterações da venda
+ *     description: Trilha de auditoria (LGPD) com as alterações campo a campo, da mais recente para a mais antiga
+ *     tags: [Vendas]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da venda
+ *     responses:
+ *       200:
+ *         description: Histórico de alterações
+ *       401:
+ *         description: Não autorizado
+ */
+export const obterHistoricoVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.auth!.tenantId;
+    
+    const historico = await vendaRepo.getAuditHistory(id, tenantId);
+    
+    res.json({
+      success: true,
+      data: historico
+    });
+    
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao obter histórico da venda:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/{id}/pix:
+ *   get:
+ *     tags:
+ *       - Vendas
+ *     summary: Gerar BR Code PIX da venda
+ *     description: Gera o payload "copia e cola" (EMV com CRC16) e o QR Code da parte PIX da venda. O txid é derivado da série e do número fiscal
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: tipo
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [estatico, dinamico]
+ *           default: estatico
+ *         description: "dinamico usa a URL de cobrança do PSP configurada no tenant"
+ *       - name: formato
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [json, png]
+ *           default: json
+ *         description: "png retorna apenas a imagem do QR Code"
+ *     responses:
+ *       200:
+ *         description: BR Code gerado
+ *       400:
+ *         description: PIX não configurado para o tenant
+ *       404:
+ *         description: Venda não encontrada ou sem pagamento PIX
+ */
+export const gerarPixVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { tipo = 'estatico', formato = 'json' } = req.query;
+    const tenantId = req.auth!.tenantId;
+    
+    if (tipo !== 'estatico' && tipo !== 'dinamico') {
+      return res.status(400).json({
+        success: false,
+        error: 'Tipo de BR Code deve ser estatico ou dinamico'
+      });
+    }
+    
+    const result = await gerarCobrancaPix(id, tenantId, (tipo as string).toUpperCase() as TipoBrCode);
+    
+    if (!result) {
+      throw createError('Venda não encontrada ou sem pagamento PIX', 404);
+    }
+    
+    if (!result.success || !result.data) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+    
+    if (formato === 'png') {
+      res.type('image/png').send(await gerarQrCodePng(result.data.payload));
+      return;
+    }
+    
+    res.json({
+      success: true,
+      data: result.data
+    });
+    
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao gerar BR Code PIX:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/{id}/pix/confirmar:
+ *   patch:
+ *     tags:
+ *       - Vendas
+ *     summary: Confirmar pagamento PIX manualmente
+ *     description: Conclui a cobrança PIX e move a venda de PENDENTE para FINALIZADA (ex. conferência no extrato)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               e2eId:
+ *                 type: string
+ *                 example: "E12345678202501011200abcdefghijk"
+ *                 description: "EndToEndId do PIX recebido, se disponível"
+ *     responses:
+ *       200:
+ *         description: Pagamento confirmado
+ *       400:
+ *         description: Venda cancelada ou cobrança já confirmada
+ *       404:
+ *         description: Cobrança PIX não encontrada
+ */
+export const confirmarPixVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { e2eId } = req.body ?? {};
+    
+    const result = await vendaService.confirmarPix(
+      { vendaId: id },
+      'MANUAL',
+      e2eId ? String(e2eId) : undefined,
+      undefined,
+      req.auth as AuthContext
+    );
+    
+    if (!result.success) {
+      if (!result.validationErrors) {
+        throw createError(result.error || 'Cobrança PIX não encontrada', 404);
+      }
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: result.data,
+      message: result.data?.jaConfirmada ? 'Pagamento PIX já estava confirmado' : 'Pagamento PIX confirmado'
+    });
+    
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao confirmar pagamento PIX:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/abertas:
+ *   get:
+ *     tags:
+ *       - Vendas
+ *     summary: Listar vendas abertas (comandas)
+ *     description: Comandas em andamento com os itens ainda na venda. Não entram em listagens, relatórios e estatísticas de vendas
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Vendas abertas
+ */
+export const listarVendasAbertas = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const vendas = await vendaRepo.findOpenSales(req.auth!.tenantId);
+
+    res.json({
+      success: true,
+      data: vendas
+    });
+
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao listar vendas abertas:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/abertas/{id}:
+ *   get:
+ *     tags:
+ *       - Vendas
+ *     summary: Obter venda aberta
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venda aberta com itens
+ *       404:
+ *         description: Venda aberta não encontrada
+ */
+export const obterVendaAberta = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const venda = await vendaRepo.findOpenSaleById(id, req.auth!.tenantId);
+    if (!venda) {
+      throw createError('Venda aberta não encontrada', 404);
+    }
+
+    res.json({
+      success: true,
+      data: venda
+    });
+
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao obter venda aberta:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/abertas:
+ *   post:
+ *     tags:
+ *       - Vendas
+ *     summary: Abrir venda (comanda)
+ *     description: Cria uma venda ABERTA, sem número fiscal nem pagamento. Os itens reservam estoque (SAIDA vinculada à venda) até o fechamento ou abandono
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               identificacao:
+ *                 type: string
+ *                 example: "Mesa 4"
+ *               clienteId:
+ *                 type: string
+ *               itens:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/VendaAbertaItem'
+ *     responses:
+ *       201:
+ *         description: Venda aberta
+ *       400:
+ *         description: Dados inválidos ou estoque insuficiente
+ */
+export const abrirVenda = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { identificacao, clienteId, itens } = req.body ?? {};
+
+    const validationErrors: string[] = [];
+    if (identificacao !== undefined && (typeof identificacao !== 'string' || identificacao.trim().length > 50)) {
+      validationErrors.push('Identificação deve ter até 50 caracteres');
+    }
+    if (itens !== undefined) {
+      validateItensData(itens, validationErrors);
+    }
+
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Dados inválidos',
+        details: validationErrors
+      });
+    }
+
+    const result = await vendaService.abrir({ identificacao, clienteId, itens }, req.auth as AuthContext);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+        details: result.validationErrors
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.data,
+      message: 'Venda aberta com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao abrir venda:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/abertas/{id}/itens:
+ *   post:
+ *     tags:
+ *       - Vendas
+ *     summary: Incluir itens na venda aberta
+ *     description: Reserva o estoque dos itens. Terminais alterando a mesma comanda são serializados
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itens
+ *             properties:
+ *               itens:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   $ref: '#/components/schemas/VendaAbertaItem'
+ *     responses:
+ *       200:
+ *         description: Itens incluídos
+ *       400:
+ *         description: Dados inválidos ou estoque insuficiente
+ *       404:
+ *         description: Venda aberta não encontrada
+ */
+export const adicionarItensVendaAberta = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { itens } = req.body ?? {};
+
+    const validationErrors: string[] = [];
+    validateItensData(itens, validationErrors);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Dados inválidos',
+        details: validationErrors
+      });
+    }
+
+    const result = await vendaService.adicionarItens(id, itens, req.auth as AuthContext);
+
+    if (!result.success) {
+      if (result.validationErrors) {
+        return res.status(400).json({
+          success: false,
+          error: result.error,
+          details: result.validationErrors
+        });
+      }
+      throw createError(result.error || 'Venda aberta não encontrada', 404);
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Itens incluídos na venda'
+    });
+
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao incluir itens na venda aberta:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/abertas/{id}/itens/{itemId}:
+ *   delete:
+ *     tags:
+ *       - Vendas
+ *     summary: Remover item da venda aberta
+ *     description: O item fica REMOVIDO e a reserva volta ao estoque por movimentação compensatória
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: itemId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Item removido
+ *       400:
+ *         description: Item não está na venda
+ *       404:
+ *         description: Venda aberta não encontrada
+ */
+export const removerItemVendaAberta = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id, itemId } = req.params;
+
+    const result = await vendaService.removerItem(id, itemId, req.auth as AuthContext);
+
+    if (!result.success) {
+      if (result.validationErrors) {
+        return res.status(400).json({
+          success: false,
+          error: result.error,
+          details: result.validationErrors
+        });
+      }
+      throw createError(result.error || 'Venda aberta não encontrada', 404);
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Item removido da venda'
+    });
+
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao remover item da venda aberta:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/abertas/{id}/finalizar:
+ *   post:
+ *     tags:
+ *       - Vendas
+ *     summary: Finalizar venda aberta
+ *     description: Fecha a comanda como uma venda normal - reserva o número fiscal, registra os pagamentos e vincula ao caixa aberto do usuário. Com PIX a venda fica PENDENTE até a confirmação
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               formaPagamento:
+ *                 type: string
+ *                 enum: [DINHEIRO, CARTAO_DEBITO, CARTAO_CREDITO, PIX, VALE]
+ *               pagamentos:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/VendaPagamento'
+ *               desconto:
+ *                 type: number
+ *               acrescimo:
+ *                 type: number
+ *               serie:
+ *                 type: string
+ *               aprovacao:
+ *                 $ref: '#/components/schemas/AprovacaoSupervisor'
+ *     responses:
+ *       200:
+ *         description: Venda finalizada
+ *       403:
+ *         description: "APPROVAL_REQUIRED - desconto acima do limite do tenant exige aprovação de supervisor"
+ *       400:
+ *         description: Pagamentos inválidos, venda sem itens ou caixa fechado
+ *       404:
+ *         description: Venda aberta não encontrada
+ *       409:
+ *         description: "Idempotency-Key reutilizada com outro corpo ou requisição original ainda em processamento"
+ */
+export const finalizarVendaAberta = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const data = req.body ?? {};
+
+    const validationErrors: string[] = [];
+    validatePagamentosData(data, validationErrors);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Dados inválidos',
+        details: validationErrors
+      });
+    }
+
+    const { formaPagamento, pagamentos, desconto = 0, acrescimo = 0, serie, aprovacao } = data;
+
+    const result = await vendaService.finalizarAberta(
+      id,
+      {
+        formaPagamento,
+        pagamentos,
+        desconto,
+        acrescimo,
+        ...(serie !== undefined && { serie: String(serie) }),
+        ...(aprovacao && { aprovacao })
+      },
+      req.auth as AuthContext
+    );
+
+    if (!result.success) {
+      if (result.code === 'APPROVAL_REQUIRED') {
+        return respondApprovalRequired(res, result);
+      }
+      if (result.validationErrors) {
+        return res.status(400).json({
+          success: false,
+          error: result.error,
+          details: result.validationErrors
+        });
+      }
+      throw createError(result.error || 'Venda aberta não encontrada', 404);
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Venda finalizada com sucesso'
+    });
+
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao finalizar venda aberta:', error);
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/vendas/abertas/{id}/abandonar:
+ *   post:
+ *     tags:
+ *       - Vendas
+ *     summary: Abandonar venda aberta
+ *     description: Devolve ao estoque todas as reservas. A venda é mantida como ABANDONADA
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - motivo
+ *             properties:
+ *               motivo:
+ *                 type: string
+ *                 example: "Cliente desistiu"
+ *     responses:
+ *       200:
+ *         description: Venda abandonada
+ *       404:
+ *         description: Venda aberta não encontrada
+ */
+export const abandonarVendaAberta = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { motivo } = req.body ?? {};
+
+    if (!motivo) {
+      return res.status(400).json({
+        success: false,
+        error: 'Motivo do abandono é obrigatório'
+      });
+    }
+
+    const result = await vendaService.abandonar(id, motivo, req.auth as AuthContext);
+
+    if (!result.success) {
+      throw createError(result.error || 'Venda aberta não encontrada', 404);
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: 'Venda abandonada'
+    });
+
+  } catch (error) {
+    console.error('[VENDA_CONTROLLER] Erro ao abandonar venda aberta:', error);
+    next(error);
+  }
+};
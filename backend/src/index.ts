@@ -4,6 +4,10 @@
  */
 
 import { app } from './app';
+import { outboxDispatcher } from './services/outboxDispatcher';
+import { iniciarExpurgoIdempotencia } from './services/idempotenciaService';
+import { iniciarProcessamentoExportacoes } from './services/exportacaoService';
+import { registrarAtualizacaoResumosVendas } from './services/resumoVendasService';
 
 const PORT = process.env.PORT || 5000;
 
@@ -75,6 +79,16 @@ async function startServer() {
       }
     });
 
+    // Entrega de eventos de domínio gravados no outbox
+    registrarAtualizacaoResumosVendas();
+    outboxDispatcher.start();
+
+    // Chaves de idempotência fora da janela de retenção
+    iniciarExpurgoIdempotencia();
+
+    // Relatórios exportados em segundo plano (períodos longos)
+    iniciarProcessamentoExportacoes();
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
       console.log('\n🛑 SIGTERM recebido. Encerrando servidor...');
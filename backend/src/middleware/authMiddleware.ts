@@ -13,6 +13,7 @@ import {
   hasAllPermissions
 } from '../services/jwtService';
 import { AuthContext } from '../config/jwtConfig';
+import { isSessaoAtiva } from '../services/sessaoService';
 
 /**
  * Estende Request do Express com contexto de autenticação
@@ -30,7 +31,7 @@ declare global {
 
 /**
  * Middleware básico de autenticação JWT
- * Valida token e adiciona contexto ao request
+ * Valida token, confirma que a sessão não foi revogada e adiciona contexto ao request
  */
 export function authenticateToken(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
@@ -54,11 +55,24 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     });
   }
 
-  // Adicionar contexto de autenticação ao request
-  req.auth = createAuthContext(validation.payload!);
-  req.tenant = { id: validation.payload!.tenantId };
+  // Token assinado não basta: logout/revogação encerram a sessão antes da expiração
+  isSessaoAtiva(validation.payload!.sessionId)
+    .then(ativa => {
+      if (!ativa) {
+        res.status(401).json({
+          error: 'Sessão encerrada. Faça login novamente',
+          code: 'SESSION_REVOKED'
+        });
+        return;
+      }
+
+      // Adicionar contexto de autenticação ao request
+      req.auth = createAuthContext(validation.payload!);
+      req.tenant = { id: validation.payload!.tenantId };
 
-  next();
+      next();
+    })
+    .catch(next);
 }
 
 /**
@@ -69,15 +83,21 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   const token = extractTokenFromHeader(authHeader);
 
-  if (token) {
-    const validation = validateAccessToken(token);
-    if (validation.valid) {
-      req.auth = createAuthContext(validation.payload!);
-      req.tenant = { id: validation.payload!.tenantId };
-    }
+  const validation = token ? validateAccessToken(token) : null;
+  if (!validation || !validation.valid) {
+    next();
+    return;
   }
 
-  next();
+  isSessaoAtiva(validation.payload!.sessionId)
+    .then(ativa => {
+      if (ativa) {
+        req.auth = createAuthContext(validation.payload!);
+        req.tenant = { id: validation.payload!.tenantId };
+      }
+      next();
+    })
+    .catch(next);
 }
 
 /**
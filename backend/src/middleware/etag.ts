@@ -0,0 +1,48 @@
+/**
+ * ETag / If-Match - Concorrência otimista nas entidades versionadas
+ * GET por id devolve a versão no ETag; o PUT com If-Match só grava se o
+ * registro ainda estiver na versão lida, senão 412 com a representação atual
+ */
+
+import { Request, Response } from 'express';
+
+export const IF_MATCH_HEADER = 'If-Match';
+
+export const formatarETag = (versao: number): string => `"${versao}"`;
+
+export function definirETag(res: Response, versao: number): void {
+  res.set('ETag', formatarETag(versao));
+}
+
+/**
+ * Versões aceitas pelo If-Match da requisição
+ * - undefined: header ausente ou "*" (qualquer versão existente)
+ * - ETag fraca (W/) ou malformada nunca casa: If-Match usa comparação forte
+ */
+export function versoesIfMatch(req: Pick<Request, 'header'>): number[] | undefined {
+  const header = req.header(IF_MATCH_HEADER);
+
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  return header
+    .split(',')
+    .map(tag => /^"(\d+)"$/.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => Number(match[1]));
+}
+
+/**
+ * 412 com a versão atual no corpo e no ETag: o cliente mostra o conflito
+ * e reenvia com o novo ETag se o usuário mantiver a alteração
+ */
+export function responderConflitoVersao(res: Response, atual: { versao: number }, mensagem: string) {
+  definirETag(res, atual.versao);
+  return res.status(412).json({
+    success: false,
+    error: mensagem,
+    code: 'VERSION_CONFLICT',
+    data: atual
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * Exportação de relatórios - CSV, XLSX e PDF no mesmo endpoint do JSON
+ * Formato por ?format= (precedência) ou pelo header Accept; sem pedido de
+ * exportação a requisição segue para o controller e recebe o JSON de sempre
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  FORMATOS_EXPORTACAO,
+  FormatoExportacao,
+  isFormatoExportacao,
+  renderizarDocumento
+} from '../services/exportacaoRenderer';
+import {
+  ChaveRelatorioExportavel,
+  ParametrosExportacao,
+  RELATORIOS_EXPORTAVEIS,
+  criarExportacao,
+  gerarDocumento,
+  nomeArquivoExportacao
+} from '../services/exportacaoService';
+
+export const FORMAT_QUERY_PARAM = 'format';
+
+const MIME_JSON = 'application/json';
+
+/**
+ * Tipos aceitos sem parâmetros (text/csv; charset=utf-8 → text/csv)
+ */
+const MIMES_EXPORTACAO = Object.entries(FORMATOS_EXPORTACAO).map(([formato, { contentType }]) => ({
+  formato: formato as FormatoExportacao,
+  mime: contentType.split(';')[0] as string
+}));
+
+/**
+ * Formato pedido pela requisição
+ * - 'json': segue para o controller
+ * - null: ?format= inválido (400) ou Accept sem nenhum formato suportado (406)
+ */
+function negociarFormato(req: Request): FormatoExportacao | 'json' | null {
+  const formato = req.query[FORMAT_QUERY_PARAM];
+
+  if (formato !== undefined) {
+    if (formato === 'json') return 'json';
+    return isFormatoExportacao(formato) ? formato : null;
+  }
+
+  // Sem Accept (ou */*) o primeiro da lista vence: JSON continua o padrão
+  const aceito = req.accepts([MIME_JSON, ...MIMES_EXPORTACAO.map(({ mime }) => mime)]);
+  if (!aceito) return null;
+  if (aceito === MIME_JSON) return 'json';
+
+  return MIMES_EXPORTACAO.find(({ mime }) => mime === aceito)?.formato ?? null;
+}
+
+/**
+ * Parâmetros do relatório: query string sem o formato (valores simples)
+ */
+function parametrosDaQuery(req: Request): ParametrosExportacao {
+  return Object.fromEntries(
+    Object.entries(req.query)
+      .filter((entrada): entrada is [string, string] => entrada[0] !== FORMAT_QUERY_PARAM && typeof entrada[1] === 'string')
+  );
+}
+
+const pedeSegundoPlano = (req: Request) => /\brespond-async\b/i.test(req.header('Prefer') ?? '');
+
+/**
+ * Torna a rota exportável - usar depois de authenticateAndIsolateTenant e requirePermission
+ * - Arquivo gerado em streaming na própria resposta (Content-Disposition: attachment)
+ * - Período longo ou Prefer: respond-async: 202 com o link de acompanhamento da
+ *   exportação em segundo plano (GET /api/exportacoes/:id)
+ */
+export function exportavel(chave: ChaveRelatorioExportavel) {
+  const relatorio = RELATORIOS_EXPORTAVEIS[chave];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const formato = negociarFormato(req);
+
+      if (formato === 'json') {
+        return next();
+      }
+
+      if (formato === null) {
+        const formatos = ['json', ...Object.keys(FORMATOS_EXPORTACAO)].join(', ');
+        return req.query[FORMAT_QUERY_PARAM] !== undefined
+          ? res.status(400).json({
+              success: false,
+              error: 'Formato de exportação inválido',
+              details: [`${FORMAT_QUERY_PARAM} deve ser um de: ${formatos}`],
+              code: 'INVALID_EXPORT_FORMAT'
+            })
+          : res.status(406).json({
+              success: false,
+              error: `Formato não suportado. Disponíveis: ${formatos}`,
+              code: 'NOT_ACCEPTABLE'
+            });
+      }
+
+      const parametros = parametrosDaQuery(req);
+      const errors = relatorio.validar(parametros);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Parâmetros inválidos',
+          details: errors
+        });
+      }
+
+      const tenantId = req.auth!.tenantId;
+
+      if (pedeSegundoPlano(req) || relatorio.exigeSegundoPlano(parametros)) {
+        const exportacao = await criarExportacao({
+          tenantId,
+          usuarioId: req.auth!.userId,
+          relatorio: chave,
+          formato,
+          parametros
+        });
+
+        if (pedeSegundoPlano(req)) {
+          res.set('Preference-Applied', 'respond-async');
+        }
+        res.set('Location', exportacao.links.status);
+        return res.status(202).json({
+          success: true,
+          data: exportacao,
+          message: 'Exportação agendada. Acompanhe pelo link de status e baixe quando concluída'
+        });
+      }
+
+      const documento = await gerarDocumento(chave, tenantId, parametros);
+
+      res.attachment(nomeArquivoExportacao(chave, parametros, formato));
+      res.type(FORMATOS_EXPORTACAO[formato].contentType);
+      res.set('Cache-Control', 'no-store');
+      await renderizarDocumento(formato, documento, res);
+
+    } catch (error) {
+      console.error(`[EXPORTACAO] Erro ao exportar relatório ${chave}:`, error);
+      // Arquivo já em envio: não há como trocar o status, encerra a conexão
+      if (res.headersSent) {
+        return res.destroy(error as Error);
+      }
+      next(error);
+    }
+  };
+}
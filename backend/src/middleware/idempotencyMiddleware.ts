@@ -0,0 +1,106 @@
+/**
+ * Middleware de Idempotência
+ * Header Idempotency-Key opcional: retentativas do mesmo comando recebem a
+ * resposta original em vez de executar de novo (ex: venda duplicada por
+ * reenvio do PDV com conexão instável)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  IDEMPOTENCIA_CONFIG,
+  hashCorpoRequisicao,
+  reservarChave,
+  concluirChave,
+  liberarChave
+} from '../services/idempotenciaService';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Aplica idempotência à rota - usar depois de authenticateAndIsolateTenant
+ * - Apenas respostas 2xx são guardadas; falhas liberam a chave para nova tentativa
+ * - Mesma chave com outro corpo ou rota: 409 IDEMPOTENCY_KEY_REUSED
+ * - Mesma chave enquanto a original processa: 409 IDEMPOTENCY_IN_PROGRESS
+ */
+export function idempotent(req: Request, res: Response, next: NextFunction) {
+  const chave = req.header(IDEMPOTENCY_HEADER);
+
+  if (chave === undefined) {
+    return next();
+  }
+
+  if (!chave.trim() || chave.length > IDEMPOTENCIA_CONFIG.tamanhoMaximoChave) {
+    return res.status(400).json({
+      error: `${IDEMPOTENCY_HEADER} deve ter de 1 a ${IDEMPOTENCIA_CONFIG.tamanhoMaximoChave} caracteres`,
+      code: 'INVALID_IDEMPOTENCY_KEY'
+    });
+  }
+
+  if (!req.auth) {
+    return res.status(401).json({
+      error: 'Autenticação necessária',
+      code: 'AUTHENTICATION_REQUIRED'
+    });
+  }
+
+  reservarChave({
+    tenantId: req.auth.tenantId,
+    chave,
+    rota: `${req.method} ${req.baseUrl}${req.path}`,
+    requestHash: hashCorpoRequisicao(req.body),
+    usuarioId: req.auth.userId
+  })
+    .then(reserva => {
+      if (reserva.tipo === 'REPETIDA') {
+        res.set('Idempotent-Replayed', 'true');
+        res.status(reserva.statusCode).json(reserva.resposta);
+        return;
+      }
+
+      if (reserva.tipo === 'CONFLITO') {
+        res.status(409).json({
+          error: `${IDEMPOTENCY_HEADER} já utilizada com outra requisição`,
+          code: 'IDEMPOTENCY_KEY_REUSED'
+        });
+        return;
+      }
+
+      if (reserva.tipo === 'EM_ANDAMENTO') {
+        res.set('Retry-After', '1');
+        res.status(409).json({
+          error: `Requisição com esta ${IDEMPOTENCY_HEADER} ainda em processamento`,
+          code: 'IDEMPOTENCY_IN_PROGRESS'
+        });
+        return;
+      }
+
+      // A resposta do handler decide a chave: mesmo com o cliente desconectado,
+      // a venda gravada fica registrada para a retentativa
+      let encerrada = false;
+      const jsonOriginal = res.json.bind(res);
+      res.json = (body: unknown) => {
+        if (encerrada) {
+          return jsonOriginal(body);
+        }
+        encerrada = true;
+
+        // Resposta só sai depois de guardada: retentativa imediata já encontra a chave concluída
+        const sucesso = res.statusCode >= 200 && res.statusCode < 300;
+        (sucesso ? concluirChave(reserva.id, res.statusCode, body) : liberarChave(reserva.id))
+          .catch(error => console.error('[IDEMPOTENCIA] Erro ao registrar resposta:', error))
+          .finally(() => jsonOriginal(body));
+        return res;
+      };
+
+      // Resposta enviada sem JSON não é repetível
+      res.on('finish', () => {
+        if (encerrada) return;
+        encerrada = true;
+        liberarChave(reserva.id)
+          .catch(error => console.error('[IDEMPOTENCIA] Erro ao liberar chave:', error));
+      });
+
+      next();
+    })
+    .catch(next);
+}
@@ -35,6 +35,7 @@ export interface CommandResult<T = any> {
   data?: T;
   error?: string;
   validationErrors?: string[];
+  code?: string; // Código de erro para o cliente (ex: APPROVAL_REQUIRED)
   affectedRows?: number;
   executionTime?: number;
 }
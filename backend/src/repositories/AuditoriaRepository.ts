@@ -0,0 +1,100 @@
+/**
+ * Auditoria Repository - Trilha de alterações persistente (LGPD)
+ * Registros são apenas inseridos - nunca alterados ou removidos
+ */
+
+import { PrismaClient, AuditoriaEntry, Prisma } from '@prisma/client';
+import { TransactionClient } from './IUnitOfWork';
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+/**
+ * Diferença campo a campo: { campo: { antes, depois } }
+ */
+export type AuditDiff = Record<string, { antes: unknown; depois: unknown }>;
+
+// Campos de controle que mudam em toda escrita e não agregam ao histórico
+const IGNORED_FIELDS = ['dataCadastro', 'dataUltimaAtualizacao', 'usuarioCadastro', 'usuarioUltimaAtualizacao'];
+
+// Campos sensíveis nunca são gravados em claro na auditoria
+const REDACTED_FIELDS = ['senha', 'senhaHash', 'pin', 'pinHash'];
+
+/**
+ * Normaliza valores para JSON (Date -> ISO, Decimal -> string)
+ */
+const toJsonValue = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value));
+};
+
+/**
+ * Calcula a diferença campo a campo entre dois estados da entidade
+ * Campos ausentes em "depois" não foram alterados e são ignorados
+ */
+export const buildAuditDiff = (
+  antes: Record<string, any> | null,
+  depois: Record<string, any>
+): AuditDiff => {
+  const diff: AuditDiff = {};
+
+  for (const campo of Object.keys(depois)) {
+    if (IGNORED_FIELDS.includes(campo) || depois[campo] === undefined) continue;
+
+    const valorAntes = toJsonValue(antes ? antes[campo] : null);
+    const valorDepois = toJsonValue(depois[campo]);
+
+    // Relações e objetos aninhados ficam fora da trilha
+    if (valorDepois !== null && typeof valorDepois === 'object' && !Array.isArray(valorDepois)) continue;
+
+    if (JSON.stringify(valorAntes) === JSON.stringify(valorDepois)) continue;
+
+    diff[campo] = REDACTED_FIELDS.includes(campo)
+      ? { antes: '***', depois: '***' }
+      : { antes: valorAntes, depois: valorDepois };
+  }
+
+  return diff;
+};
+
+export class AuditoriaRepository {
+
+  constructor(private readonly client: PrismaClient | TransactionClient) {}
+
+  /**
+   * Grava uma entrada de auditoria
+   * Com client de transação, a entrada só persiste se a operação auditada for commitada
+   */
+  async registrar(params: {
+    entidade: string;
+    entidadeId: string;
+    acao: AuditAction;
+    alteracoes: AuditDiff | Record<string, unknown>;
+    usuarioId: string;
+    tenantId: string;
+  }): Promise<AuditoriaEntry> {
+    return await this.client.auditoriaEntry.create({
+      data: {
+        entidade: params.entidade,
+        entidadeId: params.entidadeId,
+        acao: params.acao,
+        alteracoes: toJsonValue(params.alteracoes) as Prisma.InputJsonValue,
+        usuarioId: params.usuarioId,
+        tenantId: params.tenantId
+      }
+    });
+  }
+
+  /**
+   * Histórico de uma entidade, do mais recente para o mais antigo
+   */
+  async findByEntidade(
+    entidade: string,
+    entidadeId: string,
+    tenantId: string
+  ): Promise<AuditoriaEntry[]> {
+    return await this.client.auditoriaEntry.findMany({
+      where: { entidade, entidadeId, tenantId },
+      orderBy: { dataCadastro: 'desc' }
+    });
+  }
+}
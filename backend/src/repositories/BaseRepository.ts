@@ -7,6 +7,7 @@ import { PrismaClient } from '@prisma/client';
 import { IBaseRepository } from './IBaseRepository';
 import { TransactionClient } from './IUnitOfWork';
 import { cacheService } from '../services/cacheService';
+import { AuditoriaRepository, AuditAction, AuditDiff, buildAuditDiff } from './AuditoriaRepository';
 
 /**
  * Configuração base para operações do repository
@@ -15,17 +16,32 @@ interface RepositoryConfig {
   entityName: string;
   tableName: string;
   softDelete: boolean;
+  versioned: boolean; // Coluna versao: concorrência otimista (ETag / If-Match)
   auditable: boolean;
   cacheable: boolean;
   cacheKeyPrefix: string;
   defaultTtl: number;
 }
 
+/**
+ * Atualização rejeitada: a entidade mudou desde a versão que o cliente leu
+ * Carrega a representação atual para o cliente decidir (HTTP 412)
+ */
+export class ConflitoVersaoError extends Error {
+  constructor(
+    public readonly entityName: string,
+    public readonly atual: { versao: number }
+  ) {
+    super(`${entityName} foi alterado por outro usuário`);
+    this.name = 'ConflitoVersaoError';
+  }
+}
+
 /**
  * Classe base abstrata para todos os repositories
  * Implementa IBaseRepository com Prisma ORM
  */
-export abstract class BaseRepository<TEntity, TKey = string> 
+export abstract class BaseRepository<TEntity extends Record<string, any>, TKey = string> 
   implements IBaseRepository<TEntity, TKey> {
   
   protected readonly config: RepositoryConfig;
@@ -158,7 +174,7 @@ export abstract class BaseRepository<TEntity, TKey = string>
 
     // Log de auditoria
     if (this.config.auditable) {
-      await this.logAudit(created.id, 'CREATE', dataToInsert, userId, tenantId);
+      await this.logAudit(created.id, 'CREATE', buildAuditDiff(null, created), userId, tenantId);
     }
 
     return created as TEntity;
@@ -191,21 +207,44 @@ export abstract class BaseRepository<TEntity, TKey = string>
     id: TKey, 
     updates: Partial<TEntity>, 
     tenantId: string, 
-    userId: string
+    userId: string,
+    versoesEsperadas?: number[]
   ): Promise<TEntity | null> {
     const existing = await this.findById(id, tenantId);
     if (!existing) return null;
 
     const dataToUpdate = {
       ...updates,
+      ...this.buildVersionIncrement(),
       dataUltimaAtualizacao: new Date(),
       usuarioUltimaAtualizacao: userId
     };
 
-    const updated = await this.getDelegate().update({
-      where: { id, tenantId },
-      data: dataToUpdate
-    });
+    let updated: TEntity;
+
+    if (this.config.versioned && versoesEsperadas) {
+      // Condicional na versão: duas edições simultâneas não se sobrescrevem
+      const result = await this.getDelegate().updateMany({
+        where: this.buildBaseWhere({ id, tenantId, versao: { in: versoesEsperadas } }),
+        data: dataToUpdate
+      });
+
+      // Leitura direta: a versão em cache pode estar desatualizada
+      const atual: (TEntity & { versao: number }) | null = await this.getDelegate().findFirst({
+        where: this.buildBaseWhere({ id, tenantId })
+      });
+      if (!atual) return null;
+
+      if (result.count === 0) {
+        throw new ConflitoVersaoError(this.config.entityName, atual);
+      }
+      updated = atual;
+    } else {
+      updated = await this.getDelegate().update({
+        where: { id, tenantId },
+        data: dataToUpdate
+      });
+    }
 
     // Invalida cache relacionado
     if (this.config.cacheable) {
@@ -215,10 +254,10 @@ export abstract class BaseRepository<TEntity, TKey = string>
 
     // Log de auditoria
     if (this.config.auditable) {
-      await this.logAudit(id as string, 'UPDATE', dataToUpdate, userId, tenantId);
+      await this.logAudit(String(id), 'UPDATE', buildAuditDiff(existing, updated), userId, tenantId);
     }
 
-    return updated as TEntity;
+    return updated;
   }
 
   async updateMany(
@@ -229,6 +268,7 @@ export abstract class BaseRepository<TEntity, TKey = string>
   ): Promise<number> {
     const dataToUpdate = {
       ...updates,
+      ...this.buildVersionIncrement(),
       dataUltimaAtualizacao: new Date(),
       usuarioUltimaAtualizacao: userId
     };
@@ -254,13 +294,14 @@ export abstract class BaseRepository<TEntity, TKey = string>
     const existing = await this.findById(id, tenantId);
     if (!existing) return false;
 
-    await this.getDelegate().update({
+    const removed = await this.getDelegate().update({
       where: { id, tenantId },
       data: {
         ativo: false,
         dataDelecao: new Date(),
         usuarioDelecao: userId,
         motivoDelecao: reason,
+        ...this.buildVersionIncrement(),
         dataUltimaAtualizacao: new Date(),
         usuarioUltimaAtualizacao: userId
       }
@@ -274,7 +315,7 @@ export abstract class BaseRepository<TEntity, TKey = string>
 
     // Log de auditoria
     if (this.config.auditable) {
-      await this.logAudit(id as string, 'DELETE', { reason }, userId, tenantId);
+      await this.logAudit(String(id), 'DELETE', buildAuditDiff(existing, removed), userId, tenantId);
     }
 
     return true;
@@ -296,6 +337,7 @@ export abstract class BaseRepository<TEntity, TKey = string>
         dataDelecao: new Date(),
         usuarioDelecao: userId,
         motivoDelecao: reason,
+        ...this.buildVersionIncrement(),
         dataUltimaAtualizacao: new Date(),
         usuarioUltimaAtualizacao: userId
       }
@@ -377,9 +419,11 @@ export abstract class BaseRepository<TEntity, TKey = string>
       return [];
     }
 
-    // Implementação específica de auditoria seria aqui
-    // Por simplicidade, retornando array vazio
-    return [];
+    return await new AuditoriaRepository(this.client).findByEntidade(
+      this.config.entityName,
+      String(id),
+      tenantId
+    );
   }
 
   async restore(id: TKey, tenantId: string, userId: string): Promise<boolean> {
@@ -388,13 +432,18 @@ export abstract class BaseRepository<TEntity, TKey = string>
     }
 
     try {
-      await this.getDelegate().update({
+      // Busca direta: findById ignora registros deletados
+      const existing = await this.getDelegate().findFirst({ where: { id, tenantId } });
+      if (!existing) return false;
+
+      const restored = await this.getDelegate().update({
         where: { id, tenantId },
         data: {
           ativo: true,
           dataDelecao: null,
           usuarioDelecao: null,
           motivoDelecao: null,
+          ...this.buildVersionIncrement(),
           dataUltimaAtualizacao: new Date(),
           usuarioUltimaAtualizacao: userId
         }
@@ -406,6 +455,11 @@ export abstract class BaseRepository<TEntity, TKey = string>
         this.invalidateTenantCache(tenantId);
       }
 
+      // Log de auditoria
+      if (this.config.auditable) {
+        await this.logAudit(String(id), 'RESTORE', buildAuditDiff(existing, restored), userId, tenantId);
+      }
+
       return true;
     } catch (error) {
       return false;
@@ -422,7 +476,8 @@ export abstract class BaseRepository<TEntity, TKey = string>
         usuarioUltimaAtualizacao: true,
         ativo: true,
         dataDelecao: true,
-        usuarioDelecao: true
+        usuarioDelecao: true,
+        ...(this.config.versioned && { versao: true })
       }
     });
 
@@ -436,7 +491,7 @@ export abstract class BaseRepository<TEntity, TKey = string>
       isDeleted: !entity.ativo,
       deletedAt: entity.dataDelecao,
       deletedBy: entity.usuarioDelecao,
-      version: 1 // Implementar versionamento se necessário
+      version: entity.versao ?? 1
     };
   }
 
@@ -463,6 +518,13 @@ export abstract class BaseRepository<TEntity, TKey = string>
     return where;
   }
 
+  /**
+   * Incremento da versão em toda escrita de entidade versionada
+   */
+  protected buildVersionIncrement(): { versao?: { increment: number } } {
+    return this.config.versioned ? { versao: { increment: 1 } } : {};
+  }
+
   /**
    * Gera chave de cache
    */
@@ -494,19 +556,29 @@ export abstract class BaseRepository<TEntity, TKey = string>
   }
 
   /**
-   * Log de auditoria (implementação simplificada)
+   * Log de auditoria persistente (tabela auditoria)
+   * Usa o mesmo client do repository: dentro de transação, a entrada
+   * é descartada junto com a operação em caso de rollback
    */
   private async logAudit(
     entityId: string,
-    action: string,
-    changes: any,
+    action: AuditAction,
+    changes: AuditDiff,
     userId: string,
     tenantId: string
   ): Promise<void> {
-    // Implementação de auditoria seria aqui
-    // Por simplicidade, apenas log no console em desenvolvimento
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[AUDIT] ${this.config.entityName}:${entityId} ${action} by ${userId} in ${tenantId}`);
+    // UPDATE sem mudança efetiva não gera entrada
+    if (action === 'UPDATE' && Object.keys(changes).length === 0) {
+      return;
     }
+
+    await new AuditoriaRepository(this.client).registrar({
+      entidade: this.config.entityName,
+      entidadeId: entityId,
+      acao: action,
+      alteracoes: changes,
+      usuarioId: userId,
+      tenantId
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+/**
+ * Caixa Repository - Sessões de caixa e movimentos de gaveta
+ * Cálculo do esperado por forma de pagamento a partir das vendas e movimentos da sessão
+ */
+
+import { PrismaClient, SessaoCaixa, MovimentoCaixa, Prisma } from '@prisma/client';
+import { TransactionClient } from './IUnitOfWork';
+
+export type TipoMovimentoCaixa = 'SANGRIA' | 'SUPRIMENTO';
+
+export interface TotaisSessaoCaixa {
+  valorAbertura: number;
+  suprimentos: number;
+  sangrias: number;
+  quantidadeVendas: number;
+  vendasCanceladas: number;
+  totalVendas: number;
+  troco: number;
+  devolucoes: number; // Reembolsos de devoluções pagos nesta sessão
+  // Esperado na gaveta/maquininha por forma; DINHEIRO inclui fundo, suprimentos e sangrias
+  esperadoPorForma: Record<string, number>;
+}
+
+export class CaixaRepository {
+
+  constructor(private readonly client: PrismaClient | TransactionClient) {}
+
+  /**
+   * Chave que identifica a sessão aberta do operador (única no banco)
+   */
+  static chaveAberta(tenantId: string, operadorId: string): string {
+    return `${tenantId}:${operadorId}`;
+  }
+
+  /**
+   * Sessão aberta do operador, se houver
+   */
+  async findSessaoAberta(tenantId: string, operadorId: string): Promise<SessaoCaixa | null> {
+    return await this.client.sessaoCaixa.findUnique({
+      where: { chaveAberta: CaixaRepository.chaveAberta(tenantId, operadorId) }
+    });
+  }
+
+  async findById(id: string, tenantId: string): Promise<SessaoCaixa | null> {
+    return await this.client.sessaoCaixa.findFirst({
+      where: { id, tenantId }
+    });
+  }
+
+  async findMovimentos(sessaoCaixaId: string): Promise<MovimentoCaixa[]> {
+    return await this.client.movimentoCaixa.findMany({
+      where: { sessaoCaixaId },
+      orderBy: { dataCadastro: 'asc' }
+    });
+  }
+
+  /**
+   * Listagem de sessões (mais recentes primeiro)
+   */
+  async findPaginated(filters: {
+    tenantId: string;
+    operadorId?: string;
+    status?: string;
+    dataInicio?: Date;
+    dataFim?: Date;
+    skip: number;
+    take: number;
+  }): Promise<{ data: SessaoCaixa[]; total: number }> {
+    const where: Prisma.SessaoCaixaWhereInput = {
+      tenantId: filters.tenantId,
+      ...(filters.operadorId && { operadorId: filters.operadorId }),
+      ...(filters.status && { status: filters.status }),
+      ...((filters.dataInicio || filters.dataFim) && {
+        dataAbertura: {
+          ...(filters.dataInicio && { gte: filters.dataInicio }),
+          ...(filters.dataFim && { lte: filters.dataFim })
+        }
+      })
+    };
+
+    const [data, total] = await Promise.all([
+      this.client.sessaoCaixa.findMany({
+        where,
+        orderBy: { dataAbertura: 'desc' },
+        skip: filters.skip,
+        take: filters.take
+      }),
+      this.client.sessaoCaixa.count({ where })
+    ]);
+
+    return { data, total };
+  }
+
+  /**
+   * Registra sangria ou suprimento
+   */
+  async registrarMovimento(data: {
+    sessaoCaixaId: string;
+    tipo: TipoMovimentoCaixa;
+    valor: number;
+    motivo?: string | undefined;
+    usuarioId: string;
+  }): Promise<MovimentoCaixa> {
+    return await this.client.movimentoCaixa.create({
+      data: {
+        sessaoCaixaId: data.sessaoCaixaId,
+        tipo: data.tipo,
+        valor: data.valor,
+        motivo: data.motivo ?? null,
+        usuarioId: data.usuarioId
+      }
+    });
+  }
+
+  /**
+   * Totais da sessão calculados pelas linhas de pagamento das vendas finalizadas
+   * Vendas canceladas não entram no esperado (o valor foi devolvido ao cliente)
+   * Reembolsos de devoluções saem da forma em que foram pagos
+   */
+  async calcularTotais(sessao: SessaoCaixa): Promise<TotaisSessaoCaixa> {
+    const [pagamentos, movimentos, vendas, canceladas, reembolsos] = await Promise.all([
+      this.client.pagamentoVenda.groupBy({
+        by: ['forma'],
+        where: { venda: { sessaoCaixaId: sessao.id, status: 'FINALIZADA' } },
+        _sum: { valor: true, troco: true }
+      }),
+      this.client.movimentoCaixa.groupBy({
+        by: ['tipo'],
+        where: { sessaoCaixaId: sessao.id },
+        _sum: { valor: true }
+      }),
+      this.client.venda.aggregate({
+        where: { sessaoCaixaId: sessao.id, status: 'FINALIZADA' },
+        _count: { id: true },
+        _sum: { total: true }
+      }),
+      this.client.venda.count({
+        where: { sessaoCaixaId: sessao.id, status: 'CANCELADA' }
+      }),
+      this.client.devolucao.groupBy({
+        by: ['formaReembolso'],
+        where: { sessaoCaixaId: sessao.id, tipoReembolso: 'REEMBOLSO' },
+        _sum: { valor: true }
+      })
+    ]);
+
+    const valorAbertura = Number(sessao.valorAbertura);
+    const suprimentos = Number(movimentos.find(m => m.tipo === 'SUPRIMENTO')?._sum.valor ?? 0);
+    const sangrias = Number(movimentos.find(m => m.tipo === 'SANGRIA')?._sum.valor ?? 0);
+
+    const esperadoPorForma: Record<string, number> = {
+      DINHEIRO: valorAbertura + suprimentos - sangrias
+    };
+    for (const pagamento of pagamentos) {
+      // Vale-troca é crédito da própria loja: não há o que conferir na gaveta
+      if (pagamento.forma === 'VALE_TROCA') continue;
+      // valor já é líquido do troco: é o que fica na gaveta
+      esperadoPorForma[pagamento.forma] = (esperadoPorForma[pagamento.forma] ?? 0) + Number(pagamento._sum.valor ?? 0);
+    }
+    for (const reembolso of reembolsos) {
+      const forma = reembolso.formaReembolso ?? 'DINHEIRO';
+      esperadoPorForma[forma] = (esperadoPorForma[forma] ?? 0) - Number(reembolso._sum.valor ?? 0);
+    }
+
+    return {
+      valorAbertura,
+      suprimentos,
+      sangrias,
+      quantidadeVendas: vendas._count.id,
+      vendasCanceladas: canceladas,
+      totalVendas: Number(vendas._sum.total ?? 0),
+      troco: pagamentos.reduce((sum, p) => sum + Number(p._sum.troco ?? 0), 0),
+      devolucoes: reembolsos.reduce((sum, r) => sum + Number(r._sum.valor ?? 0), 0),
+      esperadoPorForma
+    };
+  }
+}
@@ -14,6 +14,7 @@ export class ClienteRepository extends BaseRepository<Cliente, string> {
       entityName: 'Cliente',
       tableName: 'clientes',
       softDelete: true,
+      versioned: true,
       auditable: true,
       cacheable: true,
       cacheKeyPrefix: 'cliente',
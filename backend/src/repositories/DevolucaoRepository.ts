@@ -0,0 +1,112 @@
+/**
+ * Devolucao Repository - Devoluções de itens vendidos e vales-troca
+ */
+
+import { PrismaClient, ValeTroca, Prisma } from '@prisma/client';
+import { TransactionClient } from './IUnitOfWork';
+
+const DEVOLUCAO_INCLUDE = {
+  itens: true,
+  valeTroca: true
+} as const;
+
+export class DevolucaoRepository {
+
+  constructor(private readonly client: PrismaClient | TransactionClient) {}
+
+  /**
+   * Código do vale-troca como digitado no PDV (sem espaços, maiúsculo)
+   */
+  static normalizarCodigo(codigo: string): string {
+    return codigo.replace(/\s+/g, '').toUpperCase();
+  }
+
+  async findById(id: string, tenantId: string) {
+    return await this.client.devolucao.findFirst({
+      where: { id, tenantId },
+      include: DEVOLUCAO_INCLUDE
+    });
+  }
+
+  /**
+   * Listagem de devoluções (mais recentes primeiro)
+   */
+  async findPaginated(filters: {
+    tenantId: string;
+    vendaId?: string;
+    tipoReembolso?: string;
+    dataInicio?: Date;
+    dataFim?: Date;
+    skip: number;
+    take: number;
+  }) {
+    const where: Prisma.DevolucaoWhereInput = {
+      tenantId: filters.tenantId,
+      ...(filters.vendaId && { vendaId: filters.vendaId }),
+      ...(filters.tipoReembolso && { tipoReembolso: filters.tipoReembolso }),
+      ...((filters.dataInicio || filters.dataFim) && {
+        dataDevolucao: {
+          ...(filters.dataInicio && { gte: filters.dataInicio }),
+          ...(filters.dataFim && { lte: filters.dataFim })
+        }
+      })
+    };
+
+    const [data, total] = await Promise.all([
+      this.client.devolucao.findMany({
+        where,
+        include: DEVOLUCAO_INCLUDE,
+        orderBy: { dataDevolucao: 'desc' },
+        skip: filters.skip,
+        take: filters.take
+      }),
+      this.client.devolucao.count({ where })
+    ]);
+
+    return { data, total };
+  }
+
+  async findValeTroca(codigo: string, tenantId: string): Promise<ValeTroca | null> {
+    return await this.client.valeTroca.findUnique({
+      where: { tenantId_codigo: { tenantId, codigo: DevolucaoRepository.normalizarCodigo(codigo) } }
+    });
+  }
+
+  /**
+   * Debita o valor do saldo do vale
+   * Condicional no saldo: dois resgates simultâneos não gastam o mesmo crédito.
+   * Retorna null se o vale não estiver ativo ou o saldo for insuficiente.
+   * Deve ser chamado dentro de uma transação.
+   */
+  async debitarValeTroca(id: string, valor: number): Promise<ValeTroca | null> {
+    const result = await this.client.valeTroca.updateMany({
+      where: { id, status: 'ATIVO', saldo: { gte: valor } },
+      data: { saldo: { decrement: valor } }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    const vale = await this.client.valeTroca.findUniqueOrThrow({ where: { id } });
+    if (Number(vale.saldo) > 0) {
+      return vale;
+    }
+
+    return await this.client.valeTroca.update({
+      where: { id },
+      data: { status: 'UTILIZADO' }
+    });
+  }
+
+  /**
+   * Devolve ao vale o valor de um resgate (venda cancelada)
+   * Deve ser chamado dentro de uma transação.
+   */
+  async creditarValeTroca(id: string, valor: number): Promise<ValeTroca> {
+    return await this.client.valeTroca.update({
+      where: { id },
+      data: { saldo: { increment: valor }, status: 'ATIVO' }
+    });
+  }
+}
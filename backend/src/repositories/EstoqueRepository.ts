@@ -0,0 +1,227 @@
+/**
+ * Estoque Repository - Implementação concreta
+ * Repository específico para saldo de estoque e movimentações
+ */
+
+import { PrismaClient, Estoque, MovimentacaoEstoque, Prisma } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+import { TransactionClient } from './IUnitOfWork';
+
+export class EstoqueRepository extends BaseRepository<Estoque, string> {
+
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client, {
+      entityName: 'Estoque',
+      tableName: 'estoque',
+      softDelete: true,
+      versioned: true,
+      auditable: true,
+      cacheable: false, // Saldo de estoque nunca deve vir do cache
+      cacheKeyPrefix: 'estoque',
+      defaultTtl: 60
+    });
+  }
+
+  /**
+   * Obtém delegate do Prisma para Estoque
+   */
+  protected getDelegate() {
+    return this.client.estoque;
+  }
+
+  /**
+   * Busca estoque ativo de um produto
+   */
+  async findByProduto(produtoId: string, tenantId: string): Promise<Estoque | null> {
+    return await this.getDelegate().findFirst({
+      where: this.buildBaseWhere({ produtoId, tenantId })
+    });
+  }
+
+  /**
+   * Busca estoques ativos de vários produtos de uma vez
+   */
+  async findByProdutos(produtoIds: string[], tenantId: string): Promise<Estoque[]> {
+    return await this.getDelegate().findMany({
+      where: this.buildBaseWhere({ produtoId: { in: produtoIds }, tenantId })
+    });
+  }
+
+  /**
+   * Bloqueia a linha de estoque do produto até o fim da transação (SELECT ... FOR UPDATE)
+   * e devolve o saldo lido sob o bloqueio: movimentações concorrentes do mesmo produto
+   * esperam, então o saldo calculado a partir dele não perde atualizações.
+   * Deve ser chamado dentro de uma transação.
+   */
+  async bloquearPorProduto(produtoId: string, tenantId: string): Promise<Estoque | null> {
+    await this.client.$queryRaw`
+      SELECT id FROM estoque
+      WHERE "produtoId" = ${produtoId} AND "tenantId" = ${tenantId} AND ativo = true
+      FOR UPDATE
+    `;
+
+    return await this.findByProduto(produtoId, tenantId);
+  }
+
+  /**
+   * Baixa estoque de um produto e registra movimentação de SAIDA
+   * A baixa é condicional (quantidadeAtual >= quantidade) para não ficar negativo
+   * mesmo com vendas concorrentes, exceto com permitirNegativo (política do tenant).
+   * Retorna null se o saldo for insuficiente.
+   * Deve ser chamado dentro de uma transação.
+   */
+  async registrarSaida(params: {
+    produtoId: string;
+    quantidade: number | Prisma.Decimal; // Na unidade de medida do produto
+    motivo: string;
+    vendaId?: string;
+    itemVendaId?: string;
+    tenantId: string;
+    userId: string;
+    permitirNegativo?: boolean;
+  }): Promise<MovimentacaoEstoque | null> {
+    const { produtoId, quantidade, motivo, vendaId, itemVendaId, tenantId, userId, permitirNegativo } = params;
+
+    const result = await this.getDelegate().updateMany({
+      where: {
+        produtoId,
+        tenantId,
+        ativo: true,
+        ...(!permitirNegativo && { quantidadeAtual: { gte: quantidade } })
+      },
+      data: {
+        quantidadeAtual: { decrement: quantidade },
+        ...this.buildVersionIncrement(),
+        dataUltimaAtualizacao: new Date(),
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    const estoque = await this.findByProduto(produtoId, tenantId);
+
+    return await this.client.movimentacaoEstoque.create({
+      data: {
+        produtoId,
+        tipo: 'SAIDA',
+        quantidade,
+        quantidadeAnterior: estoque!.quantidadeAtual.plus(quantidade),
+        quantidadeAtual: estoque!.quantidadeAtual,
+        motivo,
+        vendaId: vendaId ?? null,
+        itemVendaId: itemVendaId ?? null,
+        usuarioId: userId,
+        tenantId
+      }
+    });
+  }
+
+  /**
+   * Devolve ao estoque parte da quantidade vendida de um item (devolução de cliente)
+   * Cria ENTRADA vinculada à venda e ao item sem apontar para a SAIDA original:
+   * a saída continua ativa para o restante do item.
+   * Deve ser chamado dentro de uma transação.
+   */
+  async registrarDevolucao(params: {
+    produtoId: string;
+    quantidade: number | Prisma.Decimal; // Na unidade de medida do produto
+    motivo: string;
+    vendaId: string;
+    itemVendaId: string;
+    tenantId: string;
+    userId: string;
+  }): Promise<MovimentacaoEstoque> {
+    const { produtoId, quantidade, motivo, vendaId, itemVendaId, tenantId, userId } = params;
+
+    const estoque = await this.getDelegate().update({
+      where: { produtoId },
+      data: {
+        quantidadeAtual: { increment: quantidade },
+        ...this.buildVersionIncrement(),
+        dataUltimaAtualizacao: new Date(),
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    return await this.client.movimentacaoEstoque.create({
+      data: {
+        produtoId,
+        tipo: 'ENTRADA',
+        quantidade,
+        quantidadeAnterior: estoque.quantidadeAtual.minus(quantidade),
+        quantidadeAtual: estoque.quantidadeAtual,
+        motivo,
+        vendaId,
+        itemVendaId,
+        usuarioId: userId,
+        tenantId
+      }
+    });
+  }
+
+  /**
+   * Busca movimentações de SAIDA de uma venda que ainda não foram estornadas
+   */
+  async findSaidasNaoEstornadas(
+    vendaId: string,
+    tenantId: string,
+    itemVendaIds?: string[]
+  ): Promise<MovimentacaoEstoque[]> {
+    const where: any = {
+      vendaId,
+      tenantId,
+      tipo: 'SAIDA',
+      estornos: { none: {} }
+    };
+
+    if (itemVendaIds) {
+      where.itemVendaId = { in: itemVendaIds };
+    }
+
+    return await this.client.movimentacaoEstoque.findMany({
+      where,
+      orderBy: { dataMovimentacao: 'asc' }
+    });
+  }
+
+  /**
+   * Estorna uma movimentação de SAIDA
+   * Devolve a quantidade ao estoque e cria movimentação compensatória de ENTRADA
+   * apontando para a original via movimentacaoEstornoId (nunca altera a original).
+   * Deve ser chamado dentro de uma transação.
+   */
+  async registrarEstorno(
+    original: MovimentacaoEstoque,
+    motivo: string,
+    userId: string
+  ): Promise<MovimentacaoEstoque> {
+    const estoque = await this.getDelegate().update({
+      where: { produtoId: original.produtoId },
+      data: {
+        quantidadeAtual: { increment: original.quantidade },
+        ...this.buildVersionIncrement(),
+        dataUltimaAtualizacao: new Date(),
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    return await this.client.movimentacaoEstoque.create({
+      data: {
+        produtoId: original.produtoId,
+        tipo: 'ENTRADA',
+        quantidade: original.quantidade,
+        quantidadeAnterior: estoque.quantidadeAtual.minus(original.quantidade),
+        quantidadeAtual: estoque.quantidadeAtual,
+        motivo,
+        vendaId: original.vendaId,
+        itemVendaId: original.itemVendaId,
+        movimentacaoEstornoId: original.id,
+        usuarioId: userId,
+        tenantId: original.tenantId
+      }
+    });
+  }
+}
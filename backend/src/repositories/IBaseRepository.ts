@@ -96,13 +96,16 @@ export interface IBaseRepository<TEntity, TKey = string> {
    * @param updates - Campos a serem atualizados
    * @param tenantId - ID do tenant
    * @param userId - ID do usuário que está atualizando
+   * @param versoesEsperadas - Versões aceitas (If-Match); omitido atualiza qualquer versão
    * @returns Entidade atualizada ou null se não encontrada
+   * @throws ConflitoVersaoError se a entidade estiver em outra versão
    */
   update(
     id: TKey, 
     updates: Partial<TEntity>, 
     tenantId: string, 
-    userId: string
+    userId: string,
+    versoesEsperadas?: number[]
   ): Promise<TEntity | null>;
 
   /**
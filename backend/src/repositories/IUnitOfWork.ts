@@ -98,7 +98,7 @@ export interface IUnitOfWork {
    */
   getTransactionStats(): {
     isActive: boolean;
-    startTime?: Date;
+    startTime?: Date | undefined;
     operationCount: number;
     repositories: string[];
   };
@@ -108,23 +108,34 @@ export interface IUnitOfWork {
   // ====================================
 
   /**
-   * Cria savepoint na transação atual
-   * @param name - Nome do savepoint
+   * Cria savepoint (SAVEPOINT) na transação atual
+   * Requer UoW obtido via executeInTransaction
+   * @param name - Nome do savepoint (letras, números e _)
    */
   createSavepoint(name: string): Promise<void>;
 
   /**
-   * Volta para um savepoint específico
+   * Desfaz no banco tudo que foi feito após o savepoint (ROLLBACK TO SAVEPOINT)
+   * Eventos e invalidações de cache agendados depois dele também são descartados
    * @param name - Nome do savepoint
    */
   rollbackToSavepoint(name: string): Promise<void>;
 
   /**
-   * Remove savepoint
+   * Remove savepoint (RELEASE SAVEPOINT), mantendo as alterações
    * @param name - Nome do savepoint
    */
   releaseSavepoint(name: string): Promise<void>;
 
+  /**
+   * Executa operação protegida por savepoint
+   * Em caso de erro volta ao savepoint e relança o erro, mantendo a transação utilizável
+   * (ex: importação em lote que pula linhas inválidas)
+   * @param name - Nome do savepoint
+   * @param operation - Operação a executar
+   */
+  executeWithSavepoint<TResult>(name: string, operation: () => Promise<TResult>): Promise<TResult>;
+
   /**
    * Executa query RAW dentro da transação atual
    * @param query - Query SQL
@@ -218,7 +229,8 @@ export interface IUnitOfWork {
   }[];
 
   /**
-   * Publica todos os eventos pendentes após commit
+   * Grava os eventos pendentes no outbox (mesma transação da operação)
+   * A entrega aos handlers é feita depois pelo outboxDispatcher
    */
   publishPendingEvents(): Promise<void>;
 
@@ -0,0 +1,167 @@
+/**
+ * Outbox Repository - Eventos de domínio pendentes de entrega
+ * Gravação na transação da operação; leitura e controle de entrega pelo dispatcher
+ */
+
+import { PrismaClient, OutboxEvento, Prisma } from '@prisma/client';
+import { TransactionClient } from './IUnitOfWork';
+
+export type OutboxStatus = 'PENDENTE' | 'PROCESSANDO' | 'PROCESSADO' | 'DEAD_LETTER';
+
+export interface NovoOutboxEvento {
+  id: string;
+  eventType: string;
+  aggregateId: string;
+  eventData: any;
+  tenantId: string;
+  timestamp: Date;
+}
+
+export class OutboxRepository {
+
+  constructor(private readonly client: PrismaClient | TransactionClient) {}
+
+  /**
+   * Grava eventos no outbox
+   * Com client de transação, os eventos só existem se a operação for commitada
+   */
+  async adicionar(eventos: NovoOutboxEvento[]): Promise<number> {
+    if (eventos.length === 0) return 0;
+
+    const result = await this.client.outboxEvento.createMany({
+      data: eventos.map(evento => ({
+        id: evento.id,
+        tipo: evento.eventType,
+        agregadoId: evento.aggregateId,
+        // Normaliza Date/Decimal para JSON
+        payload: JSON.parse(JSON.stringify(evento.eventData ?? {})) as Prisma.InputJsonValue,
+        tenantId: evento.tenantId,
+        dataCadastro: evento.timestamp,
+        proximaTentativa: evento.timestamp
+      }))
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Eventos prontos para entrega, em ordem de criação
+   */
+  async findProntos(limit: number): Promise<OutboxEvento[]> {
+    return await this.client.outboxEvento.findMany({
+      where: {
+        status: 'PENDENTE',
+        proximaTentativa: { lte: new Date() }
+      },
+      orderBy: { dataCadastro: 'asc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Reserva o evento para processamento
+   * Condicional no status: só uma instância do dispatcher consegue reservar
+   */
+  async bloquear(id: string): Promise<boolean> {
+    const result = await this.client.outboxEvento.updateMany({
+      where: { id, status: 'PENDENTE' },
+      data: { status: 'PROCESSANDO', dataBloqueio: new Date() }
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Devolve para a fila eventos presos em PROCESSANDO (instância caiu no meio da entrega)
+   */
+  async liberarBloqueiosExpirados(bloqueadoAntesDe: Date): Promise<number> {
+    const result = await this.client.outboxEvento.updateMany({
+      where: {
+        status: 'PROCESSANDO',
+        dataBloqueio: { lt: bloqueadoAntesDe }
+      },
+      data: { status: 'PENDENTE', dataBloqueio: null }
+    });
+
+    return result.count;
+  }
+
+  async marcarProcessado(id: string): Promise<void> {
+    await this.client.outboxEvento.update({
+      where: { id },
+      data: {
+        status: 'PROCESSADO',
+        dataProcessamento: new Date(),
+        dataBloqueio: null,
+        ultimoErro: null
+      }
+    });
+  }
+
+  /**
+   * Registra falha de entrega: reagenda ou envia para dead letter
+   */
+  async registrarFalha(
+    id: string,
+    tentativas: number,
+    erro: string,
+    proximaTentativa: Date | null
+  ): Promise<void> {
+    await this.client.outboxEvento.update({
+      where: { id },
+      data: {
+        status: proximaTentativa ? 'PENDENTE' : 'DEAD_LETTER',
+        tentativas,
+        ultimoErro: erro,
+        dataBloqueio: null,
+        ...(proximaTentativa && { proximaTentativa })
+      }
+    });
+  }
+
+  /**
+   * Listagem para administração (mais recentes primeiro)
+   */
+  async findPaginated(filters: {
+    status?: string;
+    tipo?: string;
+    tenantId?: string;
+    skip: number;
+    take: number;
+  }): Promise<{ data: OutboxEvento[]; total: number }> {
+    const where: Prisma.OutboxEventoWhereInput = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.tipo && { tipo: filters.tipo }),
+      ...(filters.tenantId && { tenantId: filters.tenantId })
+    };
+
+    const [data, total] = await Promise.all([
+      this.client.outboxEvento.findMany({
+        where,
+        orderBy: { dataCadastro: 'desc' },
+        skip: filters.skip,
+        take: filters.take
+      }),
+      this.client.outboxEvento.count({ where })
+    ]);
+
+    return { data, total };
+  }
+
+  /**
+   * Recoloca um evento em dead letter na fila, zerando as tentativas
+   */
+  async reenfileirar(id: string): Promise<boolean> {
+    const result = await this.client.outboxEvento.updateMany({
+      where: { id, status: 'DEAD_LETTER' },
+      data: {
+        status: 'PENDENTE',
+        tentativas: 0,
+        proximaTentativa: new Date(),
+        dataBloqueio: null
+      }
+    });
+
+    return result.count === 1;
+  }
+}
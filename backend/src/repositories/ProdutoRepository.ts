@@ -3,9 +3,31 @@
  * Repository específico para operações com produtos
  */
 
-import { PrismaClient, Produto } from '@prisma/client';
+import { PrismaClient, Produto, Prisma } from '@prisma/client';
 import { BaseRepository } from './BaseRepository';
 import { TransactionClient } from './IUnitOfWork';
+import { PeriodoLocal, sqlPeriodoLocal } from './VendaRepository';
+
+export interface DesempenhoProduto {
+  produtoId: string;
+  produto: string;
+  categoria: string;
+  quantidade: number;
+  faturamento: number;
+  custo: number;
+  // Itens vendidos antes do registro do custo na venda: custo atual do estoque
+  itensCustoAtual: number;
+}
+
+export interface ProdutoEstoqueParado {
+  produtoId: string;
+  produto: string;
+  categoria: string;
+  quantidade: number;
+  precoCusto: number;
+  valorEstoque: number;
+  ultimaVenda: string | null;
+}
 
 export class ProdutoRepository extends BaseRepository<Produto, string> {
   
@@ -14,6 +36,7 @@ export class ProdutoRepository extends BaseRepository<Produto, string> {
       entityName: 'Produto',
       tableName: 'produtos',
       softDelete: true,
+      versioned: true,
       auditable: true,
       cacheable: true,
       cacheKeyPrefix: 'produto',
@@ -141,7 +164,7 @@ export class ProdutoRepository extends BaseRepository<Produto, string> {
           where: {
             ativo: true,
             OR: [
-              { quantidadeAtual: { lte: { quantidadeMinima: true } } },
+              { quantidadeAtual: { lte: this.client.estoque.fields.quantidadeMinima } },
               { quantidadeAtual: 0 }
             ]
           }
@@ -218,8 +241,10 @@ export class ProdutoRepository extends BaseRepository<Produto, string> {
 
   /**
    * Obtém estatísticas dos produtos
+   * Mais vendidos do mês vêm dos resumos diários por produto (ResumoVendaRepository)
+   * @param hoje - Data local do tenant (AAAA-MM-DD)
    */
-  async getStatistics(tenantId: string): Promise<{
+  async getStatistics(tenantId: string, hoje: string): Promise<{
     total: number;
     ativos: number;
     inativos: number;
@@ -227,55 +252,140 @@ export class ProdutoRepository extends BaseRepository<Produto, string> {
     estoqueBaixo: number;
     semEstoque: number;
     precoMedio: number;
+    maisVendidosMes: Array<{ produtoId: string; produto: string; unidadeMedida: string; quantidade: number; valor: number }>;
   }> {
+    const inicioMes = `${hoje.slice(0, 7)}-01`;
+
     const [
       total,
       ativos,
       inativos,
       categorias,
       estoqueInfo,
-      precoMedio
+      precoMedio,
+      maisVendidosMes
     ] = await Promise.all([
       this.count({}, tenantId),
       this.count({ ativo: true }, tenantId),
       this.count({ ativo: false }, tenantId),
       this.getUniqueCategories(tenantId),
-      this.getDelegate().findMany({
-        where: this.buildBaseWhere({ tenantId }),
-        include: {
-          estoque: {
-            select: {
-              quantidadeAtual: true,
-              quantidadeMinima: true
-            }
-          }
-        }
-      }),
+      // Contagem no banco em vez de carregar todos os produtos com estoque
+      this.client.$queryRaw<Array<{ estoqueBaixo: number; semEstoque: number }>>`
+        SELECT (COUNT(*) FILTER (WHERE e."quantidadeAtual" <= e."quantidadeMinima"))::int AS "estoqueBaixo",
+               (COUNT(*) FILTER (WHERE e."quantidadeAtual" = 0))::int AS "semEstoque"
+        FROM produtos p
+        JOIN estoque e ON e."produtoId" = p.id
+        WHERE p."tenantId" = ${tenantId} AND p.ativo = true
+      `,
       this.getDelegate().aggregate({
         where: this.buildBaseWhere({ tenantId }),
         _avg: { precoVenda: true }
-      })
+      }),
+      this.client.$queryRaw<Array<{ produtoId: string; produto: string; unidadeMedida: string; quantidade: number; valor: number }>>`
+        SELECT r."produtoId", MAX(r.produto) AS produto, MAX(p."unidadeMedida") AS "unidadeMedida",
+               SUM(r.quantidade)::float8 AS quantidade, SUM(r.valor)::float8 AS valor
+        FROM resumo_vendas_produto r
+        JOIN produtos p ON p.id = r."produtoId"
+        WHERE r."tenantId" = ${tenantId} AND r.dia BETWEEN ${inicioMes}::date AND ${hoje}::date
+        GROUP BY r."produtoId"
+        ORDER BY quantidade DESC, valor DESC
+        LIMIT 5
+      `
     ]);
 
-    const estoqueBaixo = estoqueInfo.filter(p => 
-      p.estoque && p.estoque.quantidadeAtual <= p.estoque.quantidadeMinima
-    ).length;
-
-    const semEstoque = estoqueInfo.filter(p => 
-      p.estoque && p.estoque.quantidadeAtual === 0
-    ).length;
-
     return {
       total,
       ativos,
       inativos,
       categorias: categorias.length,
-      estoqueBaixo,
-      semEstoque,
-      precoMedio: Number(precoMedio._avg.precoVenda) || 0
+      estoqueBaixo: estoqueInfo[0]?.estoqueBaixo ?? 0,
+      semEstoque: estoqueInfo[0]?.semEstoque ?? 0,
+      precoMedio: Number(precoMedio._avg.precoVenda) || 0,
+      maisVendidosMes
     };
   }
 
+  /**
+   * Faturamento e custo por produto no período (vendas FINALIZADA), agregado no banco
+   * Quantidade líquida de devoluções; itens estornados ou removidos ficam fora.
+   * Faturamento pelo subtotal do item (desconto/acréscimo da venda não é rateado)
+   * e custo pelo precoCusto registrado no item no momento da venda
+   */
+  async getDesempenhoVendas(periodo: PeriodoLocal, tenantId: string): Promise<DesempenhoProduto[]> {
+    const linhas = await this.client.$queryRaw<Array<Omit<DesempenhoProduto, 'faturamento' | 'custo'> & {
+      faturamento: Prisma.Decimal;
+      custo: Prisma.Decimal;
+    }>>`
+      SELECT p.id AS "produtoId",
+             p.nome AS produto,
+             COALESCE(p.categoria, 'Sem categoria') AS categoria,
+             SUM(i.quantidade - i."quantidadeDevolvida")::float8 AS quantidade,
+             SUM(i.subtotal * (i.quantidade - i."quantidadeDevolvida") / i.quantidade) AS faturamento,
+             SUM(COALESCE(i."precoCusto", e."precoCusto", 0) * (i.quantidade - i."quantidadeDevolvida")) AS custo,
+             (COUNT(*) FILTER (WHERE i."precoCusto" IS NULL))::int AS "itensCustoAtual"
+      FROM itens_venda i
+      JOIN vendas v ON v.id = i."vendaId"
+      JOIN produtos p ON p.id = i."produtoId"
+      LEFT JOIN estoque e ON e."produtoId" = p.id
+      WHERE v."tenantId" = ${tenantId}
+        AND v.status = 'FINALIZADA'
+        AND ${sqlPeriodoLocal(periodo)}
+        AND i.status = 'FINALIZADA'
+        AND i.quantidade > i."quantidadeDevolvida"
+      GROUP BY p.id, p.nome, p.categoria
+    `;
+
+    return linhas.map(linha => ({
+      ...linha,
+      faturamento: Number(linha.faturamento),
+      custo: Number(linha.custo)
+    }));
+  }
+
+  /**
+   * Estoque parado: produtos ativos com saldo e sem venda FINALIZADA nos últimos dias
+   * Produtos cadastrados dentro da janela ainda não contam como parados
+   * @param fusoHorario - Fuso do tenant, para a data local da última venda
+   */
+  async findEstoqueParado(
+    tenantId: string,
+    diasSemVenda: number,
+    fusoHorario: string
+  ): Promise<ProdutoEstoqueParado[]> {
+    const linhas = await this.client.$queryRaw<Array<Omit<ProdutoEstoqueParado, 'precoCusto' | 'valorEstoque'> & {
+      precoCusto: Prisma.Decimal;
+      valorEstoque: Prisma.Decimal;
+    }>>`
+      SELECT p.id AS "produtoId",
+             p.nome AS produto,
+             COALESCE(p.categoria, 'Sem categoria') AS categoria,
+             e."quantidadeAtual"::float8 AS quantidade,
+             e."precoCusto",
+             e."quantidadeAtual" * e."precoCusto" AS "valorEstoque",
+             to_char((u."ultimaVenda" AT TIME ZONE 'UTC') AT TIME ZONE ${fusoHorario}, 'YYYY-MM-DD') AS "ultimaVenda"
+      FROM produtos p
+      JOIN estoque e ON e."produtoId" = p.id AND e.ativo = true
+      LEFT JOIN LATERAL (
+        SELECT MAX(v."dataVenda") AS "ultimaVenda"
+        FROM itens_venda i
+        JOIN vendas v ON v.id = i."vendaId"
+        WHERE i."produtoId" = p.id AND v.status = 'FINALIZADA' AND i.status = 'FINALIZADA'
+      ) u ON true
+      WHERE p."tenantId" = ${tenantId}
+        AND p.ativo = true
+        AND e."quantidadeAtual" > 0
+        AND p."dataCadastro" < now() - make_interval(days => ${diasSemVenda}::int)
+        AND (u."ultimaVenda" IS NULL OR u."ultimaVenda" < now() - make_interval(days => ${diasSemVenda}::int))
+      ORDER BY "valorEstoque" DESC, p.nome
+    `;
+
+    return linhas.map(linha => ({
+      ...linha,
+      precoCusto: Number(linha.precoCusto),
+      valorEstoque: Number(linha.valorEstoque)
+    }));
+  }
+
   /**
    * Valida se código de barras já existe (excluindo um ID específico)
    */
@@ -0,0 +1,136 @@
+/**
+ * Resumo de Vendas Repository - Tabelas pré-agregadas por dia local do tenant
+ * Diário (totais), por hora, por forma de pagamento e por produto/categoria,
+ * recalculados a partir das vendas com os mesmos critérios do relatório de vendas:
+ * faturamento e quantidades líquidos de itens estornados e devoluções
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { TransactionClient } from './IUnitOfWork';
+import {
+  PeriodoLocal,
+  sqlPeriodoLocal,
+  sqlDataVendaLocal,
+  sqlValorLiquidoVenda,
+  sqlValorLiquidoPagamento,
+  sqlItemVendido,
+  sqlQuantidadeLiquidaItem,
+  sqlValorLiquidoItem
+} from './VendaRepository';
+
+export class ResumoVendaRepository {
+
+  constructor(private readonly client: PrismaClient | TransactionClient) {}
+
+  /**
+   * Recalcula os resumos dos dias do período a partir das vendas
+   * Apaga e regrava os dias inteiros: repetir o recálculo do mesmo dia (evento
+   * entregue mais de uma vez, reconstrução) dá o mesmo resultado.
+   * Deve rodar em transação: o lock por tenant serializa recálculos concorrentes
+   * e cada comando lê as vendas já commitadas no momento em que obteve o lock
+   * @returns quantidade de dias com vendas no período
+   */
+  async recalcularPeriodo(periodo: PeriodoLocal, tenantId: string): Promise<number> {
+    await this.client.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('resumo_vendas'), hashtext(${tenantId}))`;
+
+    const dias = Prisma.sql`"tenantId" = ${tenantId} AND dia BETWEEN ${periodo.dataInicio}::date AND ${periodo.dataFim}::date`;
+    await this.client.$executeRaw`DELETE FROM resumo_vendas_diario WHERE ${dias}`;
+    await this.client.$executeRaw`DELETE FROM resumo_vendas_horario WHERE ${dias}`;
+    await this.client.$executeRaw`DELETE FROM resumo_vendas_pagamento WHERE ${dias}`;
+    await this.client.$executeRaw`DELETE FROM resumo_vendas_produto WHERE ${dias}`;
+
+    const filtro = Prisma.sql`v."tenantId" = ${tenantId} AND ${sqlPeriodoLocal(periodo)}`;
+    const dataVendaLocal = sqlDataVendaLocal(periodo.fusoHorario);
+    const dia = Prisma.sql`(${dataVendaLocal})::date`;
+
+    const diasComVendas = await this.client.$executeRaw`
+      INSERT INTO resumo_vendas_diario (id, "tenantId", dia, vendas, faturamento, itens, canceladas, "valorCancelado", "dataAtualizacao")
+      SELECT gen_random_uuid()::text, ${tenantId}, d.dia, d.vendas, d.faturamento, COALESCE(it.itens, 0), d.canceladas, d."valorCancelado", now()
+      FROM (
+        SELECT ${dia} AS dia,
+               (COUNT(*) FILTER (WHERE v.status = 'FINALIZADA'))::int AS vendas,
+               COALESCE(SUM(${sqlValorLiquidoVenda()}) FILTER (WHERE v.status = 'FINALIZADA'), 0) AS faturamento,
+               (COUNT(*) FILTER (WHERE v.status = 'CANCELADA'))::int AS canceladas,
+               COALESCE(SUM(v.total) FILTER (WHERE v.status = 'CANCELADA'), 0) AS "valorCancelado"
+        FROM vendas v
+        WHERE ${filtro} AND v.status IN ('FINALIZADA', 'CANCELADA')
+        GROUP BY 1
+      ) d
+      LEFT JOIN (
+        SELECT ${dia} AS dia, SUM(${sqlQuantidadeLiquidaItem()}) AS itens
+        FROM itens_venda i
+        JOIN vendas v ON v.id = i."vendaId"
+        WHERE ${filtro} AND v.status = 'FINALIZADA' AND ${sqlItemVendido()}
+        GROUP BY 1
+      ) it ON it.dia = d.dia
+    `;
+
+    await this.client.$executeRaw`
+      INSERT INTO resumo_vendas_horario (id, "tenantId", dia, hora, vendas, faturamento)
+      SELECT gen_random_uuid()::text, ${tenantId}, h.dia, h.hora, h.vendas, h.faturamento
+      FROM (
+        SELECT ${dia} AS dia,
+               EXTRACT(HOUR FROM ${dataVendaLocal})::int AS hora,
+               COUNT(*)::int AS vendas,
+               SUM(${sqlValorLiquidoVenda()}) AS faturamento
+        FROM vendas v
+        WHERE ${filtro} AND v.status = 'FINALIZADA'
+        GROUP BY 1, 2
+      ) h
+    `;
+
+    // Venda anterior ao pagamento dividido entra pela forma e total do cabeçalho
+    await this.client.$executeRaw`
+      INSERT INTO resumo_vendas_pagamento (id, "tenantId", dia, forma, vendas, pagamentos, valor, "valorBruto", troco)
+      SELECT gen_random_uuid()::text, ${tenantId}, p.dia, p.forma,
+             COUNT(DISTINCT p."vendaId")::int, COUNT(*)::int, ROUND(SUM(p.valor), 2), SUM(p."valorBruto"), SUM(p.troco)
+      FROM (
+        SELECT ${dia} AS dia, pv."vendaId", pv.forma, ${sqlValorLiquidoPagamento()} AS valor, pv.valor AS "valorBruto", pv.troco
+        FROM pagamentos_venda pv
+        JOIN vendas v ON v.id = pv."vendaId"
+        WHERE ${filtro} AND v.status = 'FINALIZADA'
+        UNION ALL
+        SELECT ${dia}, v.id, COALESCE(v."formaPagamento", 'NAO_INFORMADA'), ${sqlValorLiquidoVenda()}, v.total, 0
+        FROM vendas v
+        WHERE ${filtro} AND v.status = 'FINALIZADA'
+          AND NOT EXISTS (SELECT 1 FROM pagamentos_venda pv WHERE pv."vendaId" = v.id)
+      ) p
+      GROUP BY p.dia, p.forma
+    `;
+
+    await this.client.$executeRaw`
+      INSERT INTO resumo_vendas_produto (id, "tenantId", dia, "produtoId", produto, categoria, quantidade, valor)
+      SELECT gen_random_uuid()::text, ${tenantId}, r.dia, r."produtoId", r.produto, r.categoria, r.quantidade, r.valor
+      FROM (
+        SELECT ${dia} AS dia,
+               p.id AS "produtoId",
+               p.nome AS produto,
+               COALESCE(p.categoria, 'Sem categoria') AS categoria,
+               SUM(${sqlQuantidadeLiquidaItem()}) AS quantidade,
+               SUM(${sqlValorLiquidoItem()}) AS valor
+        FROM itens_venda i
+        JOIN vendas v ON v.id = i."vendaId"
+        JOIN produtos p ON p.id = i."produtoId"
+        WHERE ${filtro} AND v.status = 'FINALIZADA' AND ${sqlItemVendido()}
+        GROUP BY 1, 2, 3, 4
+      ) r
+    `;
+
+    return diasComVendas;
+  }
+
+  /**
+   * Primeiro dia local com venda registrada (início da reconstrução completa)
+   */
+  async findPrimeiroDiaComVenda(tenantId: string, fusoHorario: string): Promise<string | null> {
+    const [primeira] = await this.client.$queryRaw<Array<{ dia: string | null }>>`
+      SELECT to_char(${sqlDataVendaLocal(fusoHorario)}, 'YYYY-MM-DD') AS dia
+      FROM vendas v
+      WHERE v."tenantId" = ${tenantId}
+      ORDER BY v."dataVenda" ASC
+      LIMIT 1
+    `;
+
+    return primeira?.dia ?? null;
+  }
+}
@@ -7,6 +7,8 @@ import { PrismaClient } from '@prisma/client';
 import { IUnitOfWork, TransactionClient } from './IUnitOfWork';
 import { IBaseRepository } from './IBaseRepository';
 import { cacheService } from '../services/cacheService';
+import { AuditoriaRepository } from './AuditoriaRepository';
+import { OutboxRepository } from './OutboxRepository';
 
 // Repositories específicos (serão implementados posteriormente)
 class GenericRepository<T> implements IBaseRepository<T> {
@@ -294,12 +296,20 @@ export class UnitOfWork implements IUnitOfWork {
   // ====================================
 
   async createSavepoint(name: string): Promise<void> {
-    if (!this._isInTransaction) {
-      throw new Error('Cannot create savepoint without active transaction');
+    this.assertSavepointAvailable(name);
+
+    if (this._savepoints.has(name)) {
+      throw new Error(`Savepoint '${name}' already exists`);
     }
 
+    await this._client.$executeRawUnsafe(`SAVEPOINT "${name}"`);
+
+    // Estado em memória no momento do savepoint, restaurado no rollback
     this._savepoints.set(name, {
       operationCount: this._operationCount,
+      operationLogLength: this._operationLog.length,
+      pendingEventsLength: this._pendingEvents.length,
+      cachePatternsLength: this._cacheInvalidationPatterns.length,
       timestamp: new Date()
     });
 
@@ -309,12 +319,22 @@ export class UnitOfWork implements IUnitOfWork {
   }
 
   async rollbackToSavepoint(name: string): Promise<void> {
+    this.assertSavepointAvailable(name);
+
     if (!this._savepoints.has(name)) {
       throw new Error(`Savepoint '${name}' not found`);
     }
 
+    await this._client.$executeRawUnsafe(`ROLLBACK TO SAVEPOINT "${name}"`);
+
     const savepoint = this._savepoints.get(name);
     this._operationCount = savepoint.operationCount;
+    this._operationLog.length = savepoint.operationLogLength;
+    this._pendingEvents.length = savepoint.pendingEventsLength;
+    this._cacheInvalidationPatterns.length = savepoint.cachePatternsLength;
+
+    // O PostgreSQL destrói os savepoints criados depois deste
+    this.discardSavepointsAfter(name);
 
     if (process.env.NODE_ENV === 'development') {
       console.log(`[UOW] Rolled back to savepoint '${name}'`);
@@ -322,6 +342,16 @@ export class UnitOfWork implements IUnitOfWork {
   }
 
   async releaseSavepoint(name: string): Promise<void> {
+    this.assertSavepointAvailable(name);
+
+    if (!this._savepoints.has(name)) {
+      throw new Error(`Savepoint '${name}' not found`);
+    }
+
+    await this._client.$executeRawUnsafe(`RELEASE SAVEPOINT "${name}"`);
+
+    // RELEASE também libera os savepoints criados depois deste
+    this.discardSavepointsAfter(name);
     this._savepoints.delete(name);
     
     if (process.env.NODE_ENV === 'development') {
@@ -329,6 +359,45 @@ export class UnitOfWork implements IUnitOfWork {
     }
   }
 
+  async executeWithSavepoint<TResult>(
+    name: string,
+    operation: () => Promise<TResult>
+  ): Promise<TResult> {
+    await this.createSavepoint(name);
+
+    try {
+      const result = await operation();
+      await this.releaseSavepoint(name);
+      return result;
+    } catch (error) {
+      await this.rollbackToSavepoint(name);
+      await this.releaseSavepoint(name);
+      throw error;
+    }
+  }
+
+  /**
+   * Savepoints só existem dentro de transação interativa do Prisma
+   * O nome é interpolado no SQL, por isso é restrito a identificadores simples
+   */
+  private assertSavepointAvailable(name: string): void {
+    if (!this._isInTransaction || '$transaction' in this._client) {
+      throw new Error('Savepoints require an active transaction (use executeInTransaction)');
+    }
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]{0,62}$/.test(name)) {
+      throw new Error(`Invalid savepoint name '${name}'`);
+    }
+  }
+
+  private discardSavepointsAfter(name: string): void {
+    let found = false;
+    for (const key of [...this._savepoints.keys()]) {
+      if (found) this._savepoints.delete(key);
+      if (key === name) found = true;
+    }
+  }
+
   async executeRawQuery<TResult = any>(query: string, parameters?: any[]): Promise<TResult> {
     this._operationCount++;
     this._operationLog.push({
@@ -361,10 +430,15 @@ export class UnitOfWork implements IUnitOfWork {
     userId: string,
     tenantId: string
   ): Promise<void> {
-    // Implementação simplificada - em produção salvaria na tabela de auditoria
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[AUDIT] ${entityName}:${entityId} ${action} by ${userId} in ${tenantId}`, changes);
-    }
+    // Persistida pelo client atual: dentro de executeInTransaction só grava se houver commit
+    await new AuditoriaRepository(this._client).registrar({
+      entidade: entityName,
+      entidadeId: entityId,
+      acao: action,
+      alteracoes: changes,
+      usuarioId: userId,
+      tenantId
+    });
   }
 
   getOperationLog() {
@@ -426,14 +500,12 @@ export class UnitOfWork implements IUnitOfWork {
   async publishPendingEvents(): Promise<void> {
     if (this._pendingEvents.length === 0) return;
 
-    // Em produção, publicaria para message broker (RabbitMQ, etc)
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[EVENTS] Publishing ${this._pendingEvents.length} events`);
-    }
+    // Transactional outbox: dentro de executeInTransaction os eventos são gravados
+    // na mesma transação da operação e entregues depois pelo outboxDispatcher
+    await new OutboxRepository(this._client).adicionar(this._pendingEvents);
 
-    for (const event of this._pendingEvents) {
-      // Simular publicação de evento
-      console.log(`[EVENT] Published: ${event.eventType}`);
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`[EVENTS] ${this._pendingEvents.length} events written to outbox`);
     }
 
     this._pendingEvents = [];
@@ -3,10 +3,110 @@
  * Repository específico para operações com vendas
  */
 
-import { PrismaClient, Venda } from '@prisma/client';
+import { PrismaClient, Venda, Prisma } from '@prisma/client';
 import { BaseRepository } from './BaseRepository';
 import { TransactionClient } from './IUnitOfWork';
 
+// Vendas abertas (comandas) e abandonadas não são vendas realizadas:
+// ficam fora das listagens padrão, relatórios e estatísticas
+export const STATUS_VENDA_ABERTA = ['ABERTA', 'ABANDONADA'];
+
+// Itens retirados de uma venda aberta antes do fechamento não fazem parte da venda
+const ITENS_DA_VENDA = { status: { not: 'REMOVIDO' } };
+
+/**
+ * Período em datas locais (AAAA-MM-DD, inclusivo) no fuso IANA do tenant
+ */
+export interface PeriodoLocal {
+  dataInicio: string;
+  dataFim: string;
+  fusoHorario: string;
+}
+
+export interface VendasPorDia {
+  dia: string;
+  vendas: number;
+  faturamento: number;
+}
+
+/**
+ * Soma dias a uma data AAAA-MM-DD (aritmética de calendário, sem fuso)
+ */
+export function somarDias(data: string, dias: number): string {
+  const resultado = new Date(`${data}T00:00:00Z`);
+  resultado.setUTCDate(resultado.getUTCDate() + dias);
+  return resultado.toISOString().slice(0, 10);
+}
+
+/**
+ * Dia local (AAAA-MM-DD) de um instante no fuso informado
+ */
+export function dataLocal(data: Date, fusoHorario: string): string {
+  // en-CA formata como AAAA-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: fusoHorario,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(data);
+}
+
+/**
+ * Condição de dataVenda (alias v) dentro do período local
+ * dataVenda é gravada em UTC: os limites do dia no fuso do tenant são
+ * convertidos para UTC no próprio banco
+ */
+export function sqlPeriodoLocal(periodo: PeriodoLocal): Prisma.Sql {
+  return Prisma.sql`
+    v."dataVenda" >= (${periodo.dataInicio}::date::timestamp AT TIME ZONE ${periodo.fusoHorario}) AT TIME ZONE 'UTC'
+    AND v."dataVenda" < ((${periodo.dataFim}::date + 1)::timestamp AT TIME ZONE ${periodo.fusoHorario}) AT TIME ZONE 'UTC'
+  `;
+}
+
+/**
+ * Horário local da venda (alias v) no fuso do tenant, para agrupar por dia/hora
+ */
+export function sqlDataVendaLocal(fusoHorario: string): Prisma.Sql {
+  return Prisma.sql`((v."dataVenda" AT TIME ZONE 'UTC') AT TIME ZONE ${fusoHorario})`;
+}
+
+/**
+ * Faturamento líquido da venda (alias v): total menos itens estornados e devoluções
+ */
+export function sqlValorLiquidoVenda(): Prisma.Sql {
+  return Prisma.sql`(v.total - v."valorEstornado" - v."valorDevolvido")`;
+}
+
+/**
+ * Parte do faturamento líquido da venda (alias v) que cabe ao pagamento
+ * (alias pv), na proporção do valor que ele abateu do total
+ */
+export function sqlValorLiquidoPagamento(): Prisma.Sql {
+  return Prisma.sql`COALESCE(pv.valor * ${sqlValorLiquidoVenda()} / NULLIF(v.total, 0), 0)`;
+}
+
+/**
+ * Itens (alias i) que contam como vendidos: estornados, removidos e
+ * totalmente devolvidos ficam fora
+ */
+export function sqlItemVendido(): Prisma.Sql {
+  return Prisma.sql`i.status = 'FINALIZADA' AND i.quantidade > i."quantidadeDevolvida"`;
+}
+
+/**
+ * Quantidade do item (alias i) líquida de devoluções
+ */
+export function sqlQuantidadeLiquidaItem(): Prisma.Sql {
+  return Prisma.sql`(i.quantidade - i."quantidadeDevolvida")`;
+}
+
+/**
+ * Subtotal do item (alias i) proporcional à quantidade não devolvida
+ */
+export function sqlValorLiquidoItem(): Prisma.Sql {
+  return Prisma.sql`(i.subtotal * (i.quantidade - i."quantidadeDevolvida") / i.quantidade)`;
+}
+
 export class VendaRepository extends BaseRepository<Venda, string> {
   
   constructor(client: PrismaClient | TransactionClient) {
@@ -14,6 +114,7 @@ export class VendaRepository extends BaseRepository<Venda, string> {
       entityName: 'Venda',
       tableName: 'vendas',
       softDelete: false, // Vendas NUNCA são deletadas (compliance fiscal)
+      versioned: false,
       auditable: true,
       cacheable: true,
       cacheKeyPrefix: 'venda',
@@ -36,6 +137,7 @@ export class VendaRepository extends BaseRepository<Venda, string> {
       where: { numeroFiscal, tenantId },
       include: {
         itens: {
+          where: ITENS_DA_VENDA,
           include: {
             produto: {
               select: {
@@ -47,6 +149,7 @@ export class VendaRepository extends BaseRepository<Venda, string> {
             }
           }
         },
+        pagamentos: true,
         cliente: {
           select: {
             id: true,
@@ -97,10 +200,16 @@ export class VendaRepository extends BaseRepository<Venda, string> {
 
     if (filters.status) {
       where.status = filters.status;
+    } else {
+      where.status = { notIn: STATUS_VENDA_ABERTA };
     }
 
+    // Forma usada em qualquer linha de pagamento (vendas antigas: apenas o cabeçalho)
     if (filters.formaPagamento) {
-      where.formaPagamento = filters.formaPagamento;
+      where.OR = [
+        { pagamentos: { some: { forma: filters.formaPagamento } } },
+        { formaPagamento: filters.formaPagamento, pagamentos: { none: {} } }
+      ];
     }
 
     if (filters.valorMin !== undefined || filters.valorMax !== undefined) {
@@ -128,6 +237,7 @@ export class VendaRepository extends BaseRepository<Venda, string> {
             }
           },
           itens: {
+            where: ITENS_DA_VENDA,
             select: {
               quantidade: true,
               precoUnitario: true,
@@ -142,7 +252,7 @@ export class VendaRepository extends BaseRepository<Venda, string> {
           },
           _count: {
             select: {
-              itens: true
+              itens: { where: ITENS_DA_VENDA }
             }
           }
         }
@@ -180,12 +290,14 @@ export class VendaRepository extends BaseRepository<Venda, string> {
           select: { nome: true, sobrenome: true }
         },
         itens: {
+          where: ITENS_DA_VENDA,
           include: {
             produto: {
               select: { nome: true, categoria: true }
             }
           }
-        }
+        },
+        pagamentos: true
       },
       orderBy: { dataVenda: 'desc' }
     });
@@ -207,6 +319,7 @@ export class VendaRepository extends BaseRepository<Venda, string> {
       },
       include: {
         itens: {
+          where: ITENS_DA_VENDA,
           include: {
             produto: {
               select: { nome: true, categoria: true }
@@ -220,7 +333,7 @@ export class VendaRepository extends BaseRepository<Venda, string> {
   }
 
   /**
-   * Obtém vendas por forma de pagamento
+   * Obtém vendas que usaram a forma de pagamento (em qualquer linha de pagamento)
    */
   async findByFormaPagamento(
     formaPagamento: string,
@@ -230,8 +343,11 @@ export class VendaRepository extends BaseRepository<Venda, string> {
   ): Promise<any[]> {
     const where: any = {
       tenantId,
-      formaPagamento,
-      status: 'FINALIZADA'
+      status: 'FINALIZADA',
+      OR: [
+        { pagamentos: { some: { forma: formaPagamento } } },
+        { formaPagamento, pagamentos: { none: {} } }
+      ]
     };
 
     if (dataInicio || dataFim) {
@@ -245,14 +361,85 @@ export class VendaRepository extends BaseRepository<Venda, string> {
       include: {
         cliente: {
           select: { nome: true, sobrenome: true }
-        }
+        },
+        pagamentos: true
       },
       orderBy: { dataVenda: 'desc' }
     });
   }
 
+  /**
+   * Lista as vendas abertas (comandas) do tenant com os itens ainda na venda
+   */
+  async findOpenSales(tenantId: string): Promise<any[]> {
+    return await this.getDelegate().findMany({
+      where: { tenantId, status: 'ABERTA' },
+      include: {
+        itens: {
+          where: { status: 'FINALIZADA' },
+          include: {
+            produto: {
+              select: { nome: true, codigoBarras: true, categoria: true }
+            }
+          }
+        },
+        cliente: {
+          select: { nome: true, sobrenome: true }
+        }
+      },
+      orderBy: { dataCadastro: 'asc' }
+    });
+  }
+
+  /**
+   * Busca uma venda aberta com os itens ainda na venda
+   */
+  async findOpenSaleById(vendaId: string, tenantId: string): Promise<any | null> {
+    return await this.getDelegate().findFirst({
+      where: { id: vendaId, tenantId, status: 'ABERTA' },
+      include: {
+        itens: {
+          where: { status: 'FINALIZADA' },
+          include: {
+            produto: {
+              select: { nome: true, codigoBarras: true, categoria: true }
+            }
+          }
+        },
+        cliente: {
+          select: { nome: true, sobrenome: true, cpf: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * Trava uma venda ABERTA para alteração (itens, fechamento ou abandono)
+   * O update condicional bloqueia a linha até o fim da transação: terminais
+   * alterando a mesma comanda são serializados e, depois do fechamento ou
+   * abandono, os demais não a encontram mais ABERTA. Retorna null nesse caso.
+   * Deve ser chamado dentro de uma transação, antes de ler os itens.
+   */
+  async lockOpenSale(vendaId: string, tenantId: string, userId: string): Promise<Venda | null> {
+    const result = await this.getDelegate().updateMany({
+      where: { id: vendaId, tenantId, status: 'ABERTA' },
+      data: {
+        dataUltimaAtualizacao: new Date(),
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return await this.getDelegate().findUnique({ where: { id: vendaId } });
+  }
+
   /**
    * Cancela uma venda (apenas muda status)
+   * A troca de status é condicional para que dois cancelamentos concorrentes
+   * não sejam ambos aceitos - só o primeiro encontra a venda FINALIZADA/PENDENTE
    */
   async cancelSale(
     vendaId: string,
@@ -260,13 +447,10 @@ export class VendaRepository extends BaseRepository<Venda, string> {
     userId: string,
     motivo: string
   ): Promise<Venda | null> {
-    const venda = await this.findById(vendaId, tenantId);
-    if (!venda || venda.status !== 'FINALIZADA') {
-      return null;
-    }
-
-    return await this.getDelegate().update({
-      where: { id: vendaId },
+    // PENDENTE: PIX não confirmado - cancelar devolve o estoque reservado
+    // Venda com devolução fica fora: os itens devolvidos já voltaram ao cliente
+    const result = await this.getDelegate().updateMany({
+      where: { id: vendaId, tenantId, status: { in: ['FINALIZADA', 'PENDENTE'] }, valorDevolvido: 0 },
       data: {
         status: 'CANCELADA',
         dataEstorno: new Date(),
@@ -276,178 +460,372 @@ export class VendaRepository extends BaseRepository<Venda, string> {
         usuarioUltimaAtualizacao: userId
       }
     });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return await this.getDelegate().findUnique({ where: { id: vendaId } });
   }
 
   /**
-   * Obtém relatório de vendas por período
+   * Filtro das vendas realizadas no período local (datas AAAA-MM-DD inclusivas)
+   */
+  private buildPeriodoFilter(periodo: PeriodoLocal, tenantId: string): Prisma.Sql {
+    return Prisma.sql`
+      v."tenantId" = ${tenantId}
+      AND v.status = 'FINALIZADA'
+      AND ${sqlPeriodoLocal(periodo)}
+    `;
+  }
+
+  /**
+   * Totais de vendas do período (sem carregar as vendas)
+   * Faturamento líquido de estornos de itens e devoluções
+   */
+  async getSalesSummary(periodo: PeriodoLocal, tenantId: string): Promise<{
+    totalVendas: number;
+    totalFaturamento: number;
+    ticketMedio: number;
+  }> {
+    const [resumo] = await this.client.$queryRaw<Array<{ totalVendas: number; totalFaturamento: Prisma.Decimal }>>`
+      SELECT COUNT(*)::int AS "totalVendas", COALESCE(SUM(${sqlValorLiquidoVenda()}), 0) AS "totalFaturamento"
+      FROM vendas v
+      WHERE ${this.buildPeriodoFilter(periodo, tenantId)}
+    `;
+
+    const totalVendas = resumo?.totalVendas ?? 0;
+    const totalFaturamento = Number(resumo?.totalFaturamento ?? 0);
+
+    return {
+      totalVendas,
+      totalFaturamento,
+      ticketMedio: totalVendas > 0 ? totalFaturamento / totalVendas : 0
+    };
+  }
+
+  /**
+   * Vendas por dia local do período, em ordem cronológica
+   */
+  async getSalesByDay(periodo: PeriodoLocal, tenantId: string): Promise<VendasPorDia[]> {
+    const linhas = await this.client.$queryRaw<Array<{ dia: string; vendas: number; faturamento: Prisma.Decimal }>>`
+      SELECT to_char(${sqlDataVendaLocal(periodo.fusoHorario)}, 'YYYY-MM-DD') AS dia,
+             COUNT(*)::int AS vendas,
+             SUM(${sqlValorLiquidoVenda()}) AS faturamento
+      FROM vendas v
+      WHERE ${this.buildPeriodoFilter(periodo, tenantId)}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    return linhas.map(linha => ({ ...linha, faturamento: Number(linha.faturamento) }));
+  }
+
+  /**
+   * Vendas por dia em lotes de dias consecutivos: períodos longos são
+   * agregados e enviados aos poucos, sem montar a série inteira em memória
+   */
+  async *streamSalesByDay(
+    periodo: PeriodoLocal,
+    tenantId: string,
+    diasPorLote: number = 31
+  ): AsyncGenerator<VendasPorDia> {
+    let inicio = periodo.dataInicio;
+
+    while (inicio <= periodo.dataFim) {
+      const fimLote = somarDias(inicio, diasPorLote - 1);
+      const fim = fimLote < periodo.dataFim ? fimLote : periodo.dataFim;
+
+      yield* await this.getSalesByDay({ ...periodo, dataInicio: inicio, dataFim: fim }, tenantId);
+
+      inicio = somarDias(fim, 1);
+    }
+  }
+
+  /**
+   * Obtém relatório de vendas por período, agregado no banco (GROUP BY)
+   * Dia e hora são os do fuso do tenant: venda às 22h em São Paulo
+   * conta no próprio dia, não no seguinte (UTC). Valores líquidos de itens
+   * estornados e devoluções; formas de pagamento seguem as linhas de pagamento,
+   * com o valor líquido (valor) ao lado do valor pago (valorBruto)
+   * @param options.incluirPorDia - false quando a série diária é enviada via streamSalesByDay
    */
   async getSalesReport(
-    dataInicio: Date,
-    dataFim: Date,
-    tenantId: string
+    periodo: PeriodoLocal,
+    tenantId: string,
+    options: { incluirPorDia?: boolean } = {}
   ): Promise<{
     totalVendas: number;
     totalFaturamento: number;
     ticketMedio: number;
-    vendasPorDia: any[];
+    vendasPorHora: any[];
     vendasPorFormaPagamento: any[];
     vendasPorCategoria: any[];
     topProdutos: any[];
+    vendasPorDia?: VendasPorDia[];
   }> {
-    const vendas = await this.findByPeriod(dataInicio, dataFim, tenantId);
-
-    const totalVendas = vendas.length;
-    const totalFaturamento = vendas.reduce((sum, v) => sum + Number(v.total), 0);
-    const ticketMedio = totalVendas > 0 ? totalFaturamento / totalVendas : 0;
-
-    // Vendas por dia
-    const vendasPorDia = vendas.reduce((acc, venda) => {
-      const dia = venda.dataVenda.toISOString().split('T')[0];
-      if (!acc[dia]) {
-        acc[dia] = { dia, vendas: 0, faturamento: 0 };
-      }
-      acc[dia].vendas++;
-      acc[dia].faturamento += Number(venda.total);
-      return acc;
-    }, {} as any);
-
-    // Vendas por forma de pagamento
-    const vendasPorFormaPagamento = vendas.reduce((acc, venda) => {
-      const forma = venda.formaPagamento;
-      if (!acc[forma]) {
-        acc[forma] = { forma, vendas: 0, valor: 0 };
-      }
-      acc[forma].vendas++;
-      acc[forma].valor += Number(venda.total);
-      return acc;
-    }, {} as any);
-
-    // Vendas por categoria
-    const vendasPorCategoria = vendas.reduce((acc, venda) => {
-      venda.itens.forEach((item: any) => {
-        const categoria = item.produto.categoria || 'Sem categoria';
-        if (!acc[categoria]) {
-          acc[categoria] = { categoria, quantidade: 0, valor: 0 };
-        }
-        acc[categoria].quantidade += item.quantidade;
-        acc[categoria].valor += Number(item.subtotal);
-      });
-      return acc;
-    }, {} as any);
-
-    // Top produtos
-    const produtos = vendas.reduce((acc, venda) => {
-      venda.itens.forEach((item: any) => {
-        const produto = item.produto.nome;
-        if (!acc[produto]) {
-          acc[produto] = { produto, quantidade: 0, valor: 0 };
-        }
-        acc[produto].quantidade += item.quantidade;
-        acc[produto].valor += Number(item.subtotal);
-      });
-      return acc;
-    }, {} as any);
-
-    const topProdutos = Object.values(produtos)
-      .sort((a: any, b: any) => b.quantidade - a.quantidade)
-      .slice(0, 10);
+    const { incluirPorDia = true } = options;
+    const filtro = this.buildPeriodoFilter(periodo, tenantId);
+    const dataVendaLocal = sqlDataVendaLocal(periodo.fusoHorario);
+
+    const [resumo, porHora, porForma, porCategoria, produtos, porDia] = await Promise.all([
+      this.getSalesSummary(periodo, tenantId),
+      this.client.$queryRaw<Array<{ hora: number; vendas: number; faturamento: Prisma.Decimal }>>`
+        SELECT EXTRACT(HOUR FROM ${dataVendaLocal})::int AS hora,
+               COUNT(*)::int AS vendas,
+               SUM(${sqlValorLiquidoVenda()}) AS faturamento
+        FROM vendas v
+        WHERE ${filtro}
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      // Pelas linhas de pagamento, não pelo cabeçalho: uma venda dividida soma em
+      // cada forma usada (vendas conta vendas distintas). Estornos e devoluções
+      // saem de cada forma na proporção do pagamento, então os valores líquidos
+      // fecham com o faturamento. Venda anterior ao pagamento dividido entra
+      // pela forma e total do cabeçalho
+      this.client.$queryRaw<Array<{
+        forma: string;
+        vendas: number;
+        pagamentos: number;
+        valor: Prisma.Decimal;
+        valorBruto: Prisma.Decimal;
+        troco: Prisma.Decimal;
+      }>>`
+        SELECT p.forma,
+               COUNT(DISTINCT p."vendaId")::int AS vendas,
+               COUNT(*)::int AS pagamentos,
+               ROUND(SUM(p.valor), 2) AS valor,
+               SUM(p."valorBruto") AS "valorBruto",
+               SUM(p.troco) AS troco
+        FROM (
+          SELECT pv."vendaId", pv.forma, ${sqlValorLiquidoPagamento()} AS valor, pv.valor AS "valorBruto", pv.troco
+          FROM pagamentos_venda pv
+          JOIN vendas v ON v.id = pv."vendaId"
+          WHERE ${filtro}
+          UNION ALL
+          SELECT v.id, v."formaPagamento", ${sqlValorLiquidoVenda()}, v.total, 0
+          FROM vendas v
+          WHERE ${filtro}
+            AND NOT EXISTS (SELECT 1 FROM pagamentos_venda pv WHERE pv."vendaId" = v.id)
+        ) p
+        GROUP BY p.forma
+        ORDER BY valor DESC
+      `,
+      this.client.$queryRaw<Array<{ categoria: string; quantidade: number; valor: Prisma.Decimal }>>`
+        SELECT COALESCE(p.categoria, 'Sem categoria') AS categoria,
+               SUM(${sqlQuantidadeLiquidaItem()})::float8 AS quantidade,
+               SUM(${sqlValorLiquidoItem()}) AS valor
+        FROM itens_venda i
+        JOIN vendas v ON v.id = i."vendaId"
+        JOIN produtos p ON p.id = i."produtoId"
+        WHERE ${filtro} AND ${sqlItemVendido()}
+        GROUP BY 1
+        ORDER BY valor DESC
+      `,
+      this.client.$queryRaw<Array<{ produtoId: string; produto: string; quantidade: number; valor: Prisma.Decimal }>>`
+        SELECT p.id AS "produtoId",
+               p.nome AS produto,
+               SUM(${sqlQuantidadeLiquidaItem()})::float8 AS quantidade,
+               SUM(${sqlValorLiquidoItem()}) AS valor
+        FROM itens_venda i
+        JOIN vendas v ON v.id = i."vendaId"
+        JOIN produtos p ON p.id = i."produtoId"
+        WHERE ${filtro} AND ${sqlItemVendido()}
+        GROUP BY p.id, p.nome
+        ORDER BY quantidade DESC
+        LIMIT 10
+      `,
+      incluirPorDia ? this.getSalesByDay(periodo, tenantId) : Promise.resolve(undefined)
+    ]);
 
     return {
-      totalVendas,
-      totalFaturamento,
-      ticketMedio,
-      vendasPorDia: Object.values(vendasPorDia),
-      vendasPorFormaPagamento: Object.values(vendasPorFormaPagamento),
-      vendasPorCategoria: Object.values(vendasPorCategoria),
-      topProdutos
+      ...resumo,
+      vendasPorHora: porHora.map(linha => ({ ...linha, faturamento: Number(linha.faturamento) })),
+      vendasPorFormaPagamento: porForma.map(linha => ({
+        ...linha,
+        valor: Number(linha.valor),
+        valorBruto: Number(linha.valorBruto),
+        troco: Number(linha.troco)
+      })),
+      vendasPorCategoria: porCategoria.map(linha => ({ ...linha, valor: Number(linha.valor) })),
+      topProdutos: produtos.map(linha => ({ ...linha, valor: Number(linha.valor) })),
+      ...(porDia && { vendasPorDia: porDia })
     };
   }
 
   /**
    * Obtém estatísticas das vendas
+   * Vendas realizadas vêm dos resumos diários (ResumoVendaRepository), sem
+   * varrer a tabela de vendas; vendas abertas seguem consultadas ao vivo
+   * @param hoje - Data local do tenant (AAAA-MM-DD)
    */
-  async getStatistics(tenantId: string): Promise<{
+  async getStatistics(tenantId: string, hoje: string): Promise<{
     totalHoje: number;
     faturamentoHoje: number;
     totalMes: number;
     faturamentoMes: number;
+    itensMes: number;
     totalCanceladas: number;
     ticketMedioMes: number;
+    vendasAbertas: number;
+    valorEmAberto: number;
+    ultimos7Dias: VendasPorDia[];
+    formasPagamentoMes: Array<{ forma: string; vendas: number; valor: number }>;
   }> {
-    const hoje = new Date();
-    hoje.setHours(0, 0, 0, 0);
-    
-    const inicioMes = new Date(hoje.getFullYear(), hoje.getMonth(), 1);
-    const fimDia = new Date(hoje);
-    fimDia.setHours(23, 59, 59, 999);
-
-    const [vendasHoje, vendasMes, canceladas] = await Promise.all([
-      this.getDelegate().aggregate({
-        where: {
-          tenantId,
-          dataVenda: { gte: hoje, lte: fimDia },
-          status: 'FINALIZADA'
-        },
-        _count: { id: true },
-        _sum: { total: true }
+    const diaHoje = new Date(`${hoje}T00:00:00Z`);
+    const inicioMes = new Date(`${hoje.slice(0, 7)}-01T00:00:00Z`);
+    const inicio7Dias = somarDias(hoje, -6);
+
+    const [resumoHoje, resumoMes, resumo7Dias, pagamentosMes, abertas] = await Promise.all([
+      this.client.resumoVendaDiario.findUnique({
+        where: { tenantId_dia: { tenantId, dia: diaHoje } }
+      }),
+      this.client.resumoVendaDiario.aggregate({
+        where: { tenantId, dia: { gte: inicioMes, lte: diaHoje } },
+        _sum: { vendas: true, faturamento: true, itens: true, canceladas: true }
+      }),
+      this.client.resumoVendaDiario.findMany({
+        where: { tenantId, dia: { gte: new Date(`${inicio7Dias}T00:00:00Z`), lte: diaHoje } },
+        select: { dia: true, vendas: true, faturamento: true }
+      }),
+      this.client.resumoVendaPagamento.groupBy({
+        by: ['forma'],
+        where: { tenantId, dia: { gte: inicioMes, lte: diaHoje } },
+        _sum: { vendas: true, valor: true },
+        orderBy: { _sum: { valor: 'desc' } }
       }),
       this.getDelegate().aggregate({
         where: {
           tenantId,
-          dataVenda: { gte: inicioMes },
-          status: 'FINALIZADA'
+          status: 'ABERTA'
         },
         _count: { id: true },
         _sum: { total: true }
-      }),
-      this.getDelegate().count({
-        where: {
-          tenantId,
-          dataVenda: { gte: inicioMes },
-          status: 'CANCELADA'
-        }
       })
     ]);
 
-    const faturamentoHoje = Number(vendasHoje._sum.total) || 0;
-    const faturamentoMes = Number(vendasMes._sum.total) || 0;
-    const totalMes = vendasMes._count.id;
+    const faturamentoMes = Number(resumoMes._sum.faturamento) || 0;
+    const totalMes = resumoMes._sum.vendas ?? 0;
     const ticketMedioMes = totalMes > 0 ? faturamentoMes / totalMes : 0;
 
+    // Dias sem venda não têm resumo: completa a série com zero
+    const porDia = new Map(resumo7Dias.map((resumo) => [resumo.dia.toISOString().slice(0, 10), resumo]));
+    const ultimos7Dias = Array.from({ length: 7 }, (_, indice) => {
+      const dia = somarDias(inicio7Dias, indice);
+      const resumo = porDia.get(dia);
+      return {
+        dia,
+        vendas: resumo?.vendas ?? 0,
+        faturamento: Number(resumo?.faturamento ?? 0)
+      };
+    });
+
     return {
-      totalHoje: vendasHoje._count.id,
-      faturamentoHoje,
+      totalHoje: resumoHoje?.vendas ?? 0,
+      faturamentoHoje: Number(resumoHoje?.faturamento ?? 0),
       totalMes,
       faturamentoMes,
-      totalCanceladas: canceladas,
-      ticketMedioMes
+      itensMes: Number(resumoMes._sum.itens ?? 0),
+      totalCanceladas: resumoMes._sum.canceladas ?? 0,
+      ticketMedioMes,
+      vendasAbertas: abertas._count.id,
+      valorEmAberto: Number(abertas._sum.total) || 0,
+      ultimos7Dias,
+      formasPagamentoMes: pagamentosMes.map((pagamento) => ({
+        forma: pagamento.forma,
+        vendas: pagamento._sum.vendas ?? 0,
+        valor: Number(pagamento._sum.valor) || 0
+      }))
     };
   }
 
   /**
-   * Gera próximo número fiscal
+   * Consulta o próximo número fiscal sem reservá-lo (apenas exibição)
    */
-  async getNextNumeroFiscal(tenantId: string): Promise<string> {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    
-    const prefix = `${year}${month}`;
-    
-    const lastVenda = await this.getDelegate().findFirst({
-      where: {
-        tenantId,
-        numeroFiscal: { startsWith: prefix }
-      },
-      orderBy: { numeroFiscal: 'desc' }
+  async getNextNumeroFiscal(tenantId: string, fusoHorario: string, serie: string = '1'): Promise<string> {
+    const periodo = this.getPeriodoFiscal(fusoHorario);
+
+    const sequencia = await this.client.sequenciaFiscal.findUnique({
+      where: { tenantId_serie_periodo: { tenantId, serie, periodo } }
+    });
+
+    return this.formatNumeroFiscal(periodo, (sequencia?.ultimoNumero ?? 0) + 1);
+  }
+
+  /**
+   * Reserva o próximo número fiscal do tenant/série no mês corrente (no fuso do tenant)
+   * O upsert com increment trava a linha da sequência até o fim da transação,
+   * então checkouts concorrentes recebem números distintos e um rollback
+   * devolve o número sem deixar lacuna. Deve ser chamado dentro da transação da venda.
+   */
+  async allocateNumeroFiscal(tenantId: string, fusoHorario: string, serie: string = '1'): Promise<string> {
+    const periodo = this.getPeriodoFiscal(fusoHorario);
+
+    const sequencia = await this.client.sequenciaFiscal.upsert({
+      where: { tenantId_serie_periodo: { tenantId, serie, periodo } },
+      create: { tenantId, serie, periodo, ultimoNumero: 1 },
+      update: { ultimoNumero: { increment: 1 } }
     });
 
-    let nextNumber = 1;
-    if (lastVenda) {
-      const lastNumber = parseInt(lastVenda.numeroFiscal.slice(-6));
-      nextNumber = lastNumber + 1;
+    return this.formatNumeroFiscal(periodo, sequencia.ultimoNumero);
+  }
+
+  /**
+   * Relatório de lacunas na numeração fiscal de um período (auditoria fiscal)
+   * Compara os números emitidos com a faixa 1..ultimoNumero da sequência
+   */
+  async findNumeroFiscalGaps(
+    tenantId: string,
+    periodo: string,
+    serie: string = '1'
+  ): Promise<{
+    periodo: string;
+    serie: string;
+    ultimoNumero: number;
+    totalEmitidos: number;
+    lacunas: string[];
+  }> {
+    const [sequencia, vendas] = await Promise.all([
+      this.client.sequenciaFiscal.findUnique({
+        where: { tenantId_serie_periodo: { tenantId, serie, periodo } }
+      }),
+      this.getDelegate().findMany({
+        where: { tenantId, serie, numeroFiscal: { startsWith: periodo } },
+        select: { numeroFiscal: true }
+      })
+    ]);
+
+    const emitidos = new Set(vendas.map(v => parseInt(v.numeroFiscal!.slice(-6), 10)));
+    const maiorEmitido = emitidos.size > 0 ? Math.max(...emitidos) : 0;
+    const ultimoNumero = Math.max(sequencia?.ultimoNumero ?? 0, maiorEmitido);
+
+    const lacunas: string[] = [];
+    for (let numero = 1; numero <= ultimoNumero; numero++) {
+      if (!emitidos.has(numero)) {
+        lacunas.push(this.formatNumeroFiscal(periodo, numero));
+      }
     }
 
-    return `${prefix}${String(nextNumber).padStart(6, '0')}`;
+    return {
+      periodo,
+      serie,
+      ultimoNumero,
+      totalEmitidos: emitidos.size,
+      lacunas
+    };
+  }
+
+  /**
+   * Período da numeração fiscal (YYYYMM) no mês local do tenant
+   * Não usa o fuso do servidor: venda às 21h30 do último dia do mês em
+   * São Paulo ainda pertence ao mês corrente mesmo com o servidor em UTC
+   */
+  private getPeriodoFiscal(fusoHorario: string, date: Date = new Date()): string {
+    return dataLocal(date, fusoHorario).slice(0, 7).replace('-', '');
+  }
+
+  private formatNumeroFiscal(periodo: string, numero: number): string {
+    return `${periodo}${String(numero).padStart(6, '0')}`;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  listarEventosOutbox,
+  reprocessarEventoOutbox
+} from '../controllers/outboxController';
+import { authenticateToken, requireSuperAdmin } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Rotas administrativas - apenas Super Admin
+router.use(authenticateToken, requireSuperAdmin);
+
+// GET /api/admin/outbox - Inspecionar eventos do outbox
+router.get('/outbox', listarEventosOutbox);
+
+// POST /api/admin/outbox/:id/replay - Reprocessar evento em dead letter
+router.post('/outbox/:id/replay', reprocessarEventoOutbox);
+
+export default router;
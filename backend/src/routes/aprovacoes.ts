@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import {
+  obterRegras,
+  salvarRegras,
+  salvarPin,
+  emitirToken
+} from '../controllers/aprovacaoController';
+import { authenticateAndIsolateTenant, requirePermission } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Aplicar middleware de autenticação para todas as rotas
+router.use(authenticateAndIsolateTenant);
+
+// GET /api/aprovacoes/regras - Regras de aprovação e operações críticas
+router.get('/regras', obterRegras);
+
+// PUT /api/aprovacoes/regras - Salvar regras de aprovação do tenant
+router.put('/regras', requirePermission('aprovacoes:configure'), salvarRegras);
+
+// PUT /api/aprovacoes/pin - Definir PIN de supervisor do próprio usuário
+router.put('/pin', salvarPin);
+
+// POST /api/aprovacoes/tokens - Emitir token de aprovação de uso único (supervisor)
+router.post('/tokens', emitirToken);
+
+export default router;
@@ -8,13 +8,20 @@ import {
   login,
   superAdminLogin,
   refreshToken,
+  changePassword,
+  logout,
+  listSessions,
+  revokeOtherSessions,
   createNewUser,
   listUsers,
   getUserProfile,
-  getCredentialRules
+  getCredentialRules,
+  saveCredentialRules
 } from '../controllers/authController';
 import {
   authenticateToken,
+  optionalAuth,
+  requirePermission,
   requireSuperAdmin,
   authenticateAndIsolateTenant,
   auditLog,
@@ -45,11 +52,18 @@ router.post('/super-admin/login', userRateLimit, superAdminLogin);
  */
 router.post('/refresh', userRateLimit, refreshToken);
 
+/**
+ * Trocar senha (autentica pela senha atual - login não emite tokens com troca pendente)
+ * POST /api/auth/change-password
+ */
+router.post('/change-password', userRateLimit, changePassword);
+
 /**
  * Obter regras de credenciais (público para frontend validar)
+ * Com token, retorna as regras do tenant do usuário
  * GET /api/auth/credential-rules
  */
-router.get('/credential-rules', getCredentialRules);
+router.get('/credential-rules', optionalAuth, getCredentialRules);
 
 // ====================================
 // ROTAS PROTEGIDAS (com autenticação)
@@ -65,6 +79,46 @@ router.get('/profile',
   getUserProfile
 );
 
+/**
+ * Logout - revoga a sessão atual
+ * POST /api/auth/logout
+ */
+router.post('/logout',
+  authenticateToken,
+  auditLog,
+  logout
+);
+
+/**
+ * Listar sessões ativas do usuário logado
+ * GET /api/auth/sessions
+ */
+router.get('/sessions',
+  authenticateToken,
+  listSessions
+);
+
+/**
+ * Encerrar todas as outras sessões do usuário logado
+ * POST /api/auth/sessions/revoke-others
+ */
+router.post('/sessions/revoke-others',
+  authenticateToken,
+  auditLog,
+  revokeOtherSessions
+);
+
+/**
+ * Alterar regras de credenciais do tenant (Super Admin: padrão global ou tenant informado)
+ * PUT /api/auth/credential-rules
+ */
+router.put('/credential-rules',
+  authenticateToken,
+  requirePermission('usuarios:configure'),
+  auditLog,
+  saveCredentialRules
+);
+
 // ====================================
 // ROTAS DE SUPER ADMIN
 // ====================================
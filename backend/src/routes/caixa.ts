@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import {
+  abrirCaixa,
+  obterSessaoAtual,
+  registrarSangria,
+  registrarSuprimento,
+  fecharCaixa,
+  listarSessoes,
+  relatorioZ
+} from '../controllers/caixaController';
+import { authenticateAndIsolateTenant, requirePermission, requireAnyPermission } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Aplicar middleware de autenticação para todas as rotas
+router.use(authenticateAndIsolateTenant);
+
+// GET /api/caixa/sessoes - Listar sessões de caixa
+router.get('/sessoes', requirePermission('caixa:read'), listarSessoes);
+
+// GET /api/caixa/sessoes/atual - Sessão aberta do operador (sem valores esperados)
+router.get('/sessoes/atual', requirePermission('caixa:operate'), obterSessaoAtual);
+
+// GET /api/caixa/sessoes/:id/relatorio-z - Relatório Z de sessão fechada
+router.get('/sessoes/:id/relatorio-z', requireAnyPermission(['caixa:operate', 'caixa:read']), relatorioZ);
+
+// POST /api/caixa/sessoes/abrir - Abrir caixa com fundo de troco
+router.post('/sessoes/abrir', requirePermission('caixa:operate'), abrirCaixa);
+
+// POST /api/caixa/sessoes/:id/sangria - Registrar sangria
+router.post('/sessoes/:id/sangria', requirePermission('caixa:operate'), registrarSangria);
+
+// POST /api/caixa/sessoes/:id/suprimento - Registrar suprimento
+router.post('/sessoes/:id/suprimento', requirePermission('caixa:operate'), registrarSuprimento);
+
+// POST /api/caixa/sessoes/:id/fechar - Fechamento cego com relatório Z
+router.post('/sessoes/:id/fechar', requirePermission('caixa:operate'), fecharCaixa);
+
+export default router;
@@ -8,9 +8,12 @@ import {
   obterEstatisticas,
   buscarPorCpf,
   buscarPorIdade,
-  restaurarCliente
+  restaurarCliente,
+  obterHistoricoCliente
 } from '../controllers/clienteControllerNew';
 import { authenticateAndIsolateTenant, requirePermission } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
+import { exportavel } from '../middleware/exportacao';
 
 const router = Router();
 
@@ -18,30 +21,33 @@ const router = Router();
 router.use(authenticateAndIsolateTenant);
 
 // GET /api/clientes - Listar clientes com paginação
-router.get('/', requirePermission(['clientes:read']), listarClientes);
+router.get('/', requirePermission('clientes:read'), listarClientes);
 
-// GET /api/clientes/estatisticas - Estatísticas de clientes
-router.get('/estatisticas', requirePermission(['clientes:read']), obterEstatisticas);
+// GET /api/clientes/estatisticas - Estatísticas de clientes (JSON, CSV, XLSX ou PDF)
+router.get('/estatisticas', requirePermission('clientes:read'), exportavel('clientes-estatisticas'), obterEstatisticas);
 
 // GET /api/clientes/cpf/:cpf - Buscar cliente por CPF
-router.get('/cpf/:cpf', requirePermission(['clientes:read']), buscarPorCpf);
+router.get('/cpf/:cpf', requirePermission('clientes:read'), buscarPorCpf);
 
 // GET /api/clientes/idade/:idadeMin/:idadeMax - Buscar por faixa etária
-router.get('/idade/:idadeMin/:idadeMax', requirePermission(['clientes:read']), buscarPorIdade);
+router.get('/idade/:idadeMin/:idadeMax', requirePermission('clientes:read'), buscarPorIdade);
 
 // PUT /api/clientes/:id/restaurar - Restaurar cliente deletado
-router.put('/:id/restaurar', requirePermission(['clientes:write']), restaurarCliente);
+router.put('/:id/restaurar', requirePermission('clientes:write'), restaurarCliente);
+
+// GET /api/clientes/:id/historico - Histórico de alterações (auditoria)
+router.get('/:id/historico', requirePermission('clientes:read'), obterHistoricoCliente);
 
 // GET /api/clientes/:id - Obter cliente por ID
-router.get('/:id', requirePermission(['clientes:read']), obterCliente);
+router.get('/:id', requirePermission('clientes:read'), obterCliente);
 
 // POST /api/clientes - Criar novo cliente
-router.post('/', requirePermission(['clientes:write']), criarCliente);
+router.post('/', requirePermission('clientes:write'), idempotent, criarCliente);
 
 // PUT /api/clientes/:id - Atualizar cliente
-router.put('/:id', requirePermission(['clientes:write']), atualizarCliente);
+router.put('/:id', requirePermission('clientes:write'), atualizarCliente);
 
 // DELETE /api/clientes/:id - Soft delete cliente
-router.delete('/:id', requirePermission(['clientes:delete']), deletarCliente);
+router.delete('/:id', requirePermission('clientes:delete'), deletarCliente);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import {
+  listarDevolucoes,
+  obterDevolucao,
+  registrarDevolucao,
+  consultarValeTroca
+} from '../controllers/devolucaoController';
+import { authenticateAndIsolateTenant, requirePermission } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
+
+const router = Router();
+
+// Aplicar middleware de autenticação para todas as rotas
+router.use(authenticateAndIsolateTenant);
+
+// GET /api/devolucoes - Listar devoluções
+router.get('/', requirePermission('vendas:read'), listarDevolucoes);
+
+// GET /api/devolucoes/vales-troca/:codigo - Consultar saldo do vale-troca
+router.get('/vales-troca/:codigo', requirePermission('vendas:read'), consultarValeTroca);
+
+// GET /api/devolucoes/:id - Obter devolução
+router.get('/:id', requirePermission('vendas:read'), obterDevolucao);
+
+// POST /api/devolucoes - Registrar devolução (reembolso ou vale-troca)
+router.post('/', requirePermission('vendas:return'), idempotent, registrarDevolucao);
+
+export default router;
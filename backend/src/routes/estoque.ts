@@ -4,24 +4,37 @@ import {
   obterEstoqueProduto,
   criarOuAtualizarEstoque,
   movimentarEstoque,
-  listarMovimentacoes
+  listarMovimentacoes,
+  obterConfiguracao,
+  salvarConfiguracao
 } from '../controllers/estoqueController';
+import { authenticateAndIsolateTenant, requirePermission } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
 
 const router = Router();
 
+// Aplicar middleware de autenticação para todas as rotas
+router.use(authenticateAndIsolateTenant);
+
 // GET /api/estoque - Listar estoque com paginação
-router.get('/', listarEstoque);
+router.get('/', requirePermission('estoque:read'), listarEstoque);
 
 // GET /api/estoque/movimentacoes - Listar movimentações de estoque
-router.get('/movimentacoes', listarMovimentacoes);
+router.get('/movimentacoes', requirePermission('estoque:read'), listarMovimentacoes);
+
+// GET /api/estoque/configuracao - Política de estoque do tenant (saldo negativo)
+router.get('/configuracao', requirePermission('estoque:read'), obterConfiguracao);
+
+// PUT /api/estoque/configuracao - Salvar política de estoque do tenant
+router.put('/configuracao', requirePermission('estoque:configure'), salvarConfiguracao);
 
 // GET /api/estoque/produto/:produtoId - Obter estoque por produto
-router.get('/produto/:produtoId', obterEstoqueProduto);
+router.get('/produto/:produtoId', requirePermission('estoque:read'), obterEstoqueProduto);
 
-// POST /api/estoque - Criar ou atualizar estoque
-router.post('/', criarOuAtualizarEstoque);
+// POST /api/estoque - Criar ou atualizar estoque (alterar saldo existente exige estoque:adjust)
+router.post('/', requirePermission('estoque:write'), criarOuAtualizarEstoque);
 
-// POST /api/estoque/movimentar - Movimentar estoque (entrada/saída/ajuste)
-router.post('/movimentar', movimentarEstoque);
+// POST /api/estoque/movimentar - Movimentar estoque (entrada/saída/ajuste; AJUSTE exige estoque:adjust)
+router.post('/movimentar', requirePermission('estoque:write'), idempotent, movimentarEstoque);
 
 export default router;
\ No newline at end of file
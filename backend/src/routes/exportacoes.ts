@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  listarExportacoes,
+  obterExportacao,
+  baixarExportacao
+} from '../controllers/exportacaoController';
+import { authenticateAndIsolateTenant } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Aplicar middleware de autenticação para todas as rotas
+// A permissão do relatório é verificada ao solicitar; cada usuário só vê as próprias exportações
+router.use(authenticateAndIsolateTenant);
+
+// GET /api/exportacoes - Listar exportações do usuário
+router.get('/', listarExportacoes);
+
+// GET /api/exportacoes/:id - Status da exportação
+router.get('/:id', obterExportacao);
+
+// GET /api/exportacoes/:id/download - Baixar arquivo gerado
+router.get('/:id/download', baixarExportacao);
+
+export default router;
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import {
+  obterConfiguracao,
+  salvarConfiguracao,
+  salvarCertificado,
+  emitirNfceVenda,
+  obterNfceVenda,
+  transmitirContingenciasNfce
+} from '../controllers/fiscalController';
+import { authenticateAndIsolateTenant, requirePermission } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Aplicar middleware de autenticação para todas as rotas
+router.use(authenticateAndIsolateTenant);
+
+// GET /api/fiscal/configuracao - Dados do emitente e da NFC-e
+router.get('/configuracao', requirePermission('fiscal:read'), obterConfiguracao);
+
+// PUT /api/fiscal/configuracao - Salvar dados do emitente e da NFC-e
+router.put('/configuracao', requirePermission('fiscal:configure'), salvarConfiguracao);
+
+// PUT /api/fiscal/certificado - Enviar certificado A1 (PFX)
+router.put('/certificado', requirePermission('fiscal:configure'), salvarCertificado);
+
+// POST /api/fiscal/nfce/contingencia/transmitir - Transmitir notas em contingência
+router.post('/nfce/contingencia/transmitir', requirePermission('fiscal:emit'), transmitirContingenciasNfce);
+
+// GET /api/fiscal/nfce/:vendaId - NFC-e da venda (JSON ou XML)
+router.get('/nfce/:vendaId', requirePermission('fiscal:read'), obterNfceVenda);
+
+// POST /api/fiscal/nfce/:vendaId - Emitir NFC-e da venda
+router.post('/nfce/:vendaId', requirePermission('fiscal:emit'), emitirNfceVenda);
+
+export default router;
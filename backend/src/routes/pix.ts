@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import {
+  obterConfiguracao,
+  salvarConfiguracao,
+  webhookPix
+} from '../controllers/pixController';
+import { authenticateAndIsolateTenant, requirePermission } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// POST /api/pix/webhook/:tenantId - Notificação de PIX recebido (PSP, autenticado pelo segredo do webhook)
+router.post('/webhook/:tenantId', webhookPix);
+
+// GET /api/pix/configuracao - Configuração PIX do tenant
+router.get('/configuracao', authenticateAndIsolateTenant, requirePermission('vendas:read'), obterConfiguracao);
+
+// PUT /api/pix/configuracao - Salvar chave PIX e dados do recebedor
+router.put('/configuracao', authenticateAndIsolateTenant, requirePermission('pix:configure'), salvarConfiguracao);
+
+export default router;
@@ -4,13 +4,27 @@ import {
   obterVenda,
   criarVenda,
   cancelarVenda,
+  estornarItensVenda,
   obterVendaPorNumeroFiscal,
   listarVendasCliente,
   obterEstatisticas,
   relatorioVendas,
-  obterProximoNumeroFiscal
+  relatorioLacunasFiscais,
+  obterProximoNumeroFiscal,
+  obterHistoricoVenda,
+  gerarPixVenda,
+  confirmarPixVenda,
+  listarVendasAbertas,
+  obterVendaAberta,
+  abrirVenda,
+  adicionarItensVendaAberta,
+  removerItemVendaAberta,
+  finalizarVendaAberta,
+  abandonarVendaAberta
 } from '../controllers/vendaControllerNew';
 import { authenticateAndIsolateTenant, requirePermission } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
+import { exportavel } from '../middleware/exportacao';
 
 const router = Router();
 
@@ -18,30 +32,66 @@ const router = Router();
 router.use(authenticateAndIsolateTenant);
 
 // GET /api/vendas - Listar vendas com paginação e filtros
-router.get('/', requirePermission(['vendas:read']), listarVendas);
+router.get('/', requirePermission('vendas:read'), listarVendas);
 
 // GET /api/vendas/estatisticas - Estatísticas de vendas
-router.get('/estatisticas', requirePermission(['vendas:read']), obterEstatisticas);
+router.get('/estatisticas', requirePermission('vendas:read'), obterEstatisticas);
 
 // GET /api/vendas/proximo-numero-fiscal - Obter próximo número fiscal
-router.get('/proximo-numero-fiscal', requirePermission(['vendas:read']), obterProximoNumeroFiscal);
+router.get('/proximo-numero-fiscal', requirePermission('vendas:read'), obterProximoNumeroFiscal);
 
-// GET /api/vendas/relatorios/vendas - Relatório de vendas por período
-router.get('/relatorios/vendas', requirePermission(['vendas:read']), relatorioVendas);
+// GET /api/vendas/relatorios/vendas - Relatório de vendas por período (JSON, CSV, XLSX ou PDF)
+router.get('/relatorios/vendas', requirePermission('vendas:read'), exportavel('vendas'), relatorioVendas);
+
+// GET /api/vendas/relatorios/lacunas-fiscais - Lacunas na numeração fiscal (auditoria)
+router.get('/relatorios/lacunas-fiscais', requirePermission('vendas:read'), relatorioLacunasFiscais);
+
+// GET /api/vendas/abertas - Listar vendas abertas (comandas)
+router.get('/abertas', requirePermission('vendas:read'), listarVendasAbertas);
+
+// GET /api/vendas/abertas/:id - Obter venda aberta
+router.get('/abertas/:id', requirePermission('vendas:read'), obterVendaAberta);
+
+// POST /api/vendas/abertas - Abrir venda (comanda)
+router.post('/abertas', requirePermission('vendas:write'), abrirVenda);
+
+// POST /api/vendas/abertas/:id/itens - Incluir itens na venda aberta
+router.post('/abertas/:id/itens', requirePermission('vendas:write'), adicionarItensVendaAberta);
+
+// DELETE /api/vendas/abertas/:id/itens/:itemId - Remover item da venda aberta
+router.delete('/abertas/:id/itens/:itemId', requirePermission('vendas:write'), removerItemVendaAberta);
+
+// POST /api/vendas/abertas/:id/finalizar - Finalizar venda aberta
+router.post('/abertas/:id/finalizar', requirePermission('vendas:write'), idempotent, finalizarVendaAberta);
+
+// POST /api/vendas/abertas/:id/abandonar - Abandonar venda aberta
+router.post('/abertas/:id/abandonar', requirePermission('vendas:write'), abandonarVendaAberta);
 
 // GET /api/vendas/numero-fiscal/:numeroFiscal - Buscar venda por número fiscal
-router.get('/numero-fiscal/:numeroFiscal', requirePermission(['vendas:read']), obterVendaPorNumeroFiscal);
+router.get('/numero-fiscal/:numeroFiscal', requirePermission('vendas:read'), obterVendaPorNumeroFiscal);
 
 // GET /api/vendas/cliente/:clienteId - Listar vendas de um cliente
-router.get('/cliente/:clienteId', requirePermission(['vendas:read']), listarVendasCliente);
+router.get('/cliente/:clienteId', requirePermission('vendas:read'), listarVendasCliente);
+
+// GET /api/vendas/:id/historico - Histórico de alterações (auditoria)
+router.get('/:id/historico', requirePermission('vendas:read'), obterHistoricoVenda);
+
+// GET /api/vendas/:id/pix - BR Code PIX da venda (payload + QR Code)
+router.get('/:id/pix', requirePermission('vendas:read'), gerarPixVenda);
 
 // GET /api/vendas/:id - Obter venda por ID
-router.get('/:id', requirePermission(['vendas:read']), obterVenda);
+router.get('/:id', requirePermission('vendas:read'), obterVenda);
 
 // POST /api/vendas - Criar nova venda
-router.post('/', requirePermission(['vendas:write']), criarVenda);
+router.post('/', requirePermission('vendas:write'), idempotent, criarVenda);
 
 // PATCH /api/vendas/:id/cancelar - Cancelar venda
-router.patch('/:id/cancelar', requirePermission(['vendas:cancel']), cancelarVenda);
+router.patch('/:id/cancelar', requirePermission('vendas:cancel'), cancelarVenda);
+
+// PATCH /api/vendas/:id/itens/estornar - Estornar itens da venda (devolução parcial)
+router.patch('/:id/itens/estornar', requirePermission('vendas:cancel'), estornarItensVenda);
+
+// PATCH /api/vendas/:id/pix/confirmar - Confirmar pagamento PIX manualmente
+router.patch('/:id/pix/confirmar', requirePermission('vendas:write'), confirmarPixVenda);
 
 export default router;
\ No newline at end of file
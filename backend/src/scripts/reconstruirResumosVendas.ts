@@ -0,0 +1,60 @@
+/**
+ * Reconstrução dos resumos de vendas (backfill)
+ * Uso: npm run db:resumos:rebuild -- [--tenant <id>] [--inicio AAAA-MM-DD] [--fim AAAA-MM-DD]
+ * Sem --tenant, percorre todos os tenants não excluídos; sem período, da primeira venda até hoje
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { reconstruirResumosVendas } from '../services/resumoVendasService';
+
+const prisma = new PrismaClient();
+
+const DATA_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function argumento(nome: string): string | undefined {
+  const indice = process.argv.indexOf(`--${nome}`);
+  return indice >= 0 ? process.argv[indice + 1] : undefined;
+}
+
+async function main() {
+  const tenantId = argumento('tenant');
+  const dataInicio = argumento('inicio');
+  const dataFim = argumento('fim');
+
+  for (const data of [dataInicio, dataFim]) {
+    if (data !== undefined && !DATA_REGEX.test(data)) {
+      throw new Error(`Data inválida: ${data} (use AAAA-MM-DD)`);
+    }
+  }
+
+  const tenants = await prisma.tenant.findMany({
+    where: tenantId ? { id: tenantId } : { dataDelecao: null },
+    select: { id: true, nome: true },
+    orderBy: { dataCadastro: 'asc' }
+  });
+
+  if (tenantId && tenants.length === 0) {
+    throw new Error(`Tenant ${tenantId} não encontrado`);
+  }
+
+  for (const tenant of tenants) {
+    console.log(`📊 ${tenant.nome} (${tenant.id})`);
+
+    const resultado = await reconstruirResumosVendas(tenant.id, {
+      ...(dataInicio && { dataInicio }),
+      ...(dataFim && { dataFim }),
+      onLote: (lote) => console.log(`   ${lote.dataInicio} a ${lote.dataFim}: ${lote.diasComVendas} dia(s) com vendas`)
+    });
+
+    console.log(resultado
+      ? `✅ ${resultado.dataInicio} a ${resultado.dataFim}: ${resultado.diasComVendas} dia(s) com vendas`
+      : '   Sem vendas registradas');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Erro ao reconstruir resumos de vendas:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,510 @@
+/**
+ * Serviço de Aprovação - Supervisor autoriza operações críticas no terminal do caixa
+ * Operação cuja permissão é crítica (Permissao.critica) só é executada por quem
+ * não pode aprová-la mediante login + PIN de um supervisor ou token de uso único
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { AuditoriaRepository, buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { AuthContext } from '../config/jwtConfig';
+import { hasPermission } from './jwtService';
+import { comparePassword, hashPassword } from './passwordService';
+import { isOperadorCaixa, isPerfilCaixa } from './caixaService';
+
+const prisma = new PrismaClient();
+
+/**
+ * Operações sujeitas a aprovação e a permissão que as governa
+ */
+export const OPERACOES_APROVACAO = {
+  CANCELAR_VENDA: { permissao: 'vendas:cancel', descricao: 'Cancelamento de venda' },
+  DESCONTO: { permissao: 'vendas:discount', descricao: 'Desconto acima do limite' },
+  AJUSTE_ESTOQUE: { permissao: 'estoque:adjust', descricao: 'Ajuste de saldo de estoque' }
+} as const;
+
+export type OperacaoAprovacao = keyof typeof OPERACOES_APROVACAO;
+
+export const REGRAS_APROVACAO_PADRAO = {
+  limiteDescontoPercentual: 10,
+  validadeTokenMinutos: 10
+};
+
+// Falhas de PIN seguidas até o bloqueio (liberado ao redefinir o PIN)
+const MAX_TENTATIVAS_PIN = 5;
+
+const PIN_REGEX = /^\d{4,8}$/;
+
+// Código do token: sem caracteres ambíguos (0/O, 1/I) para digitação no terminal
+const ALFABETO_TOKEN = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TAMANHO_TOKEN = 8;
+
+export interface AprovacaoDto {
+  login?: string;
+  pin?: string;
+  token?: string;
+}
+
+export interface AprovadorRegistrado {
+  operacao: OperacaoAprovacao;
+  aprovadorId: string;
+  aprovadorLogin: string;
+  via: 'PIN' | 'TOKEN';
+  dataAprovacao: Date;
+}
+
+export interface RegrasAprovacao {
+  limiteDescontoPercentual: number;
+  validadeTokenMinutos: number;
+}
+
+/**
+ * Operação crítica sem aprovação válida
+ * Vira resposta APPROVAL_REQUIRED; o cliente repete a requisição com a aprovação
+ */
+export class AprovacaoNecessariaError extends Error {
+  readonly code = 'APPROVAL_REQUIRED';
+
+  constructor(
+    message: string,
+    public readonly operacao: OperacaoAprovacao,
+    public readonly detalhes: string[] = []
+  ) {
+    super(message);
+  }
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token.trim().toUpperCase()).digest('hex');
+
+/**
+ * Quem pode aprovar a operação também a executa sem aprovação:
+ * usuário com a permissão que não seja operador de caixa
+ */
+export function podeAprovar(auth: AuthContext, operacao: OperacaoAprovacao): boolean {
+  return !isOperadorCaixa(auth) && hasPermission(auth, OPERACOES_APROVACAO[operacao].permissao);
+}
+
+/**
+ * Permissão da operação marcada como crítica
+ * Sem cadastro em permissoes a operação é tratada como crítica
+ */
+async function isOperacaoCritica(
+  client: PrismaClient | TransactionClient,
+  operacao: OperacaoAprovacao
+): Promise<boolean> {
+  const [modulo, acao] = OPERACOES_APROVACAO[operacao].permissao.split(':');
+  const permissao = await client.permissao.findFirst({
+    where: { modulo: modulo!, acao: acao!, recurso: null }
+  });
+  return permissao ? permissao.critica : true;
+}
+
+/**
+ * Exige aprovação de supervisor para a operação, quando aplicável
+ * Deve ser chamado dentro da transação da operação: o token só é consumido
+ * se a operação for commitada
+ * @param referencia - Venda/produto da operação (tokens restritos a uma referência)
+ * @param detalhes - Motivo exibido ao operador (ex: percentual do desconto)
+ * @returns Aprovador, ou null quando a aprovação não é necessária
+ * @throws AprovacaoNecessariaError sem aprovação ou com aprovação inválida
+ */
+export async function exigirAprovacao(
+  client: PrismaClient | TransactionClient,
+  auth: AuthContext,
+  operacao: OperacaoAprovacao,
+  aprovacao: AprovacaoDto | undefined,
+  referencia?: string,
+  detalhes: string[] = []
+): Promise<AprovadorRegistrado | null> {
+  if (podeAprovar(auth, operacao) || !(await isOperacaoCritica(client, operacao))) {
+    return null;
+  }
+
+  const { descricao } = OPERACOES_APROVACAO[operacao];
+
+  if (typeof aprovacao?.token === 'string' && aprovacao.token.trim()) {
+    return await consumirToken(client, auth, operacao, aprovacao.token, referencia ?? null);
+  }
+
+  if (typeof aprovacao?.login === 'string' && typeof aprovacao?.pin === 'string') {
+    return await validarPinSupervisor(client, auth, operacao, aprovacao.login, aprovacao.pin);
+  }
+
+  throw new AprovacaoNecessariaError(`${descricao} exige aprovação de supervisor`, operacao, detalhes);
+}
+
+/**
+ * Exige aprovação quando o desconto total passa do limite do tenant
+ * @param valorBruto - Soma de quantidade x preço dos itens
+ * @param descontoTotal - Descontos dos itens + desconto da venda
+ */
+export async function exigirAprovacaoDesconto(
+  client: PrismaClient | TransactionClient,
+  auth: AuthContext,
+  valorBruto: number,
+  descontoTotal: number,
+  aprovacao: AprovacaoDto | undefined,
+  referencia?: string
+): Promise<AprovadorRegistrado | null> {
+  if (descontoTotal <= 0 || valorBruto <= 0) {
+    return null;
+  }
+
+  const { limiteDescontoPercentual } = await obterRegrasAprovacao(auth.tenantId, client);
+  const percentual = (descontoTotal / valorBruto) * 100;
+
+  if (percentual <= limiteDescontoPercentual) {
+    return null;
+  }
+
+  return await exigirAprovacao(client, auth, 'DESCONTO', aprovacao, referencia, [
+    `Desconto de ${percentual.toFixed(2)}% acima do limite de ${limiteDescontoPercentual.toFixed(2)}%`
+  ]);
+}
+
+/**
+ * Confere login + PIN do supervisor
+ * Falhas contam para o bloqueio fora da transação da operação (que é desfeita)
+ */
+async function validarPinSupervisor(
+  client: PrismaClient | TransactionClient,
+  auth: AuthContext,
+  operacao: OperacaoAprovacao,
+  login: string,
+  pin: string
+): Promise<AprovadorRegistrado> {
+  const recusada = (motivo: string) =>
+    new AprovacaoNecessariaError('Aprovação recusada', operacao, [motivo]);
+
+  const supervisor = await client.usuario.findFirst({
+    where: { login: login.trim(), tenantId: auth.tenantId, ativo: true },
+    include: {
+      role: {
+        include: {
+          permissoes: {
+            where: { permissao: { ativo: true } },
+            include: { permissao: true }
+          }
+        }
+      }
+    }
+  });
+
+  if (!supervisor?.pinHash) {
+    throw recusada('Login ou PIN do supervisor inválido');
+  }
+
+  if (supervisor.pinBloqueadoEm) {
+    throw recusada('PIN do supervisor bloqueado por excesso de tentativas - redefina o PIN');
+  }
+
+  if (!(await comparePassword(pin, supervisor.pinHash))) {
+    await registrarFalhaPin(supervisor.id);
+    throw recusada('Login ou PIN do supervisor inválido');
+  }
+
+  const permissoes = supervisor.role.permissoes.map(rp => `${rp.permissao.modulo}:${rp.permissao.acao}`);
+  if (
+    supervisor.id === auth.userId ||
+    isPerfilCaixa(supervisor.role.nome) ||
+    !permissoes.includes(OPERACOES_APROVACAO[operacao].permissao)
+  ) {
+    throw recusada('Usuário informado não pode aprovar esta operação');
+  }
+
+  if (supervisor.tentativasPin > 0) {
+    await client.usuario.update({
+      where: { id: supervisor.id },
+      data: { tentativasPin: 0 }
+    });
+  }
+
+  return {
+    operacao,
+    aprovadorId: supervisor.id,
+    aprovadorLogin: supervisor.login,
+    via: 'PIN',
+    dataAprovacao: new Date()
+  };
+}
+
+async function registrarFalhaPin(usuarioId: string): Promise<void> {
+  const usuario = await prisma.usuario.update({
+    where: { id: usuarioId },
+    data: { tentativasPin: { increment: 1 } }
+  });
+
+  if (usuario.tentativasPin >= MAX_TENTATIVAS_PIN) {
+    await prisma.usuario.update({
+      where: { id: usuarioId },
+      data: { pinBloqueadoEm: new Date() }
+    });
+  }
+}
+
+/**
+ * Consome o token de aprovação (uso único, dentro da validade)
+ */
+async function consumirToken(
+  client: PrismaClient | TransactionClient,
+  auth: AuthContext,
+  operacao: OperacaoAprovacao,
+  token: string,
+  referencia: string | null
+): Promise<AprovadorRegistrado> {
+  const invalido = new AprovacaoNecessariaError('Aprovação recusada', operacao, [
+    'Token de aprovação inválido, expirado ou já utilizado'
+  ]);
+
+  const registro = await client.tokenAprovacao.findFirst({
+    where: { tokenHash: hashToken(token), tenantId: auth.tenantId, operacao },
+    include: { aprovador: { select: { login: true, ativo: true } } }
+  });
+
+  const dataAprovacao = new Date();
+
+  if (
+    !registro ||
+    !registro.aprovador.ativo ||
+    registro.aprovadorId === auth.userId ||
+    (registro.referencia !== null && registro.referencia !== referencia)
+  ) {
+    throw invalido;
+  }
+
+  // Condicional: o mesmo token usado em dois terminais aprova uma única operação
+  const consumido = await client.tokenAprovacao.updateMany({
+    where: { id: registro.id, usadoEm: null, expiraEm: { gt: dataAprovacao } },
+    data: { usadoEm: dataAprovacao, usadoPor: auth.userId }
+  });
+
+  if (consumido.count !== 1) {
+    throw invalido;
+  }
+
+  return {
+    operacao,
+    aprovadorId: registro.aprovadorId,
+    aprovadorLogin: registro.aprovador.login,
+    via: 'TOKEN',
+    dataAprovacao
+  };
+}
+
+/**
+ * Emite um token de aprovação de uso único
+ * @param auth - Supervisor que aprova (precisa poder aprovar a operação)
+ * @param referencia - Restringe o token a uma venda/produto (opcional)
+ */
+export async function emitirTokenAprovacao(
+  auth: AuthContext,
+  operacao: OperacaoAprovacao,
+  referencia?: string
+): Promise<{ success: boolean; data?: { token: string; operacao: OperacaoAprovacao; referencia: string | null; expiraEm: Date }; error?: string }> {
+  if (!podeAprovar(auth, operacao)) {
+    return {
+      success: false,
+      error: `Sem permissão para aprovar: ${OPERACOES_APROVACAO[operacao].permissao}`
+    };
+  }
+
+  const { validadeTokenMinutos } = await obterRegrasAprovacao(auth.tenantId);
+  const token = Array.from(
+    { length: TAMANHO_TOKEN },
+    () => ALFABETO_TOKEN[crypto.randomInt(ALFABETO_TOKEN.length)]
+  ).join('');
+  const expiraEm = new Date(Date.now() + validadeTokenMinutos * 60 * 1000);
+
+  await prisma.$transaction(async (tx) => {
+    const registro = await tx.tokenAprovacao.create({
+      data: {
+        tokenHash: hashToken(token),
+        operacao,
+        referencia: referencia ?? null,
+        aprovadorId: auth.userId,
+        expiraEm,
+        tenantId: auth.tenantId
+      }
+    });
+
+    const { tokenHash: _tokenHash, ...dados } = registro;
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'TokenAprovacao',
+      entidadeId: registro.id,
+      acao: 'CREATE',
+      alteracoes: buildAuditDiff(null, dados),
+      usuarioId: auth.userId,
+      tenantId: auth.tenantId
+    });
+  });
+
+  return {
+    success: true,
+    data: { token, operacao, referencia: referencia ?? null, expiraEm }
+  };
+}
+
+/**
+ * Define o PIN de supervisor do próprio usuário
+ * Confirmado pela senha atual; zera tentativas e desbloqueia o PIN
+ */
+export async function definirPin(
+  userId: string,
+  tenantId: string,
+  senhaAtual: string,
+  pin: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!PIN_REGEX.test(pin)) {
+    return {
+      success: false,
+      error: 'PIN deve ter de 4 a 8 dígitos'
+    };
+  }
+
+  const usuario = await prisma.usuario.findFirst({
+    where: { id: userId, tenantId, ativo: true }
+  });
+
+  if (!usuario || !(await comparePassword(senhaAtual, usuario.senhaHash))) {
+    return {
+      success: false,
+      error: 'Senha atual incorreta'
+    };
+  }
+
+  const pinHash = await hashPassword(pin);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.usuario.update({
+      where: { id: usuario.id },
+      data: {
+        pinHash,
+        tentativasPin: 0,
+        pinBloqueadoEm: null,
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'Usuario',
+      entidadeId: usuario.id,
+      acao: 'UPDATE',
+      alteracoes: buildAuditDiff(
+        { pinHash: usuario.pinHash, pinBloqueadoEm: usuario.pinBloqueadoEm },
+        { pinHash, pinBloqueadoEm: null }
+      ),
+      usuarioId: userId,
+      tenantId
+    });
+  });
+
+  return { success: true };
+}
+
+/**
+ * Regras de aprovação vigentes para o tenant (padrão quando não configuradas)
+ */
+export async function obterRegrasAprovacao(
+  tenantId: string,
+  client: PrismaClient | TransactionClient = prisma
+): Promise<RegrasAprovacao> {
+  const regra = await client.regraAprovacao.findUnique({ where: { tenantId } });
+  if (!regra) return { ...REGRAS_APROVACAO_PADRAO };
+
+  return {
+    limiteDescontoPercentual: Number(regra.limiteDescontoPercentual),
+    validadeTokenMinutos: regra.validadeTokenMinutos
+  };
+}
+
+/**
+ * Operações sujeitas a aprovação e se estão marcadas como críticas
+ */
+export async function listarOperacoesAprovacao(): Promise<Array<{
+  operacao: OperacaoAprovacao;
+  permissao: string;
+  descricao: string;
+  critica: boolean;
+}>> {
+  const operacoes = Object.keys(OPERACOES_APROVACAO) as OperacaoAprovacao[];
+  return await Promise.all(operacoes.map(async operacao => ({
+    operacao,
+    ...OPERACOES_APROVACAO[operacao],
+    critica: await isOperacaoCritica(prisma, operacao)
+  })));
+}
+
+export function validarRegrasAprovacao(dto: Partial<RegrasAprovacao>): string[] {
+  const errors: string[] = [];
+
+  if (dto.limiteDescontoPercentual !== undefined) {
+    if (typeof dto.limiteDescontoPercentual !== 'number' || dto.limiteDescontoPercentual < 0 || dto.limiteDescontoPercentual > 100) {
+      errors.push('Limite de desconto deve ser um percentual entre 0 e 100');
+    }
+  }
+
+  if (dto.validadeTokenMinutos !== undefined) {
+    if (!Number.isInteger(dto.validadeTokenMinutos) || dto.validadeTokenMinutos < 1 || dto.validadeTokenMinutos > 1440) {
+      errors.push('Validade do token deve ser entre 1 e 1440 minutos');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Salva as regras de aprovação do tenant
+ * @param alteracoes - Alterações parciais; campos omitidos mantêm o valor atual
+ */
+export async function salvarRegrasAprovacao(
+  tenantId: string,
+  alteracoes: Partial<RegrasAprovacao>,
+  updatedBy: string
+): Promise<{ success: boolean; data?: RegrasAprovacao; error?: string; validationErrors?: string[] }> {
+  const validationErrors = validarRegrasAprovacao(alteracoes);
+  if (validationErrors.length > 0) {
+    return {
+      success: false,
+      error: 'Regras de aprovação inválidas',
+      validationErrors
+    };
+  }
+
+  const dados = {
+    ...(alteracoes.limiteDescontoPercentual !== undefined && { limiteDescontoPercentual: alteracoes.limiteDescontoPercentual }),
+    ...(alteracoes.validadeTokenMinutos !== undefined && { validadeTokenMinutos: alteracoes.validadeTokenMinutos }),
+    usuarioUltimaAtualizacao: updatedBy
+  };
+
+  const regra = await prisma.$transaction(async (tx) => {
+    const anterior = await tx.regraAprovacao.findUnique({ where: { tenantId } });
+
+    const salva = await tx.regraAprovacao.upsert({
+      where: { tenantId },
+      create: { tenantId, usuarioCadastro: updatedBy, ...REGRAS_APROVACAO_PADRAO, ...dados },
+      update: dados
+    });
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'RegraAprovacao',
+      entidadeId: salva.id,
+      acao: anterior ? 'UPDATE' : 'CREATE',
+      alteracoes: buildAuditDiff(anterior, salva),
+      usuarioId: updatedBy,
+      tenantId
+    });
+
+    return salva;
+  });
+
+  return {
+    success: true,
+    data: {
+      limiteDescontoPercentual: Number(regra.limiteDescontoPercentual),
+      validadeTokenMinutos: regra.validadeTokenMinutos
+    }
+  };
+}
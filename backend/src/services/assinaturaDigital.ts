@@ -0,0 +1,119 @@
+/**
+ * Assinatura Digital - Certificado A1 (PKCS#12) e XMLDSig enveloped
+ * Padrão exigido pela SEFAZ: C14N 1.0, RSA-SHA1 e referência ao Id do elemento assinado
+ */
+
+import crypto from 'crypto';
+import forge from 'node-forge';
+
+const NS_DSIG = 'http://www.w3.org/2000/09/xmldsig#';
+const ALG_C14N = 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+
+// Tipos de bag do PKCS#12
+const OID_CHAVE_PKCS8 = '1.2.840.113549.1.12.10.1.2';
+const OID_CHAVE = '1.2.840.113549.1.12.10.1.1';
+const OID_CERTIFICADO = '1.2.840.113549.1.12.10.1.3';
+
+export interface CertificadoA1 {
+  chavePrivadaPem: string;
+  certificadoBase64: string; // DER em base64 (X509Certificate)
+  titular: string;
+  cnpj: string | null;
+  validoDe: Date;
+  validoAte: Date;
+}
+
+/**
+ * Lê o arquivo PFX do certificado A1
+ * @throws Error quando a senha está incorreta ou o arquivo não contém chave e certificado
+ */
+export function lerCertificadoA1(pfx: Buffer, senha: string): CertificadoA1 {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(pfx.toString('binary')), senha);
+  } catch {
+    throw new Error('Certificado inválido ou senha incorreta');
+  }
+
+  const chaves = [...bagsDoTipo(p12, OID_CHAVE_PKCS8), ...bagsDoTipo(p12, OID_CHAVE)];
+  const chave = chaves.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!chave) {
+    throw new Error('Certificado sem chave privada');
+  }
+
+  // Certificado do titular: o que corresponde à chave privada (ignora a cadeia da AC)
+  const certificados = bagsDoTipo(p12, OID_CERTIFICADO)
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+  const certificado = certificados.find(cert =>
+    (cert.publicKey as forge.pki.rsa.PublicKey).n.equals(chave.n)
+  );
+  if (!certificado) {
+    throw new Error('Certificado do titular não encontrado no arquivo');
+  }
+
+  const titular = String(certificado.subject.getField('CN')?.value ?? '');
+  // e-CNPJ ICP-Brasil: CN no formato "RAZAO SOCIAL:12345678000190"
+  const cnpj = /:(\d{14})$/.exec(titular)?.[1] ?? null;
+
+  return {
+    chavePrivadaPem: forge.pki.privateKeyToPem(chave),
+    certificadoBase64: forge.util.encode64(forge.asn1.toDer(forge.pki.certificateToAsn1(certificado)).getBytes()),
+    titular,
+    cnpj,
+    validoDe: certificado.validity.notBefore,
+    validoAte: certificado.validity.notAfter
+  };
+}
+
+function bagsDoTipo(p12: forge.pkcs12.Pkcs12Pfx, tipo: string): forge.pkcs12.Bag[] {
+  return p12.getBags({ bagType: tipo })[tipo] ?? [];
+}
+
+/**
+ * Assina um elemento XML (enveloped signature)
+ * O elemento deve estar na forma canônica; o namespace herdado do pai
+ * é declarado nele para o cálculo do digest, como faz a C14N
+ * @param elemento - XML do elemento assinado (ex: <infNFe Id="NFe...">...</infNFe>)
+ * @param id - Valor do atributo Id referenciado
+ * @param namespace - Namespace padrão herdado do elemento pai
+ * @returns Elemento Signature e o DigestValue (usado no QR Code em contingência)
+ */
+export function assinarElemento(
+  elemento: string,
+  id: string,
+  namespace: string,
+  certificado: CertificadoA1
+): { signature: string; digestValue: string } {
+  const canonico = elemento.replace(/^<([A-Za-z]+)/, `<$1 xmlns="${namespace}"`);
+  const digestValue = crypto.createHash('sha1').update(canonico, 'utf8').digest('base64');
+
+  const signedInfo = [
+    `<CanonicalizationMethod Algorithm="${ALG_C14N}"></CanonicalizationMethod>`,
+    `<SignatureMethod Algorithm="${NS_DSIG}rsa-sha1"></SignatureMethod>`,
+    `<Reference URI="#${id}">`,
+    '<Transforms>',
+    `<Transform Algorithm="${NS_DSIG}enveloped-signature"></Transform>`,
+    `<Transform Algorithm="${ALG_C14N}"></Transform>`,
+    '</Transforms>',
+    `<DigestMethod Algorithm="${NS_DSIG}sha1"></DigestMethod>`,
+    `<DigestValue>${digestValue}</DigestValue>`,
+    '</Reference>'
+  ].join('');
+
+  // SignedInfo canônico herda o namespace declarado em Signature
+  const signatureValue = crypto
+    .createSign('RSA-SHA1')
+    .update(`<SignedInfo xmlns="${NS_DSIG}">${signedInfo}</SignedInfo>`, 'utf8')
+    .sign(certificado.chavePrivadaPem, 'base64');
+
+  const signature = [
+    `<Signature xmlns="${NS_DSIG}">`,
+    `<SignedInfo>${signedInfo}</SignedInfo>`,
+    `<SignatureValue>${signatureValue}</SignatureValue>`,
+    `<KeyInfo><X509Data><X509Certificate>${certificado.certificadoBase64}</X509Certificate></X509Data></KeyInfo>`,
+    '</Signature>'
+  ].join('');
+
+  return { signature, digestValue };
+}
@@ -3,23 +3,48 @@
  * Orquestração completa de login, registro e gestão de usuários
  */
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Usuario } from '@prisma/client';
 import { 
   validatePasswordComplete, 
+  validatePasswordFormat,
   validateLoginFormat, 
   generateLogin, 
   generateTemporaryPassword, 
-  createInitialPassword 
+  createInitialPassword,
+  hashPassword,
+  comparePassword,
+  PasswordValidationResult
 } from './passwordService';
-import { generateTokenPair, validateRefreshToken, refreshAccessToken } from './jwtService';
+import { PasswordRule, shouldLockAccount } from '../config/credentialsRules';
+import { AuditoriaRepository } from '../repositories/AuditoriaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { generateTokenPair, validateRefreshToken } from './jwtService';
 import { cacheService } from './cacheService';
+import {
+  criarSessao,
+  findSessaoAtiva,
+  hashRefreshToken,
+  rotacionarRefreshToken,
+  revogarSessao,
+  revogarSessoesUsuario
+} from './sessaoService';
+import { obterRegrasCredenciais } from './regraCredencialService';
 
 const prisma = new PrismaClient();
 
+/**
+ * Motivos de recusa que o cliente precisa distinguir
+ * PASSWORD_EXPIRED / MUST_CHANGE_PASSWORD: senha correta, mas a troca é obrigatória antes de emitir tokens
+ * PASSWORD_REJECTED: nova senha recusada (formato ou histórico)
+ */
+export type AuthErrorCode = 'PASSWORD_EXPIRED' | 'MUST_CHANGE_PASSWORD' | 'PASSWORD_REJECTED';
+
 export interface LoginRequest {
   login: string;
   password: string;
   tenantId?: string;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
 }
 
 export interface LoginResponse {
@@ -39,9 +64,19 @@ export interface LoginResponse {
   };
   forcePasswordChange?: boolean;
   error?: string;
+  code?: AuthErrorCode;
   locked?: boolean;
 }
 
+export interface ChangePasswordRequest {
+  login: string;
+  tenantId?: string;
+  currentPassword: string;
+  newPassword: string;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
 export interface CreateUserRequest {
   nome: string;
   email?: string;
@@ -67,38 +102,19 @@ export interface CreateUserResponse {
  * @returns Resultado da autenticação
  */
 export async function authenticateUser(loginData: LoginRequest): Promise<LoginResponse> {
-  const { login, password, tenantId } = loginData;
-
-  // Validar formato do login
-  const loginValidation = validateLoginFormat(login);
-  if (!loginValidation.valid) {
-    return {
-      success: false,
-      error: loginValidation.message
-    };
-  }
+  const { login, password, tenantId, ip, userAgent } = loginData;
 
   try {
-    // Buscar usuário no banco
-    const user = await prisma.usuario.findFirst({
-      where: {
-        login,
-        tenantId: tenantId || undefined,
-        ativo: true
-      },
-      include: {
-        role: {
-          include: {
-            permissoes: {
-              include: {
-                permissao: true
-              }
-            }
-          }
-        },
-        tenant: true
-      }
-    });
+    // Validar formato do login (regras do tenant informado, ou padrão global)
+    const loginValidation = validateLoginFormat(login, (await obterRegrasCredenciais(tenantId)).login);
+    if (!loginValidation.valid) {
+      return {
+        success: false,
+        error: loginValidation.message
+      };
+    }
+
+    const user = await findUsuarioParaLogin(login, tenantId);
 
     if (!user) {
       return {
@@ -107,15 +123,9 @@ export async function authenticateUser(loginData: LoginRequest): Promise<LoginRe
       };
     }
 
-    // Validar senha com todas as regras
-    const passwordValidation = await validatePasswordComplete(
-      password,
-      user.senhaHash,
-      user.senhaExpiraEm ? new Date(user.senhaExpiraEm) : null,
-      user.tentativasLogin,
-      user.bloqueadoEm ? new Date(user.bloqueadoEm) : null,
-      user.forcarTrocaSenha
-    );
+    // Validar senha com bloqueio e expiração (falhas contam para o bloqueio)
+    const rules = (await obterRegrasCredenciais(user.tenantId)).password;
+    const passwordValidation = await verificarSenhaUsuario(user, password, rules);
 
     // Se conta bloqueada
     if (passwordValidation.accountLocked) {
@@ -128,21 +138,28 @@ export async function authenticateUser(loginData: LoginRequest): Promise<LoginRe
 
     // Se senha incorreta
     if (!passwordValidation.valid) {
-      // Incrementar tentativas falhadas
-      await prisma.usuario.update({
-        where: { id: user.id },
-        data: {
-          tentativasLogin: user.tentativasLogin + 1,
-          bloqueadoEm: user.tentativasLogin + 1 >= 5 ? new Date() : undefined
-        }
-      });
-
       return {
         success: false,
         error: passwordValidation.message
       };
     }
 
+    // Senha correta, mas a troca é obrigatória: nenhum token é emitido
+    // até POST /api/auth/change-password
+    if (passwordValidation.shouldForceChange) {
+      return passwordValidation.passwordExpired
+        ? {
+            success: false,
+            error: 'Senha expirada. Altere a senha para continuar',
+            code: 'PASSWORD_EXPIRED'
+          }
+        : {
+            success: false,
+            error: 'Troca de senha obrigatória. Altere a senha para continuar',
+            code: 'MUST_CHANGE_PASSWORD'
+          };
+    }
+
     // Extrair permissões
     const permissions = user.role.permissoes.map(rp => 
       `${rp.permissao.modulo}:${rp.permissao.acao}`
@@ -159,13 +176,23 @@ export async function authenticateUser(loginData: LoginRequest): Promise<LoginRe
       isSuperAdmin: false
     });
 
-    // Atualizar dados de login no banco
+    // Persistir sessão com hash do refresh token
+    await criarSessao({
+      sessionId: tokens.sessionId,
+      usuarioId: user.id,
+      tenantId: user.tenantId,
+      superAdmin: false,
+      refreshToken: tokens.refreshToken,
+      expiraEm: tokens.refreshTokenExpires,
+      ip,
+      userAgent
+    });
+
+    // Atualizar dados de login no banco (tentativas já zeradas na verificação)
     await prisma.usuario.update({
       where: { id: user.id },
       data: {
-        ultimoLogin: new Date(),
-        tentativasLogin: 0, // Reset tentativas
-        bloqueadoEm: null   // Desbloquear se estava bloqueado
+        ultimoLogin: new Date()
       }
     });
 
@@ -195,7 +222,7 @@ export async function authenticateUser(loginData: LoginRequest): Promise<LoginRe
         refreshToken: tokens.refreshToken,
         expiresAt: tokens.accessTokenExpires
       },
-      forcePasswordChange: passwordValidation.shouldForceChange
+      forcePasswordChange: false
     };
 
   } catch (error) {
@@ -208,23 +235,303 @@ export async function authenticateUser(loginData: LoginRequest): Promise<LoginRe
 }
 
 /**
- * Autentica super administrador
- * @param loginData - Dados de login
- * @returns Resultado da autenticação
+ * Troca a senha do usuário (obrigatória quando forcarTrocaSenha ou senha expirada)
+ * Autentica pela senha atual - funciona sem access token, já que o login não
+ * emite tokens enquanto a troca estiver pendente. Sessões existentes são
+ * revogadas e a resposta já traz um login novo com a senha trocada.
+ * @param data - Credenciais atuais e nova senha
+ * @returns Resultado do login com a nova senha
  */
-export async function authenticateSuperAdmin(loginData: LoginRequest): Promise<LoginResponse> {
-  const { login, password } = loginData;
+export async function changeUserPassword(data: ChangePasswordRequest): Promise<LoginResponse> {
+  const { login, tenantId, currentPassword, newPassword, ip, userAgent } = data;
+
+  try {
+    const user = await findUsuarioParaLogin(login, tenantId);
+
+    if (!user) {
+      return {
+        success: false,
+        error: 'Usuário não encontrado ou inativo'
+      };
+    }
+
+    const rules = (await obterRegrasCredenciais(user.tenantId)).password;
+
+    // Senha atual passa pelas mesmas regras de bloqueio do login
+    const currentValidation = await verificarSenhaUsuario(user, currentPassword, rules);
 
-  // Validar formato do login
-  const loginValidation = validateLoginFormat(login);
-  if (!loginValidation.valid) {
+    if (currentValidation.accountLocked) {
+      return {
+        success: false,
+        error: currentValidation.message,
+        locked: true
+      };
+    }
+
+    if (!currentValidation.valid) {
+      return {
+        success: false,
+        error: currentValidation.message
+      };
+    }
+
+    const formatValidation = validatePasswordFormat(newPassword, rules);
+    if (!formatValidation.valid) {
+      return {
+        success: false,
+        error: formatValidation.message,
+        code: 'PASSWORD_REJECTED'
+      };
+    }
+
+    if (await isSenhaReutilizada(user.id, user.senhaHash, newPassword, rules)) {
+      return {
+        success: false,
+        error: `A nova senha não pode repetir nenhuma das últimas ${Math.max(rules.historyCount, 1)} senhas`,
+        code: 'PASSWORD_REJECTED'
+      };
+    }
+
+    const novoHash = await hashPassword(newPassword);
+    const agora = new Date();
+    const senhaExpiraEm = rules.expirationDays > 0
+      ? new Date(agora.getTime() + rules.expirationDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const trocada = await prisma.$transaction(async (tx) => {
+      // Condicional no hash atual: duas trocas simultâneas não sobrescrevem uma à outra
+      const result = await tx.usuario.updateMany({
+        where: { id: user.id, senhaHash: user.senhaHash },
+        data: {
+          senhaHash: novoHash,
+          forcarTrocaSenha: false,
+          senhaAlteradaEm: agora,
+          senhaExpiraEm,
+          tentativasLogin: 0,
+          bloqueadoEm: null,
+          usuarioUltimaAtualizacao: user.id
+        }
+      });
+
+      if (result.count !== 1) return false;
+
+      await tx.historicoSenha.create({
+        data: {
+          usuarioId: user.id,
+          senhaHash: user.senhaHash
+        }
+      });
+
+      await new AuditoriaRepository(tx as TransactionClient).registrar({
+        entidade: 'Usuario',
+        entidadeId: user.id,
+        acao: 'UPDATE',
+        alteracoes: {
+          senhaHash: { antes: '***', depois: '***' },
+          forcarTrocaSenha: { antes: user.forcarTrocaSenha, depois: false }
+        },
+        usuarioId: user.id,
+        tenantId: user.tenantId
+      });
+
+      return true;
+    });
+
+    if (!trocada) {
+      return {
+        success: false,
+        error: 'A senha foi alterada por outra requisição. Faça login novamente'
+      };
+    }
+
+    // Tokens emitidos com a senha antiga deixam de valer
+    await revogarSessoesUsuario(user.id, 'SENHA_ALTERADA');
+    cacheService.delete(`user:${user.id}`);
+
+    return await authenticateUser({
+      login: user.login,
+      password: newPassword,
+      tenantId: user.tenantId,
+      ip,
+      userAgent
+    });
+
+  } catch (error) {
+    console.error('[AUTH] Erro ao trocar senha:', error);
     return {
       success: false,
-      error: loginValidation.message
+      error: 'Erro interno do servidor'
     };
   }
+}
+
+/**
+ * Busca usuário ativo para login, com role e permissões
+ */
+async function findUsuarioParaLogin(login: string, tenantId?: string) {
+  return await prisma.usuario.findFirst({
+    where: {
+      login,
+      tenantId: tenantId || undefined,
+      ativo: true
+    },
+    include: {
+      role: {
+        include: {
+          permissoes: {
+            include: {
+              permissao: true
+            }
+          }
+        }
+      },
+      tenant: true
+    }
+  });
+}
+
+/**
+ * Confere a senha do usuário aplicando bloqueio e expiração
+ * - Bloqueio vencido é liberado e as tentativas zeradas antes da verificação
+ * - Senha incorreta incrementa as tentativas e bloqueia ao atingir o limite
+ * - Senha correta zera as tentativas
+ */
+async function verificarSenhaUsuario(
+  user: Usuario,
+  password: string,
+  rules: PasswordRule
+): Promise<PasswordValidationResult> {
+  let tentativas = user.tentativasLogin;
+  let bloqueadoEm = user.bloqueadoEm;
+
+  // Período de bloqueio passou: nova falha não deve bloquear de imediato
+  if (bloqueadoEm && !shouldLockAccount(tentativas, bloqueadoEm, rules).locked) {
+    await prisma.usuario.updateMany({
+      where: { id: user.id, bloqueadoEm },
+      data: { tentativasLogin: 0, bloqueadoEm: null }
+    });
+    tentativas = 0;
+    bloqueadoEm = null;
+  }
+
+  const validation = await validatePasswordComplete(
+    password,
+    user.senhaHash,
+    user.senhaAlteradaEm ?? user.dataCadastro,
+    tentativas,
+    bloqueadoEm,
+    user.forcarTrocaSenha,
+    rules
+  );
+
+  if (validation.accountLocked) {
+    return validation;
+  }
+
+  if (!validation.valid) {
+    const bloqueou = await registrarFalhaLogin(user.id, rules);
+
+    return bloqueou
+      ? {
+          valid: false,
+          message: `Conta bloqueada após ${rules.maxFailedAttempts} tentativas. Tente novamente em ${rules.lockoutMinutes} minutos`,
+          accountLocked: true,
+          lockoutMinutes: rules.lockoutMinutes
+        }
+      : validation;
+  }
+
+  if (tentativas > 0) {
+    await prisma.usuario.update({
+      where: { id: user.id },
+      data: {
+        tentativasLogin: 0, // Reset tentativas
+        bloqueadoEm: null
+      }
+    });
+  }
+
+  return validation;
+}
+
+/**
+ * Registra tentativa falhada com incremento atômico (logins simultâneos não se perdem)
+ * @returns true se esta falha bloqueou a conta
+ */
+async function registrarFalhaLogin(usuarioId: string, rules: PasswordRule): Promise<boolean> {
+  const atualizado = await prisma.usuario.update({
+    where: { id: usuarioId },
+    data: { tentativasLogin: { increment: 1 } },
+    select: { tentativasLogin: true }
+  });
+
+  if (rules.maxFailedAttempts <= 0 || atualizado.tentativasLogin < rules.maxFailedAttempts) {
+    return false;
+  }
+
+  const result = await prisma.usuario.updateMany({
+    where: { id: usuarioId, bloqueadoEm: null },
+    data: { bloqueadoEm: new Date() }
+  });
+
+  return result.count === 1;
+}
+
+/**
+ * Verifica se a nova senha repete a atual ou uma das últimas senhas do histórico
+ * historyCount inclui a senha atual
+ */
+async function isSenhaReutilizada(
+  usuarioId: string,
+  senhaHashAtual: string,
+  novaSenha: string,
+  rules: PasswordRule
+): Promise<boolean> {
+  if (await comparePassword(novaSenha, senhaHashAtual)) {
+    return true;
+  }
+
+  if (rules.historyCount <= 1) {
+    return false;
+  }
+
+  const historico = await prisma.historicoSenha.findMany({
+    where: { usuarioId },
+    orderBy: { dataCadastro: 'desc' },
+    take: rules.historyCount - 1,
+    select: { senhaHash: true }
+  });
+
+  for (const { senhaHash } of historico) {
+    if (await comparePassword(novaSenha, senhaHash)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Autentica super administrador
+ * @param loginData - Dados de login
+ * @returns Resultado da autenticação
+ */
+export async function authenticateSuperAdmin(loginData: LoginRequest): Promise<LoginResponse> {
+  const { login, password, ip, userAgent } = loginData;
 
   try {
+    // Super Admin segue o padrão global
+    const rules = await obterRegrasCredenciais(null);
+
+    // Validar formato do login
+    const loginValidation = validateLoginFormat(login, rules.login);
+    if (!loginValidation.valid) {
+      return {
+        success: false,
+        error: loginValidation.message
+      };
+    }
+
     // Buscar super admin no banco
     const superAdmin = await prisma.superAdmin.findUnique({
       where: {
@@ -247,7 +554,8 @@ export async function authenticateSuperAdmin(loginData: LoginRequest): Promise<L
       superAdmin.senhaExpiraEm ? new Date(superAdmin.senhaExpiraEm) : null,
       0, // Super admin não tem limite de tentativas
       null,
-      superAdmin.forcarTrocaSenha
+      superAdmin.forcarTrocaSenha,
+      rules.password
     );
 
     if (!passwordValidation.valid) {
@@ -268,6 +576,17 @@ export async function authenticateSuperAdmin(loginData: LoginRequest): Promise<L
       isSuperAdmin: true
     });
 
+    await criarSessao({
+      sessionId: tokens.sessionId,
+      usuarioId: superAdmin.id,
+      tenantId: 'super-admin',
+      superAdmin: true,
+      refreshToken: tokens.refreshToken,
+      expiraEm: tokens.refreshTokenExpires,
+      ip,
+      userAgent
+    });
+
     // Atualizar último login
     await prisma.superAdmin.update({
       where: { id: superAdmin.id },
@@ -304,13 +623,16 @@ export async function authenticateSuperAdmin(loginData: LoginRequest): Promise<L
 }
 
 /**
- * Renova access token usando refresh token
+ * Renova tokens usando refresh token (rotação)
+ * Cada refresh token vale uma única vez: o uso de um token já rotacionado
+ * indica roubo e revoga a sessão inteira
  * @param refreshToken - Refresh token válido
- * @returns Novo access token ou erro
+ * @returns Novo par de tokens ou erro
  */
 export async function refreshUserToken(refreshToken: string): Promise<{
   success: boolean;
   accessToken?: string;
+  refreshToken?: string;
   expiresAt?: Date;
   error?: string;
 }> {
@@ -324,57 +646,62 @@ export async function refreshUserToken(refreshToken: string): Promise<{
   }
 
   try {
+    const sessao = await findSessaoAtiva(refreshPayload.sessionId);
+
+    if (!sessao) {
+      return {
+        success: false,
+        error: 'Sessão encerrada ou expirada'
+      };
+    }
+
+    // Token assinado da sessão, mas não é o mais recente: reuso
+    if (hashRefreshToken(refreshToken) !== sessao.refreshTokenHash) {
+      await revogarSessao(sessao.id, 'REUSO_DETECTADO');
+      console.warn(`[AUTH] Reuso de refresh token detectado - sessão ${sessao.id} revogada`);
+      return {
+        success: false,
+        error: 'Refresh token já utilizado - sessão revogada por segurança'
+      };
+    }
+
     // Buscar dados atualizados do usuário
-    const user = await prisma.usuario.findUnique({
-      where: { 
-        id: refreshPayload.userId,
-        ativo: true 
-      },
-      include: {
-        role: {
-          include: {
-            permissoes: {
-              include: {
-                permissao: true
-              }
-            }
-          }
-        }
-      }
-    });
+    const tokenData = sessao.superAdmin
+      ? await getSuperAdminTokenData(sessao.usuarioId)
+      : await getUserTokenData(sessao.usuarioId);
 
-    if (!user) {
+    if (!tokenData) {
+      await revogarSessao(sessao.id, 'LOGOUT');
       return {
         success: false,
         error: 'Usuário não encontrado ou inativo'
       };
     }
 
-    // Extrair permissões atualizadas
-    const permissions = user.role.permissoes.map(rp => 
-      `${rp.permissao.modulo}:${rp.permissao.acao}`
-    );
+    const tokens = generateTokenPair(tokenData, sessao.id);
 
-    // Gerar novo access token
-    const newAccessToken = refreshAccessToken(refreshToken, {
-      roleId: user.roleId,
-      roleName: user.role.nome,
-      permissions,
-      login: user.login,
-      isSuperAdmin: false
-    });
+    // Outro refresh concorrente com o mesmo token venceu: também é reuso
+    const rotacionado = await rotacionarRefreshToken(
+      sessao.id,
+      refreshToken,
+      tokens.refreshToken,
+      tokens.refreshTokenExpires
+    );
 
-    if (!newAccessToken) {
+    if (!rotacionado) {
+      await revogarSessao(sessao.id, 'REUSO_DETECTADO');
+      console.warn(`[AUTH] Refresh concorrente com o mesmo token - sessão ${sessao.id} revogada`);
       return {
         success: false,
-        error: 'Falha ao gerar novo token'
+        error: 'Refresh token já utilizado - sessão revogada por segurança'
       };
     }
 
     return {
       success: true,
-      accessToken: newAccessToken,
-      expiresAt: new Date(Date.now() + 15 * 60 * 1000) // 15 minutos
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.accessTokenExpires
     };
 
   } catch (error) {
@@ -386,6 +713,76 @@ export async function refreshUserToken(refreshToken: string): Promise<{
   }
 }
 
+/**
+ * Encerra a sessão do usuário (logout)
+ * @param sessionId - Sessão do access token
+ * @param userId - Dono da sessão
+ */
+export async function logoutUser(sessionId: string, userId: string): Promise<boolean> {
+  return await revogarSessao(sessionId, 'LOGOUT', userId);
+}
+
+/**
+ * Dados atualizados de usuário regular para emissão de tokens
+ */
+async function getUserTokenData(userId: string) {
+  const user = await prisma.usuario.findUnique({
+    where: { 
+      id: userId,
+      ativo: true 
+    },
+    include: {
+      role: {
+        include: {
+          permissoes: {
+            include: {
+              permissao: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  if (!user) return null;
+
+  return {
+    userId: user.id,
+    login: user.login,
+    tenantId: user.tenantId,
+    roleId: user.roleId,
+    roleName: user.role.nome,
+    permissions: user.role.permissoes.map(rp => 
+      `${rp.permissao.modulo}:${rp.permissao.acao}`
+    ),
+    isSuperAdmin: false
+  };
+}
+
+/**
+ * Dados atualizados de super admin para emissão de tokens
+ */
+async function getSuperAdminTokenData(superAdminId: string) {
+  const superAdmin = await prisma.superAdmin.findUnique({
+    where: {
+      id: superAdminId,
+      ativo: true
+    }
+  });
+
+  if (!superAdmin) return null;
+
+  return {
+    userId: superAdmin.id,
+    login: superAdmin.login,
+    tenantId: 'super-admin',
+    roleId: 'super-admin',
+    roleName: 'Super Admin',
+    permissions: ['*'],
+    isSuperAdmin: true
+  };
+}
+
 /**
  * Cria novo usuário (apenas SuperAdmin pode)
  * @param userData - Dados do usuário
@@ -421,8 +818,11 @@ export async function createUser(userData: CreateUserRequest): Promise<CreateUse
       };
     }
 
+    // Regras de credenciais do tenant
+    const rules = await obterRegrasCredenciais(userData.tenantId);
+
     // Gerar login único
-    let login = generateLogin(userData.nome);
+    let login = generateLogin(userData.nome, rules.login);
     let attempts = 0;
     
     // Garantir que o login é único
@@ -434,7 +834,7 @@ export async function createUser(userData: CreateUserRequest): Promise<CreateUse
       if (!existingUser) break;
       
       // Gerar novo login se já existe
-      login = generateLogin(userData.nome);
+      login = generateLogin(userData.nome, rules.login);
       attempts++;
     }
 
@@ -446,8 +846,8 @@ export async function createUser(userData: CreateUserRequest): Promise<CreateUse
     }
 
     // Gerar senha temporária
-    const temporaryPassword = generateTemporaryPassword();
-    const passwordData = await createInitialPassword(temporaryPassword, true);
+    const temporaryPassword = generateTemporaryPassword(rules.password);
+    const passwordData = await createInitialPassword(temporaryPassword, rules.password.forceChangeOnFirstLogin);
 
     // Criar usuário
     const newUser = await prisma.usuario.create({
@@ -0,0 +1,449 @@
+/**
+ * Caixa Service - Turnos de caixa com Unit of Work + CQRS
+ * Abertura com fundo de troco, sangria/suprimento, fechamento cego e relatório Z
+ */
+
+import { IUnitOfWork } from '../repositories/IUnitOfWork';
+import { BaseCommand, CommandResult, ICommandHandler } from '../patterns/CQRS';
+import { AuthContext } from '../config/jwtConfig';
+import { CaixaRepository, TipoMovimentoCaixa } from '../repositories/CaixaRepository';
+import { buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { hasPermission } from './jwtService';
+
+// Perfil de operador de caixa (USER_PROFILES.CAIXA no frontend)
+const PERFIS_CAIXA = ['CAIXA', 'OPERADOR DE CAIXA'];
+
+/**
+ * Perfil (Role.nome) de operador de caixa
+ */
+export const isPerfilCaixa = (roleName: string): boolean =>
+  PERFIS_CAIXA.includes(roleName.trim().toUpperCase());
+
+/**
+ * Operadores de caixa só vendem com sessão de caixa aberta
+ */
+export const isOperadorCaixa = (auth: AuthContext): boolean =>
+  !auth.isSuperAdmin && isPerfilCaixa(auth.roleName);
+
+// ====================================
+// DTOs
+// ====================================
+
+export interface AbrirCaixaDto {
+  valorAbertura: number;
+  terminal?: string;
+}
+
+export interface MovimentoCaixaDto {
+  tipo: TipoMovimentoCaixa;
+  valor: number;
+  motivo?: string;
+}
+
+export interface FecharCaixaDto {
+  // Contagem cega por forma de pagamento; formas não informadas contam como zero
+  contagem: Record<string, number>;
+  observacoes?: string;
+}
+
+/**
+ * Relatório Z - congelado em SessaoCaixa.resumoFechamento no fechamento
+ * Só números, textos e datas ISO: é gravado como Json sem conversão
+ * (type em vez de interface para ser atribuível a Prisma.InputJsonValue)
+ */
+export type RelatorioZ = {
+  sessaoId: string;
+  terminal: string;
+  operadorId: string;
+  dataAbertura: string;
+  dataFechamento: string;
+  usuarioFechamento: string;
+  quantidadeVendas: number;
+  vendasCanceladas: number;
+  totalVendas: number;
+  valorAbertura: number;
+  suprimentos: number;
+  sangrias: number;
+  troco: number;
+  devolucoes?: number; // Ausente em relatórios Z anteriores às devoluções
+  formas: { forma: string; esperado: number; contado: number; diferenca: number }[];
+  totalEsperado: number;
+  totalContado: number;
+  diferencaTotal: number;
+  observacoes: string | null;
+};
+
+// ====================================
+// COMMANDS
+// ====================================
+
+export class AbrirCaixaCommand extends BaseCommand {
+  constructor(
+    public readonly data: AbrirCaixaDto,
+    auth: AuthContext
+  ) {
+    super(auth);
+  }
+}
+
+export class MovimentarCaixaCommand extends BaseCommand {
+  public readonly supervisor: boolean;
+
+  constructor(
+    public readonly sessaoId: string,
+    public readonly data: MovimentoCaixaDto,
+    auth: AuthContext
+  ) {
+    super(auth);
+    this.supervisor = hasPermission(auth, 'caixa:supervise');
+  }
+}
+
+export class FecharCaixaCommand extends BaseCommand {
+  public readonly supervisor: boolean;
+
+  constructor(
+    public readonly sessaoId: string,
+    public readonly data: FecharCaixaDto,
+    auth: AuthContext
+  ) {
+    super(auth);
+    this.supervisor = hasPermission(auth, 'caixa:supervise');
+  }
+}
+
+/**
+ * Erro que aborta a transação da operação de caixa
+ */
+class CaixaRejectedError extends Error {
+  constructor(message: string, public readonly validationErrors: string[] = []) {
+    super(message);
+  }
+}
+
+const arredondar = (valor: number): number => Math.round(valor * 100) / 100;
+
+// ====================================
+// COMMAND HANDLERS
+// ====================================
+
+export class AbrirCaixaCommandHandler implements ICommandHandler<AbrirCaixaCommand> {
+
+  async handle(command: AbrirCaixaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId } = command;
+    const { valorAbertura, terminal = '1' } = command.data;
+
+    const caixaRepo = new CaixaRepository(uow.client);
+
+    if (await caixaRepo.findSessaoAberta(tenantId, userId)) {
+      return {
+        success: false,
+        error: 'Operador já possui caixa aberto'
+      };
+    }
+
+    // chaveAberta é única: abertura concorrente do mesmo operador falha no banco
+    const sessao = await uow.client.sessaoCaixa.create({
+      data: {
+        operadorId: userId,
+        terminal,
+        chaveAberta: CaixaRepository.chaveAberta(tenantId, userId),
+        valorAbertura,
+        tenantId,
+        usuarioCadastro: userId,
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    await uow.logAudit('SessaoCaixa', sessao.id, 'CREATE', buildAuditDiff(null, sessao), userId, tenantId);
+
+    await uow.publishDomainEvent(
+      'CaixaAberto',
+      sessao.id,
+      { operadorId: userId, terminal, valorAbertura },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: sessao,
+      affectedRows: 1
+    };
+  }
+}
+
+export class MovimentarCaixaCommandHandler implements ICommandHandler<MovimentarCaixaCommand> {
+
+  /**
+   * Sangria não pode retirar mais dinheiro do que o esperado na gaveta
+   */
+  async handle(command: MovimentarCaixaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, sessaoId, supervisor } = command;
+    const { tipo, valor, motivo } = command.data;
+
+    const caixaRepo = new CaixaRepository(uow.client);
+
+    const sessao = await caixaRepo.findById(sessaoId, tenantId);
+    if (!sessao || sessao.status !== 'ABERTA') {
+      return {
+        success: false,
+        error: 'Sessão de caixa não encontrada ou já fechada'
+      };
+    }
+
+    if (sessao.operadorId !== userId && !supervisor) {
+      throw new CaixaRejectedError('Movimento não permitido', [
+        'Apenas o operador da sessão ou um supervisor (caixa:supervise) pode movimentar este caixa'
+      ]);
+    }
+
+    if (tipo === 'SANGRIA') {
+      const totais = await caixaRepo.calcularTotais(sessao);
+      const dinheiroEsperado = arredondar(totais.esperadoPorForma['DINHEIRO'] ?? 0);
+      if (valor > dinheiroEsperado) {
+        // Sem informar o esperado: o fechamento é cego
+        throw new CaixaRejectedError('Sangria maior que o dinheiro em caixa', [
+          'Valor da sangria excede o dinheiro esperado na gaveta'
+        ]);
+      }
+    }
+
+    const movimento = await caixaRepo.registrarMovimento({
+      sessaoCaixaId: sessao.id,
+      tipo,
+      valor,
+      motivo,
+      usuarioId: userId
+    });
+
+    await uow.logAudit('SessaoCaixa', sessao.id, 'UPDATE', {
+      movimento: { antes: null, depois: { tipo, valor, motivo: motivo ?? null } }
+    }, userId, tenantId);
+
+    await uow.publishDomainEvent(
+      tipo === 'SANGRIA' ? 'CaixaSangria' : 'CaixaSuprimento',
+      sessao.id,
+      { movimentoId: movimento.id, valor, motivo },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: movimento,
+      affectedRows: 1
+    };
+  }
+}
+
+export class FecharCaixaCommandHandler implements ICommandHandler<FecharCaixaCommand> {
+
+  /**
+   * Fechamento cego: compara a contagem informada com o esperado e congela o relatório Z
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: FecharCaixaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, sessaoId, supervisor } = command;
+    const { contagem, observacoes } = command.data;
+
+    const caixaRepo = new CaixaRepository(uow.client);
+
+    const sessao = await caixaRepo.findById(sessaoId, tenantId);
+    if (!sessao || sessao.status !== 'ABERTA') {
+      return {
+        success: false,
+        error: 'Sessão de caixa não encontrada ou já fechada'
+      };
+    }
+
+    if (sessao.operadorId !== userId && !supervisor) {
+      throw new CaixaRejectedError('Fechamento não permitido', [
+        'Apenas o operador da sessão ou um supervisor (caixa:supervise) pode fechar este caixa'
+      ]);
+    }
+
+    const totais = await caixaRepo.calcularTotais(sessao);
+    const dataFechamento = new Date();
+
+    const formas = [...new Set([...Object.keys(totais.esperadoPorForma), ...Object.keys(contagem)])];
+    const linhas = formas.map(forma => {
+      const esperado = arredondar(totais.esperadoPorForma[forma] ?? 0);
+      const contado = arredondar(contagem[forma] ?? 0);
+      return { forma, esperado, contado, diferenca: arredondar(contado - esperado) };
+    });
+
+    const totalEsperado = arredondar(linhas.reduce((sum, l) => sum + l.esperado, 0));
+    const totalContado = arredondar(linhas.reduce((sum, l) => sum + l.contado, 0));
+    const diferencaTotal = arredondar(totalContado - totalEsperado);
+
+    const relatorioZ: RelatorioZ = {
+      sessaoId: sessao.id,
+      terminal: sessao.terminal,
+      operadorId: sessao.operadorId,
+      dataAbertura: sessao.dataAbertura.toISOString(),
+      dataFechamento: dataFechamento.toISOString(),
+      usuarioFechamento: userId,
+      quantidadeVendas: totais.quantidadeVendas,
+      vendasCanceladas: totais.vendasCanceladas,
+      totalVendas: arredondar(totais.totalVendas),
+      valorAbertura: totais.valorAbertura,
+      suprimentos: arredondar(totais.suprimentos),
+      sangrias: arredondar(totais.sangrias),
+      troco: arredondar(totais.troco),
+      devolucoes: arredondar(totais.devolucoes),
+      formas: linhas,
+      totalEsperado,
+      totalContado,
+      diferencaTotal,
+      observacoes: observacoes ?? null
+    };
+
+    // Condicional no status: dois fechamentos concorrentes não geram dois relatórios Z
+    const result = await uow.client.sessaoCaixa.updateMany({
+      where: { id: sessao.id, status: 'ABERTA' },
+      data: {
+        status: 'FECHADA',
+        chaveAberta: null,
+        dataFechamento,
+        usuarioFechamento: userId,
+        contagem,
+        resumoFechamento: relatorioZ,
+        diferencaTotal,
+        observacoes: observacoes ?? null,
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    if (result.count !== 1) {
+      throw new CaixaRejectedError('Sessão de caixa já foi fechada por outra operação');
+    }
+
+    await uow.logAudit('SessaoCaixa', sessao.id, 'UPDATE', buildAuditDiff(sessao, {
+      status: 'FECHADA',
+      dataFechamento,
+      usuarioFechamento: userId,
+      diferencaTotal
+    }), userId, tenantId);
+
+    await uow.publishDomainEvent(
+      'CaixaFechado',
+      sessao.id,
+      { operadorId: sessao.operadorId, totalEsperado, totalContado, diferencaTotal },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: relatorioZ,
+      affectedRows: 1
+    };
+  }
+}
+
+// ====================================
+// RELATÓRIO Z
+// ====================================
+
+const LARGURA_CUPOM = 40;
+
+const linhaCupom = (rotulo: string, valor: string): string =>
+  rotulo + valor.padStart(LARGURA_CUPOM - rotulo.length, ' ');
+
+const moeda = (valor: number): string => valor.toFixed(2).replace('.', ',');
+
+/**
+ * Relatório Z em texto para impressora térmica (40 colunas)
+ */
+export const formatarRelatorioZ = (relatorio: RelatorioZ): string => {
+  const separador = '-'.repeat(LARGURA_CUPOM);
+  const dataHora = (iso: string) => new Date(iso).toLocaleString('pt-BR');
+
+  const linhas = [
+    'RELATORIO Z - FECHAMENTO DE CAIXA'.padStart(37, ' '),
+    separador,
+    linhaCupom('Terminal:', relatorio.terminal),
+    linhaCupom('Operador:', relatorio.operadorId),
+    linhaCupom('Abertura:', dataHora(relatorio.dataAbertura)),
+    linhaCupom('Fechamento:', dataHora(relatorio.dataFechamento)),
+    separador,
+    linhaCupom('Vendas:', String(relatorio.quantidadeVendas)),
+    linhaCupom('Canceladas:', String(relatorio.vendasCanceladas)),
+    linhaCupom('Total vendido:', moeda(relatorio.totalVendas)),
+    linhaCupom('Troco entregue:', moeda(relatorio.troco)),
+    linhaCupom('Devoluções:', moeda(relatorio.devolucoes ?? 0)),
+    separador,
+    linhaCupom('Fundo de troco:', moeda(relatorio.valorAbertura)),
+    linhaCupom('Suprimentos:', moeda(relatorio.suprimentos)),
+    linhaCupom('Sangrias:', moeda(relatorio.sangrias)),
+    separador,
+    'FORMA           ESPERADO  CONTADO   DIF.'
+  ];
+
+  for (const forma of relatorio.formas) {
+    linhas.push(
+      forma.forma.slice(0, 14).padEnd(14, ' ') +
+      moeda(forma.esperado).padStart(10, ' ') +
+      moeda(forma.contado).padStart(9, ' ') +
+      moeda(forma.diferenca).padStart(7, ' ')
+    );
+  }
+
+  linhas.push(
+    separador,
+    linhaCupom('Total esperado:', moeda(relatorio.totalEsperado)),
+    linhaCupom('Total contado:', moeda(relatorio.totalContado)),
+    linhaCupom(relatorio.diferencaTotal < 0 ? 'FALTA:' : relatorio.diferencaTotal > 0 ? 'SOBRA:' : 'Diferença:', moeda(Math.abs(relatorio.diferencaTotal))),
+    separador
+  );
+
+  if (relatorio.observacoes) {
+    linhas.push(`Obs: ${relatorio.observacoes}`);
+  }
+
+  return linhas.join('\n') + '\n';
+};
+
+// ====================================
+// SERVICE CLASS (Facade)
+// ====================================
+
+/**
+ * Caixa Service - Facade usando UoW + CQRS
+ */
+export class CaixaService {
+  constructor(private uow: IUnitOfWork) {}
+
+  async abrir(data: AbrirCaixaDto, auth: AuthContext): Promise<CommandResult> {
+    return await this.execute(new AbrirCaixaCommand(data, auth), new AbrirCaixaCommandHandler());
+  }
+
+  async movimentar(sessaoId: string, data: MovimentoCaixaDto, auth: AuthContext): Promise<CommandResult> {
+    return await this.execute(new MovimentarCaixaCommand(sessaoId, data, auth), new MovimentarCaixaCommandHandler());
+  }
+
+  async fechar(sessaoId: string, data: FecharCaixaDto, auth: AuthContext): Promise<CommandResult> {
+    return await this.execute(new FecharCaixaCommand(sessaoId, data, auth), new FecharCaixaCommandHandler());
+  }
+
+  /**
+   * Executa o handler em transação, convertendo rejeições de negócio em CommandResult
+   */
+  private async execute<TCommand extends BaseCommand>(
+    command: TCommand,
+    handler: ICommandHandler<TCommand>
+  ): Promise<CommandResult> {
+    try {
+      return await this.uow.executeInTransaction(async (uow) => {
+        return await handler.handle(command, uow);
+      });
+    } catch (error) {
+      if (error instanceof CaixaRejectedError) {
+        return {
+          success: false,
+          error: error.message,
+          validationErrors: error.validationErrors
+        };
+      }
+      throw error;
+    }
+  }
+}
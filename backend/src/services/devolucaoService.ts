@@ -0,0 +1,342 @@
+/**
+ * Devolução Service - Devolução parcial de itens com Unit of Work + CQRS
+ * Reembolso ou vale-troca, com retorno ao estoque ou baixa como perda
+ */
+
+import crypto from 'crypto';
+import { IUnitOfWork } from '../repositories/IUnitOfWork';
+import { BaseCommand, CommandResult, ICommandHandler } from '../patterns/CQRS';
+import { AuthContext } from '../config/jwtConfig';
+import { EstoqueRepository } from '../repositories/EstoqueRepository';
+import { CaixaRepository } from '../repositories/CaixaRepository';
+import { buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { isOperadorCaixa } from './caixaService';
+import { arredondarQuantidade, validarQuantidade } from './unidadeMedidaService';
+
+// ====================================
+// DTOs
+// ====================================
+
+export const TIPOS_REEMBOLSO = ['REEMBOLSO', 'VALE_TROCA'];
+
+// Formas em que o valor volta ao cliente (mesmos meios do PDV)
+export const FORMAS_REEMBOLSO = ['DINHEIRO', 'CARTAO_DEBITO', 'CARTAO_CREDITO', 'PIX'];
+
+// ESTOQUE = item revendável; PERDA = avariado, não volta ao saldo
+export const DESTINOS_DEVOLUCAO = ['ESTOQUE', 'PERDA'];
+
+const ALFABETO_VALE = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TAMANHO_VALE = 8;
+
+export interface DevolucaoItemDto {
+  itemVendaId: string;
+  quantidade: number;
+  destino?: string;
+}
+
+export interface RegistrarDevolucaoDto {
+  vendaId: string;
+  motivo: string;
+  tipoReembolso: string;
+  formaReembolso?: string;
+  itens: DevolucaoItemDto[];
+}
+
+// ====================================
+// COMMANDS
+// ====================================
+
+export class RegistrarDevolucaoCommand extends BaseCommand {
+  public readonly operadorCaixa: boolean;
+
+  constructor(
+    public readonly data: RegistrarDevolucaoDto,
+    auth: AuthContext
+  ) {
+    super(auth);
+    this.operadorCaixa = isOperadorCaixa(auth);
+  }
+}
+
+// ====================================
+// HELPERS
+// ====================================
+
+/**
+ * Erro que aborta a transação da devolução
+ */
+class DevolucaoRejectedError extends Error {
+  constructor(message: string, public readonly validationErrors: string[] = []) {
+    super(message);
+  }
+}
+
+const toCentavos = (valor: number): number => Math.round(valor * 100);
+
+/**
+ * Código do vale-troca: VT + 8 caracteres sem ambiguidade (sem 0/O, 1/I)
+ */
+const gerarCodigoValeTroca = (): string =>
+  'VT' + Array.from(
+    { length: TAMANHO_VALE },
+    () => ALFABETO_VALE[crypto.randomInt(ALFABETO_VALE.length)]
+  ).join('');
+
+// ====================================
+// COMMAND HANDLERS
+// ====================================
+
+export class RegistrarDevolucaoCommandHandler implements ICommandHandler<RegistrarDevolucaoCommand> {
+
+  /**
+   * Registra a devolução de itens de uma venda finalizada
+   * - Quantidade devolvida nunca excede a vendida (somando devoluções anteriores)
+   * - Valor de cada item rateia descontos e acréscimos da venda
+   * - ESTOQUE gera ENTRADA vinculada ao item; PERDA não movimenta o saldo
+   * - VALE_TROCA emite um vale com o valor, resgatável como pagamento em outra venda
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: RegistrarDevolucaoCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId } = command;
+    const { vendaId, motivo, tipoReembolso, formaReembolso, itens } = command.data;
+
+    const estoqueRepo = new EstoqueRepository(uow.client);
+
+    const venda = await uow.client.venda.findFirst({
+      where: { id: vendaId, tenantId },
+      include: { itens: { include: { produto: { select: { unidadeMedida: true } } } } }
+    });
+
+    if (!venda || venda.status !== 'FINALIZADA') {
+      return {
+        success: false,
+        error: 'Venda não encontrada ou não permite devolução'
+      };
+    }
+
+    const errors: string[] = [];
+    const devolvidos = [];
+    for (const [index, linha] of itens.entries()) {
+      const item = venda.itens.find(i => i.id === linha.itemVendaId && i.status !== 'REMOVIDO');
+      const disponivel = item ? arredondarQuantidade(Number(item.quantidade) - Number(item.quantidadeDevolvida)) : 0;
+      const erroQuantidade = item && validarQuantidade(linha.quantidade, item.produto.unidadeMedida);
+      if (!item) {
+        errors.push(`Item ${linha.itemVendaId} não pertence a esta venda`);
+      } else if (itens.findIndex(l => l.itemVendaId === linha.itemVendaId) !== index) {
+        errors.push(`Item ${linha.itemVendaId} informado mais de uma vez`);
+      } else if (item.status === 'ESTORNADA') {
+        errors.push(`Item ${linha.itemVendaId} já foi estornado`);
+      } else if (erroQuantidade) {
+        errors.push(`Item ${linha.itemVendaId}: ${erroQuantidade}`);
+      } else if (linha.quantidade > disponivel) {
+        errors.push(
+          `Item ${linha.itemVendaId}: quantidade excede a vendida (disponível ${disponivel}, solicitado ${linha.quantidade})`
+        );
+      } else {
+        devolvidos.push({ item, quantidade: linha.quantidade, destino: linha.destino ?? 'ESTOQUE' });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new DevolucaoRejectedError('Itens inválidos para devolução', errors);
+    }
+
+    // Reembolso sai do caixa do operador: operador de caixa precisa de caixa aberto
+    const sessaoCaixa = tipoReembolso === 'REEMBOLSO'
+      ? await new CaixaRepository(uow.client).findSessaoAberta(tenantId, userId)
+      : null;
+    if (tipoReembolso === 'REEMBOLSO' && !sessaoCaixa && command.operadorCaixa) {
+      throw new DevolucaoRejectedError('Caixa fechado', [
+        'Abra o caixa antes de reembolsar devoluções'
+      ]);
+    }
+
+    // Descontos e acréscimos da venda rateados proporcionalmente ao subtotal dos itens
+    const preco = Number(venda.preco);
+    const fator = preco > 0 ? Number(venda.total) / preco : 0;
+    const linhas = devolvidos.map(({ item, quantidade, destino }) => ({
+      itemVendaId: item.id,
+      produtoId: item.produtoId,
+      quantidade,
+      destino,
+      centavos: toCentavos(Number(item.subtotal) * (quantidade / Number(item.quantidade)) * fator)
+    }));
+
+    // Arredondamentos de devoluções sucessivas nunca ultrapassam o valor pago
+    const saldoVenda = toCentavos(Number(venda.total)) -
+      toCentavos(Number(venda.valorEstornado)) -
+      toCentavos(Number(venda.valorDevolvido));
+    let excedente = linhas.reduce((sum, l) => sum + l.centavos, 0) - saldoVenda;
+    for (const linha of [...linhas].reverse()) {
+      if (excedente <= 0) break;
+      const ajuste = Math.min(excedente, linha.centavos);
+      linha.centavos -= ajuste;
+      excedente -= ajuste;
+    }
+    const valor = linhas.reduce((sum, l) => sum + l.centavos, 0) / 100;
+
+    if (tipoReembolso === 'VALE_TROCA' && valor <= 0) {
+      throw new DevolucaoRejectedError('Devolução sem valor para vale-troca', [
+        'Os itens devolvidos não têm valor a creditar'
+      ]);
+    }
+
+    // Condicional na quantidade lida: devoluções simultâneas do mesmo item não somam além do vendido
+    for (const { item, quantidade } of devolvidos) {
+      const atualizado = await uow.client.itemVenda.updateMany({
+        where: { id: item.id, status: 'FINALIZADA', quantidadeDevolvida: item.quantidadeDevolvida },
+        data: { quantidadeDevolvida: { increment: quantidade } }
+      });
+
+      if (atualizado.count !== 1) {
+        throw new DevolucaoRejectedError('Itens inválidos para devolução', [
+          'Um ou mais itens foram devolvidos ou estornados por outra operação'
+        ]);
+      }
+    }
+
+    // Condicional no status: venda cancelada em paralelo não recebe devolução
+    const dataDevolucao = new Date();
+    const vendaAtualizada = await uow.client.venda.updateMany({
+      where: { id: venda.id, tenantId, status: 'FINALIZADA' },
+      data: {
+        valorDevolvido: { increment: valor },
+        dataUltimaAtualizacao: dataDevolucao,
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    if (vendaAtualizada.count !== 1) {
+      throw new DevolucaoRejectedError('Venda não permite devolução', [
+        'A venda foi cancelada por outra operação'
+      ]);
+    }
+
+    const devolucao = await uow.client.devolucao.create({
+      data: {
+        vendaId: venda.id,
+        sessaoCaixaId: sessaoCaixa?.id ?? null,
+        tipoReembolso,
+        formaReembolso: tipoReembolso === 'REEMBOLSO' ? formaReembolso ?? null : null,
+        valor,
+        motivo,
+        dataDevolucao,
+        tenantId,
+        usuarioCadastro: userId,
+        itens: {
+          create: linhas.map(linha => ({
+            itemVendaId: linha.itemVendaId,
+            produtoId: linha.produtoId,
+            quantidade: linha.quantidade,
+            valor: linha.centavos / 100,
+            destino: linha.destino
+          }))
+        },
+        ...(tipoReembolso === 'VALE_TROCA' && {
+          valeTroca: {
+            create: {
+              codigo: gerarCodigoValeTroca(),
+              clienteId: venda.clienteId,
+              valorOriginal: valor,
+              saldo: valor,
+              tenantId,
+              usuarioCadastro: userId
+            }
+          }
+        })
+      },
+      include: { itens: true, valeTroca: true }
+    });
+
+    const movimentacoes = [];
+    for (const linha of linhas.filter(l => l.destino === 'ESTOQUE')) {
+      movimentacoes.push(await estoqueRepo.registrarDevolucao({
+        produtoId: linha.produtoId,
+        quantidade: linha.quantidade,
+        motivo: `Devolução venda ${venda.numeroFiscal}: ${motivo}`,
+        vendaId: venda.id,
+        itemVendaId: linha.itemVendaId,
+        tenantId,
+        userId
+      }));
+      uow.scheduleInvalidateCache(`estoque:${tenantId}:${linha.produtoId}`);
+    }
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    // Código do vale fica fora da trilha: quem o conhece pode gastá-lo
+    await uow.logAudit('Devolucao', devolucao.id, 'CREATE', buildAuditDiff(null, {
+      vendaId: devolucao.vendaId,
+      tipoReembolso: devolucao.tipoReembolso,
+      formaReembolso: devolucao.formaReembolso,
+      valor: devolucao.valor,
+      motivo: devolucao.motivo,
+      itens: devolucao.itens.map(i => ({ itemVendaId: i.itemVendaId, quantidade: Number(i.quantidade), destino: i.destino })),
+      valeTrocaId: devolucao.valeTroca?.id ?? null
+    }), userId, tenantId);
+
+    await uow.logAudit('Venda', venda.id, 'UPDATE', buildAuditDiff(
+      { valorDevolvido: venda.valorDevolvido },
+      { valorDevolvido: (toCentavos(Number(venda.valorDevolvido)) + toCentavos(valor)) / 100 }
+    ), userId, tenantId);
+
+    await uow.publishDomainEvent(
+      'DevolucaoRegistrada',
+      devolucao.id,
+      {
+        vendaId: venda.id,
+        numeroFiscal: venda.numeroFiscal,
+        valor,
+        tipoReembolso,
+        formaReembolso: devolucao.formaReembolso,
+        itens: linhas.map(l => ({ produtoId: l.produtoId, quantidade: l.quantidade, destino: l.destino })),
+        ...(devolucao.valeTroca && { valeTrocaId: devolucao.valeTroca.id })
+      },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...devolucao, movimentacoes },
+      affectedRows: 1 + linhas.length * 2 + movimentacoes.length
+    };
+  }
+}
+
+// ====================================
+// SERVICE CLASS (Facade)
+// ====================================
+
+/**
+ * Devolução Service - Facade usando UoW + CQRS
+ */
+export class DevolucaoService {
+  constructor(private uow: IUnitOfWork) {}
+
+  async registrar(data: RegistrarDevolucaoDto, auth: AuthContext): Promise<CommandResult> {
+    return await this.execute(new RegistrarDevolucaoCommand(data, auth), new RegistrarDevolucaoCommandHandler());
+  }
+
+  /**
+   * Executa o handler em transação, convertendo rejeições de negócio em CommandResult
+   */
+  private async execute<TCommand extends BaseCommand>(
+    command: TCommand,
+    handler: ICommandHandler<TCommand>
+  ): Promise<CommandResult> {
+    try {
+      return await this.uow.executeInTransaction(async (uow) => {
+        return await handler.handle(command, uow);
+      });
+    } catch (error) {
+      if (error instanceof DevolucaoRejectedError) {
+        return {
+          success: false,
+          error: error.message,
+          validationErrors: error.validationErrors
+        };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Serviço de Estoque - Política de saldo por tenant
+ * Define se saídas (manuais, vendas e reservas de vendas abertas) podem
+ * deixar o saldo negativo; o padrão recusa a saída além do disponível
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { AuditoriaRepository, buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+
+const prisma = new PrismaClient();
+
+export interface ConfiguracaoEstoque {
+  permitirEstoqueNegativo: boolean;
+}
+
+export const CONFIGURACAO_ESTOQUE_PADRAO: ConfiguracaoEstoque = {
+  permitirEstoqueNegativo: false
+};
+
+/**
+ * Configuração de estoque vigente para o tenant (padrão quando não configurada)
+ */
+export async function obterConfiguracaoEstoque(
+  tenantId: string,
+  client: PrismaClient | TransactionClient = prisma
+): Promise<ConfiguracaoEstoque> {
+  const configuracao = await client.configuracaoEstoque.findUnique({ where: { tenantId } });
+  if (!configuracao) return { ...CONFIGURACAO_ESTOQUE_PADRAO };
+
+  return {
+    permitirEstoqueNegativo: configuracao.permitirEstoqueNegativo
+  };
+}
+
+export function validarConfiguracaoEstoque(dto: Partial<ConfiguracaoEstoque>): string[] {
+  const errors: string[] = [];
+
+  if (dto.permitirEstoqueNegativo !== undefined && typeof dto.permitirEstoqueNegativo !== 'boolean') {
+    errors.push('permitirEstoqueNegativo deve ser true ou false');
+  }
+
+  return errors;
+}
+
+/**
+ * Salva a configuração de estoque do tenant
+ * @param alteracoes - Alterações parciais; campos omitidos mantêm o valor atual
+ */
+export async function salvarConfiguracaoEstoque(
+  tenantId: string,
+  alteracoes: Partial<ConfiguracaoEstoque>,
+  updatedBy: string
+): Promise<{ success: boolean; data?: ConfiguracaoEstoque; error?: string; validationErrors?: string[] }> {
+  const validationErrors = validarConfiguracaoEstoque(alteracoes);
+  if (validationErrors.length > 0) {
+    return {
+      success: false,
+      error: 'Configuração de estoque inválida',
+      validationErrors
+    };
+  }
+
+  const dados = {
+    ...(alteracoes.permitirEstoqueNegativo !== undefined && { permitirEstoqueNegativo: alteracoes.permitirEstoqueNegativo }),
+    usuarioUltimaAtualizacao: updatedBy
+  };
+
+  const configuracao = await prisma.$transaction(async (tx) => {
+    const anterior = await tx.configuracaoEstoque.findUnique({ where: { tenantId } });
+
+    const salva = await tx.configuracaoEstoque.upsert({
+      where: { tenantId },
+      create: { tenantId, usuarioCadastro: updatedBy, ...CONFIGURACAO_ESTOQUE_PADRAO, ...dados },
+      update: dados
+    });
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'ConfiguracaoEstoque',
+      entidadeId: salva.id,
+      acao: anterior ? 'UPDATE' : 'CREATE',
+      alteracoes: buildAuditDiff(anterior, salva),
+      usuarioId: updatedBy,
+      tenantId
+    });
+
+    return salva;
+  });
+
+  return {
+    success: true,
+    data: {
+      permitirEstoqueNegativo: configuracao.permitirEstoqueNegativo
+    }
+  };
+}
@@ -0,0 +1,450 @@
+/**
+ * Renderização de relatórios exportados - CSV, XLSX e PDF
+ * Cada relatório é descrito como seções tabulares; as linhas podem vir de um
+ * iterador assíncrono e são escritas à medida que chegam, sem montar o arquivo
+ * inteiro em memória
+ */
+
+import { Writable } from 'stream';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+
+// quantidade: na unidade de medida do produto, até 3 casas e sem zeros à direita (3 UN, 0,35 KG)
+export type TipoColuna = 'texto' | 'inteiro' | 'quantidade' | 'decimal' | 'moeda' | 'percentual';
+
+export interface ColunaExportacao {
+  chave: string;
+  titulo: string;
+  tipo?: TipoColuna;
+}
+
+export type LinhaExportacao = Record<string, unknown>;
+
+export interface SecaoExportacao {
+  titulo: string;
+  colunas: ColunaExportacao[];
+  linhas: Iterable<LinhaExportacao> | AsyncIterable<LinhaExportacao>;
+}
+
+/**
+ * Identificação do tenant no cabeçalho (PDF e XLSX)
+ */
+export interface MarcaExportacao {
+  nome: string;
+  razaoSocial?: string;
+  cnpj?: string;
+}
+
+export interface DocumentoExportacao {
+  titulo: string;
+  subtitulo?: string;
+  marca: MarcaExportacao;
+  geradoEm: Date;
+  fusoHorario: string;
+  secoes: SecaoExportacao[];
+}
+
+export const FORMATOS_EXPORTACAO = {
+  csv: { contentType: 'text/csv; charset=utf-8', extensao: 'csv' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extensao: 'xlsx' },
+  pdf: { contentType: 'application/pdf', extensao: 'pdf' }
+} as const;
+
+export type FormatoExportacao = keyof typeof FORMATOS_EXPORTACAO;
+
+export const isFormatoExportacao = (valor: unknown): valor is FormatoExportacao =>
+  typeof valor === 'string' && Object.prototype.hasOwnProperty.call(FORMATOS_EXPORTACAO, valor);
+
+/**
+ * CSV no padrão do Excel em português: separador ";" e vírgula decimal
+ */
+const CSV_CONFIG = {
+  separador: ';',
+  separadorDecimal: ','
+};
+
+const COR_MARCA = '#1e3a5f';
+const COR_LINHA_ALTERNADA = '#f2f5f9';
+
+const FORMATO_XLSX: Record<TipoColuna, string | undefined> = {
+  texto: undefined,
+  inteiro: '#,##0',
+  quantidade: undefined,
+  decimal: '#,##0.00',
+  moeda: '"R$" #,##0.00',
+  percentual: '0.00"%"'
+};
+
+const numeroBR = new Intl.NumberFormat('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const inteiroBR = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 0 });
+const quantidadeBR = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 3 });
+const moedaBR = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const isNumerica = (coluna: ColunaExportacao) => (coluna.tipo ?? 'texto') !== 'texto';
+
+const valorNumerico = (valor: unknown): number | null => {
+  if (valor === null || valor === undefined || valor === '') return null;
+  const numero = Number(valor);
+  return Number.isFinite(numero) ? numero : null;
+};
+
+/**
+ * Data/hora da geração no fuso do tenant (dd/mm/aaaa hh:mm)
+ */
+export function formatarDataHora(data: Date, fusoHorario: string): string {
+  return new Intl.DateTimeFormat('pt-BR', {
+    timeZone: fusoHorario,
+    dateStyle: 'short',
+    timeStyle: 'short'
+  }).format(data);
+}
+
+/**
+ * Valor exibido no PDF (moeda e números no formato brasileiro)
+ */
+function formatarValor(valor: unknown, tipo: TipoColuna = 'texto'): string {
+  if (tipo === 'texto') return valor === null || valor === undefined ? '' : String(valor);
+
+  const numero = valorNumerico(valor);
+  if (numero === null) return '-';
+
+  switch (tipo) {
+    case 'moeda':
+      return moedaBR.format(numero);
+    case 'percentual':
+      return `${numeroBR.format(numero)}%`;
+    case 'inteiro':
+      return inteiroBR.format(numero);
+    case 'quantidade':
+      return quantidadeBR.format(numero);
+    default:
+      return numeroBR.format(numero);
+  }
+}
+
+async function* iterarLinhas(linhas: SecaoExportacao['linhas']): AsyncGenerator<LinhaExportacao> {
+  yield* linhas;
+}
+
+/**
+ * Escreve respeitando o backpressure do destino (resposta HTTP lenta)
+ * Cliente desconectado interrompe a geração em vez de esperar um drain que não vem
+ */
+async function escrever(destino: Writable, texto: string): Promise<void> {
+  if (destino.destroyed) {
+    throw new Error('Destino da exportação encerrado antes do fim do arquivo');
+  }
+  if (destino.write(texto)) return;
+
+  const espera = new AbortController();
+  try {
+    await Promise.race([
+      once(destino, 'drain', { signal: espera.signal }),
+      once(destino, 'close', { signal: espera.signal })
+    ]);
+  } finally {
+    espera.abort();
+  }
+}
+
+// ====================================
+// CSV
+// ====================================
+
+/**
+ * Campo CSV escapado; texto iniciado por = + - @ recebe apóstrofo para o
+ * Excel não interpretar como fórmula (nome de produto digitado pelo usuário)
+ */
+function campoCsv(valor: unknown, tipo: TipoColuna = 'texto'): string {
+  if (tipo !== 'texto') {
+    const numero = valorNumerico(valor);
+    if (numero === null) return '';
+    const texto = tipo === 'quantidade'
+      ? String(Math.round(numero * 1000) / 1000)
+      : numero.toFixed(tipo === 'inteiro' ? 0 : 2);
+    return texto.replace('.', CSV_CONFIG.separadorDecimal);
+  }
+
+  let texto = valor === null || valor === undefined ? '' : String(valor);
+  if (/^[=+\-@\t\r]/.test(texto)) {
+    texto = `'${texto}`;
+  }
+  if (texto.includes(CSV_CONFIG.separador) || /["\r\n]/.test(texto)) {
+    texto = `"${texto.replace(/"/g, '""')}"`;
+  }
+  return texto;
+}
+
+/**
+ * Seções em sequência: título, cabeçalho, linhas e uma linha em branco
+ * BOM UTF-8 para o Excel reconhecer a acentuação
+ */
+async function renderizarCsv(documento: DocumentoExportacao, destino: Writable): Promise<void> {
+  const linhaCsv = (campos: string[]) => `${campos.join(CSV_CONFIG.separador)}\r\n`;
+
+  await escrever(destino, '\uFEFF');
+  await escrever(destino, linhaCsv([campoCsv(documento.titulo)]));
+  if (documento.subtitulo) {
+    await escrever(destino, linhaCsv([campoCsv(documento.subtitulo)]));
+  }
+
+  for (const secao of documento.secoes) {
+    await escrever(destino, '\r\n');
+    await escrever(destino, linhaCsv([campoCsv(secao.titulo)]));
+    await escrever(destino, linhaCsv(secao.colunas.map(coluna => campoCsv(coluna.titulo))));
+
+    for await (const linha of iterarLinhas(secao.linhas)) {
+      await escrever(destino, linhaCsv(secao.colunas.map(coluna => campoCsv(linha[coluna.chave], coluna.tipo))));
+    }
+  }
+
+  destino.end();
+}
+
+// ====================================
+// XLSX
+// ====================================
+
+/**
+ * Nome de aba válido no Excel: até 31 caracteres, sem : \ / ? * [ ]
+ */
+const nomeAba = (titulo: string, usados: Set<string>): string => {
+  const base = titulo.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31);
+  let nome = base;
+  for (let i = 2; usados.has(nome.toLowerCase()); i++) {
+    nome = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  usados.add(nome.toLowerCase());
+  return nome;
+};
+
+/**
+ * Uma aba por seção, com células numéricas (o contador soma e filtra no Excel)
+ * Escrita em streaming: cada linha é commitada e liberada da memória
+ */
+async function renderizarXlsx(documento: DocumentoExportacao, destino: Writable): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: destino, useStyles: true });
+  workbook.creator = documento.marca.nome;
+  workbook.created = documento.geradoEm;
+
+  const abas = new Set<string>();
+  const identificacao = [
+    documento.marca.razaoSocial ?? documento.marca.nome,
+    documento.marca.cnpj && `CNPJ ${documento.marca.cnpj}`
+  ].filter(Boolean).join(' - ');
+
+  for (const secao of documento.secoes) {
+    const worksheet = workbook.addWorksheet(nomeAba(secao.titulo, abas));
+    worksheet.columns = secao.colunas.map(coluna => {
+      const numFmt = FORMATO_XLSX[coluna.tipo ?? 'texto'];
+      return {
+        key: coluna.chave,
+        width: isNumerica(coluna) ? 16 : 32,
+        ...(numFmt && { style: { numFmt } })
+      };
+    });
+
+    const titulo = worksheet.addRow([`${documento.titulo} - ${secao.titulo}`]);
+    titulo.font = { bold: true, size: 13, color: { argb: 'FF1E3A5F' } };
+    titulo.commit();
+    worksheet.addRow([identificacao]).commit();
+    if (documento.subtitulo) {
+      worksheet.addRow([documento.subtitulo]).commit();
+    }
+    worksheet.addRow([`Gerado em ${formatarDataHora(documento.geradoEm, documento.fusoHorario)}`]).commit();
+    worksheet.addRow([]).commit();
+
+    const cabecalho = worksheet.addRow(secao.colunas.map(coluna => coluna.titulo));
+    cabecalho.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    cabecalho.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1E3A5F' } };
+    cabecalho.commit();
+
+    for await (const linha of iterarLinhas(secao.linhas)) {
+      worksheet.addRow(secao.colunas.map(coluna =>
+        isNumerica(coluna) ? valorNumerico(linha[coluna.chave]) : linha[coluna.chave] ?? null
+      )).commit();
+    }
+
+    worksheet.commit();
+  }
+
+  // Finaliza o zip e encerra o destino
+  await workbook.commit();
+}
+
+// ====================================
+// PDF
+// ====================================
+
+const PDF_LAYOUT = {
+  margem: 40,
+  alturaLinha: 18,
+  alturaRodape: 24,
+  fonteTabela: 9
+};
+
+/**
+ * PDF A4 com a identificação do tenant no topo, tabelas com cabeçalho
+ * repetido a cada página e rodapé com data de geração e número da página
+ */
+async function renderizarPdf(documento: DocumentoExportacao, destino: Writable): Promise<void> {
+  const { margem, alturaLinha, alturaRodape, fonteTabela } = PDF_LAYOUT;
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: margem,
+    info: {
+      Title: documento.titulo,
+      Author: documento.marca.nome,
+      CreationDate: documento.geradoEm
+    }
+  });
+  doc.pipe(destino);
+
+  const larguraUtil = doc.page.width - margem * 2;
+  const geradoEm = formatarDataHora(documento.geradoEm, documento.fusoHorario);
+  let pagina = 1;
+
+  const desenharRodape = () => {
+    // Sem margem inferior para o texto do rodapé não abrir uma nova página
+    const { x, y: yAtual } = doc;
+    const margemInferior = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - margem + 8;
+    doc.fontSize(8).fillColor('#666666').font('Helvetica');
+    doc.text(`${documento.marca.nome} - ${documento.titulo} - gerado em ${geradoEm}`, margem, y, {
+      width: larguraUtil - 80,
+      lineBreak: false
+    });
+    doc.text(`Página ${pagina}`, margem, y, { width: larguraUtil, align: 'right', lineBreak: false });
+    doc.page.margins.bottom = margemInferior;
+    doc.fillColor('black');
+    doc.x = x;
+    doc.y = yAtual;
+  };
+
+  const limiteInferior = () => doc.page.height - margem - alturaRodape;
+
+  const novaPagina = () => {
+    doc.addPage();
+    pagina++;
+    desenharRodape();
+    doc.y = margem;
+  };
+
+  // Cabeçalho da marca
+  doc.rect(0, 0, doc.page.width, 6).fill(COR_MARCA);
+  doc.fillColor(COR_MARCA).font('Helvetica-Bold').fontSize(16).text(documento.marca.nome, margem, margem);
+  const identificacao = [
+    documento.marca.razaoSocial !== documento.marca.nome ? documento.marca.razaoSocial : undefined,
+    documento.marca.cnpj && `CNPJ ${documento.marca.cnpj}`
+  ].filter(Boolean).join(' - ');
+  if (identificacao) {
+    doc.fillColor('#444444').font('Helvetica').fontSize(9).text(identificacao);
+  }
+  doc.moveDown(0.8);
+  doc.fillColor('black').font('Helvetica-Bold').fontSize(13).text(documento.titulo);
+  if (documento.subtitulo) {
+    doc.font('Helvetica').fontSize(10).fillColor('#444444').text(documento.subtitulo);
+  }
+  doc.fillColor('black');
+  desenharRodape();
+
+  for (const secao of documento.secoes) {
+    // Primeira coluna (descrição) com o dobro da largura das numéricas
+    const pesos = secao.colunas.map((coluna, indice) => (indice === 0 || !isNumerica(coluna) ? 2 : 1));
+    const totalPesos = pesos.reduce((soma, peso) => soma + peso, 0);
+    const larguras = pesos.map(peso => (larguraUtil * peso) / totalPesos);
+
+    const desenharLinha = (valores: string[], opcoes: { cabecalho?: boolean; alternada?: boolean } = {}) => {
+      const y = doc.y;
+      if (opcoes.cabecalho) {
+        doc.rect(margem, y, larguraUtil, alturaLinha).fill(COR_MARCA);
+      } else if (opcoes.alternada) {
+        doc.rect(margem, y, larguraUtil, alturaLinha).fill(COR_LINHA_ALTERNADA);
+      }
+
+      doc.font(opcoes.cabecalho ? 'Helvetica-Bold' : 'Helvetica')
+        .fontSize(fonteTabela)
+        .fillColor(opcoes.cabecalho ? 'white' : 'black');
+
+      let x = margem;
+      secao.colunas.forEach((coluna, indice) => {
+        const largura = larguras[indice] ?? 0;
+        doc.text(valores[indice] ?? '', x + 4, y + 5, {
+          width: largura - 8,
+          height: alturaLinha - 5,
+          align: isNumerica(coluna) ? 'right' : 'left',
+          lineBreak: false,
+          ellipsis: true
+        });
+        x += largura;
+      });
+
+      doc.fillColor('black');
+      doc.y = y + alturaLinha;
+    };
+
+    const cabecalho = () => desenharLinha(secao.colunas.map(coluna => coluna.titulo), { cabecalho: true });
+
+    // Título da seção não fica sozinho no pé da página
+    if (doc.y + alturaLinha * 4 > limiteInferior()) {
+      novaPagina();
+    } else {
+      doc.moveDown(1);
+    }
+    doc.font('Helvetica-Bold').fontSize(11).fillColor(COR_MARCA).text(secao.titulo, margem, doc.y);
+    doc.moveDown(0.3);
+    cabecalho();
+
+    let indice = 0;
+    for await (const linha of iterarLinhas(secao.linhas)) {
+      if (doc.y + alturaLinha > limiteInferior()) {
+        novaPagina();
+        cabecalho();
+      }
+      desenharLinha(
+        secao.colunas.map(coluna => formatarValor(linha[coluna.chave], coluna.tipo)),
+        { alternada: indice % 2 === 1 }
+      );
+      indice++;
+    }
+
+    if (indice === 0) {
+      doc.font('Helvetica-Oblique').fontSize(fonteTabela).fillColor('#666666')
+        .text('Sem registros no período', margem + 4, doc.y + 5);
+      doc.fillColor('black');
+    }
+  }
+
+  doc.end();
+}
+
+/**
+ * Renderiza o documento no formato pedido e encerra o destino
+ * Resolve quando o destino terminou de receber o arquivo
+ */
+export async function renderizarDocumento(
+  formato: FormatoExportacao,
+  documento: DocumentoExportacao,
+  destino: Writable
+): Promise<void> {
+  const concluido = finished(destino);
+  // Falha do destino durante a geração é tratada pelo await abaixo ou pelo erro da escrita
+  concluido.catch(() => undefined);
+
+  switch (formato) {
+    case 'csv':
+      await renderizarCsv(documento, destino);
+      break;
+    case 'xlsx':
+      await renderizarXlsx(documento, destino);
+      break;
+    case 'pdf':
+      await renderizarPdf(documento, destino);
+      break;
+  }
+
+  await concluido;
+}
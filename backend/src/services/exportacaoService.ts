@@ -0,0 +1,725 @@
+/**
+ * Serviço de Exportação - Relatórios em CSV, XLSX e PDF
+ * Cada relatório exportável descreve o mesmo dado do endpoint JSON em seções
+ * tabulares; períodos longos são gerados em segundo plano e baixados depois
+ */
+
+import { PassThrough } from 'stream';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ProdutoRepository } from '../repositories/ProdutoRepository';
+import { ClienteRepository } from '../repositories/ClienteRepository';
+import { VendaRepository } from '../repositories/VendaRepository';
+import {
+  gerarRelatorioVendas,
+  gerarCurvaAbc,
+  validarPeriodo,
+  validarDiasSemVenda,
+  contarDias,
+  obterFusoHorario,
+  obterHojeTenant,
+  RELATORIO_CONFIG
+} from './relatorioService';
+import {
+  ColunaExportacao,
+  DocumentoExportacao,
+  FormatoExportacao,
+  FORMATOS_EXPORTACAO,
+  MarcaExportacao,
+  SecaoExportacao,
+  isFormatoExportacao,
+  renderizarDocumento
+} from './exportacaoRenderer';
+
+const prisma = new PrismaClient();
+
+export interface ExportacaoConfig {
+  diasSincronos: number;
+  retencaoMs: number;
+  bloqueioExpiraMs: number;
+  pollIntervalMs: number;
+  lote: number;
+  expurgoIntervaloMs: number;
+}
+
+/**
+ * Configuração das exportações
+ */
+export const EXPORTACAO_CONFIG: ExportacaoConfig = {
+  // Períodos acima deste número de dias são gerados em segundo plano
+  diasSincronos: parseInt(process.env.EXPORT_SYNC_MAX_DAYS || '366', 10),
+  retencaoMs: parseInt(process.env.EXPORT_RETENTION_HOURS || '24', 10) * 60 * 60 * 1000,
+  // Processamento interrompido (queda da instância) volta para a fila após este prazo
+  bloqueioExpiraMs: 15 * 60 * 1000,
+  pollIntervalMs: 5000,
+  lote: 3,
+  expurgoIntervaloMs: 60 * 60 * 1000
+};
+
+export type StatusExportacao = 'PENDENTE' | 'PROCESSANDO' | 'CONCLUIDA' | 'ERRO';
+
+export type ParametrosExportacao = Record<string, string>;
+
+type ConteudoExportacao = Pick<DocumentoExportacao, 'titulo' | 'secoes'> & { subtitulo?: string };
+
+export interface RelatorioExportavel {
+  titulo: string;
+  /** Mesmas regras de parâmetros do endpoint JSON */
+  validar(parametros: ParametrosExportacao): string[];
+  /** Volume que justifica gerar em segundo plano */
+  exigeSegundoPlano(parametros: ParametrosExportacao): boolean;
+  nomeArquivo(parametros: ParametrosExportacao): string;
+  gerar(tenantId: string, parametros: ParametrosExportacao): Promise<ConteudoExportacao>;
+}
+
+/**
+ * AAAA-MM-DD → DD/MM/AAAA
+ */
+const formatarDia = (data: string): string => data.split('-').reverse().join('/');
+
+const formatarCnpj = (cnpj: string): string =>
+  cnpj.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+
+const hoje = (): string => new Date().toISOString().slice(0, 10);
+
+const relatorioVendas: RelatorioExportavel = {
+  titulo: 'Relatório de vendas',
+
+  validar: ({ dataInicio, dataFim }) => {
+    if (!dataInicio || !dataFim) {
+      return ['Data início e data fim são obrigatórias'];
+    }
+    return validarPeriodo(dataInicio, dataFim);
+  },
+
+  exigeSegundoPlano: ({ dataInicio = '', dataFim = '' }) =>
+    contarDias({ dataInicio, dataFim }) > EXPORTACAO_CONFIG.diasSincronos,
+
+  nomeArquivo: ({ dataInicio, dataFim }) => `relatorio-vendas-${dataInicio}_${dataFim}`,
+
+  gerar: async (tenantId, { dataInicio = '', dataFim = '' }) => {
+    // Série diária fora do relatório: lida em lotes enquanto o arquivo é escrito
+    const relatorio = await gerarRelatorioVendas(tenantId, dataInicio, dataFim, { incluirPorDia: false });
+    const { periodoAnterior, crescimento } = relatorio.comparativo;
+
+    const vendaRepo = new VendaRepository(prisma);
+    async function* vendasPorDia() {
+      for await (const dia of vendaRepo.streamSalesByDay(relatorio.periodo, tenantId, RELATORIO_CONFIG.diasPorLote)) {
+        yield { ...dia, dia: formatarDia(dia.dia) };
+      }
+    }
+
+    const secoes: SecaoExportacao[] = [
+      {
+        titulo: 'Resumo',
+        colunas: [
+          { chave: 'periodo', titulo: 'Período' },
+          { chave: 'dataInicio', titulo: 'Início' },
+          { chave: 'dataFim', titulo: 'Fim' },
+          { chave: 'totalVendas', titulo: 'Vendas', tipo: 'inteiro' },
+          { chave: 'totalFaturamento', titulo: 'Faturamento', tipo: 'moeda' },
+          { chave: 'ticketMedio', titulo: 'Ticket médio', tipo: 'moeda' }
+        ],
+        linhas: [
+          { ...relatorio, periodo: 'Atual', dataInicio: formatarDia(dataInicio), dataFim: formatarDia(dataFim) },
+          {
+            ...periodoAnterior,
+            periodo: 'Anterior',
+            dataInicio: formatarDia(periodoAnterior.dataInicio),
+            dataFim: formatarDia(periodoAnterior.dataFim)
+          }
+        ]
+      },
+      {
+        titulo: 'Crescimento',
+        colunas: [
+          { chave: 'indicador', titulo: 'Indicador' },
+          { chave: 'crescimento', titulo: 'Sobre o período anterior', tipo: 'percentual' }
+        ],
+        linhas: [
+          { indicador: 'Vendas', crescimento: crescimento.totalVendas },
+          { indicador: 'Faturamento', crescimento: crescimento.totalFaturamento },
+          { indicador: 'Ticket médio', crescimento: crescimento.ticketMedio }
+        ]
+      },
+      {
+        titulo: 'Vendas por hora',
+        colunas: [
+          { chave: 'hora', titulo: 'Hora' },
+          { chave: 'vendas', titulo: 'Vendas', tipo: 'inteiro' },
+          { chave: 'faturamento', titulo: 'Faturamento', tipo: 'moeda' }
+        ],
+        linhas: relatorio.vendasPorHora.map(linha => ({ ...linha, hora: `${String(linha.hora).padStart(2, '0')}h` }))
+      },
+      {
+        titulo: 'Formas de pagamento',
+        colunas: [
+          { chave: 'forma', titulo: 'Forma' },
+          { chave: 'vendas', titulo: 'Vendas', tipo: 'inteiro' },
+          { chave: 'pagamentos', titulo: 'Pagamentos', tipo: 'inteiro' },
+          { chave: 'valorBruto', titulo: 'Valor pago', tipo: 'moeda' },
+          { chave: 'valor', titulo: 'Valor líquido', tipo: 'moeda' },
+          { chave: 'troco', titulo: 'Troco', tipo: 'moeda' }
+        ],
+        linhas: relatorio.vendasPorFormaPagamento
+      },
+      {
+        titulo: 'Vendas por categoria',
+        colunas: [
+          { chave: 'categoria', titulo: 'Categoria' },
+          { chave: 'quantidade', titulo: 'Quantidade', tipo: 'quantidade' },
+          { chave: 'valor', titulo: 'Valor', tipo: 'moeda' }
+        ],
+        linhas: relatorio.vendasPorCategoria
+      },
+      {
+        titulo: 'Produtos mais vendidos',
+        colunas: [
+          { chave: 'produto', titulo: 'Produto' },
+          { chave: 'quantidade', titulo: 'Quantidade', tipo: 'quantidade' },
+          { chave: 'valor', titulo: 'Valor', tipo: 'moeda' }
+        ],
+        linhas: relatorio.topProdutos
+      },
+      {
+        titulo: 'Vendas por dia',
+        colunas: [
+          { chave: 'dia', titulo: 'Dia' },
+          { chave: 'vendas', titulo: 'Vendas', tipo: 'inteiro' },
+          { chave: 'faturamento', titulo: 'Faturamento', tipo: 'moeda' }
+        ],
+        linhas: vendasPorDia()
+      }
+    ];
+
+    return {
+      titulo: 'Relatório de vendas',
+      subtitulo: `Período de ${formatarDia(dataInicio)} a ${formatarDia(dataFim)} (${relatorio.periodo.fusoHorario}), ` +
+        `comparado a ${formatarDia(periodoAnterior.dataInicio)} a ${formatarDia(periodoAnterior.dataFim)}`,
+      secoes
+    };
+  }
+};
+
+const relatorioEstatisticasProdutos: RelatorioExportavel = {
+  titulo: 'Estatísticas de produtos',
+  validar: () => [],
+  exigeSegundoPlano: () => false,
+  nomeArquivo: () => `estatisticas-produtos-${hoje()}`,
+
+  gerar: async (tenantId) => {
+    const estatisticas = await new ProdutoRepository(prisma).getStatistics(tenantId, await obterHojeTenant(tenantId));
+
+    return {
+      titulo: 'Estatísticas de produtos',
+      secoes: [
+        {
+          titulo: 'Cadastro e estoque',
+          colunas: [
+            { chave: 'indicador', titulo: 'Indicador' },
+            { chave: 'quantidade', titulo: 'Produtos', tipo: 'inteiro' }
+          ],
+          linhas: [
+            { indicador: 'Total', quantidade: estatisticas.total },
+            { indicador: 'Ativos', quantidade: estatisticas.ativos },
+            { indicador: 'Inativos', quantidade: estatisticas.inativos },
+            { indicador: 'Categorias', quantidade: estatisticas.categorias },
+            { indicador: 'Estoque baixo', quantidade: estatisticas.estoqueBaixo },
+            { indicador: 'Sem estoque', quantidade: estatisticas.semEstoque }
+          ]
+        },
+        {
+          titulo: 'Preços',
+          colunas: [
+            { chave: 'indicador', titulo: 'Indicador' },
+            { chave: 'valor', titulo: 'Valor', tipo: 'moeda' }
+          ],
+          linhas: [
+            { indicador: 'Preço médio de venda', valor: estatisticas.precoMedio }
+          ]
+        },
+        {
+          titulo: 'Mais vendidos no mês',
+          colunas: [
+            { chave: 'produto', titulo: 'Produto' },
+            { chave: 'quantidade', titulo: 'Quantidade', tipo: 'quantidade' },
+            { chave: 'unidadeMedida', titulo: 'Unidade' },
+            { chave: 'valor', titulo: 'Valor', tipo: 'moeda' }
+          ],
+          linhas: estatisticas.maisVendidosMes
+        }
+      ]
+    };
+  }
+};
+
+const relatorioCurvaAbc: RelatorioExportavel = {
+  titulo: 'Curva ABC e margens',
+
+  validar: ({ dataInicio, dataFim, diasSemVenda }) => {
+    if (!dataInicio || !dataFim) {
+      return ['Data início e data fim são obrigatórias'];
+    }
+    return [...validarPeriodo(dataInicio, dataFim), ...validarDiasSemVenda(diasSemVenda)];
+  },
+
+  // Agregado por produto: o volume não cresce com o período
+  exigeSegundoPlano: () => false,
+
+  nomeArquivo: ({ dataInicio, dataFim }) => `curva-abc-${dataInicio}_${dataFim}`,
+
+  gerar: async (tenantId, { dataInicio = '', dataFim = '', diasSemVenda }) => {
+    const relatorio = await gerarCurvaAbc(tenantId, dataInicio, dataFim, diasSemVenda ? Number(diasSemVenda) : undefined);
+    const { limiteA, limiteB } = relatorio.criterios;
+
+    const colunasClasse: ColunaExportacao[] = [
+      { chave: 'classe', titulo: 'Classe' },
+      { chave: 'produtos', titulo: 'Produtos', tipo: 'inteiro' },
+      { chave: 'valor', titulo: 'Valor', tipo: 'moeda' },
+      { chave: 'participacao', titulo: 'Participação', tipo: 'percentual' }
+    ];
+    const linhasClasse = (classes: typeof relatorio.classes.faturamento) =>
+      Object.entries(classes).map(([classe, resumo]) => ({ classe, ...resumo }));
+
+    return {
+      titulo: 'Curva ABC e margens',
+      subtitulo: `Período de ${formatarDia(dataInicio)} a ${formatarDia(dataFim)} (${relatorio.periodo.fusoHorario}). ` +
+        `Classe A até ${limiteA}% acumulado, B até ${limiteB}%`,
+      secoes: [
+        {
+          titulo: 'Resumo',
+          colunas: [
+            { chave: 'produtos', titulo: 'Produtos vendidos', tipo: 'inteiro' },
+            { chave: 'faturamento', titulo: 'Faturamento', tipo: 'moeda' },
+            { chave: 'custo', titulo: 'Custo', tipo: 'moeda' },
+            { chave: 'lucro', titulo: 'Lucro', tipo: 'moeda' },
+            { chave: 'margem', titulo: 'Margem', tipo: 'percentual' }
+          ],
+          linhas: [relatorio.resumo]
+        },
+        {
+          titulo: 'Classes por faturamento',
+          colunas: colunasClasse,
+          linhas: linhasClasse(relatorio.classes.faturamento)
+        },
+        {
+          titulo: 'Classes por lucro',
+          colunas: colunasClasse,
+          linhas: linhasClasse(relatorio.classes.lucro)
+        },
+        {
+          titulo: 'Produtos',
+          colunas: [
+            { chave: 'produto', titulo: 'Produto' },
+            { chave: 'categoria', titulo: 'Categoria' },
+            { chave: 'quantidade', titulo: 'Quantidade', tipo: 'quantidade' },
+            { chave: 'faturamento', titulo: 'Faturamento', tipo: 'moeda' },
+            { chave: 'lucro', titulo: 'Lucro', tipo: 'moeda' },
+            { chave: 'margem', titulo: 'Margem', tipo: 'percentual' },
+            { chave: 'classeFaturamento', titulo: 'Classe (fat.)' },
+            { chave: 'classeLucro', titulo: 'Classe (lucro)' }
+          ],
+          linhas: relatorio.produtos
+        },
+        {
+          titulo: 'Margem por categoria',
+          colunas: [
+            { chave: 'categoria', titulo: 'Categoria' },
+            { chave: 'quantidade', titulo: 'Quantidade', tipo: 'quantidade' },
+            { chave: 'faturamento', titulo: 'Faturamento', tipo: 'moeda' },
+            { chave: 'custo', titulo: 'Custo', tipo: 'moeda' },
+            { chave: 'lucro', titulo: 'Lucro', tipo: 'moeda' },
+            { chave: 'margem', titulo: 'Margem', tipo: 'percentual' }
+          ],
+          linhas: relatorio.categorias
+        },
+        {
+          titulo: `Estoque parado (sem venda há ${relatorio.estoqueParado.diasSemVenda} dias)`,
+          colunas: [
+            { chave: 'produto', titulo: 'Produto' },
+            { chave: 'categoria', titulo: 'Categoria' },
+            { chave: 'quantidade', titulo: 'Em estoque', tipo: 'quantidade' },
+            { chave: 'valorEstoque', titulo: 'Valor (custo)', tipo: 'moeda' },
+            { chave: 'ultimaVenda', titulo: 'Última venda' }
+          ],
+          linhas: relatorio.estoqueParado.itens.map(item => ({
+            ...item,
+            ultimaVenda: item.ultimaVenda ? formatarDia(item.ultimaVenda) : 'Nunca vendido'
+          }))
+        }
+      ]
+    };
+  }
+};
+
+const relatorioEstatisticasClientes: RelatorioExportavel = {
+  titulo: 'Estatísticas de clientes',
+  validar: () => [],
+  exigeSegundoPlano: () => false,
+  nomeArquivo: () => `estatisticas-clientes-${hoje()}`,
+
+  gerar: async (tenantId) => {
+    const estatisticas = await new ClienteRepository(prisma).getStatistics(tenantId);
+
+    return {
+      titulo: 'Estatísticas de clientes',
+      secoes: [
+        {
+          titulo: 'Clientes',
+          colunas: [
+            { chave: 'indicador', titulo: 'Indicador' },
+            { chave: 'quantidade', titulo: 'Clientes', tipo: 'inteiro' }
+          ],
+          linhas: [
+            { indicador: 'Total', quantidade: estatisticas.total },
+            { indicador: 'Ativos', quantidade: estatisticas.ativos },
+            { indicador: 'Inativos', quantidade: estatisticas.inativos },
+            { indicador: 'Com CPF', quantidade: estatisticas.comCpf },
+            { indicador: 'Sem CPF', quantidade: estatisticas.semCpf },
+            { indicador: 'Novos no mês', quantidade: estatisticas.novosMes }
+          ]
+        }
+      ]
+    };
+  }
+};
+
+/**
+ * Relatórios exportáveis - a chave é gravada na exportação em segundo plano
+ */
+export const RELATORIOS_EXPORTAVEIS = {
+  'vendas': relatorioVendas,
+  'produtos-estatisticas': relatorioEstatisticasProdutos,
+  'curva-abc': relatorioCurvaAbc,
+  'clientes-estatisticas': relatorioEstatisticasClientes
+} satisfies Record<string, RelatorioExportavel>;
+
+export type ChaveRelatorioExportavel = keyof typeof RELATORIOS_EXPORTAVEIS;
+
+const isChaveRelatorio = (valor: string): valor is ChaveRelatorioExportavel =>
+  Object.prototype.hasOwnProperty.call(RELATORIOS_EXPORTAVEIS, valor);
+
+/**
+ * Nome fantasia/razão social e CNPJ da configuração fiscal; sem ela, o nome do tenant
+ */
+async function obterMarca(tenantId: string): Promise<MarcaExportacao> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: {
+      nome: true,
+      configuracaoFiscal: { select: { razaoSocial: true, nomeFantasia: true, cnpj: true } }
+    }
+  });
+
+  const fiscal = tenant?.configuracaoFiscal;
+  return {
+    nome: fiscal?.nomeFantasia || tenant?.nome || fiscal?.razaoSocial || 'CoreApp',
+    ...(fiscal && { razaoSocial: fiscal.razaoSocial, cnpj: formatarCnpj(fiscal.cnpj) })
+  };
+}
+
+/**
+ * Monta o documento do relatório com a identificação e o fuso do tenant
+ */
+export async function gerarDocumento(
+  chave: ChaveRelatorioExportavel,
+  tenantId: string,
+  parametros: ParametrosExportacao
+): Promise<DocumentoExportacao> {
+  const [conteudo, marca, fusoHorario] = await Promise.all([
+    RELATORIOS_EXPORTAVEIS[chave].gerar(tenantId, parametros),
+    obterMarca(tenantId),
+    obterFusoHorario(tenantId)
+  ]);
+
+  return { ...conteudo, marca, fusoHorario, geradoEm: new Date() };
+}
+
+export function nomeArquivoExportacao(
+  chave: ChaveRelatorioExportavel,
+  parametros: ParametrosExportacao,
+  formato: FormatoExportacao
+): string {
+  return `${RELATORIOS_EXPORTAVEIS[chave].nomeArquivo(parametros)}.${FORMATOS_EXPORTACAO[formato].extensao}`;
+}
+
+// ====================================
+// EXPORTAÇÃO EM SEGUNDO PLANO
+// ====================================
+
+/**
+ * Campos de acompanhamento - o conteúdo do arquivo só é lido no download
+ */
+const EXPORTACAO_SELECT = {
+  id: true,
+  relatorio: true,
+  formato: true,
+  parametros: true,
+  status: true,
+  erro: true,
+  nomeArquivo: true,
+  tamanho: true,
+  dataCadastro: true,
+  dataConclusao: true,
+  expiraEm: true
+} satisfies Prisma.ExportacaoRelatorioSelect;
+
+type ExportacaoResumo = Prisma.ExportacaoRelatorioGetPayload<{ select: typeof EXPORTACAO_SELECT }>;
+
+/**
+ * Exportação com os links de acompanhamento e de download (quando concluída)
+ */
+export function apresentarExportacao(exportacao: ExportacaoResumo) {
+  const status = `/api/exportacoes/${exportacao.id}`;
+
+  return {
+    ...exportacao,
+    links: {
+      status,
+      download: exportacao.status === 'CONCLUIDA' ? `${status}/download` : null
+    }
+  };
+}
+
+/**
+ * Agenda a exportação para o processamento em segundo plano
+ */
+export async function criarExportacao(params: {
+  tenantId: string;
+  usuarioId: string;
+  relatorio: ChaveRelatorioExportavel;
+  formato: FormatoExportacao;
+  parametros: ParametrosExportacao;
+}) {
+  const exportacao = await prisma.exportacaoRelatorio.create({
+    data: {
+      tenantId: params.tenantId,
+      usuarioId: params.usuarioId,
+      relatorio: params.relatorio,
+      formato: params.formato,
+      parametros: params.parametros
+    },
+    select: EXPORTACAO_SELECT
+  });
+
+  // Não espera o próximo ciclo do polling
+  void processarFila();
+
+  return apresentarExportacao(exportacao);
+}
+
+/**
+ * Exportação do usuário (só quem solicitou acompanha e baixa)
+ */
+export async function obterExportacao(id: string, tenantId: string, usuarioId: string) {
+  const exportacao = await prisma.exportacaoRelatorio.findFirst({
+    where: { id, tenantId, usuarioId },
+    select: EXPORTACAO_SELECT
+  });
+
+  return exportacao ? apresentarExportacao(exportacao) : null;
+}
+
+/**
+ * Exportações recentes do usuário (ainda não expurgadas)
+ */
+export async function listarExportacoes(tenantId: string, usuarioId: string) {
+  const exportacoes = await prisma.exportacaoRelatorio.findMany({
+    where: { tenantId, usuarioId },
+    select: EXPORTACAO_SELECT,
+    orderBy: { dataCadastro: 'desc' },
+    take: 50
+  });
+
+  return exportacoes.map(apresentarExportacao);
+}
+
+/**
+ * Arquivo gerado para download
+ * - NAO_ENCONTRADA: inexistente, de outro usuário ou já expurgada
+ * - NAO_CONCLUIDA: ainda na fila/processando ou falhou
+ * - EXPIRADA: fora da janela de retenção, aguardando o expurgo
+ */
+export async function obterArquivoExportacao(
+  id: string,
+  tenantId: string,
+  usuarioId: string
+): Promise<
+  | { tipo: 'ARQUIVO'; nomeArquivo: string; contentType: string; conteudo: Buffer }
+  | { tipo: 'NAO_ENCONTRADA' | 'EXPIRADA' }
+  | { tipo: 'NAO_CONCLUIDA'; status: string }
+> {
+  const exportacao = await prisma.exportacaoRelatorio.findFirst({
+    where: { id, tenantId, usuarioId }
+  });
+
+  if (!exportacao) {
+    return { tipo: 'NAO_ENCONTRADA' };
+  }
+
+  if (exportacao.status !== 'CONCLUIDA' || !exportacao.conteudo || !exportacao.nomeArquivo) {
+    return { tipo: 'NAO_CONCLUIDA', status: exportacao.status };
+  }
+
+  if (exportacao.expiraEm && exportacao.expiraEm <= new Date()) {
+    return { tipo: 'EXPIRADA' };
+  }
+
+  return {
+    tipo: 'ARQUIVO',
+    nomeArquivo: exportacao.nomeArquivo,
+    contentType: isFormatoExportacao(exportacao.formato)
+      ? FORMATOS_EXPORTACAO[exportacao.formato].contentType
+      : 'application/octet-stream',
+    conteudo: Buffer.from(exportacao.conteudo)
+  };
+}
+
+/**
+ * Gera o arquivo da exportação reservada e grava o resultado
+ */
+async function processarExportacao(exportacao: {
+  id: string;
+  tenantId: string;
+  relatorio: string;
+  formato: string;
+  parametros: Prisma.JsonValue;
+}): Promise<void> {
+  try {
+    if (!isChaveRelatorio(exportacao.relatorio) || !isFormatoExportacao(exportacao.formato)) {
+      throw new Error(`Exportação de ${exportacao.relatorio} em ${exportacao.formato} não suportada`);
+    }
+
+    const parametros = (exportacao.parametros ?? {}) as ParametrosExportacao;
+    const documento = await gerarDocumento(exportacao.relatorio, exportacao.tenantId, parametros);
+
+    const partes: Buffer[] = [];
+    const destino = new PassThrough();
+    destino.on('data', (parte: Buffer) => partes.push(parte));
+    await renderizarDocumento(exportacao.formato, documento, destino);
+
+    const conteudo = Buffer.concat(partes);
+    await prisma.exportacaoRelatorio.updateMany({
+      where: { id: exportacao.id, status: 'PROCESSANDO' },
+      data: {
+        status: 'CONCLUIDA',
+        nomeArquivo: nomeArquivoExportacao(exportacao.relatorio, parametros, exportacao.formato),
+        tamanho: conteudo.length,
+        conteudo,
+        dataBloqueio: null,
+        dataConclusao: new Date(),
+        expiraEm: new Date(Date.now() + EXPORTACAO_CONFIG.retencaoMs)
+      }
+    });
+
+  } catch (error) {
+    console.error(`[EXPORTACAO] Erro ao gerar exportação ${exportacao.id}:`, error);
+    await prisma.exportacaoRelatorio.updateMany({
+      where: { id: exportacao.id, status: 'PROCESSANDO' },
+      data: {
+        status: 'ERRO',
+        erro: error instanceof Error ? error.message : String(error),
+        dataBloqueio: null,
+        dataConclusao: new Date(),
+        expiraEm: new Date(Date.now() + EXPORTACAO_CONFIG.retencaoMs)
+      }
+    });
+  }
+}
+
+/**
+ * Processa um lote de exportações pendentes, em ordem de solicitação
+ * @returns quantidade de exportações processadas por esta instância
+ */
+export async function processarExportacoesPendentes(): Promise<number> {
+  await prisma.exportacaoRelatorio.updateMany({
+    where: {
+      status: 'PROCESSANDO',
+      dataBloqueio: { lt: new Date(Date.now() - EXPORTACAO_CONFIG.bloqueioExpiraMs) }
+    },
+    data: { status: 'PENDENTE', dataBloqueio: null }
+  });
+
+  const pendentes = await prisma.exportacaoRelatorio.findMany({
+    where: { status: 'PENDENTE' },
+    select: { id: true, tenantId: true, relatorio: true, formato: true, parametros: true },
+    orderBy: { dataCadastro: 'asc' },
+    take: EXPORTACAO_CONFIG.lote
+  });
+
+  let processadas = 0;
+  for (const exportacao of pendentes) {
+    // Condicional no status: só uma instância reserva cada exportação
+    const reservada = await prisma.exportacaoRelatorio.updateMany({
+      where: { id: exportacao.id, status: 'PENDENTE' },
+      data: { status: 'PROCESSANDO', dataBloqueio: new Date() }
+    });
+    if (reservada.count === 0) continue;
+
+    await processarExportacao(exportacao);
+    processadas++;
+  }
+
+  return processadas;
+}
+
+/**
+ * Remove exportações (e arquivos) fora da janela de retenção
+ * @returns quantidade de exportações removidas
+ */
+export async function expurgarExportacoesVencidas(): Promise<number> {
+  const result = await prisma.exportacaoRelatorio.deleteMany({
+    where: { expiraEm: { lt: new Date() } }
+  });
+  return result.count;
+}
+
+let processando = false;
+let processamentoTimer: NodeJS.Timeout | undefined;
+let expurgoTimer: NodeJS.Timeout | undefined;
+
+async function processarFila(): Promise<void> {
+  // Evita lotes sobrepostos: uma exportação grande pode passar do intervalo
+  if (processando) return;
+
+  processando = true;
+  try {
+    while (await processarExportacoesPendentes() > 0) {
+      // Continua enquanto houver fila
+    }
+  } catch (error) {
+    console.error('[EXPORTACAO] Erro ao processar exportações:', error);
+  } finally {
+    processando = false;
+  }
+}
+
+/**
+ * Inicia o processamento das exportações pendentes e o expurgo das vencidas
+ */
+export function iniciarProcessamentoExportacoes(): void {
+  if (processamentoTimer) return;
+
+  processamentoTimer = setInterval(() => {
+    void processarFila();
+  }, EXPORTACAO_CONFIG.pollIntervalMs);
+
+  expurgoTimer = setInterval(() => {
+    expurgarExportacoesVencidas().catch(error => {
+      console.error('[EXPORTACAO] Erro ao expurgar exportações vencidas:', error);
+    });
+  }, EXPORTACAO_CONFIG.expurgoIntervaloMs);
+  expurgoTimer.unref();
+
+  console.log(`[EXPORTACAO] Processamento iniciado (intervalo ${EXPORTACAO_CONFIG.pollIntervalMs}ms)`);
+}
+
+export function pararProcessamentoExportacoes(): void {
+  if (processamentoTimer) {
+    clearInterval(processamentoTimer);
+    processamentoTimer = undefined;
+  }
+  if (expurgoTimer) {
+    clearInterval(expurgoTimer);
+    expurgoTimer = undefined;
+  }
+}
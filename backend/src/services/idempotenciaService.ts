@@ -0,0 +1,179 @@
+/**
+ * Idempotência - Header Idempotency-Key em comandos que não podem duplicar
+ * Guarda hash do corpo e resposta por tenant durante a janela de retenção;
+ * a retentativa recebe a resposta original em vez de executar de novo
+ */
+
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface IdempotenciaConfig {
+  retencaoMs: number;
+  bloqueioExpiraMs: number;
+  tamanhoMaximoChave: number;
+  expurgoIntervaloMs: number;
+}
+
+/**
+ * Configuração da idempotência
+ */
+export const IDEMPOTENCIA_CONFIG: IdempotenciaConfig = {
+  retencaoMs: parseInt(process.env.IDEMPOTENCY_RETENTION_HOURS || '24', 10) * 60 * 60 * 1000,
+  // Requisição interrompida (queda do servidor) libera a chave após este prazo
+  bloqueioExpiraMs: 5 * 60 * 1000,
+  tamanhoMaximoChave: 255,
+  expurgoIntervaloMs: 60 * 60 * 1000
+};
+
+export type ReservaIdempotencia =
+  | { tipo: 'NOVA'; id: string }
+  | { tipo: 'REPETIDA'; statusCode: number; resposta: Prisma.JsonValue }
+  | { tipo: 'CONFLITO' }
+  | { tipo: 'EM_ANDAMENTO' };
+
+/**
+ * JSON com chaves ordenadas: o mesmo corpo gera o mesmo hash
+ * independentemente da ordem dos campos enviada pelo cliente
+ */
+const serializarCanonico = (valor: unknown): string => {
+  if (Array.isArray(valor)) {
+    return `[${valor.map(serializarCanonico).join(',')}]`;
+  }
+  if (valor !== null && typeof valor === 'object') {
+    const campos = Object.keys(valor as Record<string, unknown>)
+      .filter(campo => (valor as Record<string, unknown>)[campo] !== undefined)
+      .sort()
+      .map(campo => `${JSON.stringify(campo)}:${serializarCanonico((valor as Record<string, unknown>)[campo])}`);
+    return `{${campos.join(',')}}`;
+  }
+  return JSON.stringify(valor ?? null);
+};
+
+export function hashCorpoRequisicao(corpo: unknown): string {
+  return crypto.createHash('sha256').update(serializarCanonico(corpo ?? {})).digest('hex');
+}
+
+/**
+ * Reserva a chave para a requisição ou informa o que fazer com a retentativa
+ * - NOVA: primeira execução (ou chave vencida) - processar e concluir/liberar
+ * - REPETIDA: mesma requisição já concluída - devolver a resposta guardada
+ * - CONFLITO: chave já usada com outro corpo ou rota
+ * - EM_ANDAMENTO: a requisição original ainda não terminou
+ * A unicidade (tenantId, chave) no banco garante uma única execução concorrente
+ */
+export async function reservarChave(params: {
+  tenantId: string;
+  chave: string;
+  rota: string;
+  requestHash: string;
+  usuarioId: string;
+}): Promise<ReservaIdempotencia> {
+  const { tenantId, chave, rota, requestHash, usuarioId } = params;
+  const agora = new Date();
+  const expiraEm = new Date(agora.getTime() + IDEMPOTENCIA_CONFIG.retencaoMs);
+
+  try {
+    const criada = await prisma.chaveIdempotencia.create({
+      data: { tenantId, chave, rota, requestHash, usuarioId, expiraEm }
+    });
+    return { tipo: 'NOVA', id: criada.id };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  const existente = await prisma.chaveIdempotencia.findUnique({
+    where: { tenantId_chave: { tenantId, chave } }
+  });
+
+  // Liberada entre o create e a leitura: a requisição original falhou
+  if (!existente) {
+    return { tipo: 'EM_ANDAMENTO' };
+  }
+
+  const bloqueioExpirado = existente.status === 'PROCESSANDO' &&
+    existente.dataCadastro.getTime() < agora.getTime() - IDEMPOTENCIA_CONFIG.bloqueioExpiraMs;
+
+  if (existente.expiraEm <= agora || bloqueioExpirado) {
+    // Condicional na data lida: duas retentativas não assumem a mesma chave vencida
+    const assumida = await prisma.chaveIdempotencia.updateMany({
+      where: { id: existente.id, dataCadastro: existente.dataCadastro },
+      data: {
+        rota,
+        requestHash,
+        usuarioId,
+        status: 'PROCESSANDO',
+        statusCode: null,
+        resposta: Prisma.DbNull,
+        dataCadastro: agora,
+        expiraEm
+      }
+    });
+    return assumida.count === 1 ? { tipo: 'NOVA', id: existente.id } : { tipo: 'EM_ANDAMENTO' };
+  }
+
+  if (existente.requestHash !== requestHash || existente.rota !== rota) {
+    return { tipo: 'CONFLITO' };
+  }
+
+  if (existente.status !== 'CONCLUIDA' || existente.statusCode === null) {
+    return { tipo: 'EM_ANDAMENTO' };
+  }
+
+  return { tipo: 'REPETIDA', statusCode: existente.statusCode, resposta: existente.resposta };
+}
+
+/**
+ * Guarda a resposta da requisição concluída para as retentativas
+ */
+export async function concluirChave(id: string, statusCode: number, resposta: unknown): Promise<void> {
+  await prisma.chaveIdempotencia.updateMany({
+    where: { id, status: 'PROCESSANDO' },
+    data: {
+      status: 'CONCLUIDA',
+      statusCode,
+      // Normaliza Decimal/Date como o cliente recebeu
+      resposta: JSON.parse(JSON.stringify(resposta ?? null))
+    }
+  });
+}
+
+/**
+ * Libera a chave de uma requisição que falhou - nada foi gravado,
+ * então a retentativa (inclusive corrigida) executa normalmente
+ */
+export async function liberarChave(id: string): Promise<void> {
+  await prisma.chaveIdempotencia.deleteMany({
+    where: { id, status: 'PROCESSANDO' }
+  });
+}
+
+/**
+ * Remove chaves fora da janela de retenção
+ * @returns quantidade de chaves removidas
+ */
+export async function expurgarChavesVencidas(): Promise<number> {
+  const result = await prisma.chaveIdempotencia.deleteMany({
+    where: { expiraEm: { lt: new Date() } }
+  });
+  return result.count;
+}
+
+let expurgoTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Inicia o expurgo periódico das chaves vencidas
+ */
+export function iniciarExpurgoIdempotencia(): void {
+  if (expurgoTimer) return;
+
+  expurgoTimer = setInterval(() => {
+    expurgarChavesVencidas().catch(error => {
+      console.error('[IDEMPOTENCIA] Erro ao expurgar chaves vencidas:', error);
+    });
+  }, IDEMPOTENCIA_CONFIG.expurgoIntervaloMs);
+  expurgoTimer.unref();
+}
@@ -24,6 +24,7 @@ export interface TokenPair {
 /**
  * Gera par de tokens (access + refresh)
  * @param userData - Dados do usuário para o token
+ * @param sessionId - Sessão existente (rotação) ou nova sessão
  * @returns Par de tokens com metadata
  */
 export function generateTokenPair(userData: {
@@ -34,9 +35,8 @@ export function generateTokenPair(userData: {
   roleName: string;
   permissions: string[];
   isSuperAdmin: boolean;
-}): TokenPair {
+}, sessionId: string = crypto.randomUUID()): TokenPair {
   
-  const sessionId = crypto.randomUUID();
   const now = new Date();
   
   // Calcular expirações
@@ -59,7 +59,8 @@ export function generateTokenPair(userData: {
   const refreshPayload: RefreshTokenPayload = {
     userId: userData.userId,
     sessionId,
-    tenantId: userData.tenantId
+    tenantId: userData.tenantId,
+    tokenId: crypto.randomUUID()
   };
 
   // Gerar tokens
@@ -0,0 +1,557 @@
+/**
+ * Serviço NFC-e - Emitente, certificado A1 e emissão da NFC-e das vendas
+ * Fluxo: monta infNFe → assina → SEFAZ (ou contingência offline) → grava XML e status
+ */
+
+import { PrismaClient, ConfiguracaoFiscal, DocumentoFiscal } from '@prisma/client';
+import crypto from 'crypto';
+import { AuditoriaRepository, buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { lerCertificadoA1, assinarElemento, CertificadoA1 } from './assinaturaDigital';
+import {
+  CODIGOS_UF,
+  NS_NFE,
+  DadosNfce,
+  montarInfNFe,
+  montarInfNFeSupl,
+  montarNfe,
+  numeroNfce,
+  gerarCodigoNumerico,
+  ratear
+} from './nfceXmlBuilder';
+import { obterSefazTransport, SefazIndisponivelError, RetornoAutorizacao } from './sefazTransport';
+
+const prisma = new PrismaClient();
+
+// Chave de cifragem do PFX e da senha do certificado
+const CHAVE_CERTIFICADO = crypto
+  .createHash('sha256')
+  .update(process.env.CERTIFICADO_CHAVE || 'coreapp-certificado-secret-dev-2024')
+  .digest();
+
+// Regimes suportados: apenas Simples Nacional (CSOSN 102)
+const CRT_SUPORTADOS = [1, 4];
+
+const CFOP_PADRAO = '5102';
+
+export interface ConfiguracaoFiscalDto {
+  cnpj: string;
+  inscricaoEstadual: string;
+  razaoSocial: string;
+  nomeFantasia?: string | null;
+  logradouro: string;
+  numero: string;
+  bairro: string;
+  codigoMunicipio: string;
+  municipio: string;
+  uf: string;
+  cep: string;
+  crt?: number;
+  ambiente?: number;
+  cscId?: string | null;
+  csc?: string | null;
+  urlQrCode?: string | null;
+  urlConsulta?: string | null;
+}
+
+export interface ResultadoFiscal<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  validationErrors?: string[];
+}
+
+export type ConfiguracaoFiscalResumo = Omit<ConfiguracaoFiscal, 'certificadoPfx' | 'certificadoSenha' | 'csc'> & {
+  cscConfigurado: boolean;
+  certificadoConfigurado: boolean;
+};
+
+export interface TransmissaoContingenciaResumo {
+  enviadas: number;
+  autorizadas: number;
+  rejeitadas: number;
+  pendentes: number;
+}
+
+// ====================================
+// CONFIGURAÇÃO DO EMITENTE
+// ====================================
+
+export function validarConfiguracaoFiscal(dto: Partial<ConfiguracaoFiscalDto>): string[] {
+  const errors: string[] = [];
+  const digitos = (valor?: string | null) => (valor ?? '').replace(/\D/g, '');
+
+  if (digitos(dto.cnpj).length !== 14) errors.push('CNPJ deve ter 14 dígitos');
+  if (!digitos(dto.inscricaoEstadual)) errors.push('Inscrição estadual é obrigatória');
+  if (!dto.razaoSocial?.trim()) errors.push('Razão social é obrigatória');
+  if (!dto.logradouro?.trim() || !dto.numero?.trim() || !dto.bairro?.trim()) {
+    errors.push('Endereço (logradouro, número e bairro) é obrigatório');
+  }
+  if (!/^\d{7}$/.test(dto.codigoMunicipio ?? '')) errors.push('Código do município (IBGE) deve ter 7 dígitos');
+  if (!dto.municipio?.trim()) errors.push('Município é obrigatório');
+  if (!dto.uf || !CODIGOS_UF[dto.uf]) errors.push('UF inválida');
+  if (digitos(dto.cep).length !== 8) errors.push('CEP deve ter 8 dígitos');
+  if (dto.crt !== undefined && !CRT_SUPORTADOS.includes(dto.crt)) {
+    errors.push('Regime tributário suportado: 1 (Simples Nacional) ou 4 (MEI)');
+  }
+  if (dto.ambiente !== undefined && dto.ambiente !== 1 && dto.ambiente !== 2) {
+    errors.push('Ambiente deve ser 1 (produção) ou 2 (homologação)');
+  }
+  if (dto.cscId && !/^\d{1,6}$/.test(dto.cscId)) errors.push('Identificador do CSC deve ser numérico');
+
+  return errors;
+}
+
+/**
+ * Configuração fiscal do tenant sem segredos (PFX, senha e CSC)
+ */
+export async function obterConfiguracaoFiscal(tenantId: string): Promise<ConfiguracaoFiscalResumo | null> {
+  const configuracao = await prisma.configuracaoFiscal.findUnique({ where: { tenantId } });
+  return configuracao ? resumirConfiguracao(configuracao) : null;
+}
+
+/**
+ * Cria ou atualiza o emitente e os parâmetros da NFC-e
+ * CSC omitido mantém o atual
+ */
+export async function salvarConfiguracaoFiscal(
+  tenantId: string,
+  dto: ConfiguracaoFiscalDto,
+  updatedBy: string
+): Promise<ResultadoFiscal<ConfiguracaoFiscalResumo>> {
+  const validationErrors = validarConfiguracaoFiscal(dto);
+  if (validationErrors.length > 0) {
+    return {
+      success: false,
+      error: 'Configuração fiscal inválida',
+      validationErrors
+    };
+  }
+
+  const dados = {
+    cnpj: dto.cnpj.replace(/\D/g, ''),
+    inscricaoEstadual: dto.inscricaoEstadual.replace(/\D/g, ''),
+    razaoSocial: dto.razaoSocial.trim(),
+    nomeFantasia: dto.nomeFantasia?.trim() || null,
+    logradouro: dto.logradouro.trim(),
+    numero: dto.numero.trim(),
+    bairro: dto.bairro.trim(),
+    codigoMunicipio: dto.codigoMunicipio,
+    municipio: dto.municipio.trim(),
+    uf: dto.uf,
+    cep: dto.cep.replace(/\D/g, ''),
+    crt: dto.crt ?? 1,
+    ambiente: dto.ambiente ?? 2,
+    cscId: dto.cscId || null,
+    ...(dto.csc && { csc: dto.csc }),
+    urlQrCode: dto.urlQrCode?.trim() || null,
+    urlConsulta: dto.urlConsulta?.trim() || null,
+    usuarioUltimaAtualizacao: updatedBy
+  };
+
+  const configuracao = await prisma.$transaction(async (tx) => {
+    const anterior = await tx.configuracaoFiscal.findUnique({ where: { tenantId } });
+
+    const salva = await tx.configuracaoFiscal.upsert({
+      where: { tenantId },
+      create: { tenantId, usuarioCadastro: updatedBy, ...dados },
+      update: dados
+    });
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'ConfiguracaoFiscal',
+      entidadeId: salva.id,
+      acao: anterior ? 'UPDATE' : 'CREATE',
+      alteracoes: buildAuditDiff(
+        anterior ? resumirConfiguracao(anterior) : null,
+        resumirConfiguracao(salva)
+      ),
+      usuarioId: updatedBy,
+      tenantId
+    });
+
+    return salva;
+  });
+
+  return { success: true, data: resumirConfiguracao(configuracao) };
+}
+
+/**
+ * Armazena o certificado A1 do tenant (PFX e senha cifrados)
+ * O certificado precisa estar válido e pertencer à raiz do CNPJ do emitente
+ */
+export async function salvarCertificadoA1(
+  tenantId: string,
+  pfxBase64: string,
+  senha: string,
+  updatedBy: string
+): Promise<ResultadoFiscal<ConfiguracaoFiscalResumo>> {
+  const configuracao = await prisma.configuracaoFiscal.findUnique({ where: { tenantId } });
+  if (!configuracao) {
+    return {
+      success: false,
+      error: 'Cadastre os dados do emitente antes do certificado'
+    };
+  }
+
+  const pfx = Buffer.from(pfxBase64, 'base64');
+  let certificado: CertificadoA1;
+  try {
+    certificado = lerCertificadoA1(pfx, senha);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Certificado inválido'
+    };
+  }
+
+  const validationErrors: string[] = [];
+  if (certificado.validoAte.getTime() < Date.now()) {
+    validationErrors.push(`Certificado expirado em ${certificado.validoAte.toISOString().slice(0, 10)}`);
+  }
+  if (certificado.cnpj && certificado.cnpj.slice(0, 8) !== configuracao.cnpj.slice(0, 8)) {
+    validationErrors.push('Certificado não pertence ao CNPJ do emitente');
+  }
+  if (validationErrors.length > 0) {
+    return {
+      success: false,
+      error: 'Certificado recusado',
+      validationErrors
+    };
+  }
+
+  const atualizada = await prisma.$transaction(async (tx) => {
+    const salva = await tx.configuracaoFiscal.update({
+      where: { tenantId },
+      data: {
+        certificadoPfx: cifrar(pfx),
+        certificadoSenha: cifrar(Buffer.from(senha, 'utf8')).toString('base64'),
+        certificadoTitular: certificado.titular,
+        certificadoValidade: certificado.validoAte,
+        usuarioUltimaAtualizacao: updatedBy
+      }
+    });
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'ConfiguracaoFiscal',
+      entidadeId: salva.id,
+      acao: 'UPDATE',
+      alteracoes: buildAuditDiff(
+        { certificadoTitular: configuracao.certificadoTitular, certificadoValidade: configuracao.certificadoValidade },
+        { certificadoTitular: salva.certificadoTitular, certificadoValidade: salva.certificadoValidade }
+      ),
+      usuarioId: updatedBy,
+      tenantId
+    });
+
+    return salva;
+  });
+
+  return { success: true, data: resumirConfiguracao(atualizada) };
+}
+
+// ====================================
+// EMISSÃO
+// ====================================
+
+/**
+ * NFC-e da venda
+ */
+export async function obterDocumentoFiscal(vendaId: string, tenantId: string): Promise<DocumentoFiscal | null> {
+  return await prisma.documentoFiscal.findFirst({ where: { vendaId, tenantId } });
+}
+
+/**
+ * Emite a NFC-e de uma venda finalizada
+ * - SEFAZ fora do ar (ou contingência solicitada): emite em contingência offline (tpEmis 9)
+ *   para transmissão posterior em transmitirContingencias
+ * - Venda com NFC-e autorizada ou em contingência retorna o documento existente
+ * - NFC-e rejeitada é gerada novamente (mesmo número, nova chave)
+ * @returns null se a venda não existe
+ */
+export async function emitirNfce(
+  vendaId: string,
+  tenantId: string,
+  userId: string,
+  opcoes: { contingencia?: boolean; justificativa?: string } = {}
+): Promise<ResultadoFiscal<DocumentoFiscal> | null> {
+  const venda = await prisma.venda.findFirst({
+    where: { id: vendaId, tenantId },
+    include: {
+      itens: { where: { status: { not: 'REMOVIDO' } }, include: { produto: true } },
+      pagamentos: true,
+      cliente: true,
+      documentoFiscal: true
+    }
+  });
+  if (!venda) return null;
+
+  if (venda.documentoFiscal && venda.documentoFiscal.status !== 'REJEITADA') {
+    return { success: true, data: venda.documentoFiscal };
+  }
+
+  const errors: string[] = [];
+  if (venda.status !== 'FINALIZADA') {
+    errors.push('Apenas vendas finalizadas geram NFC-e');
+  }
+  if (Number(venda.valorEstornado) > 0) {
+    errors.push('Venda com itens estornados não pode gerar NFC-e');
+  }
+  if (Number(venda.valorDevolvido) > 0) {
+    errors.push('Venda com devoluções não pode gerar NFC-e');
+  }
+  for (const item of venda.itens) {
+    if (!item.produto.ncm || !/^\d{8}$/.test(item.produto.ncm)) {
+      errors.push(`Produto ${item.produto.nome}: NCM não cadastrado`);
+    }
+  }
+
+  const configuracao = await prisma.configuracaoFiscal.findUnique({ where: { tenantId } });
+  if (!configuracao) {
+    errors.push('Configuração fiscal do emitente não cadastrada');
+  } else {
+    if (!configuracao.certificadoPfx || !configuracao.certificadoSenha) {
+      errors.push('Certificado A1 não cadastrado');
+    } else if (configuracao.certificadoValidade && configuracao.certificadoValidade.getTime() < Date.now()) {
+      errors.push('Certificado A1 expirado');
+    }
+    if (!configuracao.cscId || !configuracao.csc || !configuracao.urlQrCode || !configuracao.urlConsulta) {
+      errors.push('CSC e URLs de consulta da NFC-e não configurados');
+    }
+  }
+
+  if (errors.length > 0 || !configuracao) {
+    return {
+      success: false,
+      error: 'NFC-e não pode ser emitida',
+      validationErrors: errors
+    };
+  }
+
+  const certificado = lerCertificadoA1(
+    decifrar(Buffer.from(configuracao.certificadoPfx!)),
+    decifrar(Buffer.from(configuracao.certificadoSenha!, 'base64')).toString('utf8')
+  );
+
+  // Desconto do item = bruto - subtotal; desconto e acréscimo da venda são rateados pelos subtotais
+  const subtotais = venda.itens.map(item => Number(item.subtotal));
+  const descontoVenda = Number(venda.desconto);
+  const acrescimoVenda = Math.round((Number(venda.total) - Number(venda.preco) + descontoVenda) * 100) / 100;
+  const rateioDesconto = ratear(descontoVenda, subtotais);
+  const rateioAcrescimo = ratear(acrescimoVenda, subtotais);
+
+  const pagamentos = venda.pagamentos.length > 0
+    ? venda.pagamentos.map(p => ({ forma: p.forma, valor: Number(p.valor) + Number(p.troco) }))
+    : [{ forma: venda.formaPagamento!, valor: Number(venda.total) }];
+
+  const numero = numeroNfce(venda.numeroFiscal!);
+  const base: Omit<DadosNfce, 'tipoEmissao'> = {
+    emitente: configuracao,
+    ambiente: configuracao.ambiente,
+    serie: venda.serie,
+    numero,
+    codigoNumerico: gerarCodigoNumerico(numero),
+    dataEmissao: new Date(),
+    destinatarioCpf: venda.cliente?.cpf ?? null,
+    itens: venda.itens.map((item, index) => {
+      const quantidade = Number(item.quantidade);
+      const bruto = Math.round(quantidade * Number(item.precoUnitario) * 100) / 100;
+      return {
+        codigo: item.produto.codigoBarras || item.produto.id,
+        descricao: item.produto.nome,
+        ncm: item.produto.ncm!,
+        cfop: item.produto.cfop || CFOP_PADRAO,
+        gtin: item.produto.codigoBarras,
+        unidade: item.produto.unidadeMedida,
+        quantidade,
+        valorUnitario: Number(item.precoUnitario),
+        valorDesconto: Math.round((bruto - Number(item.subtotal) + rateioDesconto[index]!) * 100) / 100,
+        valorOutros: rateioAcrescimo[index]!
+      };
+    }),
+    pagamentos,
+    troco: venda.pagamentos.reduce((sum, p) => sum + Number(p.troco), 0),
+    ...(opcoes.justificativa && { justificativaContingencia: opcoes.justificativa })
+  };
+
+  const gerar = (tipoEmissao: 1 | 9) => {
+    const dados: DadosNfce = { ...base, tipoEmissao };
+    const { infNFe, chaveAcesso, valorTotal } = montarInfNFe(dados);
+    const { signature, digestValue } = assinarElemento(infNFe, `NFe${chaveAcesso}`, NS_NFE, certificado);
+    const infNFeSupl = montarInfNFeSupl(chaveAcesso, dados, valorTotal, digestValue, {
+      urlQrCode: configuracao.urlQrCode!,
+      urlConsulta: configuracao.urlConsulta!,
+      cscId: configuracao.cscId!,
+      csc: configuracao.csc!
+    });
+    return { tipoEmissao, chaveAcesso, xml: montarNfe(infNFe, infNFeSupl, signature) };
+  };
+
+  const transporte = obterSefazTransport();
+  const online = !opcoes.contingencia && await transporte.statusServico(configuracao.uf, configuracao.ambiente);
+
+  let nota = gerar(online ? 1 : 9);
+  let retorno: RetornoAutorizacao | null = null;
+
+  if (online) {
+    try {
+      retorno = await transporte.autorizar(nota.xml, nota.chaveAcesso, configuracao.ambiente);
+    } catch (error) {
+      if (!(error instanceof SefazIndisponivelError)) throw error;
+      // tpEmis faz parte da chave: a nota em contingência é gerada e assinada de novo
+      console.warn(`[NFCE] ${error.message} - venda ${venda.numeroFiscal} emitida em contingência`);
+      nota = gerar(9);
+    }
+  }
+
+  const status = !retorno ? 'CONTINGENCIA' : retorno.autorizado ? 'AUTORIZADA' : 'REJEITADA';
+
+  const dados = {
+    serie: venda.serie,
+    numero,
+    chaveAcesso: nota.chaveAcesso,
+    tipoEmissao: nota.tipoEmissao,
+    ambiente: configuracao.ambiente,
+    status,
+    xml: nota.xml,
+    xmlAutorizado: retorno?.xmlAutorizado ?? null,
+    protocolo: retorno?.protocolo ?? null,
+    codigoStatus: retorno?.codigoStatus ?? null,
+    motivo: retorno?.motivo ?? null,
+    tentativas: retorno ? 1 : 0,
+    dataEmissao: base.dataEmissao,
+    dataAutorizacao: retorno?.autorizado ? retorno.dataRecebimento ?? new Date() : null,
+    usuarioUltimaAtualizacao: userId
+  };
+
+  const documento = await prisma.$transaction(async (tx) => {
+    // vendaId único: emissões concorrentes da mesma venda não geram dois documentos
+    const salvo = venda.documentoFiscal
+      ? await tx.documentoFiscal.update({ where: { id: venda.documentoFiscal.id }, data: dados })
+      : await tx.documentoFiscal.create({ data: { ...dados, vendaId, tenantId, usuarioCadastro: userId } });
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'DocumentoFiscal',
+      entidadeId: salvo.id,
+      acao: venda.documentoFiscal ? 'UPDATE' : 'CREATE',
+      alteracoes: buildAuditDiff(
+        venda.documentoFiscal ? resumirDocumento(venda.documentoFiscal) : null,
+        resumirDocumento(salvo)
+      ),
+      usuarioId: userId,
+      tenantId
+    });
+
+    return salvo;
+  });
+
+  if (status === 'REJEITADA') {
+    return {
+      success: false,
+      data: documento,
+      error: 'NFC-e rejeitada pela SEFAZ',
+      validationErrors: [`${retorno!.codigoStatus} - ${retorno!.motivo}`]
+    };
+  }
+
+  return { success: true, data: documento };
+}
+
+/**
+ * Transmite as NFC-e emitidas em contingência offline (prazo legal de 24h)
+ * Interrompe no primeiro erro de comunicação - a SEFAZ continua indisponível
+ */
+export async function transmitirContingencias(tenantId: string, userId: string): Promise<TransmissaoContingenciaResumo> {
+  const pendentes = await prisma.documentoFiscal.findMany({
+    where: { tenantId, status: 'CONTINGENCIA' },
+    orderBy: { dataEmissao: 'asc' }
+  });
+
+  const resumo: TransmissaoContingenciaResumo = { enviadas: 0, autorizadas: 0, rejeitadas: 0, pendentes: pendentes.length };
+  const transporte = obterSefazTransport();
+
+  for (const documento of pendentes) {
+    let retorno: RetornoAutorizacao;
+    try {
+      retorno = await transporte.autorizar(documento.xml, documento.chaveAcesso, documento.ambiente);
+    } catch (error) {
+      if (!(error instanceof SefazIndisponivelError)) throw error;
+      await prisma.documentoFiscal.update({
+        where: { id: documento.id },
+        data: { tentativas: { increment: 1 } }
+      });
+      break;
+    }
+
+    const status = retorno.autorizado ? 'AUTORIZADA' : 'REJEITADA';
+
+    // Condicional no status: duas transmissões simultâneas não gravam o retorno duas vezes
+    const result = await prisma.documentoFiscal.updateMany({
+      where: { id: documento.id, status: 'CONTINGENCIA' },
+      data: {
+        status,
+        xmlAutorizado: retorno.xmlAutorizado ?? null,
+        protocolo: retorno.protocolo ?? null,
+        codigoStatus: retorno.codigoStatus,
+        motivo: retorno.motivo,
+        tentativas: { increment: 1 },
+        dataAutorizacao: retorno.autorizado ? retorno.dataRecebimento ?? new Date() : null,
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+    if (result.count === 0) continue;
+
+    await new AuditoriaRepository(prisma).registrar({
+      entidade: 'DocumentoFiscal',
+      entidadeId: documento.id,
+      acao: 'UPDATE',
+      alteracoes: buildAuditDiff(
+        { status: documento.status, protocolo: documento.protocolo },
+        { status, protocolo: retorno.protocolo ?? null }
+      ),
+      usuarioId: userId,
+      tenantId
+    });
+
+    resumo.enviadas++;
+    resumo.pendentes--;
+    if (retorno.autorizado) resumo.autorizadas++;
+    else resumo.rejeitadas++;
+  }
+
+  return resumo;
+}
+
+// ====================================
+// AUXILIARES
+// ====================================
+
+function resumirConfiguracao(configuracao: ConfiguracaoFiscal): ConfiguracaoFiscalResumo {
+  const { certificadoPfx, certificadoSenha, csc, ...dados } = configuracao;
+  return {
+    ...dados,
+    cscConfigurado: !!csc,
+    certificadoConfigurado: !!certificadoPfx && !!certificadoSenha
+  };
+}
+
+function resumirDocumento(documento: DocumentoFiscal) {
+  const { xml: _xml, xmlAutorizado: _xmlAutorizado, ...dados } = documento;
+  return dados;
+}
+
+/**
+ * AES-256-GCM: iv (12) + tag (16) + conteúdo cifrado
+ */
+function cifrar(conteudo: Buffer): Buffer {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', CHAVE_CERTIFICADO, iv);
+  const cifrado = Buffer.concat([cipher.update(conteudo), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), cifrado]);
+}
+
+function decifrar(conteudo: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', CHAVE_CERTIFICADO, conteudo.subarray(0, 12));
+  decipher.setAuthTag(conteudo.subarray(12, 28));
+  return Buffer.concat([decipher.update(conteudo.subarray(28)), decipher.final()]);
+}
@@ -0,0 +1,407 @@
+/**
+ * NFC-e (modelo 65, leiaute 4.00) - Montagem do XML e da chave de acesso
+ * Funções puras: a assinatura fica em assinaturaDigital e a persistência em nfceService
+ */
+
+import crypto from 'crypto';
+
+export const NS_NFE = 'http://www.portalfiscal.inf.br/nfe';
+export const VERSAO_NFE = '4.00';
+export const MODELO_NFCE = '65';
+
+// Código IBGE da UF (cUF)
+export const CODIGOS_UF: Record<string, string> = {
+  RO: '11', AC: '12', AM: '13', RR: '14', PA: '15', AP: '16', TO: '17',
+  MA: '21', PI: '22', CE: '23', RN: '24', PB: '25', PE: '26', AL: '27', SE: '28', BA: '29',
+  MG: '31', ES: '32', RJ: '33', SP: '35',
+  PR: '41', SC: '42', RS: '43',
+  MS: '50', MT: '51', GO: '52', DF: '53'
+};
+
+// Fuso horário da UF para dhEmi (sem horário de verão desde 2019)
+const FUSO_UF: Record<string, string> = {
+  AC: '-05:00', AM: '-04:00', RO: '-04:00', RR: '-04:00', MT: '-04:00', MS: '-04:00'
+};
+
+// Forma de pagamento da venda → tPag
+const MEIOS_PAGAMENTO: Record<string, string> = {
+  DINHEIRO: '01',
+  CARTAO_CREDITO: '03',
+  CARTAO_DEBITO: '04',
+  VALE: '05',
+  VALE_TROCA: '05', // Crédito loja
+  PIX: '17'
+};
+
+export interface EmitenteNfce {
+  cnpj: string;
+  inscricaoEstadual: string;
+  razaoSocial: string;
+  nomeFantasia?: string | null;
+  logradouro: string;
+  numero: string;
+  bairro: string;
+  codigoMunicipio: string;
+  municipio: string;
+  uf: string;
+  cep: string;
+  crt: number;
+}
+
+export interface ItemNfce {
+  codigo: string;
+  descricao: string;
+  ncm: string;
+  cfop: string;
+  gtin?: string | null;
+  unidade: string; // Unidade de medida do produto (UN, KG, G, L, M)
+  quantidade: number;
+  valorUnitario: number;
+  valorDesconto: number;
+  valorOutros: number;
+}
+
+export interface PagamentoNfce {
+  forma: string;
+  valor: number; // Valor entregue (inclui o troco em dinheiro)
+}
+
+export interface DadosNfce {
+  emitente: EmitenteNfce;
+  ambiente: number;
+  serie: string;
+  numero: number;
+  codigoNumerico: string;
+  tipoEmissao: 1 | 9;
+  dataEmissao: Date;
+  justificativaContingencia?: string;
+  destinatarioCpf?: string | null;
+  itens: ItemNfce[];
+  pagamentos: PagamentoNfce[];
+  troco: number;
+}
+
+export interface QrCodeNfce {
+  urlQrCode: string;
+  urlConsulta: string;
+  cscId: string;
+  csc: string;
+}
+
+// ====================================
+// CHAVE DE ACESSO
+// ====================================
+
+/**
+ * Dígito verificador da chave (módulo 11, pesos 2..9 da direita para a esquerda)
+ */
+export function calcularDigitoVerificador(chave43: string): string {
+  let soma = 0;
+  let peso = 2;
+  for (let i = chave43.length - 1; i >= 0; i--) {
+    soma += parseInt(chave43.charAt(i), 10) * peso;
+    peso = peso === 9 ? 2 : peso + 1;
+  }
+  const resto = soma % 11;
+  return resto < 2 ? '0' : String(11 - resto);
+}
+
+/**
+ * Chave de acesso com 44 dígitos:
+ * cUF(2) AAMM(4) CNPJ(14) mod(2) série(3) nNF(9) tpEmis(1) cNF(8) cDV(1)
+ */
+export function montarChaveAcesso(dados: DadosNfce): string {
+  const dataLocal = dataNoFuso(dados.dataEmissao, dados.emitente.uf);
+  const chave43 = [
+    codigoUf(dados.emitente.uf),
+    dataLocal.slice(2, 4) + dataLocal.slice(5, 7),
+    somenteDigitos(dados.emitente.cnpj).padStart(14, '0'),
+    MODELO_NFCE,
+    dados.serie.padStart(3, '0'),
+    String(dados.numero).padStart(9, '0'),
+    String(dados.tipoEmissao),
+    dados.codigoNumerico.padStart(8, '0')
+  ].join('');
+
+  return chave43 + calcularDigitoVerificador(chave43);
+}
+
+/**
+ * nNF (até 9 dígitos) a partir do numeroFiscal YYYYMM000001:
+ * último dígito do ano + mês + sequência → único na série por 10 anos
+ */
+export function numeroNfce(numeroFiscal: string): number {
+  return parseInt(numeroFiscal.slice(3), 10);
+}
+
+/**
+ * cNF aleatório de 8 dígitos, diferente do nNF (exigência da SEFAZ)
+ */
+export function gerarCodigoNumerico(numero: number): string {
+  let codigo: string;
+  do {
+    codigo = crypto.randomInt(0, 100000000).toString().padStart(8, '0');
+  } while (codigo === String(numero).padStart(8, '0'));
+  return codigo;
+}
+
+/**
+ * Reparte um valor entre as bases proporcionalmente, em centavos
+ * A sobra do arredondamento fica com o último item
+ */
+export function ratear(valor: number, bases: number[]): number[] {
+  const totalCentavos = Math.round(valor * 100);
+  const somaBases = bases.reduce((sum, base) => sum + base, 0);
+  if (totalCentavos === 0 || somaBases === 0) return bases.map(() => 0);
+
+  let distribuido = 0;
+  return bases.map((base, index) => {
+    const parte = index === bases.length - 1
+      ? totalCentavos - distribuido
+      : Math.floor(totalCentavos * base / somaBases);
+    distribuido += parte;
+    return parte / 100;
+  });
+}
+
+// ====================================
+// XML
+// ====================================
+
+/**
+ * Grupo infNFe (conteúdo assinado)
+ * Gerado já na forma canônica: sem espaços entre tags e sem tags auto-fechadas
+ */
+export function montarInfNFe(dados: DadosNfce): { infNFe: string; chaveAcesso: string; valorTotal: number } {
+  const { emitente } = dados;
+  const chaveAcesso = montarChaveAcesso(dados);
+  const homologacao = dados.ambiente === 2;
+
+  const ide = [
+    tag('cUF', codigoUf(emitente.uf)),
+    tag('cNF', dados.codigoNumerico.padStart(8, '0')),
+    tag('natOp', 'VENDA'),
+    tag('mod', MODELO_NFCE),
+    tag('serie', String(parseInt(dados.serie, 10))),
+    tag('nNF', String(dados.numero)),
+    tag('dhEmi', dataNoFuso(dados.dataEmissao, emitente.uf)),
+    tag('tpNF', '1'),
+    tag('idDest', '1'),
+    tag('cMunFG', emitente.codigoMunicipio),
+    tag('tpImp', '4'),
+    tag('tpEmis', String(dados.tipoEmissao)),
+    tag('cDV', chaveAcesso.slice(-1)),
+    tag('tpAmb', String(dados.ambiente)),
+    tag('finNFe', '1'),
+    tag('indFinal', '1'),
+    tag('indPres', '1'),
+    tag('indIntermed', '0'),
+    tag('procEmi', '0'),
+    tag('verProc', 'CoreApp 1.0'),
+    ...(dados.tipoEmissao === 9 ? [
+      tag('dhCont', dataNoFuso(dados.dataEmissao, emitente.uf)),
+      tag('xJust', dados.justificativaContingencia ?? 'SEFAZ indisponivel - emissao em contingencia offline')
+    ] : [])
+  ].join('');
+
+  const emit = [
+    tag('CNPJ', somenteDigitos(emitente.cnpj)),
+    tag('xNome', emitente.razaoSocial),
+    emitente.nomeFantasia ? tag('xFant', emitente.nomeFantasia) : '',
+    grupo('enderEmit', [
+      tag('xLgr', emitente.logradouro),
+      tag('nro', emitente.numero),
+      tag('xBairro', emitente.bairro),
+      tag('cMun', emitente.codigoMunicipio),
+      tag('xMun', emitente.municipio),
+      tag('UF', emitente.uf),
+      tag('CEP', somenteDigitos(emitente.cep)),
+      tag('cPais', '1058'),
+      tag('xPais', 'BRASIL')
+    ].join('')),
+    tag('IE', somenteDigitos(emitente.inscricaoEstadual)),
+    tag('CRT', String(emitente.crt))
+  ].join('');
+
+  const dest = dados.destinatarioCpf
+    ? grupo('dest', tag('CPF', somenteDigitos(dados.destinatarioCpf)) + tag('indIEDest', '9'))
+    : '';
+
+  // Totais em centavos (evita erro de ponto flutuante)
+  let totalProdutos = 0;
+  let totalDesconto = 0;
+  let totalOutros = 0;
+
+  const det = dados.itens.map((item, index) => {
+    const valorProduto = arredondar(item.quantidade * item.valorUnitario);
+    totalProdutos += Math.round(valorProduto * 100);
+    totalDesconto += Math.round(item.valorDesconto * 100);
+    totalOutros += Math.round(item.valorOutros * 100);
+
+    const gtin = item.gtin && [8, 12, 13, 14].includes(item.gtin.length) ? item.gtin : 'SEM GTIN';
+    // Em homologação a SEFAZ exige este texto na descrição do primeiro item
+    const descricao = homologacao && index === 0
+      ? 'NOTA FISCAL EMITIDA EM AMBIENTE DE HOMOLOGACAO - SEM VALOR FISCAL'
+      : item.descricao;
+
+    const prod = [
+      tag('cProd', item.codigo),
+      tag('cEAN', gtin),
+      tag('xProd', descricao.slice(0, 120)),
+      tag('NCM', item.ncm),
+      tag('CFOP', item.cfop),
+      tag('uCom', item.unidade),
+      tag('qCom', item.quantidade.toFixed(4)),
+      tag('vUnCom', item.valorUnitario.toFixed(2)),
+      tag('vProd', valorProduto.toFixed(2)),
+      tag('cEANTrib', gtin),
+      tag('uTrib', item.unidade),
+      tag('qTrib', item.quantidade.toFixed(4)),
+      tag('vUnTrib', item.valorUnitario.toFixed(2)),
+      item.valorDesconto > 0 ? tag('vDesc', item.valorDesconto.toFixed(2)) : '',
+      item.valorOutros > 0 ? tag('vOutro', item.valorOutros.toFixed(2)) : '',
+      tag('indTot', '1')
+    ].join('');
+
+    // Simples Nacional sem permissão de crédito (CSOSN 102)
+    const imposto = grupo('ICMS', grupo('ICMSSN102', tag('orig', '0') + tag('CSOSN', '102')));
+
+    return `<det nItem="${index + 1}">${grupo('prod', prod)}${grupo('imposto', imposto)}</det>`;
+  }).join('');
+
+  const valorTotal = (totalProdutos - totalDesconto + totalOutros) / 100;
+
+  const total = grupo('total', grupo('ICMSTot', [
+    tag('vBC', '0.00'),
+    tag('vICMS', '0.00'),
+    tag('vICMSDeson', '0.00'),
+    tag('vFCP', '0.00'),
+    tag('vBCST', '0.00'),
+    tag('vST', '0.00'),
+    tag('vFCPST', '0.00'),
+    tag('vFCPSTRet', '0.00'),
+    tag('vProd', (totalProdutos / 100).toFixed(2)),
+    tag('vFrete', '0.00'),
+    tag('vSeg', '0.00'),
+    tag('vDesc', (totalDesconto / 100).toFixed(2)),
+    tag('vII', '0.00'),
+    tag('vIPI', '0.00'),
+    tag('vIPIDevol', '0.00'),
+    tag('vPIS', '0.00'),
+    tag('vCOFINS', '0.00'),
+    tag('vOutro', (totalOutros / 100).toFixed(2)),
+    tag('vNF', valorTotal.toFixed(2))
+  ].join('')));
+
+  const pag = grupo('pag', dados.pagamentos.map(pagamento => {
+    const tPag = MEIOS_PAGAMENTO[pagamento.forma] ?? '99';
+    return grupo('detPag', [
+      tag('tPag', tPag),
+      tPag === '99' ? tag('xPag', pagamento.forma) : '',
+      tag('vPag', pagamento.valor.toFixed(2)),
+      // Cartão e PIX sem integração com o TEF/PSP
+      ['03', '04', '17'].includes(tPag) ? grupo('card', tag('tpIntegra', '2')) : ''
+    ].join(''));
+  }).join('') + (dados.troco > 0 ? tag('vTroco', dados.troco.toFixed(2)) : ''));
+
+  const conteudo = [
+    grupo('ide', ide),
+    grupo('emit', emit),
+    dest,
+    det,
+    total,
+    grupo('transp', tag('modFrete', '9')),
+    pag
+  ].join('');
+
+  return {
+    infNFe: `<infNFe Id="NFe${chaveAcesso}" versao="${VERSAO_NFE}">${conteudo}</infNFe>`,
+    chaveAcesso,
+    valorTotal
+  };
+}
+
+/**
+ * Grupo infNFeSupl - QR Code versão 2 (NT 2015.002)
+ * Contingência offline inclui dia, valor e DigestValue da nota no QR Code
+ */
+export function montarInfNFeSupl(
+  chaveAcesso: string,
+  dados: DadosNfce,
+  valorTotal: number,
+  digestValue: string,
+  qrCode: QrCodeNfce
+): string {
+  const idCsc = String(parseInt(qrCode.cscId, 10));
+  const parametros = dados.tipoEmissao === 9
+    ? [
+      chaveAcesso,
+      '2',
+      String(dados.ambiente),
+      dataNoFuso(dados.dataEmissao, dados.emitente.uf).slice(8, 10),
+      valorTotal.toFixed(2),
+      Buffer.from(digestValue, 'utf8').toString('hex'),
+      idCsc
+    ].join('|')
+    : [chaveAcesso, '2', String(dados.ambiente), idCsc].join('|');
+
+  const hash = crypto.createHash('sha1').update(parametros + qrCode.csc).digest('hex').toUpperCase();
+
+  return grupo('infNFeSupl',
+    tag('qrCode', `${qrCode.urlQrCode}?p=${parametros}|${hash}`) +
+    tag('urlChave', qrCode.urlConsulta)
+  );
+}
+
+/**
+ * Documento NFe completo: infNFe + infNFeSupl + Signature
+ */
+export function montarNfe(infNFe: string, infNFeSupl: string, signature: string): string {
+  return `<NFe xmlns="${NS_NFE}">${infNFe}${infNFeSupl}${signature}</NFe>`;
+}
+
+// ====================================
+// AUXILIARES
+// ====================================
+
+/**
+ * Data/hora no formato TDateTimeUTC (AAAA-MM-DDThh:mm:ss-03:00) no fuso da UF
+ */
+export function dataNoFuso(data: Date, uf: string): string {
+  const fuso = FUSO_UF[uf] ?? '-03:00';
+  const offsetMinutos = (fuso.startsWith('-') ? -1 : 1) *
+    (parseInt(fuso.slice(1, 3), 10) * 60 + parseInt(fuso.slice(4, 6), 10));
+  const local = new Date(data.getTime() + offsetMinutos * 60000);
+  return local.toISOString().slice(0, 19) + fuso;
+}
+
+function codigoUf(uf: string): string {
+  const codigo = CODIGOS_UF[uf];
+  if (!codigo) {
+    throw new Error(`UF inválida para NFC-e: ${uf}`);
+  }
+  return codigo;
+}
+
+function somenteDigitos(valor: string): string {
+  return valor.replace(/\D/g, '');
+}
+
+function arredondar(valor: number): number {
+  return Math.round(valor * 100) / 100;
+}
+
+/**
+ * Escapa texto conforme a canonicalização C14N (&, < e >)
+ */
+function escaparXml(valor: string): string {
+  return valor.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function tag(nome: string, valor: string): string {
+  return `<${nome}>${escaparXml(valor.trim())}</${nome}>`;
+}
+
+function grupo(nome: string, conteudo: string): string {
+  return `<${nome}>${conteudo}</${nome}>`;
+}
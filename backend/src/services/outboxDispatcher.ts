@@ -0,0 +1,149 @@
+/**
+ * Outbox Dispatcher - Entrega de eventos de domínio
+ * Lê o outbox e entrega cada evento aos handlers registrados, com retentativas
+ * em backoff exponencial e dead letter após o limite de tentativas.
+ * A entrega é "pelo menos uma vez": handlers devem ser idempotentes.
+ */
+
+import { PrismaClient, OutboxEvento } from '@prisma/client';
+import { OutboxRepository } from '../repositories/OutboxRepository';
+
+export type OutboxEventHandler = (evento: OutboxEvento) => Promise<void>;
+
+export interface OutboxConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+  maxTentativas: number;
+  backoffBaseMs: number;
+  bloqueioExpiraMs: number;
+}
+
+/**
+ * Configuração do dispatcher
+ */
+const OUTBOX_CONFIG: OutboxConfig = {
+  pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '2000', 10),
+  batchSize: 50,
+  maxTentativas: 5,
+  backoffBaseMs: 5000, // 5s → 10s → 20s → 40s
+  bloqueioExpiraMs: 5 * 60 * 1000
+};
+
+class OutboxDispatcher {
+  private repository: OutboxRepository;
+  private handlers: Map<string, { nome: string; handler: OutboxEventHandler }[]> = new Map();
+  private timer?: NodeJS.Timeout | undefined;
+  private dispatching: boolean = false;
+
+  constructor(client: PrismaClient, private readonly config: OutboxConfig = OUTBOX_CONFIG) {
+    this.repository = new OutboxRepository(client);
+  }
+
+  /**
+   * Registra handler para um tipo de evento (ex: 'VendaCriada')
+   */
+  subscribe(tipo: string, nome: string, handler: OutboxEventHandler): void {
+    const handlers = this.handlers.get(tipo) || [];
+    handlers.push({ nome, handler });
+    this.handlers.set(tipo, handlers);
+  }
+
+  /**
+   * Inicia o polling do outbox
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.config.pollIntervalMs);
+
+    console.log(`[OUTBOX] Dispatcher iniciado (intervalo ${this.config.pollIntervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Processa um lote de eventos prontos
+   * @returns quantidade de eventos entregues ou com falha registrada
+   */
+  async dispatchPending(): Promise<number> {
+    await this.repository.liberarBloqueiosExpirados(
+      new Date(Date.now() - this.config.bloqueioExpiraMs)
+    );
+
+    const eventos = await this.repository.findProntos(this.config.batchSize);
+    let processados = 0;
+
+    for (const evento of eventos) {
+      // Outra instância já reservou este evento
+      if (!(await this.repository.bloquear(evento.id))) continue;
+
+      await this.deliver(evento);
+      processados++;
+    }
+
+    return processados;
+  }
+
+  /**
+   * Reenfileira evento em dead letter (chamado pelo endpoint administrativo)
+   */
+  async replay(id: string): Promise<boolean> {
+    return await this.repository.reenfileirar(id);
+  }
+
+  private async tick(): Promise<void> {
+    // Evita lotes sobrepostos quando a entrega demora mais que o intervalo
+    if (this.dispatching) return;
+
+    this.dispatching = true;
+    try {
+      await this.dispatchPending();
+    } catch (error) {
+      console.error('[OUTBOX] Erro ao processar outbox:', error);
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private async deliver(evento: OutboxEvento): Promise<void> {
+    const handlers = this.handlers.get(evento.tipo) || [];
+    let handlerAtual = '';
+
+    try {
+      for (const { nome, handler } of handlers) {
+        handlerAtual = nome;
+        await handler(evento);
+      }
+
+      await this.repository.marcarProcessado(evento.id);
+
+    } catch (error) {
+      const tentativas = evento.tentativas + 1;
+      const mensagem = `${handlerAtual}: ${error instanceof Error ? error.message : String(error)}`;
+
+      if (tentativas >= this.config.maxTentativas) {
+        console.error(`[OUTBOX] ${evento.tipo} ${evento.id} enviado para dead letter após ${tentativas} tentativas: ${mensagem}`);
+        await this.repository.registrarFalha(evento.id, tentativas, mensagem, null);
+        return;
+      }
+
+      const atraso = this.config.backoffBaseMs * Math.pow(2, tentativas - 1);
+      await this.repository.registrarFalha(
+        evento.id,
+        tentativas,
+        mensagem,
+        new Date(Date.now() + atraso)
+      );
+    }
+  }
+}
+
+// Instância singleton
+export const outboxDispatcher = new OutboxDispatcher(new PrismaClient());
@@ -9,6 +9,8 @@ import {
   validateLogin, 
   isPasswordExpired, 
   shouldLockAccount,
+  generateFromPattern,
+  getEffectivePattern,
   DEFAULT_CREDENTIAL_RULES,
   PasswordRule,
   LoginRule 
@@ -18,6 +20,7 @@ export interface PasswordValidationResult {
   valid: boolean;
   message: string;
   shouldForceChange?: boolean;
+  passwordExpired?: boolean;
   accountLocked?: boolean;
   lockoutMinutes?: number;
 }
@@ -146,7 +149,8 @@ export async function validatePasswordComplete(
     return {
       valid: true,
       message: "Senha expirada, deve ser alterada",
-      shouldForceChange: true
+      shouldForceChange: true,
+      passwordExpired: true
     };
   }
 
@@ -164,24 +168,12 @@ export async function validatePasswordComplete(
 export function generateTemporaryPassword(
   rules: PasswordRule = DEFAULT_CREDENTIAL_RULES.password
 ): string {
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  const digits = '0123456789';
-
-  // Gerar padrão X0000X
-  const firstLetter = letters[Math.floor(Math.random() * letters.length)];
-  
-  let numbers = '';
-  for (let i = 0; i < 4; i++) {
-    numbers += digits[Math.floor(Math.random() * digits.length)];
-  }
-  
-  const lastLetter = letters[Math.floor(Math.random() * letters.length)];
-  
-  return firstLetter + numbers + lastLetter;
+  return generateFromPattern(rules.requiredPattern, rules.minLength);
 }
 
 /**
  * Gera login seguindo as regras
+ * As duas primeiras posições de letra recebem as iniciais do nome
  * @param nomeCompleto - Nome completo do usuário para gerar iniciais
  * @param rules - Regras de geração (opcional)
  * @returns Login válido gerado
@@ -190,30 +182,25 @@ export function generateLogin(
   nomeCompleto: string,
   rules: LoginRule = DEFAULT_CREDENTIAL_RULES.login
 ): string {
-  const names = nomeCompleto.trim().split(' ');
+  // NFD separa acentos da letra base (É -> E + acento)
+  const names = nomeCompleto.normalize('NFD').toUpperCase().trim().split(' ').filter(Boolean);
   const firstName = names[0] || 'US';
-  const lastName = names[names.length - 1] || names[0] || 'ER';
-  
+  const lastName = names[names.length - 1] || 'ER';
+
   // Pegar primeiras letras dos nomes
-  let initials = (firstName[0] + lastName[0]).toUpperCase();
-  
-  // Se não tiver 2 letras, completar com letras aleatórias
-  if (initials.length < 2) {
-    const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    initials = initials.padEnd(2, letters[Math.floor(Math.random() * letters.length)]);
-  }
-  
-  // Gerar 5 números aleatórios
-  let numbers = '';
-  for (let i = 0; i < 5; i++) {
-    numbers += Math.floor(Math.random() * 10);
+  const initials = [firstName.charAt(0), lastName.charAt(0)].filter(char => char >= 'A' && char <= 'Z');
+
+  const pattern = getEffectivePattern(rules.requiredPattern, rules.minLength);
+  const login = generateFromPattern(pattern, rules.minLength).split('');
+
+  // Substituir as primeiras posições de letra pelas iniciais
+  for (let i = 0; i < pattern.length && initials.length > 0; i++) {
+    if (pattern.charAt(i) === 'X') {
+      login[i] = initials.shift()!;
+    }
   }
-  
-  // Gerar letra final aleatória
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  const finalLetter = letters[Math.floor(Math.random() * letters.length)];
-  
-  return initials + numbers + finalLetter;
+
+  return login.join('');
 }
 
 /**
@@ -0,0 +1,354 @@
+/**
+ * Serviço PIX - Configuração da chave do tenant e BR Code (EMV QRCPS-MPM)
+ * Payload estático (chave) ou dinâmico (location do PSP), com CRC16 e txid da venda
+ */
+
+import { PrismaClient, ConfiguracaoPix } from '@prisma/client';
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { AuditoriaRepository, buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { AuthContext } from '../config/jwtConfig';
+
+const prisma = new PrismaClient();
+
+export const TIPOS_CHAVE_PIX = ['CPF', 'CNPJ', 'EMAIL', 'TELEFONE', 'ALEATORIA'];
+
+export type TipoBrCode = 'ESTATICO' | 'DINAMICO';
+
+// Identificador do arranjo PIX no Merchant Account Information (ID 26)
+const GUI_PIX = 'br.gov.bcb.pix';
+
+const MAX_NOME_RECEBEDOR = 25;
+const MAX_CIDADE_RECEBEDOR = 15;
+const MAX_TXID = 25;
+
+export interface ConfiguracaoPixDto {
+  tipoChave: string;
+  chave: string;
+  nomeRecebedor: string;
+  cidadeRecebedor: string;
+  urlCobranca?: string | null;
+  segredoWebhook?: string;
+  ativo?: boolean;
+}
+
+export interface DadosBrCode {
+  nomeRecebedor: string;
+  cidadeRecebedor: string;
+  txid: string;
+  valor?: number;
+  // Estático: chave do recebedor; dinâmico: URL do payload no PSP
+  chave?: string;
+  url?: string;
+}
+
+export interface CobrancaPixGerada {
+  vendaId: string;
+  numeroFiscal: string;
+  txid: string;
+  tipo: TipoBrCode;
+  valor: number;
+  status: string;
+  payload: string;
+  qrCode: string; // data URL PNG
+}
+
+// ====================================
+// BR CODE (EMV)
+// ====================================
+
+/**
+ * Campo EMV: ID (2) + tamanho (2) + valor
+ */
+export function campoEmv(id: string, valor: string): string {
+  return `${id}${valor.length.toString().padStart(2, '0')}${valor}`;
+}
+
+/**
+ * CRC16-CCITT (polinômio 0x1021, inicial 0xFFFF) exigido no campo 63 do BR Code
+ */
+export function crc16(payload: string): string {
+  let crc = 0xFFFF;
+  for (const byte of Buffer.from(payload, 'utf8')) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = (crc & 0x8000) ? ((crc << 1) ^ 0x1021) : (crc << 1);
+      crc &= 0xFFFF;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Texto livre do BR Code: sem acentos, ASCII imprimível e no tamanho máximo do campo
+ */
+function normalizarTexto(texto: string, tamanhoMaximo: number): string {
+  return texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, '')
+    .trim()
+    .toUpperCase()
+    .slice(0, tamanhoMaximo);
+}
+
+/**
+ * txid da cobrança: alfanumérico, derivado da série e do número fiscal da venda
+ * Ex: série 1, número 202501000042 → V001202501000042
+ */
+export function gerarTxid(serie: string, numeroFiscal: string): string {
+  return `V${serie.padStart(3, '0')}${numeroFiscal}`.replace(/[^A-Za-z0-9]/g, '').slice(0, MAX_TXID);
+}
+
+/**
+ * Monta o payload "copia e cola" do BR Code
+ * Dinâmico: location do PSP no ID 26.25, uso único (ID 01 = 12) e txid *** no ID 62
+ */
+export function montarBrCode(dados: DadosBrCode): string {
+  const dinamico = !!dados.url;
+
+  const contaRecebedor = campoEmv('00', GUI_PIX) + (dinamico
+    ? campoEmv('25', dados.url!)
+    : campoEmv('01', dados.chave ?? ''));
+
+  const payload = [
+    campoEmv('00', '01'),
+    dinamico ? campoEmv('01', '12') : '',
+    campoEmv('26', contaRecebedor),
+    campoEmv('52', '0000'),
+    campoEmv('53', '986'),
+    dados.valor !== undefined && dados.valor > 0 ? campoEmv('54', dados.valor.toFixed(2)) : '',
+    campoEmv('58', 'BR'),
+    campoEmv('59', normalizarTexto(dados.nomeRecebedor, MAX_NOME_RECEBEDOR)),
+    campoEmv('60', normalizarTexto(dados.cidadeRecebedor, MAX_CIDADE_RECEBEDOR)),
+    campoEmv('62', campoEmv('05', dinamico ? '***' : dados.txid)),
+    '6304'
+  ].join('');
+
+  return payload + crc16(payload);
+}
+
+/**
+ * QR Code PNG do payload (para exibição no PDV ou impressão)
+ */
+export async function gerarQrCodePng(payload: string): Promise<Buffer> {
+  return await QRCode.toBuffer(payload, { type: 'png', errorCorrectionLevel: 'M', margin: 2, width: 300 });
+}
+
+// ====================================
+// CONFIGURAÇÃO DO TENANT
+// ====================================
+
+/**
+ * Valida a chave PIX conforme o tipo
+ */
+export function validarConfiguracaoPix(dto: Partial<ConfiguracaoPixDto>): string[] {
+  const errors: string[] = [];
+  const chave = dto.chave?.trim() ?? '';
+
+  if (!dto.tipoChave || !TIPOS_CHAVE_PIX.includes(dto.tipoChave)) {
+    errors.push(`Tipo de chave deve ser um de: ${TIPOS_CHAVE_PIX.join(', ')}`);
+  } else if (!chave) {
+    errors.push('Chave PIX é obrigatória');
+  } else {
+    const formatos: Record<string, RegExp> = {
+      CPF: /^\d{11}$/,
+      CNPJ: /^\d{14}$/,
+      EMAIL: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+      TELEFONE: /^\+55\d{10,11}$/,
+      ALEATORIA: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    };
+    if (!formatos[dto.tipoChave]!.test(chave)) {
+      errors.push(`Chave PIX inválida para o tipo ${dto.tipoChave}`);
+    }
+    if (chave.length > 77) {
+      errors.push('Chave PIX deve ter no máximo 77 caracteres');
+    }
+  }
+
+  if (!dto.nomeRecebedor?.trim()) {
+    errors.push('Nome do recebedor é obrigatório');
+  }
+
+  if (!dto.cidadeRecebedor?.trim()) {
+    errors.push('Cidade do recebedor é obrigatória');
+  }
+
+  if (dto.urlCobranca && /^https?:\/\//i.test(dto.urlCobranca)) {
+    errors.push('URL de cobrança deve ser informada sem o protocolo (https://)');
+  }
+
+  return errors;
+}
+
+/**
+ * Configuração PIX do tenant, sem o hash do segredo do webhook
+ */
+export async function obterConfiguracaoPix(tenantId: string): Promise<
+  (Omit<ConfiguracaoPix, 'segredoWebhookHash'> & { webhookConfigurado: boolean }) | null
+> {
+  const configuracao = await prisma.configuracaoPix.findUnique({ where: { tenantId } });
+  if (!configuracao) return null;
+
+  const { segredoWebhookHash, ...dados } = configuracao;
+  return { ...dados, webhookConfigurado: !!segredoWebhookHash };
+}
+
+/**
+ * Cria ou atualiza a chave PIX do tenant
+ * O segredo do webhook é guardado apenas como hash
+ */
+export async function salvarConfiguracaoPix(
+  tenantId: string,
+  dto: ConfiguracaoPixDto,
+  updatedBy: string
+): Promise<{ success: boolean; error?: string; validationErrors?: string[] }> {
+  const validationErrors = validarConfiguracaoPix(dto);
+  if (validationErrors.length > 0) {
+    return {
+      success: false,
+      error: 'Configuração PIX inválida',
+      validationErrors
+    };
+  }
+
+  const dados = {
+    tipoChave: dto.tipoChave,
+    chave: dto.chave.trim(),
+    nomeRecebedor: dto.nomeRecebedor.trim(),
+    cidadeRecebedor: dto.cidadeRecebedor.trim(),
+    urlCobranca: dto.urlCobranca?.trim() || null,
+    ativo: dto.ativo ?? true,
+    ...(dto.segredoWebhook && { segredoWebhookHash: hashSegredo(dto.segredoWebhook) }),
+    usuarioUltimaAtualizacao: updatedBy
+  };
+
+  await prisma.$transaction(async (tx) => {
+    const anterior = await tx.configuracaoPix.findUnique({ where: { tenantId } });
+
+    const configuracao = await tx.configuracaoPix.upsert({
+      where: { tenantId },
+      create: { tenantId, usuarioCadastro: updatedBy, ...dados },
+      update: dados
+    });
+
+    // Hash do segredo fora da trilha: registra apenas que foi trocado
+    const { segredoWebhookHash: hashAntes, ...antes } = anterior ?? { segredoWebhookHash: null };
+    const { segredoWebhookHash: hashDepois, ...depois } = configuracao;
+
+    await new AuditoriaRepository(tx as TransactionClient).registrar({
+      entidade: 'ConfiguracaoPix',
+      entidadeId: configuracao.id,
+      acao: anterior ? 'UPDATE' : 'CREATE',
+      alteracoes: {
+        ...buildAuditDiff(anterior ? antes : null, depois),
+        ...(hashAntes !== hashDepois && { segredoWebhook: { antes: '***', depois: '***' } })
+      },
+      usuarioId: updatedBy,
+      tenantId
+    });
+  });
+
+  return { success: true };
+}
+
+/**
+ * Confere o segredo enviado pelo PSP no webhook (comparação em tempo constante)
+ */
+export async function validarSegredoWebhook(tenantId: string, segredo: string | undefined): Promise<boolean> {
+  if (!segredo) return false;
+
+  const configuracao = await prisma.configuracaoPix.findUnique({ where: { tenantId } });
+  if (!configuracao?.ativo || !configuracao.segredoWebhookHash) return false;
+
+  return crypto.timingSafeEqual(
+    Buffer.from(hashSegredo(segredo), 'hex'),
+    Buffer.from(configuracao.segredoWebhookHash, 'hex')
+  );
+}
+
+/**
+ * Contexto de execução das confirmações recebidas pelo webhook do PSP
+ */
+export function contextoWebhookPix(tenantId: string): AuthContext {
+  return {
+    userId: 'pix-webhook',
+    login: 'pix-webhook',
+    tenantId,
+    roleId: '',
+    roleName: 'SISTEMA',
+    permissions: [],
+    isSuperAdmin: false,
+    sessionId: ''
+  };
+}
+
+// ====================================
+// COBRANÇA DA VENDA
+// ====================================
+
+/**
+ * Gera (ou regera) o BR Code da parte PIX de uma venda
+ * @returns null se a venda não existe ou não tem pagamento PIX
+ */
+export async function gerarCobrancaPix(
+  vendaId: string,
+  tenantId: string,
+  tipo: TipoBrCode
+): Promise<{ success: boolean; data?: CobrancaPixGerada; error?: string } | null> {
+  const cobranca = await prisma.cobrancaPix.findFirst({
+    where: { vendaId, tenantId },
+    include: { venda: { select: { numeroFiscal: true } } }
+  });
+  if (!cobranca) return null;
+
+  const configuracao = await prisma.configuracaoPix.findUnique({ where: { tenantId } });
+  if (!configuracao?.ativo) {
+    return {
+      success: false,
+      error: 'PIX não configurado para o tenant'
+    };
+  }
+
+  if (tipo === 'DINAMICO' && !configuracao.urlCobranca) {
+    return {
+      success: false,
+      error: 'BR Code dinâmico exige a URL de cobrança do PSP na configuração PIX'
+    };
+  }
+
+  const valor = Number(cobranca.valor);
+  const payload = montarBrCode({
+    nomeRecebedor: configuracao.nomeRecebedor,
+    cidadeRecebedor: configuracao.cidadeRecebedor,
+    txid: cobranca.txid,
+    valor,
+    ...(tipo === 'DINAMICO'
+      ? { url: `${configuracao.urlCobranca!.replace(/\/+$/, '')}/${cobranca.txid}` }
+      : { chave: configuracao.chave })
+  });
+
+  await prisma.cobrancaPix.update({
+    where: { id: cobranca.id },
+    data: { tipo, payload }
+  });
+
+  return {
+    success: true,
+    data: {
+      vendaId,
+      numeroFiscal: cobranca.venda.numeroFiscal!, // Cobrança só existe em venda com número fiscal
+      txid: cobranca.txid,
+      tipo,
+      valor,
+      status: cobranca.status,
+      payload,
+      qrCode: await QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 2, width: 300 })
+    }
+  };
+}
+
+function hashSegredo(segredo: string): string {
+  return crypto.createHash('sha256').update(segredo).digest('hex');
+}
@@ -0,0 +1,231 @@
+/**
+ * Serviço de Regras de Credenciais - Política por tenant
+ * Resolução: regras do tenant → padrão global (Super Admin) → DEFAULT_CREDENTIAL_RULES
+ */
+
+import { PrismaClient, Prisma, RegraCredencial } from '@prisma/client';
+import {
+  CredentialRules,
+  LoginRule,
+  PasswordRule,
+  DEFAULT_CREDENTIAL_RULES,
+  updateCredentialRules,
+  validateCredentialRules
+} from '../config/credentialsRules';
+import { AuditoriaRepository, buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { cacheService } from './cacheService';
+
+const prisma = new PrismaClient();
+
+export const ESCOPO_GLOBAL = 'GLOBAL';
+
+const CACHE_TTL = 300; // 5 minutos
+
+export type OrigemRegras = 'TENANT' | 'GLOBAL' | 'PADRAO';
+
+export interface RegrasCredenciaisResolvidas extends CredentialRules {
+  origem: OrigemRegras;
+}
+
+export interface AlteracaoRegrasCredenciais {
+  login?: Partial<LoginRule>;
+  password?: Partial<PasswordRule>;
+}
+
+export interface SalvarRegrasResult {
+  success: boolean;
+  data?: {
+    rules: CredentialRules;
+    usuariosSinalizados: number;
+  };
+  error?: string;
+  validationErrors?: string[];
+}
+
+/**
+ * Regras vigentes para o tenant (ou o padrão global, sem tenant)
+ * @param tenantId - Tenant do usuário; omitido para Super Admin/login sem tenant
+ */
+export async function obterRegrasCredenciais(tenantId?: string | null): Promise<RegrasCredenciaisResolvidas> {
+  if (tenantId) {
+    const regraTenant = await findRegraPorEscopo(tenantId);
+    if (regraTenant) return toCredentialRules(regraTenant, 'TENANT');
+  }
+
+  const regraGlobal = await findRegraPorEscopo(ESCOPO_GLOBAL);
+  if (regraGlobal) return toCredentialRules(regraGlobal, 'GLOBAL');
+
+  return { ...DEFAULT_CREDENTIAL_RULES, origem: 'PADRAO' };
+}
+
+/**
+ * Salva regras do tenant ou o padrão global (tenantId null)
+ * Quando a política de senha fica mais restritiva, usuários afetados são
+ * sinalizados com forcarTrocaSenha - senhas só existem como hash e não podem
+ * ser revalidadas contra o novo formato
+ * @param tenantId - Tenant, ou null para o padrão global
+ * @param alteracoes - Alterações parciais de login e/ou senha
+ * @param updatedBy - Usuário que está alterando
+ */
+export async function salvarRegrasCredenciais(
+  tenantId: string | null,
+  alteracoes: AlteracaoRegrasCredenciais,
+  updatedBy: string
+): Promise<SalvarRegrasResult> {
+  const escopo = tenantId ?? ESCOPO_GLOBAL;
+
+  if (tenantId) {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      return {
+        success: false,
+        error: 'Tenant não encontrado'
+      };
+    }
+  }
+
+  // Base de comparação: o que está em vigor hoje para o escopo
+  const { origem: _origem, ...atuais } = await obterRegrasCredenciais(tenantId);
+  const novas = updateCredentialRules(atuais, alteracoes, updatedBy);
+
+  const validationErrors = validateCredentialRules(novas);
+  if (validationErrors.length > 0) {
+    return {
+      success: false,
+      error: 'Regras de credenciais inválidas',
+      validationErrors
+    };
+  }
+
+  const usuariosSinalizados = await prisma.$transaction(async (tx) => {
+    const dados = {
+      regrasLogin: novas.login as unknown as Prisma.InputJsonValue,
+      regrasSenha: novas.password as unknown as Prisma.InputJsonValue,
+      usuarioUltimaAtualizacao: updatedBy
+    };
+
+    await tx.regraCredencial.upsert({
+      where: { escopo },
+      create: { escopo, tenantId, usuarioCadastro: updatedBy, ...dados },
+      update: dados
+    });
+
+    const sinalizados = await sinalizarTrocaSenha(tx, tenantId, atuais.password, novas.password);
+
+    // Padrão global não pertence a um tenant: fica registrado apenas pelo auditLog da rota
+    if (tenantId) {
+      await new AuditoriaRepository(tx as TransactionClient).registrar({
+        entidade: 'RegraCredencial',
+        entidadeId: escopo,
+        acao: 'UPDATE',
+        alteracoes: {
+          ...prefixDiff('login', buildAuditDiff(atuais.login, novas.login)),
+          ...prefixDiff('password', buildAuditDiff(atuais.password, novas.password))
+        },
+        usuarioId: updatedBy,
+        tenantId
+      });
+    }
+
+    return sinalizados;
+  });
+
+  cacheService.delete(cacheKey(escopo));
+
+  if (usuariosSinalizados > 0) {
+    console.log(`[CREDENCIAIS] Política de senha mais restritiva em ${escopo}: ${usuariosSinalizados} usuário(s) deverão trocar a senha`);
+  }
+
+  return {
+    success: true,
+    data: {
+      rules: novas,
+      usuariosSinalizados
+    }
+  };
+}
+
+/**
+ * Sinaliza troca obrigatória quando a política de senha aperta
+ * - Formato mais restritivo: todos os usuários do escopo
+ * - Expiração menor: usuários cuja senha já passou do novo prazo
+ * No escopo global, apenas tenants sem regras próprias são afetados
+ * @returns quantidade de usuários sinalizados
+ */
+async function sinalizarTrocaSenha(
+  tx: Prisma.TransactionClient,
+  tenantId: string | null,
+  antes: PasswordRule,
+  depois: PasswordRule
+): Promise<number> {
+  const formatoMaisRestritivo = depois.active && (
+    !antes.active ||
+    antes.requiredPattern !== depois.requiredPattern ||
+    depois.minLength > antes.minLength ||
+    depois.maxLength < antes.maxLength
+  );
+
+  const expiracaoMaisCurta = depois.expirationDays > 0 &&
+    (antes.expirationDays <= 0 || depois.expirationDays < antes.expirationDays);
+
+  if (!formatoMaisRestritivo && !expiracaoMaisCurta) return 0;
+
+  const where: Prisma.UsuarioWhereInput = {
+    ativo: true,
+    forcarTrocaSenha: false,
+    ...(tenantId ? { tenantId } : { tenant: { regraCredencial: { is: null } } })
+  };
+
+  if (!formatoMaisRestritivo) {
+    const limite = new Date(Date.now() - depois.expirationDays * 24 * 60 * 60 * 1000);
+    where.OR = [
+      { senhaAlteradaEm: { lte: limite } },
+      { senhaAlteradaEm: null, dataCadastro: { lte: limite } }
+    ];
+  }
+
+  const result = await tx.usuario.updateMany({
+    where,
+    data: { forcarTrocaSenha: true }
+  });
+
+  return result.count;
+}
+
+async function findRegraPorEscopo(escopo: string): Promise<RegraCredencial | null> {
+  return cacheService.getOrSet(
+    cacheKey(escopo),
+    async () => await prisma.regraCredencial.findUnique({ where: { escopo } }),
+    CACHE_TTL
+  );
+}
+
+/**
+ * Converte o registro em regras completas
+ * Campos ausentes no JSON (regras salvas antes de um campo existir) vêm do padrão
+ */
+function toCredentialRules(regra: RegraCredencial, origem: OrigemRegras): RegrasCredenciaisResolvidas {
+  const rules = updateCredentialRules(
+    DEFAULT_CREDENTIAL_RULES,
+    {
+      login: regra.regrasLogin as Partial<LoginRule>,
+      password: regra.regrasSenha as Partial<PasswordRule>
+    },
+    regra.usuarioUltimaAtualizacao
+  );
+
+  return {
+    ...rules,
+    lastUpdated: regra.dataUltimaAtualizacao,
+    origem
+  };
+}
+
+function prefixDiff(prefixo: string, diff: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(diff).map(([campo, valor]) => [`${prefixo}.${campo}`, valor]));
+}
+
+function cacheKey(escopo: string): string {
+  return `credential-rules:${escopo}`;
+}
@@ -0,0 +1,319 @@
+/**
+ * Serviço de Relatórios - Períodos no fuso do tenant e comparação com o período anterior
+ * Datas de entrada são dias locais (AAAA-MM-DD): o dia comercial de uma loja em
+ * São Paulo termina às 23:59 de São Paulo, não às 21:00 (meia-noite UTC)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { VendaRepository, PeriodoLocal, somarDias, dataLocal } from '../repositories/VendaRepository';
+import { ProdutoRepository, DesempenhoProduto } from '../repositories/ProdutoRepository';
+
+const prisma = new PrismaClient();
+
+export const FUSO_HORARIO_PADRAO = 'America/Sao_Paulo';
+
+/**
+ * Configuração dos relatórios
+ */
+export const RELATORIO_CONFIG = {
+  // Acima deste número de dias a série diária é enviada em streaming
+  diasSemStreaming: 92,
+  diasPorLote: 31
+};
+
+/**
+ * Curva ABC: classes pela participação acumulada (%), do maior para o menor
+ */
+export const CURVA_ABC_CONFIG = {
+  limiteA: 80,
+  limiteB: 95,
+  // Estoque parado: dias sem venda com saldo em estoque
+  diasSemVendaPadrao: 90,
+  diasSemVendaMaximo: 3650
+};
+
+export type ClasseAbc = 'A' | 'B' | 'C';
+
+const DATA_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDataValida = (data: unknown): data is string =>
+  typeof data === 'string' && DATA_REGEX.test(data) && somarDias(data, 0) === data;
+
+export function validarPeriodo(dataInicio: unknown, dataFim: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isDataValida(dataInicio)) {
+    errors.push('dataInicio deve ser uma data no formato AAAA-MM-DD');
+  }
+  if (!isDataValida(dataFim)) {
+    errors.push('dataFim deve ser uma data no formato AAAA-MM-DD');
+  }
+  if (errors.length === 0 && (dataInicio as string) > (dataFim as string)) {
+    errors.push('dataInicio não pode ser posterior a dataFim');
+  }
+
+  return errors;
+}
+
+/**
+ * Fuso horário IANA configurado para o tenant
+ */
+export async function obterFusoHorario(
+  tenantId: string,
+  client: PrismaClient | TransactionClient = prisma
+): Promise<string> {
+  const tenant = await client.tenant.findUnique({
+    where: { id: tenantId },
+    select: { fusoHorario: true }
+  });
+  return tenant?.fusoHorario ?? FUSO_HORARIO_PADRAO;
+}
+
+/**
+ * Dia corrente no fuso do tenant ("hoje" das estatísticas)
+ */
+export async function obterHojeTenant(tenantId: string): Promise<string> {
+  return dataLocal(new Date(), await obterFusoHorario(tenantId));
+}
+
+/**
+ * Quantidade de dias do período (inclusivo)
+ */
+export function contarDias(periodo: { dataInicio: string; dataFim: string }): number {
+  const inicio = Date.parse(`${periodo.dataInicio}T00:00:00Z`);
+  const fim = Date.parse(`${periodo.dataFim}T00:00:00Z`);
+  return Math.round((fim - inicio) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Período de mesma duração imediatamente anterior
+ * Ex: 2025-02-01..2025-02-28 (28 dias) → 2025-01-04..2025-01-31
+ */
+export function periodoAnterior(periodo: PeriodoLocal): PeriodoLocal {
+  const dias = contarDias(periodo);
+  return {
+    ...periodo,
+    dataInicio: somarDias(periodo.dataInicio, -dias),
+    dataFim: somarDias(periodo.dataInicio, -1)
+  };
+}
+
+/**
+ * Variação percentual sobre o período anterior (2 casas)
+ * null quando o período anterior não teve movimento (crescimento indefinido)
+ */
+export function calcularCrescimento(atual: number, anterior: number): number | null {
+  if (anterior === 0) return null;
+  return Math.round(((atual - anterior) / anterior) * 10000) / 100;
+}
+
+/**
+ * Relatório de vendas do período com comparativo contra o período anterior
+ * A série diária (vendasPorDia) fica por último para poder ser enviada em streaming
+ */
+export async function gerarRelatorioVendas(
+  tenantId: string,
+  dataInicio: string,
+  dataFim: string,
+  options: { incluirPorDia?: boolean } = {}
+) {
+  const fusoHorario = await obterFusoHorario(tenantId);
+  const periodo: PeriodoLocal = { dataInicio, dataFim, fusoHorario };
+  const anterior = periodoAnterior(periodo);
+
+  const vendaRepo = new VendaRepository(prisma);
+  const [relatorio, resumoAnterior] = await Promise.all([
+    vendaRepo.getSalesReport(periodo, tenantId, options),
+    vendaRepo.getSalesSummary(anterior, tenantId)
+  ]);
+
+  const { vendasPorDia, ...resto } = relatorio;
+
+  return {
+    periodo,
+    ...resto,
+    comparativo: {
+      periodoAnterior: {
+        dataInicio: anterior.dataInicio,
+        dataFim: anterior.dataFim,
+        ...resumoAnterior
+      },
+      crescimento: {
+        totalVendas: calcularCrescimento(resto.totalVendas, resumoAnterior.totalVendas),
+        totalFaturamento: calcularCrescimento(resto.totalFaturamento, resumoAnterior.totalFaturamento),
+        ticketMedio: calcularCrescimento(resto.ticketMedio, resumoAnterior.ticketMedio)
+      }
+    },
+    ...(vendasPorDia && { vendasPorDia })
+  };
+}
+
+/**
+ * Dias sem venda do estoque parado (inteiro positivo, opcional)
+ */
+export function validarDiasSemVenda(diasSemVenda: unknown): string[] {
+  if (diasSemVenda === undefined) return [];
+
+  const dias = Number(diasSemVenda);
+  if (typeof diasSemVenda !== 'string' || !Number.isInteger(dias) || dias < 1 || dias > CURVA_ABC_CONFIG.diasSemVendaMaximo) {
+    return [`diasSemVenda deve ser um inteiro entre 1 e ${CURVA_ABC_CONFIG.diasSemVendaMaximo}`];
+  }
+  return [];
+}
+
+const arredondar = (valor: number): number => Math.round(valor * 100) / 100;
+
+/**
+ * Margem sobre o faturamento (%); null sem faturamento
+ */
+export const calcularMargem = (lucro: number, faturamento: number): number | null =>
+  faturamento > 0 ? arredondar((lucro / faturamento) * 100) : null;
+
+/**
+ * Classifica pela participação acumulada antes do item: o maior é sempre A
+ * Valores zerados ou negativos (prejuízo) não participam e ficam em C
+ */
+export function classificarAbc<T>(itens: T[], valor: (item: T) => number): Map<T, { participacao: number; classe: ClasseAbc }> {
+  const total = itens.reduce((soma, item) => soma + Math.max(valor(item), 0), 0);
+  const classes = new Map<T, { participacao: number; classe: ClasseAbc }>();
+
+  let acumulado = 0;
+  for (const item of [...itens].sort((a, b) => valor(b) - valor(a))) {
+    const participacao = total > 0 ? (Math.max(valor(item), 0) / total) * 100 : 0;
+    const classe: ClasseAbc = participacao === 0
+      ? 'C'
+      : acumulado < CURVA_ABC_CONFIG.limiteA ? 'A'
+      : acumulado < CURVA_ABC_CONFIG.limiteB ? 'B'
+      : 'C';
+
+    classes.set(item, { participacao: arredondar(participacao), classe });
+    acumulado += participacao;
+  }
+
+  return classes;
+}
+
+/**
+ * Totais por classe (produtos, valor e participação)
+ */
+function resumirClasses(
+  produtos: Array<{ classe: ClasseAbc; valor: number; participacao: number }>
+): Record<ClasseAbc, { produtos: number; valor: number; participacao: number }> {
+  const resumo = {
+    A: { produtos: 0, valor: 0, participacao: 0 },
+    B: { produtos: 0, valor: 0, participacao: 0 },
+    C: { produtos: 0, valor: 0, participacao: 0 }
+  };
+
+  for (const { classe, valor, participacao } of produtos) {
+    resumo[classe].produtos += 1;
+    resumo[classe].valor = arredondar(resumo[classe].valor + valor);
+    resumo[classe].participacao = arredondar(resumo[classe].participacao + participacao);
+  }
+
+  return resumo;
+}
+
+/**
+ * Curva ABC de produtos no período, por faturamento e por lucro
+ * Margem por produto e categoria com o custo registrado na venda; itens vendidos
+ * antes desse registro usam o custo atual do estoque (custoEstimado).
+ * Inclui o estoque parado (saldo sem venda há diasSemVenda dias)
+ */
+export async function gerarCurvaAbc(
+  tenantId: string,
+  dataInicio: string,
+  dataFim: string,
+  diasSemVenda: number = CURVA_ABC_CONFIG.diasSemVendaPadrao
+) {
+  const fusoHorario = await obterFusoHorario(tenantId);
+  const periodo: PeriodoLocal = { dataInicio, dataFim, fusoHorario };
+
+  const produtoRepo = new ProdutoRepository(prisma);
+  const [desempenho, estoqueParado] = await Promise.all([
+    produtoRepo.getDesempenhoVendas(periodo, tenantId),
+    produtoRepo.findEstoqueParado(tenantId, diasSemVenda, fusoHorario)
+  ]);
+
+  const lucro = (item: DesempenhoProduto) => item.faturamento - item.custo;
+  const porFaturamento = classificarAbc(desempenho, item => item.faturamento);
+  const porLucro = classificarAbc(desempenho, lucro);
+
+  // Ordem da curva de faturamento
+  const produtos = [...porFaturamento.keys()].map(item => {
+    const faturamento = porFaturamento.get(item)!;
+    const lucroItem = porLucro.get(item)!;
+    return {
+      produtoId: item.produtoId,
+      produto: item.produto,
+      categoria: item.categoria,
+      quantidade: item.quantidade,
+      faturamento: arredondar(item.faturamento),
+      custo: arredondar(item.custo),
+      lucro: arredondar(lucro(item)),
+      margem: calcularMargem(lucro(item), item.faturamento),
+      custoEstimado: item.itensCustoAtual > 0,
+      participacaoFaturamento: faturamento.participacao,
+      classeFaturamento: faturamento.classe,
+      participacaoLucro: lucroItem.participacao,
+      classeLucro: lucroItem.classe
+    };
+  });
+
+  const categorias = new Map<string, { categoria: string; quantidade: number; faturamento: number; custo: number }>();
+  for (const item of desempenho) {
+    const categoria = categorias.get(item.categoria) ?? { categoria: item.categoria, quantidade: 0, faturamento: 0, custo: 0 };
+    categoria.quantidade += item.quantidade;
+    categoria.faturamento += item.faturamento;
+    categoria.custo += item.custo;
+    categorias.set(item.categoria, categoria);
+  }
+
+  const totalFaturamento = desempenho.reduce((soma, item) => soma + item.faturamento, 0);
+  const totalCusto = desempenho.reduce((soma, item) => soma + item.custo, 0);
+
+  return {
+    periodo,
+    criterios: {
+      limiteA: CURVA_ABC_CONFIG.limiteA,
+      limiteB: CURVA_ABC_CONFIG.limiteB
+    },
+    resumo: {
+      produtos: produtos.length,
+      faturamento: arredondar(totalFaturamento),
+      custo: arredondar(totalCusto),
+      lucro: arredondar(totalFaturamento - totalCusto),
+      margem: calcularMargem(totalFaturamento - totalCusto, totalFaturamento),
+      produtosCustoEstimado: produtos.filter(produto => produto.custoEstimado).length
+    },
+    classes: {
+      faturamento: resumirClasses(produtos.map(produto => ({
+        classe: produto.classeFaturamento,
+        valor: produto.faturamento,
+        participacao: produto.participacaoFaturamento
+      }))),
+      lucro: resumirClasses(produtos.map(produto => ({
+        classe: produto.classeLucro,
+        valor: produto.lucro,
+        participacao: produto.participacaoLucro
+      })))
+    },
+    produtos,
+    categorias: [...categorias.values()]
+      .sort((a, b) => b.faturamento - a.faturamento)
+      .map(categoria => ({
+        ...categoria,
+        faturamento: arredondar(categoria.faturamento),
+        custo: arredondar(categoria.custo),
+        lucro: arredondar(categoria.faturamento - categoria.custo),
+        margem: calcularMargem(categoria.faturamento - categoria.custo, categoria.faturamento)
+      })),
+    estoqueParado: {
+      diasSemVenda,
+      produtos: estoqueParado.length,
+      valorEstoque: arredondar(estoqueParado.reduce((soma, produto) => soma + produto.valorEstoque, 0)),
+      itens: estoqueParado
+    }
+  };
+}
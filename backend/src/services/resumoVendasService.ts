@@ -0,0 +1,118 @@
+/**
+ * Serviço de Resumos de Vendas - Atualização das tabelas pré-agregadas
+ * Cada evento de venda recalcula o dia local da venda (outbox, fora da
+ * transação do checkout); a reconstrução refaz períodos inteiros em lotes
+ */
+
+import { PrismaClient, OutboxEvento } from '@prisma/client';
+import { ResumoVendaRepository } from '../repositories/ResumoVendaRepository';
+import { somarDias, dataLocal } from '../repositories/VendaRepository';
+import { TransactionClient } from '../repositories/IUnitOfWork';
+import { outboxDispatcher } from './outboxDispatcher';
+import { obterFusoHorario } from './relatorioService';
+
+const prisma = new PrismaClient();
+
+const vendaDoAgregado = (evento: OutboxEvento): string => evento.agregadoId;
+
+/**
+ * Eventos que alteram números de vendas e a venda afetada por cada um
+ * - VendaCriada: checkout e fechamento de venda aberta
+ * - VendaCancelada / ItensVendaEstornados: saem do faturamento
+ * - PagamentoPixConfirmado: PENDENTE passa a FINALIZADA
+ * - DevolucaoRegistrada: valor e itens devolvidos saem do faturamento
+ *   (o agregado é a devolução; a venda vem no payload)
+ */
+export const EVENTOS_RESUMO_VENDAS: Record<string, (evento: OutboxEvento) => string> = {
+  VendaCriada: vendaDoAgregado,
+  VendaCancelada: vendaDoAgregado,
+  ItensVendaEstornados: vendaDoAgregado,
+  PagamentoPixConfirmado: vendaDoAgregado,
+  DevolucaoRegistrada: (evento) => (evento.payload as { vendaId: string }).vendaId
+};
+
+export const RESUMO_VENDAS_CONFIG = {
+  // Dias por transação na reconstrução: limita o tempo com o lock do tenant
+  diasPorLote: 31
+};
+
+/**
+ * Recalcula os resumos do dia local da venda
+ * Idempotente: o outbox entrega pelo menos uma vez e a ordem entre eventos
+ * de vendas diferentes não importa, o dia é sempre refeito a partir das vendas
+ */
+export async function recalcularResumoDaVenda(vendaId: string, tenantId: string): Promise<void> {
+  const venda = await prisma.venda.findFirst({
+    where: { id: vendaId, tenantId },
+    select: { dataVenda: true }
+  });
+
+  if (!venda) {
+    throw new Error(`Venda ${vendaId} não encontrada para atualizar os resumos`);
+  }
+
+  const fusoHorario = await obterFusoHorario(tenantId);
+  const dia = dataLocal(venda.dataVenda, fusoHorario);
+
+  await prisma.$transaction(async (tx) => {
+    await new ResumoVendaRepository(tx as TransactionClient).recalcularPeriodo(
+      { dataInicio: dia, dataFim: dia, fusoHorario },
+      tenantId
+    );
+  });
+}
+
+/**
+ * Inscreve a atualização dos resumos nos eventos de venda do outbox
+ */
+export function registrarAtualizacaoResumosVendas(): void {
+  for (const [tipo, vendaDoEvento] of Object.entries(EVENTOS_RESUMO_VENDAS)) {
+    outboxDispatcher.subscribe(tipo, 'ResumoVendas', (evento: OutboxEvento) =>
+      recalcularResumoDaVenda(vendaDoEvento(evento), evento.tenantId)
+    );
+  }
+}
+
+/**
+ * Reconstrói os resumos do tenant no período (padrão: da primeira venda até hoje)
+ * Usado na implantação (backfill), após mudar o fuso do tenant ou para corrigir divergências
+ * @param onLote - Progresso a cada lote de dias concluído
+ */
+export async function reconstruirResumosVendas(
+  tenantId: string,
+  options: {
+    dataInicio?: string;
+    dataFim?: string;
+    onLote?: (lote: { dataInicio: string; dataFim: string; diasComVendas: number }) => void;
+  } = {}
+): Promise<{ dataInicio: string; dataFim: string; diasComVendas: number } | null> {
+  const fusoHorario = await obterFusoHorario(tenantId);
+  const repository = new ResumoVendaRepository(prisma);
+
+  const dataInicio = options.dataInicio ?? await repository.findPrimeiroDiaComVenda(tenantId, fusoHorario);
+  const dataFim = options.dataFim ?? dataLocal(new Date(), fusoHorario);
+
+  // Tenant sem vendas
+  if (!dataInicio) return null;
+
+  let diasComVendas = 0;
+  let inicio = dataInicio;
+
+  while (inicio <= dataFim) {
+    const fimLote = somarDias(inicio, RESUMO_VENDAS_CONFIG.diasPorLote - 1);
+    const fim = fimLote < dataFim ? fimLote : dataFim;
+
+    const dias = await prisma.$transaction(async (tx) =>
+      new ResumoVendaRepository(tx as TransactionClient).recalcularPeriodo(
+        { dataInicio: inicio, dataFim: fim, fusoHorario },
+        tenantId
+      )
+    );
+
+    diasComVendas += dias;
+    options.onLote?.({ dataInicio: inicio, dataFim: fim, diasComVendas: dias });
+    inicio = somarDias(fim, 1);
+  }
+
+  return { dataInicio, dataFim, diasComVendas };
+}
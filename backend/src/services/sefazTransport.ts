@@ -0,0 +1,115 @@
+/**
+ * Transporte SEFAZ - Interface de autorização da NFC-e
+ * A implementação padrão é um stub local (sem rede) para testar emissão,
+ * contingência offline e transmissão posterior
+ */
+
+import crypto from 'crypto';
+import { NS_NFE, VERSAO_NFE } from './nfceXmlBuilder';
+
+export interface RetornoAutorizacao {
+  autorizado: boolean;
+  codigoStatus: string; // cStat
+  motivo: string;       // xMotivo
+  protocolo?: string;
+  dataRecebimento?: Date;
+  xmlAutorizado?: string; // nfeProc (NFe + protNFe)
+}
+
+export interface ISefazTransport {
+  readonly nome: string;
+  /** Consulta de status do serviço de autorização da UF */
+  statusServico(uf: string, ambiente: number): Promise<boolean>;
+  /** Envio síncrono de uma NFC-e assinada */
+  autorizar(xmlAssinado: string, chaveAcesso: string, ambiente: number): Promise<RetornoAutorizacao>;
+}
+
+/**
+ * SEFAZ inacessível (timeout, rede) - a nota deve seguir em contingência offline
+ */
+export class SefazIndisponivelError extends Error {
+  constructor(message: string = 'SEFAZ indisponível') {
+    super(message);
+  }
+}
+
+export type ModoSefazStub = 'AUTORIZAR' | 'REJEITAR' | 'OFFLINE';
+
+/**
+ * Stub local da SEFAZ
+ * Modo definido por SEFAZ_STUB_MODO: AUTORIZAR (padrão), REJEITAR ou OFFLINE
+ */
+export class SefazStubTransport implements ISefazTransport {
+  readonly nome = 'stub';
+
+  constructor(private readonly modo: () => ModoSefazStub = modoStubAtual) {}
+
+  async statusServico(_uf: string, _ambiente: number): Promise<boolean> {
+    return this.modo() !== 'OFFLINE';
+  }
+
+  async autorizar(xmlAssinado: string, chaveAcesso: string, ambiente: number): Promise<RetornoAutorizacao> {
+    const modo = this.modo();
+
+    if (modo === 'OFFLINE') {
+      throw new SefazIndisponivelError('SEFAZ indisponível (stub em modo OFFLINE)');
+    }
+
+    const dataRecebimento = new Date();
+
+    if (modo === 'REJEITAR') {
+      return {
+        autorizado: false,
+        codigoStatus: '999',
+        motivo: 'Rejeição: Erro não catalogado (stub em modo REJEITAR)',
+        dataRecebimento
+      };
+    }
+
+    // Protocolo: cUF (2) + ano (2) + sequencial (11)
+    const protocolo = chaveAcesso.slice(0, 2) +
+      chaveAcesso.slice(2, 4) +
+      crypto.randomInt(0, 100000000000).toString().padStart(11, '0');
+    const digestValue = /<DigestValue>([^<]+)<\/DigestValue>/.exec(xmlAssinado)?.[1] ?? '';
+
+    const protNFe = [
+      `<protNFe versao="${VERSAO_NFE}"><infProt>`,
+      `<tpAmb>${ambiente}</tpAmb>`,
+      '<verAplic>STUB-LOCAL</verAplic>',
+      `<chNFe>${chaveAcesso}</chNFe>`,
+      `<dhRecbto>${dataRecebimento.toISOString().slice(0, 19)}-03:00</dhRecbto>`,
+      `<nProt>${protocolo}</nProt>`,
+      `<digVal>${digestValue}</digVal>`,
+      '<cStat>100</cStat>',
+      '<xMotivo>Autorizado o uso da NF-e</xMotivo>',
+      '</infProt></protNFe>'
+    ].join('');
+
+    return {
+      autorizado: true,
+      codigoStatus: '100',
+      motivo: 'Autorizado o uso da NF-e',
+      protocolo,
+      dataRecebimento,
+      xmlAutorizado: `<nfeProc xmlns="${NS_NFE}" versao="${VERSAO_NFE}">${xmlAssinado}${protNFe}</nfeProc>`
+    };
+  }
+}
+
+function modoStubAtual(): ModoSefazStub {
+  const modo = (process.env.SEFAZ_STUB_MODO || 'AUTORIZAR').toUpperCase();
+  return modo === 'REJEITAR' || modo === 'OFFLINE' ? modo : 'AUTORIZAR';
+}
+
+let transporteAtual: ISefazTransport = new SefazStubTransport();
+
+/**
+ * Transporte em uso - os webservices reais por UF substituem o stub via definirSefazTransport
+ */
+export function obterSefazTransport(): ISefazTransport {
+  return transporteAtual;
+}
+
+export function definirSefazTransport(transporte: ISefazTransport): void {
+  transporteAtual = transporte;
+}
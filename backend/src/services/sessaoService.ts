@@ -0,0 +1,199 @@
+/**
+ * Serviço de Sessões - Refresh tokens persistidos
+ * Rotação a cada refresh, detecção de reuso e revogação de sessões
+ */
+
+import { PrismaClient, Sessao } from '@prisma/client';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+export type MotivoRevogacao = 'LOGOUT' | 'REUSO_DETECTADO' | 'REVOGADA_PELO_USUARIO' | 'SENHA_ALTERADA';
+
+export interface SessaoResumo {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  dataCadastro: Date;
+  ultimoUso: Date;
+  expiraEm: Date;
+  atual: boolean;
+}
+
+/**
+ * Hash do refresh token (SHA-256) - o token nunca é armazenado em claro
+ */
+export function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+/**
+ * Registra sessão criada no login
+ */
+export async function criarSessao(data: {
+  sessionId: string;
+  usuarioId: string;
+  tenantId: string;
+  superAdmin: boolean;
+  refreshToken: string;
+  expiraEm: Date;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}): Promise<Sessao> {
+  return await prisma.sessao.create({
+    data: {
+      id: data.sessionId,
+      usuarioId: data.usuarioId,
+      tenantId: data.tenantId,
+      superAdmin: data.superAdmin,
+      refreshTokenHash: hashRefreshToken(data.refreshToken),
+      expiraEm: data.expiraEm,
+      ip: data.ip ?? null,
+      userAgent: data.userAgent ?? null
+    }
+  });
+}
+
+/**
+ * Busca sessão ativa (não revogada e não expirada)
+ */
+export async function findSessaoAtiva(sessionId: string): Promise<Sessao | null> {
+  return await prisma.sessao.findFirst({
+    where: {
+      id: sessionId,
+      revogadaEm: null,
+      expiraEm: { gt: new Date() }
+    }
+  });
+}
+
+/**
+ * Verifica se a sessão do access token continua válida
+ * Usado pelo authenticateToken a cada requisição
+ */
+export async function isSessaoAtiva(sessionId: string): Promise<boolean> {
+  const count = await prisma.sessao.count({
+    where: {
+      id: sessionId,
+      revogadaEm: null,
+      expiraEm: { gt: new Date() }
+    }
+  });
+
+  return count > 0;
+}
+
+/**
+ * Troca o refresh token da sessão pelo novo (rotação)
+ * Condicional no hash atual: se outro refresh usou o mesmo token antes,
+ * nada é atualizado e o chamador deve tratar como reuso
+ * @returns true se a rotação foi aplicada
+ */
+export async function rotacionarRefreshToken(
+  sessionId: string,
+  refreshTokenAtual: string,
+  novoRefreshToken: string,
+  novaExpiracao: Date
+): Promise<boolean> {
+  const result = await prisma.sessao.updateMany({
+    where: {
+      id: sessionId,
+      refreshTokenHash: hashRefreshToken(refreshTokenAtual),
+      revogadaEm: null
+    },
+    data: {
+      refreshTokenHash: hashRefreshToken(novoRefreshToken),
+      rotacoes: { increment: 1 },
+      expiraEm: novaExpiracao,
+      ultimoUso: new Date()
+    }
+  });
+
+  return result.count === 1;
+}
+
+/**
+ * Revoga uma sessão - access tokens dela deixam de ser aceitos imediatamente
+ */
+export async function revogarSessao(
+  sessionId: string,
+  motivo: MotivoRevogacao,
+  usuarioId?: string
+): Promise<boolean> {
+  const result = await prisma.sessao.updateMany({
+    where: {
+      id: sessionId,
+      revogadaEm: null,
+      ...(usuarioId && { usuarioId })
+    },
+    data: {
+      revogadaEm: new Date(),
+      motivoRevogacao: motivo
+    }
+  });
+
+  return result.count === 1;
+}
+
+/**
+ * Revoga todas as sessões do usuário, exceto a atual
+ * @returns quantidade de sessões revogadas
+ */
+export async function revogarOutrasSessoes(usuarioId: string, sessionIdAtual: string): Promise<number> {
+  const result = await prisma.sessao.updateMany({
+    where: {
+      usuarioId,
+      id: { not: sessionIdAtual },
+      revogadaEm: null
+    },
+    data: {
+      revogadaEm: new Date(),
+      motivoRevogacao: 'REVOGADA_PELO_USUARIO'
+    }
+  });
+
+  return result.count;
+}
+
+/**
+ * Revoga todas as sessões ativas do usuário (ex: após troca de senha)
+ * @returns quantidade de sessões revogadas
+ */
+export async function revogarSessoesUsuario(usuarioId: string, motivo: MotivoRevogacao): Promise<number> {
+  const result = await prisma.sessao.updateMany({
+    where: {
+      usuarioId,
+      revogadaEm: null
+    },
+    data: {
+      revogadaEm: new Date(),
+      motivoRevogacao: motivo
+    }
+  });
+
+  return result.count;
+}
+
+/**
+ * Lista sessões ativas do usuário (mais recentes primeiro)
+ */
+export async function listarSessoesAtivas(usuarioId: string, sessionIdAtual: string): Promise<SessaoResumo[]> {
+  const sessoes = await prisma.sessao.findMany({
+    where: {
+      usuarioId,
+      revogadaEm: null,
+      expiraEm: { gt: new Date() }
+    },
+    orderBy: { ultimoUso: 'desc' }
+  });
+
+  return sessoes.map(sessao => ({
+    id: sessao.id,
+    ip: sessao.ip,
+    userAgent: sessao.userAgent,
+    dataCadastro: sessao.dataCadastro,
+    ultimoUso: sessao.ultimoUso,
+    expiraEm: sessao.expiraEm,
+    atual: sessao.id === sessionIdAtual
+  }));
+}
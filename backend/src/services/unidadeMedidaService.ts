@@ -0,0 +1,80 @@
+/**
+ * Unidades de Medida - Precisão das quantidades por produto
+ * Quantidades de venda, estoque e movimentações ficam na unidade do produto:
+ * 0.350 KG de pão, 1.5 M de tecido, 3 UN de refrigerante
+ */
+
+export interface UnidadeMedidaInfo {
+  descricao: string;
+  casasDecimais: number;
+}
+
+export const UNIDADES_MEDIDA = {
+  UN: { descricao: 'Unidade', casasDecimais: 0 },
+  KG: { descricao: 'Quilograma', casasDecimais: 3 },
+  G: { descricao: 'Grama', casasDecimais: 0 },
+  L: { descricao: 'Litro', casasDecimais: 3 },
+  M: { descricao: 'Metro', casasDecimais: 2 }
+} satisfies Record<string, UnidadeMedidaInfo>;
+
+export type UnidadeMedida = keyof typeof UNIDADES_MEDIDA;
+
+export const UNIDADE_MEDIDA_PADRAO: UnidadeMedida = 'UN';
+
+// Casas decimais das colunas de quantidade (Decimal(12,3)): maior precisão entre as unidades
+export const CASAS_DECIMAIS_QUANTIDADE = 3;
+
+export const isUnidadeMedida = (valor: unknown): valor is UnidadeMedida =>
+  typeof valor === 'string' && Object.prototype.hasOwnProperty.call(UNIDADES_MEDIDA, valor);
+
+/**
+ * Casas decimais aceitas na unidade (unidade desconhecida: inteira, como UN)
+ */
+export function casasDecimais(unidade: string): number {
+  return isUnidadeMedida(unidade) ? UNIDADES_MEDIDA[unidade].casasDecimais : 0;
+}
+
+/**
+ * Quantidade arredondada à precisão das colunas (evita 0.1 + 0.2 = 0.30000000000000004)
+ */
+export function arredondarQuantidade(quantidade: number): number {
+  const fator = 10 ** CASAS_DECIMAIS_QUANTIDADE;
+  return Math.round(quantidade * fator) / fator;
+}
+
+const temAteCasas = (quantidade: number, casas: number): boolean => {
+  const fator = 10 ** casas;
+  return Math.abs(quantidade * fator - Math.round(quantidade * fator)) < 1e-6;
+};
+
+/**
+ * Valida o formato de uma quantidade antes de conhecer o produto:
+ * número positivo com até CASAS_DECIMAIS_QUANTIDADE casas
+ * @returns mensagem de erro ou null
+ */
+export function validarFormatoQuantidade(quantidade: unknown, campo: string = 'quantidade'): string | null {
+  if (typeof quantidade !== 'number' || !Number.isFinite(quantidade) || quantidade <= 0) {
+    return `${campo} deve ser um número maior que zero`;
+  }
+  if (!temAteCasas(quantidade, CASAS_DECIMAIS_QUANTIDADE)) {
+    return `${campo} aceita no máximo ${CASAS_DECIMAIS_QUANTIDADE} casas decimais`;
+  }
+  return null;
+}
+
+/**
+ * Valida a quantidade na unidade de medida do produto (UN inteira, KG até 3 casas...)
+ * @returns mensagem de erro ou null
+ */
+export function validarQuantidade(quantidade: unknown, unidade: string, campo: string = 'quantidade'): string | null {
+  const erroFormato = validarFormatoQuantidade(quantidade, campo);
+  if (erroFormato) return erroFormato;
+
+  const casas = casasDecimais(unidade);
+  if (!temAteCasas(quantidade as number, casas)) {
+    return casas === 0
+      ? `${campo} deve ser inteira para produtos vendidos em ${unidade}`
+      : `${campo} aceita no máximo ${casas} casas decimais em ${unidade}`;
+  }
+  return null;
+}
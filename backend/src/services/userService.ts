@@ -18,6 +18,7 @@ import {
 import { AuthContext } from '../config/jwtConfig';
 import { generateLogin, generateTemporaryPassword, createInitialPassword } from './passwordService';
 import { cacheService } from './cacheService';
+import { obterRegrasCredenciais } from './regraCredencialService';
 
 // ====================================
 // DOMAIN MODELS / DTOs
@@ -152,8 +153,11 @@ export class CreateUserCommandHandler implements ICommandHandler<CreateUserComma
         };
       }
 
+      // Regras de credenciais do tenant
+      const rules = await obterRegrasCredenciais(command.data.tenantId);
+
       // Gerar login único
-      let login = generateLogin(command.data.nome);
+      let login = generateLogin(command.data.nome, rules.login);
       let attempts = 0;
       
       while (attempts < 10) {
@@ -164,7 +168,7 @@ export class CreateUserCommandHandler implements ICommandHandler<CreateUserComma
         
         if (!existingUser) break;
         
-        login = generateLogin(command.data.nome);
+        login = generateLogin(command.data.nome, rules.login);
         attempts++;
       }
 
@@ -176,8 +180,8 @@ export class CreateUserCommandHandler implements ICommandHandler<CreateUserComma
       }
 
       // Gerar senha temporária
-      const temporaryPassword = generateTemporaryPassword();
-      const passwordData = await createInitialPassword(temporaryPassword, true);
+      const temporaryPassword = generateTemporaryPassword(rules.password);
+      const passwordData = await createInitialPassword(temporaryPassword, rules.password.forceChangeOnFirstLogin);
 
       // Criar usuário
       const userData = {
@@ -0,0 +1,1398 @@
+/**
+ * Venda Service - Checkout e estorno com Unit of Work + CQRS
+ * Venda, itens, saldo de estoque e movimentações sempre mudam na mesma transação
+ */
+
+import { IUnitOfWork } from '../repositories/IUnitOfWork';
+import { BaseCommand, CommandResult, ICommandHandler } from '../patterns/CQRS';
+import { AuthContext } from '../config/jwtConfig';
+import { VendaRepository } from '../repositories/VendaRepository';
+import { ProdutoRepository } from '../repositories/ProdutoRepository';
+import { EstoqueRepository } from '../repositories/EstoqueRepository';
+import { buildAuditDiff } from '../repositories/AuditoriaRepository';
+import { CaixaRepository } from '../repositories/CaixaRepository';
+import { DevolucaoRepository } from '../repositories/DevolucaoRepository';
+import { isOperadorCaixa } from './caixaService';
+import { gerarTxid } from './pixService';
+import { obterConfiguracaoEstoque } from './estoqueService';
+import { obterFusoHorario } from './relatorioService';
+import { arredondarQuantidade, validarQuantidade } from './unidadeMedidaService';
+import {
+  AprovacaoDto,
+  AprovadorRegistrado,
+  AprovacaoNecessariaError,
+  exigirAprovacao,
+  exigirAprovacaoDesconto
+} from './aprovacaoService';
+
+// ====================================
+// DTOs
+// ====================================
+
+export const FORMAS_PAGAMENTO = ['DINHEIRO', 'CARTAO_DEBITO', 'CARTAO_CREDITO', 'PIX', 'VALE', 'VALE_TROCA'];
+
+// Parcelamento máximo no crédito
+export const MAX_PARCELAS = 12;
+
+export interface CheckoutPagamentoDto {
+  forma: string;
+  valor: number;
+  parcelas?: number;
+  valorRecebido?: number;
+  valeTroca?: string; // Código do vale-troca (VALE_TROCA)
+}
+
+export interface CheckoutItemDto {
+  produtoId: string;
+  quantidade: number; // Na unidade de medida do produto (0.350 KG)
+  precoUnitario: number;
+  desconto?: number;
+}
+
+export interface CheckoutVendaDto {
+  clienteId?: string;
+  // Pagamento único pelo total (legado) - ignorado quando pagamentos é informado
+  formaPagamento?: string;
+  pagamentos?: CheckoutPagamentoDto[];
+  desconto?: number;
+  acrescimo?: number;
+  serie?: string;
+  itens: CheckoutItemDto[];
+  // Aprovação de supervisor para desconto acima do limite do tenant
+  aprovacao?: AprovacaoDto;
+}
+
+export interface VendaAbertaItemDto {
+  produtoId: string;
+  quantidade: number;
+  precoUnitario: number;
+  desconto?: number;
+}
+
+export interface AbrirVendaDto {
+  identificacao?: string;
+  clienteId?: string;
+  itens?: VendaAbertaItemDto[];
+}
+
+export interface FinalizarVendaAbertaDto {
+  formaPagamento?: string;
+  pagamentos?: CheckoutPagamentoDto[];
+  desconto?: number;
+  acrescimo?: number;
+  serie?: string;
+  aprovacao?: AprovacaoDto;
+}
+
+// ====================================
+// COMMANDS
+// ====================================
+
+export class CheckoutVendaCommand extends BaseCommand {
+  public readonly operadorCaixa: boolean;
+
+  constructor(
+    public readonly data: CheckoutVendaDto,
+    public readonly solicitante: AuthContext
+  ) {
+    super(solicitante);
+    this.operadorCaixa = isOperadorCaixa(solicitante);
+  }
+}
+
+export class CancelarVendaCommand extends BaseCommand {
+  constructor(
+    public readonly vendaId: string,
+    public readonly motivo: string,
+    public readonly solicitante: AuthContext,
+    public readonly aprovacao?: AprovacaoDto
+  ) {
+    super(solicitante);
+  }
+}
+
+export class EstornarItensVendaCommand extends BaseCommand {
+  constructor(
+    public readonly vendaId: string,
+    public readonly itemIds: string[],
+    public readonly motivo: string,
+    auth: AuthContext
+  ) {
+    super(auth);
+  }
+}
+
+export type OrigemConfirmacaoPix = 'MANUAL' | 'WEBHOOK';
+
+export class ConfirmarPagamentoPixCommand extends BaseCommand {
+  constructor(
+    // Venda (confirmação manual) ou txid (webhook do PSP)
+    public readonly cobranca: { vendaId: string } | { txid: string },
+    public readonly origem: OrigemConfirmacaoPix,
+    public readonly e2eId: string | undefined,
+    public readonly valor: number | undefined,
+    auth: AuthContext
+  ) {
+    super(auth);
+  }
+}
+
+export class AbrirVendaCommand extends BaseCommand {
+  constructor(
+    public readonly data: AbrirVendaDto,
+    auth: AuthContext
+  ) {
+    super(auth);
+  }
+}
+
+export class AdicionarItensVendaAbertaCommand extends BaseCommand {
+  constructor(
+    public readonly vendaId: string,
+    public readonly itens: VendaAbertaItemDto[],
+    auth: AuthContext
+  ) {
+    super(auth);
+  }
+}
+
+export class RemoverItemVendaAbertaCommand extends BaseCommand {
+  constructor(
+    public readonly vendaId: string,
+    public readonly itemId: string,
+    auth: AuthContext
+  ) {
+    super(auth);
+  }
+}
+
+export class FinalizarVendaAbertaCommand extends BaseCommand {
+  public readonly operadorCaixa: boolean;
+
+  constructor(
+    public readonly vendaId: string,
+    public readonly data: FinalizarVendaAbertaDto,
+    public readonly solicitante: AuthContext
+  ) {
+    super(solicitante);
+    this.operadorCaixa = isOperadorCaixa(solicitante);
+  }
+}
+
+export class AbandonarVendaAbertaCommand extends BaseCommand {
+  constructor(
+    public readonly vendaId: string,
+    public readonly motivo: string,
+    auth: AuthContext
+  ) {
+    super(auth);
+  }
+}
+
+/**
+ * Erro que aborta a transação da operação de venda
+ * Carrega a lista de problemas encontrados para devolver ao cliente
+ */
+class VendaRejectedError extends Error {
+  constructor(message: string, public readonly validationErrors: string[]) {
+    super(message);
+  }
+}
+
+// Comparação de valores monetários em centavos (evita erro de ponto flutuante)
+const toCentavos = (valor: number): number => Math.round(valor * 100);
+
+// Subtotal do item em centavos inteiros: 0.350 KG a 12.90 = 4.52
+const calcularSubtotal = (item: { quantidade: number; precoUnitario: number; desconto?: number }): number =>
+  (toCentavos(item.quantidade * item.precoUnitario) - toCentavos(item.desconto || 0)) / 100;
+
+// Total da venda em centavos: checkout e fechamento de venda aberta chegam ao mesmo valor
+const calcularTotal = (preco: number, desconto: number, acrescimo: number): number =>
+  (toCentavos(preco) - toCentavos(desconto) + toCentavos(acrescimo)) / 100;
+
+/**
+ * Monta as linhas de pagamento da venda e calcula o troco
+ * - Sem pagamentos informados, formaPagamento quita o total em uma linha
+ * - A soma dos valores deve ser exatamente o total da venda
+ * - Troco = valorRecebido - valor, apenas em DINHEIRO
+ */
+const montarPagamentos = (data: Pick<CheckoutVendaDto, 'formaPagamento' | 'pagamentos'>, total: number) => {
+  const pagamentos: CheckoutPagamentoDto[] = data.pagamentos && data.pagamentos.length > 0
+    ? data.pagamentos
+    : [{ forma: data.formaPagamento!, valor: total }];
+
+  const errors: string[] = [];
+  const linhas = pagamentos.map((pagamento, index) => {
+    const valorRecebido = pagamento.valorRecebido ?? null;
+    const troco = pagamento.forma === 'DINHEIRO' && valorRecebido !== null
+      ? (toCentavos(valorRecebido) - toCentavos(pagamento.valor)) / 100
+      : 0;
+
+    if (troco < 0) {
+      errors.push(`Pagamento ${index + 1}: valor recebido menor que o valor pago`);
+    }
+
+    return {
+      forma: pagamento.forma,
+      valor: pagamento.valor,
+      parcelas: pagamento.parcelas ?? 1,
+      valorRecebido,
+      troco,
+      valeTroca: pagamento.valeTroca ?? null
+    };
+  });
+
+  const totalPago = linhas.reduce((sum, linha) => sum + toCentavos(linha.valor), 0);
+  if (totalPago !== toCentavos(total)) {
+    errors.push(
+      `Soma dos pagamentos (${(totalPago / 100).toFixed(2)}) difere do total da venda (${total.toFixed(2)})`
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new VendaRejectedError('Pagamentos inválidos', errors);
+  }
+
+  const formas = [...new Set(linhas.map(linha => linha.forma))];
+
+  return {
+    linhas,
+    // Cabeçalho mantém a forma quando única; MULTIPLO para pagamento dividido
+    formaPagamento: formas.length === 1 ? formas[0]! : 'MULTIPLO',
+    troco: linhas.reduce((sum, linha) => sum + linha.troco, 0)
+  };
+};
+
+/**
+ * Resgata os vales-troca usados como pagamento, debitando o saldo de cada um
+ * Resgate parcial mantém o restante no vale para uma próxima compra
+ * @returns Linhas de pagamento vinculadas ao vale resgatado
+ */
+const resgatarValesTroca = async (
+  uow: IUnitOfWork,
+  linhas: ReturnType<typeof montarPagamentos>['linhas'],
+  tenantId: string
+) => {
+  const devolucaoRepo = new DevolucaoRepository(uow.client);
+
+  const pagamentos = [];
+  for (const [index, { valeTroca, ...linha }] of linhas.entries()) {
+    if (linha.forma !== 'VALE_TROCA') {
+      pagamentos.push({ ...linha, valeTrocaId: null });
+      continue;
+    }
+
+    const vale = valeTroca ? await devolucaoRepo.findValeTroca(valeTroca, tenantId) : null;
+    if (!vale || vale.status !== 'ATIVO') {
+      throw new VendaRejectedError('Vale-troca inválido', [
+        `Pagamento ${index + 1}: vale-troca não encontrado ou já utilizado`
+      ]);
+    }
+
+    if (toCentavos(Number(vale.saldo)) < toCentavos(linha.valor)) {
+      throw new VendaRejectedError('Saldo do vale-troca insuficiente', [
+        `Pagamento ${index + 1}: saldo do vale-troca (${Number(vale.saldo).toFixed(2)}) menor que o valor pago`
+      ]);
+    }
+
+    const debitado = await devolucaoRepo.debitarValeTroca(vale.id, linha.valor);
+    if (!debitado) {
+      throw new VendaRejectedError('Saldo do vale-troca insuficiente', [
+        `Pagamento ${index + 1}: vale-troca utilizado por outra operação`
+      ]);
+    }
+
+    pagamentos.push({ ...linha, valeTrocaId: vale.id });
+  }
+
+  return pagamentos;
+};
+
+/**
+ * Aprovador registrado junto às alterações na auditoria
+ */
+const comAprovacao = (alteracoes: Record<string, unknown>, aprovador: AprovadorRegistrado | null) =>
+  aprovador ? { ...alteracoes, aprovadoPor: { antes: null, depois: aprovador } } : alteracoes;
+
+/**
+ * Sessão de caixa aberta do usuário, onde a venda é registrada
+ * Operador de caixa não vende sem caixa aberto
+ */
+const obterSessaoCaixa = async (
+  uow: IUnitOfWork,
+  tenantId: string,
+  userId: string,
+  operadorCaixa: boolean
+) => {
+  const sessaoCaixa = await new CaixaRepository(uow.client).findSessaoAberta(tenantId, userId);
+  if (!sessaoCaixa && operadorCaixa) {
+    throw new VendaRejectedError('Caixa fechado', [
+      'Abra o caixa antes de registrar vendas'
+    ]);
+  }
+  return sessaoCaixa;
+};
+
+/**
+ * Inclui itens em uma venda ABERTA reservando o estoque
+ * A reserva é a própria SAIDA vinculada à venda e ao item: removido o item
+ * ou abandonada a venda, a saída é estornada como em um cancelamento
+ * @returns Itens criados e valor somado à venda
+ */
+const reservarItens = async (
+  uow: IUnitOfWork,
+  venda: { id: string; identificacao: string | null },
+  itens: VendaAbertaItemDto[],
+  tenantId: string,
+  userId: string
+) => {
+  const produtoRepo = new ProdutoRepository(uow.client);
+  const estoqueRepo = new EstoqueRepository(uow.client);
+
+  const errors: string[] = [];
+  for (const item of itens) {
+    const produto = await produtoRepo.findById(item.produtoId, tenantId);
+    const erroQuantidade = produto && validarQuantidade(item.quantidade, produto.unidadeMedida);
+    if (!produto) {
+      errors.push(`Produto não encontrado: ${item.produtoId}`);
+    } else if (erroQuantidade) {
+      errors.push(`Produto ${item.produtoId}: ${erroQuantidade}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new VendaRejectedError('Produtos inválidos', errors);
+  }
+
+  const { permitirEstoqueNegativo } = await obterConfiguracaoEstoque(tenantId, uow.client);
+  const estoques = await estoqueRepo.findByProdutos(itens.map(item => item.produtoId), tenantId);
+
+  const itensCriados = [];
+  let valor = 0;
+  for (const item of itens) {
+    const subtotal = calcularSubtotal(item);
+    const itemVenda = await uow.client.itemVenda.create({
+      data: {
+        vendaId: venda.id,
+        produtoId: item.produtoId,
+        quantidade: item.quantidade,
+        precoUnitario: item.precoUnitario,
+        subtotal,
+        precoCusto: estoques.find(e => e.produtoId === item.produtoId)?.precoCusto ?? null
+      }
+    });
+
+    const reserva = await estoqueRepo.registrarSaida({
+      produtoId: item.produtoId,
+      quantidade: item.quantidade,
+      motivo: `Reserva venda aberta ${venda.identificacao ?? venda.id}`,
+      vendaId: venda.id,
+      itemVendaId: itemVenda.id,
+      tenantId,
+      userId,
+      permitirNegativo: permitirEstoqueNegativo
+    });
+
+    if (!reserva) {
+      const estoque = await estoqueRepo.findByProduto(item.produtoId, tenantId);
+      throw new VendaRejectedError('Estoque insuficiente', [
+        `Produto ${item.produtoId}: estoque insuficiente (disponível ${estoque?.quantidadeAtual ?? 0}, solicitado ${item.quantidade})`
+      ]);
+    }
+
+    itensCriados.push(itemVenda);
+    valor += subtotal;
+    uow.scheduleInvalidateCache(`estoque:${tenantId}:${item.produtoId}`);
+  }
+
+  return { itens: itensCriados, valor };
+};
+
+// ====================================
+// COMMAND HANDLERS
+// ====================================
+
+export class CheckoutVendaCommandHandler implements ICommandHandler<CheckoutVendaCommand> {
+
+  /**
+   * Deve ser executado dentro de uow.executeInTransaction:
+   * qualquer erro lançado desfaz venda, itens e baixas de estoque
+   */
+  async handle(command: CheckoutVendaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId } = command;
+    const { clienteId, desconto = 0, acrescimo = 0, serie = '1', itens } = command.data;
+
+    const vendaRepo = new VendaRepository(uow.client);
+    const produtoRepo = new ProdutoRepository(uow.client);
+    const estoqueRepo = new EstoqueRepository(uow.client);
+
+    const sessaoCaixa = await obterSessaoCaixa(uow, tenantId, userId, command.operadorCaixa);
+
+    // Validar produtos do tenant e a quantidade na unidade de medida de cada um
+    const errors: string[] = [];
+    for (const item of itens) {
+      const produto = await produtoRepo.findById(item.produtoId, tenantId);
+      const erroQuantidade = produto && validarQuantidade(item.quantidade, produto.unidadeMedida);
+      if (!produto) {
+        errors.push(`Produto não encontrado: ${item.produtoId}`);
+      } else if (erroQuantidade) {
+        errors.push(`Produto ${item.produtoId}: ${erroQuantidade}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new VendaRejectedError('Produtos inválidos', errors);
+    }
+
+    // Validar saldo por produto (somando linhas repetidas do mesmo produto)
+    const quantidadePorProduto = new Map<string, number>();
+    for (const item of itens) {
+      quantidadePorProduto.set(
+        item.produtoId,
+        arredondarQuantidade((quantidadePorProduto.get(item.produtoId) || 0) + item.quantidade)
+      );
+    }
+
+    const { permitirEstoqueNegativo } = await obterConfiguracaoEstoque(tenantId, uow.client);
+    const estoques = await estoqueRepo.findByProdutos([...quantidadePorProduto.keys()], tenantId);
+    for (const [produtoId, quantidade] of quantidadePorProduto) {
+      const estoque = estoques.find(e => e.produtoId === produtoId);
+      if (!estoque) {
+        errors.push(`Produto ${produtoId}: sem estoque cadastrado`);
+      } else if (!permitirEstoqueNegativo && estoque.quantidadeAtual.lessThan(quantidade)) {
+        errors.push(
+          `Produto ${produtoId}: estoque insuficiente (disponível ${estoque.quantidadeAtual}, solicitado ${quantidade})`
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new VendaRejectedError('Estoque insuficiente', errors);
+    }
+
+    // Calcular totais; o custo do estoque fica registrado no item (margem da venda)
+    const itensVenda = itens.map(item => ({
+      produtoId: item.produtoId,
+      quantidade: item.quantidade,
+      precoUnitario: item.precoUnitario,
+      subtotal: calcularSubtotal(item),
+      precoCusto: estoques.find(e => e.produtoId === item.produtoId)!.precoCusto
+    }));
+
+    const preco = itensVenda.reduce((sum, item) => sum + toCentavos(item.subtotal), 0) / 100;
+    const total = calcularTotal(preco, desconto, acrescimo);
+    const { linhas, formaPagamento, troco } = montarPagamentos(command.data, total);
+
+    const valorBruto = itens.reduce((sum, item) => sum + item.quantidade * item.precoUnitario, 0);
+    const aprovador = await exigirAprovacaoDesconto(
+      uow.client,
+      command.solicitante,
+      valorBruto,
+      valorBruto - preco + desconto,
+      command.data.aprovacao
+    );
+    const pagamentos = await resgatarValesTroca(uow, linhas, tenantId);
+
+    // Parte em PIX fica pendente até a confirmação (manual ou webhook do PSP)
+    const valorPix = pagamentos
+      .filter(p => p.forma === 'PIX')
+      .reduce((sum, p) => sum + toCentavos(p.valor), 0) / 100;
+    // Número reservado na mesma transação: rollback do checkout não gera lacuna
+    const fusoHorario = await obterFusoHorario(tenantId, uow.client);
+    const numeroFiscal = await vendaRepo.allocateNumeroFiscal(tenantId, fusoHorario, serie);
+
+    const venda = await uow.client.venda.create({
+      data: {
+        numeroFiscal,
+        serie,
+        clienteId: clienteId || null,
+        sessaoCaixaId: sessaoCaixa?.id ?? null,
+        formaPagamento,
+        preco,
+        desconto,
+        acrescimo,
+        total,
+        status: valorPix > 0 ? 'PENDENTE' : 'FINALIZADA',
+        dataVenda: new Date(),
+        tenantId,
+        usuarioCadastro: userId,
+        usuarioUltimaAtualizacao: userId,
+        pagamentos: {
+          create: pagamentos
+        },
+        ...(valorPix > 0 && {
+          cobrancaPix: {
+            create: { txid: gerarTxid(serie, numeroFiscal), valor: valorPix, tenantId }
+          }
+        })
+      },
+      include: { pagamentos: true, cobrancaPix: true }
+    });
+
+    // Criar itens e baixar estoque item a item, vinculando a movimentação à venda e ao item
+    const itensCriados = [];
+    const movimentacoes = [];
+    for (const item of itensVenda) {
+      const itemVenda = await uow.client.itemVenda.create({
+        data: { ...item, vendaId: venda.id }
+      });
+
+      const movimentacao = await estoqueRepo.registrarSaida({
+        produtoId: item.produtoId,
+        quantidade: item.quantidade,
+        motivo: `Venda ${numeroFiscal}`,
+        vendaId: venda.id,
+        itemVendaId: itemVenda.id,
+        tenantId,
+        userId,
+        permitirNegativo: permitirEstoqueNegativo
+      });
+
+      // Saldo consumido por outra venda entre a validação e a baixa
+      if (!movimentacao) {
+        throw new VendaRejectedError('Estoque insuficiente', [
+          `Produto ${item.produtoId}: estoque insuficiente`
+        ]);
+      }
+
+      itensCriados.push(itemVenda);
+      movimentacoes.push(movimentacao);
+      uow.scheduleInvalidateCache(`estoque:${tenantId}:${item.produtoId}`);
+    }
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit(
+      'Venda',
+      venda.id,
+      'CREATE',
+      comAprovacao(buildAuditDiff(null, venda), aprovador),
+      userId,
+      tenantId
+    );
+
+    await uow.publishDomainEvent(
+      'VendaCriada',
+      venda.id,
+      {
+        numeroFiscal,
+        total,
+        formaPagamento,
+        pagamentos: pagamentos.map(p => ({ forma: p.forma, valor: p.valor, parcelas: p.parcelas })),
+        troco,
+        status: venda.status,
+        itens: itensVenda.length,
+        ...(aprovador && { aprovadoPor: aprovador.aprovadorId })
+      },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...venda, troco, itens: itensCriados, movimentacoes },
+      affectedRows: 1 + itensCriados.length + movimentacoes.length
+    };
+  }
+}
+
+export class CancelarVendaCommandHandler implements ICommandHandler<CancelarVendaCommand> {
+
+  /**
+   * Cancela a venda inteira e devolve ao estoque tudo que ainda não foi estornado
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: CancelarVendaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, vendaId, motivo } = command;
+
+    const vendaRepo = new VendaRepository(uow.client);
+    const estoqueRepo = new EstoqueRepository(uow.client);
+
+    const cancelavel = await uow.client.venda.count({
+      where: { id: vendaId, tenantId, status: { in: ['FINALIZADA', 'PENDENTE'] } }
+    });
+    if (cancelavel === 0) {
+      return {
+        success: false,
+        error: 'Venda não encontrada ou não pode ser cancelada'
+      };
+    }
+
+    // Itens devolvidos já foram reembolsados e movimentados pela devolução
+    const devolucoes = await uow.client.devolucao.count({ where: { vendaId, tenantId } });
+    if (devolucoes > 0) {
+      throw new VendaRejectedError('Venda com devoluções não pode ser cancelada', [
+        'Registre a devolução dos itens restantes'
+      ]);
+    }
+
+    // Cancelamento por operador de caixa exige supervisor (permissão crítica)
+    const aprovador = await exigirAprovacao(
+      uow.client,
+      command.solicitante,
+      'CANCELAR_VENDA',
+      command.aprovacao,
+      vendaId
+    );
+
+    const venda = await vendaRepo.cancelSale(vendaId, tenantId, userId, motivo);
+    if (!venda) {
+      return {
+        success: false,
+        error: 'Venda não encontrada ou não pode ser cancelada'
+      };
+    }
+
+    // Movimentações compensatórias - as originais nunca são alteradas
+    const saidas = await estoqueRepo.findSaidasNaoEstornadas(venda.id, tenantId);
+    const estornos = [];
+    for (const saida of saidas) {
+      estornos.push(await estoqueRepo.registrarEstorno(
+        saida,
+        `Cancelamento venda ${venda.numeroFiscal}: ${motivo}`,
+        userId
+      ));
+      uow.scheduleInvalidateCache(`estoque:${tenantId}:${saida.produtoId}`);
+    }
+
+    await uow.client.itemVenda.updateMany({
+      where: { vendaId: venda.id, status: 'FINALIZADA' },
+      data: {
+        status: 'ESTORNADA',
+        dataEstorno: new Date(),
+        motivoEstorno: motivo,
+        usuarioEstorno: userId
+      }
+    });
+
+    // Vales-troca usados no pagamento voltam a ter o saldo resgatado
+    const devolucaoRepo = new DevolucaoRepository(uow.client);
+    const resgates = await uow.client.pagamentoVenda.findMany({
+      where: { vendaId: venda.id, valeTrocaId: { not: null } }
+    });
+    for (const resgate of resgates) {
+      await devolucaoRepo.creditarValeTroca(resgate.valeTrocaId!, Number(resgate.valor));
+    }
+
+    // Cobrança PIX não paga deixa de ser aceita
+    await uow.client.cobrancaPix.updateMany({
+      where: { vendaId: venda.id, status: 'PENDENTE' },
+      data: { status: 'CANCELADA' }
+    });
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit(
+      'Venda',
+      venda.id,
+      'UPDATE',
+      comAprovacao(buildAuditDiff({ status: 'FINALIZADA' }, {
+        status: venda.status,
+        dataEstorno: venda.dataEstorno,
+        motivoEstorno: venda.motivoEstorno,
+        usuarioEstorno: venda.usuarioEstorno
+      }), aprovador),
+      userId,
+      tenantId
+    );
+
+    await uow.publishDomainEvent(
+      'VendaCancelada',
+      venda.id,
+      {
+        numeroFiscal: venda.numeroFiscal,
+        motivo,
+        movimentacoesEstornadas: estornos.length,
+        ...(aprovador && { aprovadoPor: aprovador.aprovadorId })
+      },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...venda, estornos },
+      affectedRows: 1 + estornos.length
+    };
+  }
+}
+
+export class ConfirmarPagamentoPixCommandHandler implements ICommandHandler<ConfirmarPagamentoPixCommand> {
+
+  /**
+   * Conclui a cobrança PIX e finaliza a venda PENDENTE
+   * Idempotente: webhooks reenviados para uma cobrança já concluída não alteram nada
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: ConfirmarPagamentoPixCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, origem, e2eId, valor } = command;
+
+    const cobranca = await uow.client.cobrancaPix.findFirst({
+      where: { tenantId, ...command.cobranca }
+    });
+
+    if (!cobranca || cobranca.status === 'CANCELADA') {
+      return {
+        success: false,
+        error: 'Cobrança PIX não encontrada ou cancelada'
+      };
+    }
+
+    if (cobranca.status === 'CONCLUIDA') {
+      return {
+        success: true,
+        data: { ...cobranca, jaConfirmada: true },
+        affectedRows: 0
+      };
+    }
+
+    if (valor !== undefined && toCentavos(valor) !== toCentavos(Number(cobranca.valor))) {
+      throw new VendaRejectedError('Valor do PIX difere da cobrança', [
+        `Esperado ${Number(cobranca.valor).toFixed(2)}, recebido ${valor.toFixed(2)}`
+      ]);
+    }
+
+    const dataConfirmacao = new Date();
+
+    // Condicional no status: confirmação manual e webhook simultâneos concluem uma única vez
+    const concluida = await uow.client.cobrancaPix.updateMany({
+      where: { id: cobranca.id, status: 'PENDENTE' },
+      data: {
+        status: 'CONCLUIDA',
+        e2eId: e2eId ?? null,
+        origemConfirmacao: origem,
+        usuarioConfirmacao: userId,
+        dataConfirmacao
+      }
+    });
+
+    if (concluida.count !== 1) {
+      throw new VendaRejectedError('Cobrança PIX já confirmada por outra operação', []);
+    }
+
+    const finalizada = await uow.client.venda.updateMany({
+      where: { id: cobranca.vendaId, tenantId, status: 'PENDENTE' },
+      data: { status: 'FINALIZADA', usuarioUltimaAtualizacao: userId }
+    });
+
+    if (finalizada.count !== 1) {
+      throw new VendaRejectedError('Venda não está aguardando pagamento', [
+        'A venda foi cancelada; o PIX recebido deve ser devolvido ao pagador'
+      ]);
+    }
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit(
+      'Venda',
+      cobranca.vendaId,
+      'UPDATE',
+      buildAuditDiff(
+        { status: 'PENDENTE', pix: cobranca.status },
+        { status: 'FINALIZADA', pix: 'CONCLUIDA', e2eId: e2eId ?? null, origemConfirmacao: origem }
+      ),
+      userId,
+      tenantId
+    );
+
+    await uow.publishDomainEvent(
+      'PagamentoPixConfirmado',
+      cobranca.vendaId,
+      { txid: cobranca.txid, valor: Number(cobranca.valor), e2eId, origem },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: {
+        ...cobranca,
+        status: 'CONCLUIDA',
+        e2eId: e2eId ?? null,
+        origemConfirmacao: origem,
+        usuarioConfirmacao: userId,
+        dataConfirmacao
+      },
+      affectedRows: 2
+    };
+  }
+}
+
+export class EstornarItensVendaCommandHandler implements ICommandHandler<EstornarItensVendaCommand> {
+
+  /**
+   * Estorna itens individuais de uma venda finalizada (devolução parcial)
+   * Quando todos os itens ficam estornados a venda passa para ESTORNADA
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: EstornarItensVendaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, vendaId, itemIds, motivo } = command;
+
+    const estoqueRepo = new EstoqueRepository(uow.client);
+
+    const venda = await uow.client.venda.findFirst({
+      where: { id: vendaId, tenantId },
+      include: { itens: true }
+    });
+
+    if (!venda || venda.status !== 'FINALIZADA') {
+      return {
+        success: false,
+        error: 'Venda não encontrada ou não pode ser estornada'
+      };
+    }
+
+    const errors: string[] = [];
+    for (const itemId of itemIds) {
+      const item = venda.itens.find(i => i.id === itemId && i.status !== 'REMOVIDO');
+      if (!item) {
+        errors.push(`Item ${itemId} não pertence a esta venda`);
+      } else if (item.status === 'ESTORNADA') {
+        errors.push(`Item ${itemId} já foi estornado`);
+      } else if (item.quantidadeDevolvida.greaterThan(0)) {
+        errors.push(`Item ${itemId} possui devolução - devolva a quantidade restante`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new VendaRejectedError('Itens inválidos para estorno', errors);
+    }
+
+    // Atualização condicional garante que estornos concorrentes não devolvam estoque duas vezes
+    const dataEstorno = new Date();
+    const atualizados = await uow.client.itemVenda.updateMany({
+      where: { id: { in: itemIds }, vendaId: venda.id, status: 'FINALIZADA', quantidadeDevolvida: 0 },
+      data: {
+        status: 'ESTORNADA',
+        dataEstorno,
+        motivoEstorno: motivo,
+        usuarioEstorno: userId
+      }
+    });
+
+    if (atualizados.count !== itemIds.length) {
+      throw new VendaRejectedError('Itens inválidos para estorno', [
+        'Um ou mais itens foram estornados ou devolvidos por outra operação'
+      ]);
+    }
+
+    const saidas = await estoqueRepo.findSaidasNaoEstornadas(venda.id, tenantId, itemIds);
+    const estornos = [];
+    for (const saida of saidas) {
+      estornos.push(await estoqueRepo.registrarEstorno(
+        saida,
+        `Estorno item venda ${venda.numeroFiscal}: ${motivo}`,
+        userId
+      ));
+      uow.scheduleInvalidateCache(`estoque:${tenantId}:${saida.produtoId}`);
+    }
+
+    const valorItens = venda.itens
+      .filter(i => itemIds.includes(i.id))
+      .reduce((sum, i) => sum + Number(i.subtotal), 0);
+    const itensRestantes = venda.itens.filter(
+      i => i.status === 'FINALIZADA' && !itemIds.includes(i.id)
+    );
+    const estornoTotal = itensRestantes.length === 0;
+
+    const vendaAtualizada = await uow.client.venda.update({
+      where: { id: venda.id },
+      data: {
+        valorEstornado: { increment: valorItens },
+        ...(estornoTotal && {
+          status: 'ESTORNADA',
+          dataEstorno,
+          motivoEstorno: motivo,
+          usuarioEstorno: userId
+        }),
+        dataUltimaAtualizacao: dataEstorno,
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit('Venda', venda.id, 'UPDATE', buildAuditDiff(venda, vendaAtualizada), userId, tenantId);
+
+    await uow.publishDomainEvent(
+      'ItensVendaEstornados',
+      venda.id,
+      { numeroFiscal: venda.numeroFiscal, itemIds, valorEstornado: valorItens, motivo },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...vendaAtualizada, estornos },
+      affectedRows: itemIds.length + estornos.length
+    };
+  }
+}
+
+export class AbrirVendaCommandHandler implements ICommandHandler<AbrirVendaCommand> {
+
+  /**
+   * Abre uma venda (comanda) sem número fiscal nem pagamento
+   * Itens iniciais reservam estoque na mesma transação
+   */
+  async handle(command: AbrirVendaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId } = command;
+    const { identificacao, clienteId, itens = [] } = command.data;
+
+    const venda = await uow.client.venda.create({
+      data: {
+        identificacao: identificacao?.trim() || null,
+        clienteId: clienteId || null,
+        preco: 0,
+        total: 0,
+        status: 'ABERTA',
+        tenantId,
+        usuarioCadastro: userId,
+        usuarioUltimaAtualizacao: userId
+      }
+    });
+
+    const reservados = await reservarItens(uow, venda, itens, tenantId, userId);
+
+    const vendaAberta = reservados.valor > 0
+      ? await uow.client.venda.update({
+        where: { id: venda.id },
+        data: { preco: reservados.valor, total: reservados.valor }
+      })
+      : venda;
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit('Venda', venda.id, 'CREATE', buildAuditDiff(null, vendaAberta), userId, tenantId);
+
+    await uow.publishDomainEvent(
+      'VendaAberta',
+      venda.id,
+      { identificacao: vendaAberta.identificacao, itens: reservados.itens.length, total: reservados.valor },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...vendaAberta, itens: reservados.itens },
+      affectedRows: 1 + reservados.itens.length
+    };
+  }
+}
+
+export class AdicionarItensVendaAbertaCommandHandler implements ICommandHandler<AdicionarItensVendaAbertaCommand> {
+
+  /**
+   * Inclui itens na venda ABERTA, reservando o estoque
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: AdicionarItensVendaAbertaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, vendaId, itens } = command;
+
+    const venda = await new VendaRepository(uow.client).lockOpenSale(vendaId, tenantId, userId);
+    if (!venda) {
+      return {
+        success: false,
+        error: 'Venda aberta não encontrada'
+      };
+    }
+
+    const reservados = await reservarItens(uow, venda, itens, tenantId, userId);
+
+    const vendaAtualizada = await uow.client.venda.update({
+      where: { id: venda.id },
+      data: {
+        preco: { increment: reservados.valor },
+        total: { increment: reservados.valor }
+      }
+    });
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit(
+      'Venda',
+      venda.id,
+      'UPDATE',
+      buildAuditDiff(
+        { total: venda.total },
+        { total: vendaAtualizada.total, itensAdicionados: reservados.itens.map(i => i.id) }
+      ),
+      userId,
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...vendaAtualizada, itens: reservados.itens },
+      affectedRows: 1 + reservados.itens.length
+    };
+  }
+}
+
+export class RemoverItemVendaAbertaCommandHandler implements ICommandHandler<RemoverItemVendaAbertaCommand> {
+
+  /**
+   * Retira um item da venda ABERTA e devolve a reserva ao estoque
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: RemoverItemVendaAbertaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, vendaId, itemId } = command;
+
+    const estoqueRepo = new EstoqueRepository(uow.client);
+
+    const venda = await new VendaRepository(uow.client).lockOpenSale(vendaId, tenantId, userId);
+    if (!venda) {
+      return {
+        success: false,
+        error: 'Venda aberta não encontrada'
+      };
+    }
+
+    const item = await uow.client.itemVenda.findFirst({
+      where: { id: itemId, vendaId: venda.id, status: 'FINALIZADA' }
+    });
+
+    if (!item) {
+      throw new VendaRejectedError('Item inválido', [
+        `Item ${itemId} não está nesta venda`
+      ]);
+    }
+
+    await uow.client.itemVenda.update({
+      where: { id: item.id },
+      data: {
+        status: 'REMOVIDO',
+        dataEstorno: new Date(),
+        motivoEstorno: 'Removido da venda aberta',
+        usuarioEstorno: userId
+      }
+    });
+
+    const reservas = await estoqueRepo.findSaidasNaoEstornadas(venda.id, tenantId, [item.id]);
+    for (const reserva of reservas) {
+      await estoqueRepo.registrarEstorno(
+        reserva,
+        `Item removido da venda aberta ${venda.identificacao ?? venda.id}`,
+        userId
+      );
+    }
+    uow.scheduleInvalidateCache(`estoque:${tenantId}:${item.produtoId}`);
+
+    const vendaAtualizada = await uow.client.venda.update({
+      where: { id: venda.id },
+      data: {
+        preco: { decrement: item.subtotal },
+        total: { decrement: item.subtotal }
+      }
+    });
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit(
+      'Venda',
+      venda.id,
+      'UPDATE',
+      buildAuditDiff(
+        { total: venda.total },
+        { total: vendaAtualizada.total, itemRemovido: item.id }
+      ),
+      userId,
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: vendaAtualizada,
+      affectedRows: 2 + reservas.length
+    };
+  }
+}
+
+export class FinalizarVendaAbertaCommandHandler implements ICommandHandler<FinalizarVendaAbertaCommand> {
+
+  /**
+   * Fecha a venda ABERTA como uma venda normal: número fiscal, pagamentos e caixa
+   * O estoque já foi baixado pelas reservas dos itens
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: FinalizarVendaAbertaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, vendaId } = command;
+    const { desconto = 0, acrescimo = 0, serie = '1' } = command.data;
+
+    const vendaRepo = new VendaRepository(uow.client);
+
+    // Trava antes de ler os itens: inclusões concorrentes esperam o fechamento e são recusadas
+    const venda = await vendaRepo.lockOpenSale(vendaId, tenantId, userId);
+    if (!venda) {
+      return {
+        success: false,
+        error: 'Venda aberta não encontrada'
+      };
+    }
+
+    const itens = await uow.client.itemVenda.findMany({
+      where: { vendaId: venda.id, status: 'FINALIZADA' }
+    });
+
+    if (itens.length === 0) {
+      throw new VendaRejectedError('Venda aberta sem itens', [
+        'Inclua itens ou abandone a venda'
+      ]);
+    }
+
+    const sessaoCaixa = await obterSessaoCaixa(uow, tenantId, userId, command.operadorCaixa);
+
+    const preco = itens.reduce((sum, item) => sum + toCentavos(Number(item.subtotal)), 0) / 100;
+    const total = calcularTotal(preco, desconto, acrescimo);
+    const { linhas, formaPagamento, troco } = montarPagamentos(command.data, total);
+
+    const valorBruto = itens.reduce((sum, item) => sum + Number(item.quantidade) * Number(item.precoUnitario), 0);
+    const aprovador = await exigirAprovacaoDesconto(
+      uow.client,
+      command.solicitante,
+      valorBruto,
+      valorBruto - preco + desconto,
+      command.data.aprovacao,
+      venda.id
+    );
+    const pagamentos = await resgatarValesTroca(uow, linhas, tenantId);
+    const valorPix = pagamentos
+      .filter(p => p.forma === 'PIX')
+      .reduce((sum, p) => sum + toCentavos(p.valor), 0) / 100;
+    const fusoHorario = await obterFusoHorario(tenantId, uow.client);
+    const numeroFiscal = await vendaRepo.allocateNumeroFiscal(tenantId, fusoHorario, serie);
+
+    const vendaFinalizada = await uow.client.venda.update({
+      where: { id: venda.id },
+      data: {
+        numeroFiscal,
+        serie,
+        sessaoCaixaId: sessaoCaixa?.id ?? null,
+        formaPagamento,
+        preco,
+        desconto,
+        acrescimo,
+        total,
+        status: valorPix > 0 ? 'PENDENTE' : 'FINALIZADA',
+        dataVenda: new Date(),
+        pagamentos: {
+          create: pagamentos
+        },
+        ...(valorPix > 0 && {
+          cobrancaPix: {
+            create: { txid: gerarTxid(serie, numeroFiscal), valor: valorPix, tenantId }
+          }
+        })
+      },
+      include: { pagamentos: true, cobrancaPix: true }
+    });
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit(
+      'Venda',
+      venda.id,
+      'UPDATE',
+      comAprovacao(buildAuditDiff(venda, vendaFinalizada), aprovador),
+      userId,
+      tenantId
+    );
+
+    // Mesmo evento do checkout: para os consumidores a venda nasce aqui
+    await uow.publishDomainEvent(
+      'VendaCriada',
+      venda.id,
+      {
+        numeroFiscal,
+        total,
+        formaPagamento,
+        pagamentos: pagamentos.map(p => ({ forma: p.forma, valor: p.valor, parcelas: p.parcelas })),
+        troco,
+        status: vendaFinalizada.status,
+        itens: itens.length,
+        vendaAberta: true,
+        ...(aprovador && { aprovadoPor: aprovador.aprovadorId })
+      },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...vendaFinalizada, troco, itens },
+      affectedRows: 1 + pagamentos.length
+    };
+  }
+}
+
+export class AbandonarVendaAbertaCommandHandler implements ICommandHandler<AbandonarVendaAbertaCommand> {
+
+  /**
+   * Desiste da venda ABERTA e devolve todas as reservas ao estoque
+   * A venda é mantida como ABANDONADA (vendas nunca são deletadas)
+   * Deve ser executado dentro de uow.executeInTransaction
+   */
+  async handle(command: AbandonarVendaAbertaCommand, uow: IUnitOfWork): Promise<CommandResult> {
+    const { tenantId, executedBy: userId, vendaId, motivo } = command;
+
+    const estoqueRepo = new EstoqueRepository(uow.client);
+
+    const venda = await new VendaRepository(uow.client).lockOpenSale(vendaId, tenantId, userId);
+    if (!venda) {
+      return {
+        success: false,
+        error: 'Venda aberta não encontrada'
+      };
+    }
+
+    const reservas = await estoqueRepo.findSaidasNaoEstornadas(venda.id, tenantId);
+    const estornos = [];
+    for (const reserva of reservas) {
+      estornos.push(await estoqueRepo.registrarEstorno(
+        reserva,
+        `Venda aberta ${venda.identificacao ?? venda.id} abandonada: ${motivo}`,
+        userId
+      ));
+      uow.scheduleInvalidateCache(`estoque:${tenantId}:${reserva.produtoId}`);
+    }
+
+    const dataEstorno = new Date();
+
+    await uow.client.itemVenda.updateMany({
+      where: { vendaId: venda.id, status: 'FINALIZADA' },
+      data: {
+        status: 'REMOVIDO',
+        dataEstorno,
+        motivoEstorno: motivo,
+        usuarioEstorno: userId
+      }
+    });
+
+    const vendaAbandonada = await uow.client.venda.update({
+      where: { id: venda.id },
+      data: {
+        status: 'ABANDONADA',
+        dataEstorno,
+        motivoEstorno: motivo,
+        usuarioEstorno: userId
+      }
+    });
+
+    uow.scheduleInvalidateCache(`venda:*:${tenantId}`);
+
+    await uow.logAudit('Venda', venda.id, 'UPDATE', buildAuditDiff(venda, vendaAbandonada), userId, tenantId);
+
+    await uow.publishDomainEvent(
+      'VendaAbandonada',
+      venda.id,
+      { identificacao: venda.identificacao, motivo, movimentacoesEstornadas: estornos.length },
+      tenantId
+    );
+
+    return {
+      success: true,
+      data: { ...vendaAbandonada, estornos },
+      affectedRows: 1 + estornos.length
+    };
+  }
+}
+
+// ====================================
+// SERVICE CLASS (Facade)
+// ====================================
+
+/**
+ * Venda Service - Facade usando UoW + CQRS
+ * Expõe interface simples para controllers
+ */
+export class VendaService {
+  constructor(private uow: IUnitOfWork) {}
+
+  async checkout(data: CheckoutVendaDto, auth: AuthContext): Promise<CommandResult> {
+    const command = new CheckoutVendaCommand(data, auth);
+    return await this.execute(command, new CheckoutVendaCommandHandler());
+  }
+
+  async cancelar(
+    vendaId: string,
+    motivo: string,
+    auth: AuthContext,
+    aprovacao?: AprovacaoDto
+  ): Promise<CommandResult> {
+    const command = new CancelarVendaCommand(vendaId, motivo, auth, aprovacao);
+    return await this.execute(command, new CancelarVendaCommandHandler());
+  }
+
+  async estornarItens(
+    vendaId: string,
+    itemIds: string[],
+    motivo: string,
+    auth: AuthContext
+  ): Promise<CommandResult> {
+    const command = new EstornarItensVendaCommand(vendaId, itemIds, motivo, auth);
+    return await this.execute(command, new EstornarItensVendaCommandHandler());
+  }
+
+  async confirmarPix(
+    cobranca: { vendaId: string } | { txid: string },
+    origem: OrigemConfirmacaoPix,
+    e2eId: string | undefined,
+    valor: number | undefined,
+    auth: AuthContext
+  ): Promise<CommandResult> {
+    const command = new ConfirmarPagamentoPixCommand(cobranca, origem, e2eId, valor, auth);
+    return await this.execute(command, new ConfirmarPagamentoPixCommandHandler());
+  }
+
+  async abrir(data: AbrirVendaDto, auth: AuthContext): Promise<CommandResult> {
+    const command = new AbrirVendaCommand(data, auth);
+    return await this.execute(command, new AbrirVendaCommandHandler());
+  }
+
+  async adicionarItens(vendaId: string, itens: VendaAbertaItemDto[], auth: AuthContext): Promise<CommandResult> {
+    const command = new AdicionarItensVendaAbertaCommand(vendaId, itens, auth);
+    return await this.execute(command, new AdicionarItensVendaAbertaCommandHandler());
+  }
+
+  async removerItem(vendaId: string, itemId: string, auth: AuthContext): Promise<CommandResult> {
+    const command = new RemoverItemVendaAbertaCommand(vendaId, itemId, auth);
+    return await this.execute(command, new RemoverItemVendaAbertaCommandHandler());
+  }
+
+  async finalizarAberta(vendaId: string, data: FinalizarVendaAbertaDto, auth: AuthContext): Promise<CommandResult> {
+    const command = new FinalizarVendaAbertaCommand(vendaId, data, auth);
+    return await this.execute(command, new FinalizarVendaAbertaCommandHandler());
+  }
+
+  async abandonar(vendaId: string, motivo: string, auth: AuthContext): Promise<CommandResult> {
+    const command = new AbandonarVendaAbertaCommand(vendaId, motivo, auth);
+    return await this.execute(command, new AbandonarVendaAbertaCommandHandler());
+  }
+
+  /**
+   * Executa o handler em transação, convertendo rejeições de negócio em CommandResult
+   */
+  private async execute<TCommand extends BaseCommand>(
+    command: TCommand,
+    handler: ICommandHandler<TCommand>
+  ): Promise<CommandResult> {
+    try {
+      return await this.uow.executeInTransaction(async (uow) => {
+        return await handler.handle(command, uow);
+      });
+    } catch (error) {
+      if (error instanceof VendaRejectedError) {
+        return {
+          success: false,
+          error: error.message,
+          validationErrors: error.validationErrors
+        };
+      }
+      if (error instanceof AprovacaoNecessariaError) {
+        return {
+          success: false,
+          error: error.message,
+          code: error.code,
+          data: { operacao: error.operacao, detalhes: error.detalhes }
+        };
+      }
+      throw error;
+    }
+  }
+}
@@ -14,7 +14,7 @@ const MOCK_USERS = [
     senha: 'A1234B',
     role: {
       nome: 'admin',
-      permissoes: ['clientes:read', 'clientes:write', 'vendas:read', 'vendas:write'],
+      permissoes: ['clientes:read', 'clientes:write', 'vendas:read', 'vendas:write', 'estoque:read', 'estoque:write', 'estoque:adjust', 'caixa:operate', 'caixa:read', 'pix:configure', 'fiscal:read', 'fiscal:emit', 'fiscal:configure', 'vendas:cancel', 'vendas:discount', 'vendas:return', 'aprovacoes:configure', 'estoque:configure'],
     },
   },
   {
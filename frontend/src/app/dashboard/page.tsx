@@ -1,6 +1,6 @@
 /**
  * Página de Dashboard - CoreApp
- * Mostra módulos disponíveis por perfil + navegação por teclas F
+ * Mostra indicadores do dia/mês, módulos disponíveis por perfil + navegação por teclas F
  */
 
 'use client';
@@ -16,7 +16,9 @@ import {
   Badge,
   Stack,
   Grid,
-  Button
+  Button,
+  SimpleGrid,
+  Table
 } from '@mantine/core';
 import {
   IconCash,
@@ -28,6 +30,9 @@ import {
 import { useAuthStatus } from '@/stores/useAuth';
 import { usePermissions } from '@/hooks/usePermissions';
 import { MODULE_NAMES } from '@/types/auth';
+import { useVendaEstatisticas, useProdutoEstatisticas } from '@/hooks/useDashboard';
+import { useClienteEstatisticas } from '@/hooks/useClientes';
+import { formatarMoeda, formatarQuantidade } from '@/services/dashboardService';
 
 const MODULE_ICONS = {
   F2: IconCash,      // Vendas
@@ -37,10 +42,36 @@ const MODULE_ICONS = {
   F6: IconBuilding   // Fornecedores
 };
 
+function Indicador({ titulo, valor, detalhe }: { titulo: string; valor: string | number; detalhe?: string }) {
+  return (
+    <Card withBorder padding="md" radius="md">
+      <Text size="xs" c="dimmed" tt="uppercase" fw={600}>
+        {titulo}
+      </Text>
+      <Text fw={700} size="xl">
+        {valor}
+      </Text>
+      {detalhe && (
+        <Text size="xs" c="dimmed">
+          {detalhe}
+        </Text>
+      )}
+    </Card>
+  );
+}
+
 export default function DashboardPage() {
   const router = useRouter();
   const { isAuthenticated, user, isLoading } = useAuthStatus();
-  const { getAllModulesWithStatus, hasModuleAccess } = usePermissions();
+  const { getAllModulesWithStatus, hasModuleAccess, hasPermission } = usePermissions();
+
+  // Indicadores só consultados com a permissão de leitura do módulo
+  const podeVerVendas = isAuthenticated && hasPermission('vendas:read');
+  const podeVerProdutos = isAuthenticated && hasPermission('produtos:read');
+  const podeVerClientes = isAuthenticated && hasPermission('clientes:read');
+  const { data: vendas } = useVendaEstatisticas(podeVerVendas);
+  const { data: produtos } = useProdutoEstatisticas(podeVerProdutos);
+  const { data: clientes } = useClienteEstatisticas(podeVerClientes);
 
   // Redirecionar para login se não autenticado
   useEffect(() => {
@@ -81,6 +112,99 @@ export default function DashboardPage() {
           </Group>
         </div>
 
+        {/* Indicadores */}
+        {(vendas || produtos || clientes) && (
+          <div>
+            <Title order={2} size="h3" mb="md">
+              Indicadores
+            </Title>
+
+            <SimpleGrid cols={{ base: 1, sm: 2, md: 4 }} mb="md">
+              {vendas && (
+                <>
+                  <Indicador
+                    titulo="Vendas hoje"
+                    valor={vendas.data.totalHoje}
+                    detalhe={formatarMoeda(vendas.data.faturamentoHoje)}
+                  />
+                  <Indicador
+                    titulo="Faturamento do mês"
+                    valor={formatarMoeda(vendas.data.faturamentoMes)}
+                    detalhe={`${vendas.data.totalMes} vendas, ${vendas.data.itensMes} itens`}
+                  />
+                  <Indicador
+                    titulo="Ticket médio do mês"
+                    valor={formatarMoeda(vendas.data.ticketMedioMes)}
+                    detalhe={`${vendas.data.totalCanceladas} canceladas`}
+                  />
+                  <Indicador
+                    titulo="Vendas em aberto"
+                    valor={vendas.data.vendasAbertas}
+                    detalhe={formatarMoeda(vendas.data.valorEmAberto)}
+                  />
+                </>
+              )}
+              {produtos && (
+                <Indicador
+                  titulo="Estoque baixo"
+                  valor={produtos.data.estoqueBaixo}
+                  detalhe={`${produtos.data.semEstoque} sem estoque`}
+                />
+              )}
+              {clientes && (
+                <Indicador
+                  titulo="Clientes novos no mês"
+                  valor={clientes.data.novosMes}
+                  detalhe={`${clientes.data.ativos} ativos`}
+                />
+              )}
+            </SimpleGrid>
+
+            <Grid>
+              {vendas && (
+                <Grid.Col span={{ base: 12, md: 6 }}>
+                  <Card withBorder padding="lg">
+                    <Title order={3} size="h5" mb="sm">
+                      Últimos 7 dias
+                    </Title>
+                    <Table>
+                      <Table.Tbody>
+                        {vendas.data.ultimos7Dias.map(({ dia, vendas: quantidade, faturamento }) => (
+                          <Table.Tr key={dia}>
+                            <Table.Td>{dia.split('-').reverse().join('/')}</Table.Td>
+                            <Table.Td>{quantidade} vendas</Table.Td>
+                            <Table.Td>{formatarMoeda(faturamento)}</Table.Td>
+                          </Table.Tr>
+                        ))}
+                      </Table.Tbody>
+                    </Table>
+                  </Card>
+                </Grid.Col>
+              )}
+              {produtos && produtos.data.maisVendidosMes.length > 0 && (
+                <Grid.Col span={{ base: 12, md: 6 }}>
+                  <Card withBorder padding="lg">
+                    <Title order={3} size="h5" mb="sm">
+                      Mais vendidos no mês
+                    </Title>
+                    <Table>
+                      <Table.Tbody>
+                        {produtos.data.maisVendidosMes.map(({ produtoId, produto, unidadeMedida, quantidade, valor }) => (
+                          <Table.Tr key={produtoId}>
+                            <Table.Td>{produto}</Table.Td>
+                            <Table.Td>{formatarQuantidade(quantidade)} {unidadeMedida}</Table.Td>
+                            <Table.Td>{formatarMoeda(valor)}</Table.Td>
+                          </Table.Tr>
+                        ))}
+                      </Table.Tbody>
+                    </Table>
+                  </Card>
+                </Grid.Col>
+              )}
+            </Grid>
+          </div>
+        )}
+
         {/* Módulos Disponíveis */}
         <div>
           <Title order={2} size="h3" mb="md">
@@ -4,7 +4,7 @@
  */
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import {
   TextInput,
   Button,
@@ -16,8 +16,14 @@ import {
   LoadingOverlay
 } from '@mantine/core';
 import { useForm, hasLength, isNotEmpty, matches } from '@mantine/form';
-import { IconUser, IconId, IconCalendar, IconAlertCircle } from '@tabler/icons-react';
-import { Cliente, ClienteCreateRequest, validarCpf, formatarCpf } from '@/services/clienteService';
+import { IconUser, IconId, IconCalendar, IconAlertCircle, IconAlertTriangle } from '@tabler/icons-react';
+import {
+  Cliente,
+  ClienteCreateRequest,
+  validarCpf,
+  formatarCpf,
+  extrairConflitoVersao
+} from '@/services/clienteService';
 import { useCreateCliente, useUpdateCliente } from '@/hooks/useClientes';
 
 interface ClienteFormProps {
@@ -39,6 +45,10 @@ export function ClienteForm({ cliente, onSuccess, onCancel }: ClienteFormProps)
 
   const isLoading = createCliente.isPending || updateCliente.isPending;
 
+  // Versão em que a edição se baseia (If-Match) e cadastro salvo por outro usuário
+  const [versaoBase, setVersaoBase] = useState(cliente?.versao);
+  const [conflito, setConflito] = useState<Cliente | null>(null);
+
   // Configuração do formulário com validações
   const form = useForm<ClienteCreateRequest>({
     initialValues: {
@@ -89,12 +99,13 @@ export function ClienteForm({ cliente, onSuccess, onCancel }: ClienteFormProps)
   };
 
   // Handler de submissão
-  const handleSubmit = async (values: ClienteCreateRequest) => {
+  const salvar = async (values: ClienteCreateRequest, versao: number | undefined) => {
     try {
       if (isEditing && cliente) {
         await updateCliente.mutateAsync({
           id: cliente.id,
-          dados: values
+          dados: values,
+          versao
         });
       } else {
         await createCliente.mutateAsync(values);
@@ -102,11 +113,41 @@ export function ClienteForm({ cliente, onSuccess, onCancel }: ClienteFormProps)
 
       onSuccess?.();
     } catch (error) {
+      // Conflito de versão: usuário escolhe entre os dados atuais e os seus
+      const atual = extrairConflitoVersao(error);
+      if (atual) {
+        setConflito(atual);
+        return;
+      }
+
       // Erro já tratado nos hooks
       console.error('Erro no formulário:', error);
     }
   };
 
+  const handleSubmit = (values: ClienteCreateRequest) => salvar(values, versaoBase);
+
+  // Descarta a edição e carrega o cadastro salvo pelo outro usuário
+  const handleCarregarAtual = () => {
+    if (!conflito) return;
+    form.setValues({
+      nome: conflito.nome,
+      sobrenome: conflito.sobrenome,
+      cpf: conflito.cpf || '',
+      dataNascimento: conflito.dataNascimento?.split('T')[0] || '',
+    });
+    setVersaoBase(conflito.versao);
+    setConflito(null);
+  };
+
+  // Mantém a edição sobre a versão atual (sobrescreve conscientemente)
+  const handleSobrescrever = () => {
+    if (!conflito) return;
+    setVersaoBase(conflito.versao);
+    setConflito(null);
+    salvar(form.values, conflito.versao);
+  };
+
   // Navegação por teclado
   const handleKeyDown = (event: React.KeyboardEvent) => {
     if (event.key === 'Escape') {
@@ -216,6 +257,46 @@ export function ClienteForm({ cliente, onSuccess, onCancel }: ClienteFormProps)
           Data não pode ser futura nem anterior a 1900
         </Text>
 
+        {/* Conflito de edição (HTTP 412) */}
+        {conflito && (
+          <Alert
+            icon={<IconAlertTriangle size={16} />}
+            title="Cliente alterado por outro usuário"
+            color="yellow"
+            variant="light"
+            role="alert"
+            data-testid="cliente-conflito"
+          >
+            <Text size="sm">
+              Enquanto você editava, o cadastro foi salvo com:
+            </Text>
+            <Text size="sm" fw={600}>
+              {conflito.nome} {conflito.sobrenome}
+              {conflito.cpf ? ` • CPF ${conflito.cpf}` : ''}
+              {conflito.dataNascimento ? ` • Nascimento ${conflito.dataNascimento.split('T')[0]}` : ''}
+            </Text>
+            <Group gap="xs" mt="sm">
+              <Button
+                size="xs"
+                variant="light"
+                onClick={handleCarregarAtual}
+                data-testid="btn-carregar-atual"
+              >
+                Carregar dados atuais
+              </Button>
+              <Button
+                size="xs"
+                color="yellow"
+                onClick={handleSobrescrever}
+                loading={isLoading}
+                data-testid="btn-sobrescrever"
+              >
+                Salvar minhas alterações
+              </Button>
+            </Group>
+          </Alert>
+        )}
+
         {/* Botões de ação */}
         <Group justify="flex-end" mt="lg" gap="sm">
           <Button
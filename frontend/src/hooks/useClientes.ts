@@ -18,7 +18,8 @@ import {
   ClienteCreateRequest,
   ClienteQueryParams,
   ClienteListResponse,
-  ClienteEstatisticas
+  ClienteEstatisticas,
+  extrairConflitoVersao
 } from '@/services/clienteService';
 
 // Chaves para React Query
@@ -62,10 +63,11 @@ export function useCliente(id: string | undefined) {
 /**
  * Hook para estatísticas de clientes
  */
-export function useClienteEstatisticas() {
+export function useClienteEstatisticas(enabled: boolean = true) {
   return useQuery({
     queryKey: CLIENTE_QUERY_KEYS.estatisticas(),
     queryFn: () => clienteService.obterEstatisticas(),
+    enabled,
     staleTime: 2 * 60 * 1000, // 2 minutos (dados mais voláteis)
     gcTime: 5 * 60 * 1000,
   });
@@ -124,8 +126,8 @@ export function useUpdateCliente() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, dados }: { id: string; dados: ClienteCreateRequest }) =>
-      clienteService.atualizar(id, dados),
+    mutationFn: ({ id, dados, versao }: { id: string; dados: ClienteCreateRequest; versao?: number }) =>
+      clienteService.atualizar(id, dados, versao),
     onSuccess: (data, variables) => {
       // Invalidar cache de listas
       queryClient.invalidateQueries({ queryKey: CLIENTE_QUERY_KEYS.lists() });
@@ -140,7 +142,21 @@ export function useUpdateCliente() {
         color: 'green',
       });
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      const atual = extrairConflitoVersao(error);
+      if (atual) {
+        // Cache passa a refletir o cadastro salvo pelo outro usuário
+        queryClient.setQueryData(CLIENTE_QUERY_KEYS.detail(variables.id), { success: true, data: atual });
+        queryClient.invalidateQueries({ queryKey: CLIENTE_QUERY_KEYS.lists() });
+
+        notifications.show({
+          title: 'Conflito de edição ⚠️',
+          message: 'Cliente alterado por outro usuário. Revise os dados atuais antes de salvar.',
+          color: 'yellow',
+        });
+        return;
+      }
+
       const message = error.response?.data?.error || 'Erro ao atualizar cliente';
       notifications.show({
         title: 'Erro ❌',
@@ -0,0 +1,42 @@
+/**
+ * Hook useDashboard - React Query
+ * Indicadores do dashboard; cada consulta só roda com a permissão do módulo
+ */
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { dashboardService } from '@/services/dashboardService';
+
+// Chaves para React Query
+export const DASHBOARD_QUERY_KEYS = {
+  all: ['dashboard'] as const,
+  vendas: () => [...DASHBOARD_QUERY_KEYS.all, 'vendas'] as const,
+  produtos: () => [...DASHBOARD_QUERY_KEYS.all, 'produtos'] as const,
+};
+
+/**
+ * Hook para estatísticas de vendas
+ */
+export function useVendaEstatisticas(enabled: boolean = true) {
+  return useQuery({
+    queryKey: DASHBOARD_QUERY_KEYS.vendas(),
+    queryFn: () => dashboardService.obterEstatisticasVendas(),
+    enabled,
+    staleTime: 60 * 1000, // 1 minuto (vendas do dia mudam a todo momento)
+    gcTime: 5 * 60 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+/**
+ * Hook para estatísticas de produtos
+ */
+export function useProdutoEstatisticas(enabled: boolean = true) {
+  return useQuery({
+    queryKey: DASHBOARD_QUERY_KEYS.produtos(),
+    queryFn: () => dashboardService.obterEstatisticasProdutos(),
+    enabled,
+    staleTime: 2 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
@@ -12,6 +12,7 @@ export interface Cliente {
   cpf?: string | null;
   dataNascimento?: string | null;
   ativo: boolean;
+  versao: number;
   dataCadastro: string;
   dataUltimaAtualizacao: string;
   tenantId: string;
@@ -71,6 +72,14 @@ export interface ClienteQueryParams {
   ativo?: boolean;
 }
 
+/**
+ * Cliente atual enviado pela API quando o cadastro foi alterado por outro
+ * usuário desde a versão editada (HTTP 412); null para os demais erros
+ */
+export function extrairConflitoVersao(error: any): Cliente | null {
+  return error?.response?.status === 412 ? error.response.data?.data ?? null : null;
+}
+
 /**
  * Classe ClienteService - Todas operações de cliente
  */
@@ -110,9 +119,12 @@ export class ClienteService {
 
   /**
    * Atualizar cliente existente
+   * Com a versão lida, a API recusa (412) se outro usuário salvou antes
    */
-  async atualizar(id: string, dados: ClienteCreateRequest): Promise<ClienteResponse> {
-    const response = await api.put(`${this.baseUrl}/${id}`, dados);
+  async atualizar(id: string, dados: ClienteCreateRequest, versao?: number): Promise<ClienteResponse> {
+    const response = await api.put(`${this.baseUrl}/${id}`, dados, {
+      headers: versao !== undefined ? { 'If-Match': `"${versao}"` } : undefined
+    });
     return response.data;
   }
 
@@ -0,0 +1,77 @@
+/**
+ * Dashboard Service - Indicadores de vendas e produtos
+ * Números de vendas vêm dos resumos diários pré-agregados do backend
+ */
+import { api } from '@/lib/api';
+
+export interface VendasPorDia {
+  dia: string;
+  vendas: number;
+  faturamento: number;
+}
+
+export interface VendaEstatisticas {
+  totalHoje: number;
+  faturamentoHoje: number;
+  totalMes: number;
+  faturamentoMes: number;
+  itensMes: number;
+  totalCanceladas: number;
+  ticketMedioMes: number;
+  vendasAbertas: number;
+  valorEmAberto: number;
+  ultimos7Dias: VendasPorDia[];
+  formasPagamentoMes: Array<{ forma: string; vendas: number; valor: number }>;
+}
+
+export interface ProdutoMaisVendido {
+  produtoId: string;
+  produto: string;
+  unidadeMedida: string;
+  quantidade: number;
+  valor: number;
+}
+
+export interface ProdutoEstatisticas {
+  total: number;
+  ativos: number;
+  inativos: number;
+  categorias: number;
+  estoqueBaixo: number;
+  semEstoque: number;
+  precoMedio: number;
+  maisVendidosMes: ProdutoMaisVendido[];
+}
+
+export interface EstatisticasResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+export class DashboardService {
+  /**
+   * Estatísticas de vendas (hoje, mês, últimos 7 dias)
+   */
+  async obterEstatisticasVendas(): Promise<EstatisticasResponse<VendaEstatisticas>> {
+    const response = await api.get('/vendas/estatisticas');
+    return response.data;
+  }
+
+  /**
+   * Estatísticas de produtos (estoque e mais vendidos no mês)
+   */
+  async obterEstatisticasProdutos(): Promise<EstatisticasResponse<ProdutoEstatisticas>> {
+    const response = await api.get('/produtos/estatisticas');
+    return response.data;
+  }
+}
+
+// Instância singleton para uso em toda aplicação
+export const dashboardService = new DashboardService();
+
+export const formatarMoeda = (valor: number): string =>
+  valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+// Quantidades fracionadas (KG, L, M) com até 3 casas: 0,35 KG
+export const formatarQuantidade = (valor: number): string =>
+  valor.toLocaleString('pt-BR', { maximumFractionDigits: 3 });